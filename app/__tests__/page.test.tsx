@@ -102,11 +102,50 @@ describe('Bulk Approval Integration', () => {
     await waitFor(() => {
       expect(global.fetch).toHaveBeenCalledWith('/api/assets/bulk-approve', expect.objectContaining({
         method: 'POST',
-        body: JSON.stringify({ assetIds: ['1'] })
+        body: JSON.stringify({ assetIds: ['1'], revisions: { '1': 0 } })
       }));
     });
   });
 
+  it('should show the current record and keep the selection on a conflict', async () => {
+    const draft = {
+      id: '1',
+      status: 'Draft',
+      meta_description: 'Test 1',
+      date: '2026-01-31',
+      revision: 2,
+      active_version: 1,
+      versions: [{ version: 1, file_path: '/uploads/1/v1.png', created_at: '2026-01-14T00:00:00Z', prompt_used: 'test' }],
+      created_at: '2026-01-14T00:00:00Z',
+      asset_url: 'https://example.com/test1.png'
+    };
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ success: true, assets: [draft] }) })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        json: async () => ({
+          success: false,
+          error: '1 asset was modified by someone else',
+          conflicts: [{ ...draft, revision: 3, meta_description: 'Test 1 (edited)' }]
+        })
+      });
+
+    render(<Dashboard />);
+    await waitFor(() => screen.getByText('Test 1'));
+
+    fireEvent.click(screen.getAllByRole('checkbox')[0]);
+    fireEvent.click(await screen.findByLabelText(/Approve \d+ selected assets/i));
+
+    await waitFor(() => {
+      expect(screen.getByText('Test 1 (edited)')).toBeInTheDocument();
+    });
+    expect(global.fetch).toHaveBeenCalledWith('/api/assets/bulk-approve', expect.objectContaining({
+      body: JSON.stringify({ assetIds: ['1'], revisions: { '1': 2 } })
+    }));
+    expect(screen.getByLabelText(/Approve \d+ selected assets/i)).toBeInTheDocument();
+  });
+
   it('should clear selection when filters change', async () => {
     const mockAssets = {
       success: true,
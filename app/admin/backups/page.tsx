@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react';
+import Button from '@/components/Button';
+import Modal from '@/components/Modal';
+import EmptyState from '@/components/EmptyState';
+import toast from 'react-hot-toast';
+import type { HistoryBackupInfo, HistoryBackupPreview, HistoryDiffEntry } from '@/lib/types';
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function DiffList({ title, entries, tone }: { title: string; entries: HistoryDiffEntry[]; tone: string }) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className={`text-sm font-semibold mb-2 ${tone}`}>
+        {title} ({entries.length})
+      </h4>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-border-primary bg-bg-tertiary border border-border-primary rounded-lg">
+        {entries.map(entry => (
+          <li key={entry.id} className="px-4 py-2 text-sm flex items-center justify-between gap-4">
+            <span className="text-fg-primary truncate">{entry.meta_description}</span>
+            <span className="text-xs text-fg-tertiary shrink-0">{entry.status}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function BackupsPage() {
+  const [backups, setBackups] = useState<HistoryBackupInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<HistoryBackupPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchBackups = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/history/backups');
+      const data = await response.json();
+
+      if (data.success) {
+        setBackups(data.backups);
+      } else {
+        toast.error(data.error || 'Failed to load backups');
+      }
+    } catch (error) {
+      console.error('Failed to load backups:', error);
+      toast.error('An error occurred while loading backups.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBackups();
+  }, [fetchBackups]);
+
+  const handleSelect = async (backupId: string) => {
+    setSelectedId(backupId);
+    setPreview(null);
+    setPreviewLoading(true);
+
+    try {
+      const response = await fetch(`/api/history/backups/${encodeURIComponent(backupId)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setPreview(data.preview);
+      } else {
+        toast.error(data.error || 'Failed to preview backup');
+      }
+    } catch (error) {
+      console.error('Failed to preview backup:', error);
+      toast.error('An error occurred while previewing the backup.');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+
+    setRestoring(true);
+    try {
+      const response = await fetch(`/api/history/backups/${encodeURIComponent(selectedId)}/restore`, {
+        method: 'POST'
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(`Restored ${data.result.asset_count} assets. Safety backup saved.`);
+        setConfirmOpen(false);
+        setSelectedId(null);
+        setPreview(null);
+        await fetchBackups();
+      } else {
+        toast.error(data.error || 'Failed to restore backup');
+      }
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      toast.error('An error occurred while restoring. Please try again.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-bg-primary pt-24 pb-12 px-6">
+      <div className="max-w-6xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-fg-primary tracking-tight mb-2">
+              History Backups
+            </h1>
+            <p className="text-lg text-fg-secondary">
+              Inspect and restore history snapshots stored in S3
+            </p>
+          </div>
+          <Button variant="secondary" onClick={fetchBackups} disabled={loading}>
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Backup List */}
+          <div className="bg-bg-secondary border border-border-primary rounded-xl overflow-hidden">
+            {loading ? (
+              <p className="p-6 text-sm text-fg-secondary">Loading backups...</p>
+            ) : backups.length === 0 ? (
+              <EmptyState
+                title="No backups yet"
+                description="History backups appear here once S3 backups are enabled."
+              />
+            ) : (
+              <ul className="divide-y divide-border-primary max-h-[70vh] overflow-y-auto">
+                {backups.map(backup => (
+                  <li key={backup.id}>
+                    <button
+                      onClick={() => handleSelect(backup.id)}
+                      className={`w-full px-5 py-3 text-left transition-colors ${
+                        selectedId === backup.id ? 'bg-bg-tertiary' : 'hover:bg-bg-tertiary/50'
+                      }`}
+                    >
+                      <p className="text-sm font-medium text-fg-primary">
+                        {new Date(backup.last_modified).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-fg-tertiary font-mono truncate">
+                        {backup.id} · {formatSize(backup.size)}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="bg-bg-secondary border border-border-primary rounded-xl p-6 space-y-5">
+            {!selectedId ? (
+              <p className="text-sm text-fg-secondary">Select a backup to preview it.</p>
+            ) : previewLoading || !preview ? (
+              <p className="text-sm text-fg-secondary">{previewLoading ? 'Loading preview...' : 'Preview unavailable.'}</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div>
+                    <p className="text-2xl font-bold text-fg-primary">{preview.asset_count}</p>
+                    <p className="text-xs text-fg-tertiary">Assets in backup</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-fg-primary">{preview.version_count}</p>
+                    <p className="text-xs text-fg-tertiary">Versions</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-fg-primary">{preview.current_asset_count}</p>
+                    <p className="text-xs text-fg-tertiary">Assets now</p>
+                  </div>
+                </div>
+
+                <DiffList title="Restored (missing now)" entries={preview.diff.added} tone="text-success" />
+                <DiffList title="Reverted (changed since backup)" entries={preview.diff.changed} tone="text-warning" />
+                <DiffList title="Removed (added since backup)" entries={preview.diff.removed} tone="text-error" />
+                <p className="text-xs text-fg-tertiary">
+                  {preview.diff.unchanged_count} assets unchanged
+                </p>
+
+                <Button variant="danger" onClick={() => setConfirmOpen(true)} className="w-full">
+                  Restore this backup
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Modal isOpen={confirmOpen} onClose={() => !restoring && setConfirmOpen(false)} title="Restore backup?" size="sm">
+        <div className="space-y-4">
+          <p className="text-sm text-fg-secondary">
+            The current history will be replaced with this backup. A safety backup of the current
+            history is saved to S3 first, so this can be undone.
+          </p>
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={() => setConfirmOpen(false)} disabled={restoring} className="flex-1">
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={handleRestore} disabled={restoring} className="flex-1">
+              {restoring ? 'Restoring...' : 'Restore'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { GET } from './route';
+import { NextRequest } from 'next/server';
+import { getAsset, getAssetAuditTrail } from '@/lib/history';
+import type { AuditEvent } from '@/lib/types';
+
+jest.mock('@/lib/history');
+
+const EVENT: AuditEvent = {
+  id: 'event-1',
+  asset_id: 'asset-1',
+  action: 'status_changed',
+  actor: 'api',
+  at: '2026-01-20T10:00:00.000Z',
+  changes: { status: { before: 'Draft', after: 'Ready' } }
+};
+
+function callAudit(assetId: string) {
+  const request = new NextRequest(`http://localhost:3000/api/assets/${assetId}/audit`);
+  return GET(request, { params: Promise.resolve({ assetId }) });
+}
+
+describe('GET /api/assets/[assetId]/audit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the audit events', async () => {
+    (getAssetAuditTrail as jest.Mock).mockResolvedValue([EVENT]);
+
+    const response = await callAudit('asset-1');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, events: [EVENT] });
+    expect(getAssetAuditTrail).toHaveBeenCalledWith('asset-1');
+  });
+
+  it('should return events for a deleted asset', async () => {
+    const deleted: AuditEvent = { ...EVENT, action: 'deleted' };
+    (getAssetAuditTrail as jest.Mock).mockResolvedValue([deleted]);
+    (getAsset as jest.Mock).mockResolvedValue(null);
+
+    const response = await callAudit('asset-1');
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).events).toEqual([deleted]);
+  });
+
+  it('should return an empty trail for an asset without events', async () => {
+    (getAssetAuditTrail as jest.Mock).mockResolvedValue([]);
+    (getAsset as jest.Mock).mockResolvedValue({ id: 'asset-1' });
+
+    const response = await callAudit('asset-1');
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).events).toEqual([]);
+  });
+
+  it('should return 404 for an unknown asset', async () => {
+    (getAssetAuditTrail as jest.Mock).mockResolvedValue([]);
+    (getAsset as jest.Mock).mockResolvedValue(null);
+
+    const response = await callAudit('missing');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ success: false, error: 'Asset not found' });
+  });
+
+  it('should return 500 when the trail cannot be read', async () => {
+    (getAssetAuditTrail as jest.Mock).mockRejectedValue(new Error('Failed to read audit trail: EACCES'));
+
+    const response = await callAudit('asset-1');
+
+    expect(response.status).toBe(500);
+  });
+});
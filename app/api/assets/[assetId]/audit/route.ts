@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAsset, getAssetAuditTrail } from '@/lib/history';
+
+/**
+ * GET /api/assets/[assetId]/audit
+ * Fetch an asset's audit trail
+ *
+ * Steps:
+ * 1. Validate assetId
+ * 2. Read the asset's audit events
+ * 3. Return 404 only if the asset has neither events nor a history record
+ *    (events outlive deleted assets)
+ *
+ * Response:
+ * - success: true
+ * - events: AuditEvent[] oldest first (on success)
+ * - error: Error message (on failure)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetId: string }> }
+) {
+  try {
+    // 1. Validate assetId
+    const { assetId } = await params;
+
+    if (!assetId || typeof assetId !== 'string' || assetId.trim() === '') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid assetId format' },
+        { status: 400 }
+      );
+    }
+
+    // 2. Read audit events
+    const events = await getAssetAuditTrail(assetId);
+
+    // 3. Unknown asset
+    if (events.length === 0 && !(await getAsset(assetId))) {
+      return NextResponse.json(
+        { success: false, error: 'Asset not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        events
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to get audit trail:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to get audit trail: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { POST } from './route';
+import { NextRequest } from 'next/server';
+import { getAsset } from '@/lib/history';
+import { enqueueBackgroundJob } from '@/lib/background-jobs';
+import { resolvePromptTemplate } from '@/lib/prompt-templates';
+import { config } from '@/lib/config';
+import type { AssetMetadata } from '@/lib/types';
+
+jest.mock('@/lib/history');
+jest.mock('@/lib/background-jobs', () => ({ enqueueBackgroundJob: jest.fn() }));
+jest.mock('@/lib/prompt-templates', () => ({ resolvePromptTemplate: jest.fn() }));
+jest.mock('@/lib/jobs', () => ({ getActiveJobs: jest.fn() }));
+
+const ASSET: AssetMetadata = {
+  id: 'asset-1',
+  date: '2026-01-20',
+  asset_url: '/uploads/asset-1.png',
+  meta_description: 'Asset 1',
+  status: 'Draft',
+  created_at: '2026-01-13T10:00:00Z',
+  revision: 2,
+  active_version: 1,
+  versions: [
+    { version: 1, created_at: '2026-01-14T10:00:00Z', prompt_used: 'prompt', file_path: '/uploads/asset-1/background_v1.png' }
+  ]
+};
+
+function call(body: unknown) {
+  const request = new NextRequest('http://localhost:3000/api/assets/asset-1/background', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return POST(request, { params: Promise.resolve({ assetId: 'asset-1' }) });
+}
+
+describe('POST /api/assets/[assetId]/background', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getAsset as jest.Mock).mockResolvedValue(ASSET);
+    (resolvePromptTemplate as jest.Mock).mockResolvedValue({
+      template: { id: 'iconscout' },
+      version: { version: 1, system_prompt: 's', user_prompt: 'u' }
+    });
+    (enqueueBackgroundJob as jest.Mock).mockImplementation(async (assetId: string, params: Record<string, unknown>) =>
+      ({ id: 'job-1', asset_id: assetId, status: 'queued', params }));
+  });
+
+  it('should queue a refinement of the active version', async () => {
+    const response = await call({ refinementPrompt: ' Make it warmer ', provider: 'openrouter' });
+
+    expect(response.status).toBe(202);
+    expect(response.headers.get('Location')).toBe('/api/jobs/job-1');
+    expect(enqueueBackgroundJob).toHaveBeenCalledWith(
+      'asset-1',
+      expect.objectContaining({ refinementPrompt: 'Make it warmer', parentVersion: 1, provider: 'openrouter' }),
+      expect.any(String)
+    );
+  });
+
+  it('should reject a refinement with a provider that cannot edit an image', async () => {
+    const response = await call({ refinementPrompt: 'Make it warmer', provider: 'procedural' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Background provider procedural can't refine an image");
+    expect(enqueueBackgroundJob).not.toHaveBeenCalled();
+  });
+
+  it('should reject a refinement when the asset has no active version', async () => {
+    (getAsset as jest.Mock).mockResolvedValue({ ...ASSET, active_version: undefined, versions: [] });
+
+    const response = await call({ refinementPrompt: 'Make it warmer' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Asset has no active version to refine');
+  });
+
+  it('should queue several candidates up to BACKGROUND_MAX_CANDIDATES', async () => {
+    const response = await call({ count: config.backgrounds.maxCandidates });
+
+    expect(response.status).toBe(202);
+    expect(enqueueBackgroundJob).toHaveBeenCalledWith(
+      'asset-1',
+      expect.objectContaining({ count: config.backgrounds.maxCandidates }),
+      expect.any(String)
+    );
+  });
+
+  it.each([null, [], 7])('should treat a %p body as no options', async (body) => {
+    const response = await call(body);
+
+    expect(response.status).toBe(202);
+    expect(enqueueBackgroundJob).toHaveBeenCalledWith(
+      'asset-1',
+      { templateId: 'iconscout', templateVersion: 1 },
+      expect.any(String)
+    );
+  });
+
+  it.each([0, 2.5, 'two'])('should reject count %p', async (count) => {
+    const response = await call({ count });
+
+    expect(response.status).toBe(400);
+    expect(enqueueBackgroundJob).not.toHaveBeenCalled();
+  });
+
+  it('should reject more candidates than BACKGROUND_MAX_CANDIDATES', async () => {
+    const response = await call({ count: config.backgrounds.maxCandidates + 1 });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error)
+      .toBe(`count must be an integer from 1 to ${config.backgrounds.maxCandidates}`);
+    expect(enqueueBackgroundJob).not.toHaveBeenCalled();
+  });
+});
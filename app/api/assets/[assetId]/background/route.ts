@@ -2,81 +2,50 @@
  * Background Generation Endpoint
  * POST /api/assets/[assetId]/background
  *
- * Generates AI-powered Instagram Story backgrounds for assets
+ * Queues generation of an AI-powered Instagram Story background for an asset
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getAsset, updateHistory } from '@/lib/history';
-import { generateBackground, saveBase64Image } from '@/lib/openrouter';
-import { analyzeAsset } from '@/lib/vision';
-import { extractDominantColors } from '@/lib/colors';
-import { generatePreview } from '@/lib/preview';
-import type { AssetVersion } from '@/lib/types';
-import { promises as fs } from 'fs';
-import path from 'path';
+import { getAsset } from '@/lib/history';
+import { getBackgroundProvider, type BackgroundProvider } from '@/lib/background-providers';
+import { enqueueBackgroundJob } from '@/lib/background-jobs';
+import { resolvePromptTemplate } from '@/lib/prompt-templates';
 import { config } from '@/lib/config';
-import { uploadToS3, localPathToS3Key } from '@/lib/s3';
-
-/**
- * Default system prompt for background generation
- * From iconscout-brand skill
- */
-const DEFAULT_SYSTEM_PROMPT = `You are an expert background designer for Instagram Stories specializing in the IconScout brand aesthetic.
-
-BRAND STYLE:
-- Modern, clean, vibrant yet professional
-- Abstract, gradient-based, or organic shapes
-- Bold colors that complement (not compete with) the main asset
-- Geometric patterns, smooth gradients, subtle textures
-
-CRITICAL RULES:
-- Generate ONLY the background - DO NOT draw the asset, logo, or text
-- Respect Instagram Story safe zones: top 250px and bottom 180px should avoid critical visual elements
-- The center 70% of the canvas (756x1344 pixels out of 1080x1920) is reserved for the asset overlay
-- Design the background to enhance, not compete with, the asset that will be placed on top
-- Output resolution: 1080x1920 pixels (9:16 aspect ratio)
-
-VISUAL APPROACH:
-- Use abstract shapes and gradients rather than literal objects
-- Create depth with layered shapes or gradient transitions
-- Balance vibrant colors with clean, uncluttered composition
-- Ensure the center area has visual interest but remains suitable for overlay`;
-
-/**
- * Generate default user prompt using asset description, vision analysis, and colors
- */
-function generateDefaultUserPrompt(
-  metaDescription: string,
-  visionDescription?: string,
-  dominantColors?: string[]
-): string {
-  const colorPalette = dominantColors && dominantColors.length > 0
-    ? dominantColors.join(', ')
-    : 'vibrant and bold colors';
-
-  const assetDesc = visionDescription || metaDescription;
-
-  return `Create an Instagram Story background with the following characteristics:
-
-ASSET DESCRIPTION: ${assetDesc}
-META DESCRIPTION: ${metaDescription}
-SUGGESTED COLOR PALETTE (use as guidance, not strict requirement): ${colorPalette}
-
-Design a complementary background that enhances this asset while allowing it to remain the focal point.
-
-STYLE REQUIREMENTS:
-- Abstract and gradient-based design
-- Vibrant colors that enhance without competing
-- Clean center area for asset overlay
-
-CONSTRAINTS:
-- 1080x1920 pixels (9:16 aspect ratio)
-- Keep center 70% relatively clean for asset overlay
-- Avoid critical elements in top 250px and bottom 180px`;
-}
+import { getActiveJobs, type Job } from '@/lib/jobs';
+import { getRequestActor } from '@/lib/audit';
+import { conflictResponse, getRevision, parseIfMatch } from '@/lib/revision';
 
 /**
  * POST handler for background generation
+ *
+ * Request body (optional):
+ * - templateId, templateVersion: Prompt template to render (default: the workspace
+ *   default, current version); 400 if unknown. The job pins the version chosen here
+ * - systemPrompt, userPrompt: Override the template's prompts
+ * - refinementPrompt: Instructions for refining the active version. Its image is
+ *   sent to the model as a reference to edit, and the new versions record it as
+ *   parent_version; 400 if the asset has no active version or the provider can't
+ *   refine an image (a fallback that can't is not used)
+ * - count: Candidate versions to generate, 1 to BACKGROUND_MAX_CANDIDATES (default 1).
+ *   With more than one, each gets a preview and they share a candidate_group
+ *   until POST /api/assets/[assetId]/candidates picks the winner
+ * - reanalyze: true to run vision analysis and color extraction again instead of
+ *   reusing the asset's results or the analysis cache
+ * - provider: Registered background provider to use (default: BACKGROUND_PROVIDER);
+ *   400 if unknown. If it fails, BACKGROUND_FALLBACK_PROVIDER is used instead and
+ *   the job result's fallback_from names the failed provider and its error
+ *
+ * Response (202):
+ * - success: true
+ * - job: The queued job (poll GET /api/jobs/{job.id}, also sent as Location)
+ *
+ * The job runs vision analysis, color extraction, generation, save and
+ * preview as stages; when it succeeds, job.result.versions are the new versions
+ * (job.result.version is the first, now active).
+ * Returns 409 with active_job if the asset already has a job queued or running.
+ *
+ * Honors If-Match: returns 409 with the current asset if its revision
+ * differs up front; the job fails if the asset changes while it runs.
  */
 export async function POST(
   request: NextRequest,
@@ -94,6 +63,14 @@ export async function POST(
       );
     }
 
+    const expectedRevision = parseIfMatch(request.headers.get('if-match'));
+    if (expectedRevision === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid If-Match header' },
+        { status: 400 }
+      );
+    }
+
     // Get asset from history
     const asset = await getAsset(assetId);
 
@@ -105,182 +82,122 @@ export async function POST(
       );
     }
 
-    // Get local asset path (assets are already saved during upload)
-    const localAssetPath = path.join(
-      process.cwd(),
-      'public',
-      asset.asset_url.replace(/^\//, '')
-    );
-
-    // Run vision analysis if not already done
-    if (!asset.asset_vision_description) {
-      try {
-        const description = await analyzeAsset(localAssetPath);
-        await updateHistory((history) => {
-          const idx = history.assets.findIndex(a => a.id === assetId);
-          if (idx !== -1) {
-            history.assets[idx].asset_vision_description = description;
-          }
-          return history;
-        });
-        asset.asset_vision_description = description;
-      } catch (error) {
-        console.error('Vision analysis failed:', error);
-        // Use meta_description as fallback
-      }
+    // Reject stale edits before spending a generation
+    if (expectedRevision !== undefined && getRevision(asset) !== expectedRevision) {
+      return conflictResponse(asset);
     }
 
-    // Run color extraction if not already done
-    if (!asset.dominant_colors || asset.dominant_colors.length === 0) {
-      try {
-        const colors = await extractDominantColors(localAssetPath);
-        await updateHistory((history) => {
-          const idx = history.assets.findIndex(a => a.id === assetId);
-          if (idx !== -1) {
-            history.assets[idx].dominant_colors = colors;
-          }
-          return history;
-        });
-        asset.dominant_colors = colors;
-      } catch (error) {
-        console.error('Color extraction failed:', error);
-        // Continue without colors (prompt will use fallback)
-      }
+    if (asset.deleted_at) {
+      return NextResponse.json(
+        { success: false, error: 'Asset is in the trash; restore it first' },
+        { status: 409 }
+      );
     }
 
     // Parse request body
-    let body: { systemPrompt?: string; userPrompt?: string } = {};
+    let body: {
+      systemPrompt?: string;
+      userPrompt?: string;
+      refinementPrompt?: string;
+      provider?: string;
+      templateId?: string;
+      templateVersion?: number;
+      count?: number;
+      reanalyze?: boolean;
+    } = {};
     try {
-      body = await request.json();
+      const parsed = await request.json();
+      // Valid JSON that isn't an object (null, an array, a number) counts as no options
+      body = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
     } catch (error) {
       // Body is optional, so empty body is acceptable
       body = {};
     }
 
-    // Extract or use default prompts
-    const systemPrompt = body.systemPrompt || DEFAULT_SYSTEM_PROMPT;
-    const userPrompt = body.userPrompt || generateDefaultUserPrompt(
-      asset.meta_description,
-      asset.asset_vision_description,
-      asset.dominant_colors
-    );
-
-    // Combine prompts for storage
-    const fullPromptUsed = `SYSTEM:\n${systemPrompt}\n\nUSER:\n${userPrompt}`;
-
-    // Call generateBackground from lib/openrouter.ts
-    let backgroundImageData: string;
-    try {
-      backgroundImageData = await generateBackground(systemPrompt, userPrompt);
-    } catch (error) {
+    const count = body.count ?? 1;
+    if (!Number.isInteger(count) || count < 1 || count > config.backgrounds.maxCandidates) {
       return NextResponse.json(
-        {
-          success: false,
-          error: `Background generation failed: ${error instanceof Error ? error.message : String(error)}`
-        },
-        { status: 500 }
+        { success: false, error: `count must be an integer from 1 to ${config.backgrounds.maxCandidates}` },
+        { status: 400 }
       );
     }
 
-    // Save generated background image to disk
-    const assetDir = path.join(process.cwd(), 'public', 'uploads', assetId);
-    await fs.mkdir(assetDir, { recursive: true });
-
-    const versionNumber = asset.versions.length + 1;
-    const backgroundFileName = `background_v${versionNumber}.png`;
-    const backgroundPath = path.join(assetDir, backgroundFileName);
-    const publicPath = `/uploads/${assetId}/${backgroundFileName}`;
+    if (body.refinementPrompt !== undefined && typeof body.refinementPrompt !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'refinementPrompt must be a string' },
+        { status: 400 }
+      );
+    }
+    // Refinements edit the version the user was looking at
+    const refinementPrompt = body.refinementPrompt?.trim();
+    if (refinementPrompt && !asset.versions.some(v => v.version === asset.active_version)) {
+      return NextResponse.json(
+        { success: false, error: 'Asset has no active version to refine' },
+        { status: 400 }
+      );
+    }
 
-    // Save base64 image to disk
+    // Check the background provider now rather than failing the job later
+    let provider: BackgroundProvider;
     try {
-      await saveBase64Image(backgroundImageData, backgroundPath);
+      provider = getBackgroundProvider(body.provider || undefined);
     } catch (error) {
       return NextResponse.json(
-        {
-          success: false,
-          error: `Failed to save background image: ${error instanceof Error ? error.message : String(error)}`
-        },
-        { status: 500 }
+        { success: false, error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+    if (refinementPrompt && !provider.supportsReferenceImage) {
+      return NextResponse.json(
+        { success: false, error: `Background provider ${provider.name} can't refine an image` },
+        { status: 400 }
       );
     }
 
-    // Upload to S3 if storage mode is hybrid or s3
-    let finalPublicPath = publicPath;
-    if (config.storage?.mode === 'hybrid' || config.storage?.mode === 's3') {
+    // Pin the template version so a resumed job renders the same prompts
+    let template: Awaited<ReturnType<typeof resolvePromptTemplate>> | undefined;
+    if (!body.systemPrompt || !body.userPrompt) {
       try {
-        const s3Key = localPathToS3Key(publicPath);
-        const s3Url = await uploadToS3(backgroundPath, s3Key, 'image/png');
-        finalPublicPath = s3Url;
-        console.log(`[Background] Uploaded to S3: ${s3Url}`);
-      } catch (s3Error) {
-        console.error('[Background] S3 upload failed:', s3Error);
-        if (config.storage?.mode === 's3') {
-          return NextResponse.json(
-            {
-              success: false,
-              error: `Failed to upload to S3: ${s3Error instanceof Error ? s3Error.message : 'Unknown error'}`
-            },
-            { status: 500 }
-          );
+        template = await resolvePromptTemplate(body.templateId || undefined, body.templateVersion);
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Unknown prompt template')) {
+          return NextResponse.json({ success: false, error: error.message }, { status: 400 });
         }
+        throw error;
       }
     }
 
-    // Create new AssetVersion
-    const newVersion: AssetVersion = {
-      version: versionNumber,
-      created_at: new Date().toISOString(),
-      prompt_used: fullPromptUsed, // Store full prompt (system + user)
-      file_path: finalPublicPath // Use S3 URL if uploaded, otherwise local path
-    };
-
-    // Update asset with new version
+    let job: Job;
     try {
-      await updateHistory((history) => {
-        const assetIndex = history.assets.findIndex(a => a.id === assetId);
-        if (assetIndex === -1) {
-          throw new Error(`Asset with id ${assetId} not found`);
-        }
-
-        const updatedAssets = [...history.assets];
-        updatedAssets[assetIndex] = {
-          ...updatedAssets[assetIndex],
-          versions: [...updatedAssets[assetIndex].versions, newVersion],
-          active_version: newVersion.version,
-          updated_at: new Date().toISOString()
-        };
-
-        return {
-          ...history,
-          assets: updatedAssets
-        };
-      });
-    } catch (error) {
-      return NextResponse.json(
+      job = await enqueueBackgroundJob(
+        assetId,
         {
-          success: false,
-          error: `Failed to update asset history: ${error instanceof Error ? error.message : String(error)}`
+          ...(body.systemPrompt ? { systemPrompt: body.systemPrompt } : {}),
+          ...(body.userPrompt ? { userPrompt: body.userPrompt } : {}),
+          ...(refinementPrompt ? { refinementPrompt, parentVersion: asset.active_version } : {}),
+          ...(body.provider ? { provider: body.provider } : {}),
+          ...(count > 1 ? { count } : {}),
+          ...(body.reanalyze === true ? { reanalyze: true } : {}),
+          ...(template ? { templateId: template.template.id, templateVersion: template.version.version } : {}),
+          ...(expectedRevision !== undefined ? { expectedRevision } : {})
         },
-        { status: 500 }
+        getRequestActor(request)
       );
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already has an active job')) {
+        const [activeJob] = await getActiveJobs(assetId);
+        return NextResponse.json(
+          { success: false, error: 'A background is already being generated for this asset', active_job: activeJob },
+          { status: 409 }
+        );
+      }
+      throw error;
     }
 
-    // Generate preview asynchronously (don't block response)
-    void generatePreview(assetId, newVersion.version)
-      .then(result => {
-        if (!result.success) {
-          console.warn(`Preview generation failed for ${assetId} v${newVersion.version}:`, result.error);
-        }
-      })
-      .catch(error => {
-        console.error(`Preview generation error for ${assetId} v${newVersion.version}:`, error);
-      });
-
-    // Return success response
-    return NextResponse.json({
-      success: true,
-      version: newVersion
-    });
+    return NextResponse.json(
+      { success: true, job },
+      { status: 202, headers: { Location: `/api/jobs/${job.id}` } }
+    );
 
   } catch (error) {
     // Handle any unexpected errors
@@ -0,0 +1,69 @@
+import { POST } from './route';
+import { NextRequest } from 'next/server';
+import { getAsset } from '@/lib/history';
+import { pickCandidate } from '@/lib/candidates';
+import { makeAsset } from '@/lib/__tests__/asset-fixtures';
+
+jest.mock('@/lib/history');
+jest.mock('@/lib/candidates', () => ({ pickCandidate: jest.fn() }));
+
+const ASSET = makeAsset('asset-1', {
+  revision: 3,
+  active_version: 2,
+  versions: [2, 3].map(version => ({
+    version,
+    created_at: '2026-01-21T10:00:00.000Z',
+    prompt_used: 'prompt',
+    file_path: `/uploads/asset-1/background_v${version}.png`,
+    candidate_group: 'job-1'
+  }))
+});
+
+function call(body: unknown) {
+  const request = new NextRequest('http://localhost:3000/api/assets/asset-1/candidates', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return POST(request, { params: Promise.resolve({ assetId: 'asset-1' }) });
+}
+
+describe('POST /api/assets/[assetId]/candidates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getAsset as jest.Mock).mockResolvedValue(ASSET);
+    (pickCandidate as jest.Mock).mockImplementation(async (_assetId: string, version: number) => ({
+      asset: { ...ASSET, active_version: version, revision: 4 },
+      discarded: [2],
+      kept: []
+    }));
+  });
+
+  it('should activate the picked candidate', async () => {
+    const response = await call({ version: 3 });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"4"');
+    expect(data).toMatchObject({ success: true, discarded: [2], kept: [] });
+    expect(pickCandidate).toHaveBeenCalledWith('asset-1', 3, expect.objectContaining({ keepAlternates: false }));
+  });
+
+  it.each([null, [], 'three'])('should return 400 for a %p body', async (body) => {
+    const response = await call(body);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ success: false, error: 'version must be an integer' });
+    expect(pickCandidate).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 for an asset in the trash', async () => {
+    (getAsset as jest.Mock).mockResolvedValue({ ...ASSET, deleted_at: '2026-02-01T00:00:00.000Z' });
+
+    const response = await call({ version: 3 });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ success: false, error: 'Asset is in the trash; restore it first' });
+    expect(pickCandidate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAsset } from '@/lib/history';
+import { pickCandidate, type CandidatePickResult } from '@/lib/candidates';
+import { getRequestActor } from '@/lib/audit';
+import { conflictResponse, formatEtag, getRevision, isRevisionConflict, parseIfMatch } from '@/lib/revision';
+
+/**
+ * POST /api/assets/[assetId]/candidates
+ * Pick the winning background candidate
+ *
+ * Request body:
+ * - version: Candidate version to make active
+ * - keep_alternates: Keep the other candidates as versions (default: discard
+ *   them and delete their files)
+ *
+ * Steps:
+ * 1. Validate assetId, If-Match and body
+ * 2. Return 404 if the asset doesn't exist
+ * 3. Return 409 if its revision differs from If-Match or it is in the trash
+ * 4. Activate the winner and settle its candidate group (revision re-checked
+ *    under the history lock); 404 if the version doesn't exist, 409 if it isn't
+ *    a pending candidate
+ *
+ * Response:
+ * - success: true/false
+ * - asset: Updated AssetMetadata (on success; ETag header holds its revision)
+ * - discarded, kept: Version numbers of the other candidates
+ * - error: Error message (on failure)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetId: string }> }
+) {
+  try {
+    // 1. Validate assetId, If-Match and body
+    const { assetId } = await params;
+
+    if (!assetId || typeof assetId !== 'string' || assetId.trim() === '') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid assetId format' },
+        { status: 400 }
+      );
+    }
+
+    const expectedRevision = parseIfMatch(request.headers.get('if-match'));
+    if (expectedRevision === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid If-Match header' },
+        { status: 400 }
+      );
+    }
+
+    let body: { version?: unknown; keep_alternates?: unknown };
+    try {
+      const parsed = await request.json();
+      // Valid JSON that isn't an object (null, an array, a number) counts as an empty body
+      body = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      body = {};
+    }
+
+    if (typeof body.version !== 'number' || !Number.isInteger(body.version)) {
+      return NextResponse.json(
+        { success: false, error: 'version must be an integer' },
+        { status: 400 }
+      );
+    }
+
+    // 2. Find the asset
+    const asset = await getAsset(assetId);
+    if (!asset) {
+      return NextResponse.json(
+        { success: false, error: 'Asset not found' },
+        { status: 404 }
+      );
+    }
+
+    // 3. Check revision; trashed assets can't be edited until restored
+    if (expectedRevision !== undefined && getRevision(asset) !== expectedRevision) {
+      return conflictResponse(asset);
+    }
+
+    if (asset.deleted_at) {
+      return NextResponse.json(
+        { success: false, error: 'Asset is in the trash; restore it first' },
+        { status: 409 }
+      );
+    }
+
+    // 4. Pick
+    let result: CandidatePickResult;
+    try {
+      result = await pickCandidate(assetId, body.version, {
+        keepAlternates: body.keep_alternates === true,
+        expectedRevision,
+        audit: { actor: getRequestActor(request), source: 'POST /api/assets/[assetId]/candidates' }
+      });
+    } catch (error) {
+      const current = isRevisionConflict(error) ? await getAsset(assetId) : null;
+      if (current) {
+        return conflictResponse(current);
+      }
+      if (error instanceof Error && error.message.endsWith('not found')) {
+        return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+      }
+      if (error instanceof Error && error.message.includes('not a pending candidate')) {
+        return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        asset: result.asset,
+        discarded: result.discarded,
+        kept: result.kept
+      },
+      { status: 200, headers: { ETag: formatEtag(result.asset) } }
+    );
+  } catch (error) {
+    console.error('Failed to pick candidate:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to pick candidate: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { POST, GET } from './route';
 import { generatePreview } from '@/lib/preview';
-import { getAsset } from '@/lib/history';
+import { getAsset, updateAsset } from '@/lib/history';
 import { NextRequest } from 'next/server';
 
 jest.mock('@/lib/preview');
@@ -93,6 +93,40 @@ describe('POST /api/assets/[assetId]/preview', () => {
     expect(generatePreview).toHaveBeenCalledWith('test-id', 2);
   });
 
+  it('should switch the asset to the requested layout before composing', async () => {
+    (getAsset as jest.Mock).mockResolvedValue({
+      id: 'test-id',
+      active_version: 1,
+      versions: [{ version: 1, created_at: '2026-01-13T00:00:00Z', prompt_used: 'Test', file_path: '/uploads/test-id/v1.png' }]
+    });
+    (generatePreview as jest.Mock).mockResolvedValue({ success: true, previewUrl: '/uploads/test-id/preview-v1.png' });
+
+    const request = new NextRequest('http://localhost/api/assets/test-id/preview', {
+      method: 'POST',
+      body: JSON.stringify({ layoutId: 'top-aligned' })
+    });
+    const response = await POST(request, { params: Promise.resolve({ assetId: 'test-id' }) });
+
+    expect(response.status).toBe(200);
+    const updateFn = (updateAsset as jest.Mock).mock.calls[0][1];
+    expect(updateFn({ id: 'test-id' })).toMatchObject({ layout_id: 'top-aligned' });
+    expect(generatePreview).toHaveBeenCalledWith('test-id', 1);
+  });
+
+  it('should return 400 for an unknown layout', async () => {
+    (getAsset as jest.Mock).mockResolvedValue({ id: 'test-id', active_version: 1, versions: [] });
+
+    const request = new NextRequest('http://localhost/api/assets/test-id/preview', {
+      method: 'POST',
+      body: JSON.stringify({ layoutId: 'sideways' })
+    });
+    const response = await POST(request, { params: Promise.resolve({ assetId: 'test-id' }) });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Unknown layout: sideways');
+    expect(updateAsset).not.toHaveBeenCalled();
+  });
+
   it('should return 404 if asset not found', async () => {
     (getAsset as jest.Mock).mockResolvedValue(null);
 
@@ -5,10 +5,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generatePreview } from '@/lib/preview';
-import { getAsset } from '@/lib/history';
+import { getAsset, updateAsset } from '@/lib/history';
+import { getLayoutTemplate } from '@/lib/layouts';
+import { getRequestActor } from '@/lib/audit';
+import { config } from '@/lib/config';
 
 /**
  * POST handler for manual preview generation
+ *
+ * Request body (optional):
+ * - version: Version to compose (default: the active version)
+ * - layoutId: Layout template to switch the asset to first (see GET /api/layouts);
+ *   400 if unknown. The preview records the layout on the version
  */
 export async function POST(
   request: NextRequest,
@@ -27,7 +35,14 @@ export async function POST(
 
     // Parse request body
     const body = await request.json();
-    const { version } = body;
+    const { version, layoutId } = body;
+
+    if (layoutId !== undefined && (typeof layoutId !== 'string' || !getLayoutTemplate(layoutId))) {
+      return NextResponse.json(
+        { success: false, error: `Unknown layout: ${layoutId}` },
+        { status: 400 }
+      );
+    }
 
     // Get asset to validate and determine version
     const asset = await getAsset(assetId);
@@ -51,6 +66,16 @@ export async function POST(
       );
     }
 
+    if (layoutId !== undefined && layoutId !== asset.layout_id) {
+      await updateAsset(assetId, (current) => ({
+        ...current,
+        layout_id: layoutId,
+        updated_at: new Date().toISOString()
+      }), config.paths.history, {
+        audit: { actor: getRequestActor(request), source: 'POST /api/assets/[assetId]/preview' }
+      });
+    }
+
     // Generate preview
     const result = await generatePreview(assetId, targetVersion);
 
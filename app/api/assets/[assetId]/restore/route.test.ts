@@ -0,0 +1,79 @@
+import { POST } from './route';
+import { NextRequest } from 'next/server';
+import { getAsset, restoreAsset } from '@/lib/history';
+import type { AssetMetadata } from '@/lib/types';
+
+jest.mock('@/lib/history');
+
+const TRASHED: AssetMetadata = {
+  id: 'asset-1',
+  date: '2026-01-20',
+  asset_url: '/uploads/asset-1.png',
+  meta_description: 'Asset 1',
+  status: 'Ready',
+  created_at: '2026-01-13T10:00:00Z',
+  revision: 4,
+  deleted_at: '2026-01-21T10:00:00.000Z',
+  deleted_by: 'api',
+  versions: []
+};
+
+function call(headers: Record<string, string> = {}) {
+  const request = new NextRequest('http://localhost:3000/api/assets/asset-1/restore', { method: 'POST', headers });
+  return POST(request, { params: Promise.resolve({ assetId: 'asset-1' }) });
+}
+
+describe('POST /api/assets/[assetId]/restore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getAsset as jest.Mock).mockResolvedValue(TRASHED);
+    (restoreAsset as jest.Mock).mockImplementation(async () => {
+      const restored = { ...TRASHED, revision: 5 };
+      delete restored.deleted_at;
+      delete restored.deleted_by;
+      return restored;
+    });
+  });
+
+  it('should restore a trashed asset', async () => {
+    const response = await call({ 'If-Match': '"4"' });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"5"');
+    expect(data.asset.deleted_at).toBeUndefined();
+    expect(data.asset.status).toBe('Ready');
+    expect(restoreAsset).toHaveBeenCalledWith(
+      'asset-1',
+      expect.any(String),
+      expect.objectContaining({ actor: 'api', source: 'POST /api/assets/[assetId]/restore' }),
+      4
+    );
+  });
+
+  it('should return 409 for an asset that is not in the trash', async () => {
+    (getAsset as jest.Mock).mockResolvedValue({ ...TRASHED, deleted_at: undefined });
+
+    const response = await call();
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe('Asset is not in the trash');
+    expect(restoreAsset).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 with the current asset when If-Match is stale', async () => {
+    const response = await call({ 'If-Match': '"3"' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).asset).toEqual(TRASHED);
+    expect(restoreAsset).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for a purged asset', async () => {
+    (getAsset as jest.Mock).mockResolvedValue(null);
+
+    const response = await call();
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAsset, restoreAsset } from '@/lib/history';
+import { config } from '@/lib/config';
+import { getRequestActor } from '@/lib/audit';
+import { conflictResponse, formatEtag, getRevision, isRevisionConflict, parseIfMatch } from '@/lib/revision';
+import type { AssetMetadata } from '@/lib/types';
+
+/**
+ * POST /api/assets/[assetId]/restore
+ * Restore an asset from the trash
+ *
+ * Steps:
+ * 1. Validate assetId and If-Match
+ * 2. Return 404 if the asset was never created or has been purged
+ * 3. Return 409 if it isn't in the trash or its revision differs from If-Match
+ * 4. Clear its trash state (revision re-checked under the history lock)
+ *
+ * Response:
+ * - success: true/false
+ * - asset: Restored AssetMetadata (on success; ETag header holds its revision)
+ * - error: Error message (on failure)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assetId: string }> }
+) {
+  try {
+    // 1. Validate assetId and If-Match
+    const { assetId } = await params;
+
+    if (!assetId || typeof assetId !== 'string' || assetId.trim() === '') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid assetId format' },
+        { status: 400 }
+      );
+    }
+
+    const expectedRevision = parseIfMatch(request.headers.get('if-match'));
+    if (expectedRevision === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid If-Match header' },
+        { status: 400 }
+      );
+    }
+
+    // 2. Find the asset
+    const asset = await getAsset(assetId);
+    if (!asset) {
+      return NextResponse.json(
+        { success: false, error: 'Asset not found' },
+        { status: 404 }
+      );
+    }
+
+    // 3. Check trash state and revision
+    if (expectedRevision !== undefined && getRevision(asset) !== expectedRevision) {
+      return conflictResponse(asset);
+    }
+
+    if (!asset.deleted_at) {
+      return NextResponse.json(
+        { success: false, error: 'Asset is not in the trash' },
+        { status: 409 }
+      );
+    }
+
+    // 4. Restore
+    let restored: AssetMetadata;
+    try {
+      restored = await restoreAsset(assetId, config.paths.history, {
+        actor: getRequestActor(request),
+        source: 'POST /api/assets/[assetId]/restore'
+      }, expectedRevision);
+    } catch (error) {
+      const current = isRevisionConflict(error) ? await getAsset(assetId) : null;
+      if (current) {
+        return conflictResponse(current);
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      { success: true, asset: restored },
+      { status: 200, headers: { ETag: formatEtag(restored) } }
+    );
+  } catch (error) {
+    console.error('Failed to restore asset:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to restore asset: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { GET, DELETE } from './route';
+import { NextRequest } from 'next/server';
+import { getAsset, trashAsset } from '@/lib/history';
+import type { AssetMetadata } from '@/lib/types';
+
+jest.mock('@/lib/history');
+
+const ASSET: AssetMetadata = {
+  id: 'asset-1',
+  date: '2026-01-20',
+  asset_url: '/uploads/asset-1.png',
+  meta_description: 'Asset 1',
+  status: 'Draft',
+  created_at: '2026-01-13T10:00:00Z',
+  revision: 4,
+  versions: []
+};
+
+function call(handler: typeof GET | typeof DELETE, method: string, headers: Record<string, string> = {}) {
+  const request = new NextRequest('http://localhost:3000/api/assets/asset-1', { method, headers });
+  return handler(request, { params: Promise.resolve({ assetId: 'asset-1' }) });
+}
+
+describe('/api/assets/[assetId]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getAsset as jest.Mock).mockResolvedValue(ASSET);
+    (trashAsset as jest.Mock).mockImplementation(async () => ({
+      ...ASSET,
+      revision: 5,
+      deleted_at: '2026-01-21T10:00:00.000Z',
+      deleted_by: 'api'
+    }));
+  });
+
+  it('should return the revision as an ETag', async () => {
+    const response = await call(GET, 'GET');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"4"');
+  });
+
+  it('should move the asset to the trash when If-Match matches', async () => {
+    const response = await call(DELETE, 'DELETE', { 'If-Match': '"4"' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"5"');
+    expect((await response.json()).asset).toMatchObject({ deleted_at: '2026-01-21T10:00:00.000Z' });
+    expect(trashAsset).toHaveBeenCalledWith(
+      'asset-1',
+      expect.any(String),
+      expect.objectContaining({ actor: 'api' }),
+      4
+    );
+  });
+
+  it('should return 409 with the current asset when If-Match is stale', async () => {
+    const response = await call(DELETE, 'DELETE', { 'If-Match': '"3"' });
+
+    expect(response.status).toBe(409);
+    expect(response.headers.get('ETag')).toBe('"4"');
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Asset was modified by someone else',
+      asset: ASSET
+    });
+    expect(trashAsset).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when the asset changes before the delete is written', async () => {
+    const current = { ...ASSET, revision: 5 };
+    (getAsset as jest.Mock).mockResolvedValueOnce(ASSET).mockResolvedValueOnce(current);
+    (trashAsset as jest.Mock).mockRejectedValue(
+      new Error('Failed to update history: Revision conflict: asset asset-1 is at revision 5, expected 4')
+    );
+
+    const response = await call(DELETE, 'DELETE', { 'If-Match': '"4"' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).asset).toEqual(current);
+  });
+
+  it('should return 409 when the asset is already in the trash', async () => {
+    (getAsset as jest.Mock).mockResolvedValue({ ...ASSET, deleted_at: '2026-01-21T10:00:00.000Z' });
+
+    const response = await call(DELETE, 'DELETE');
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe('Asset is already in the trash');
+    expect(trashAsset).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a malformed If-Match header', async () => {
+    const response = await call(DELETE, 'DELETE', { 'If-Match': 'not-a-revision' });
+
+    expect(response.status).toBe(400);
+  });
+});
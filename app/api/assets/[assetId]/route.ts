@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAsset, deleteAsset } from '@/lib/history';
+import { getAsset, trashAsset } from '@/lib/history';
+import { config } from '@/lib/config';
+import { getRequestActor } from '@/lib/audit';
+import { conflictResponse, formatEtag, getRevision, isRevisionConflict, parseIfMatch } from '@/lib/revision';
+import type { AssetMetadata } from '@/lib/types';
 
 /**
  * GET /api/assets/[assetId]
  * Fetch a single asset by ID
+ *
+ * The ETag header holds the asset's revision; send it back as If-Match on
+ * mutating requests to detect concurrent changes.
  */
 export async function GET(
   request: NextRequest,
@@ -33,7 +40,7 @@ export async function GET(
         success: true,
         asset
       },
-      { status: 200 }
+      { status: 200, headers: { ETag: formatEtag(asset) } }
     );
   } catch (error) {
     console.error('Failed to get asset:', error);
@@ -49,7 +56,13 @@ export async function GET(
 
 /**
  * DELETE /api/assets/[assetId]
- * Delete an asset by ID
+ * Move an asset to the trash
+ *
+ * The asset keeps its files and versions and can be restored with
+ * POST /api/assets/[assetId]/restore until it is purged TRASH_RETENTION_DAYS
+ * later. Returns 409 if it is already in the trash.
+ *
+ * Honors If-Match: returns 409 with the current asset if its revision differs.
  */
 export async function DELETE(
   request: NextRequest,
@@ -65,6 +78,14 @@ export async function DELETE(
       );
     }
 
+    const expectedRevision = parseIfMatch(request.headers.get('if-match'));
+    if (expectedRevision === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid If-Match header' },
+        { status: 400 }
+      );
+    }
+
     // Check if asset exists
     const asset = await getAsset(assetId);
     if (!asset) {
@@ -74,15 +95,39 @@ export async function DELETE(
       );
     }
 
-    // Delete the asset
-    await deleteAsset(assetId);
+    if (expectedRevision !== undefined && getRevision(asset) !== expectedRevision) {
+      return conflictResponse(asset);
+    }
+
+    if (asset.deleted_at) {
+      return NextResponse.json(
+        { success: false, error: 'Asset is already in the trash' },
+        { status: 409 }
+      );
+    }
+
+    // Move the asset to the trash (revision re-checked under the history lock)
+    let trashed: AssetMetadata;
+    try {
+      trashed = await trashAsset(assetId, config.paths.history, {
+        actor: getRequestActor(request),
+        source: 'DELETE /api/assets/[assetId]'
+      }, expectedRevision);
+    } catch (error) {
+      const current = isRevisionConflict(error) ? await getAsset(assetId) : null;
+      if (current) {
+        return conflictResponse(current);
+      }
+      throw error;
+    }
 
     return NextResponse.json(
       {
         success: true,
-        message: 'Asset deleted successfully'
+        message: 'Asset moved to trash',
+        asset: trashed
       },
-      { status: 200 }
+      { status: 200, headers: { ETag: formatEtag(trashed) } }
     );
   } catch (error) {
     console.error('Failed to delete asset:', error);
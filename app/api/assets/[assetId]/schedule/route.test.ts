@@ -0,0 +1,110 @@
+import { POST } from './route';
+import { NextRequest } from 'next/server';
+import { promises as fs } from 'fs';
+import { getAsset, updateHistory } from '@/lib/history';
+import { composeStory } from '@/lib/composition';
+import { scheduleStory } from '@/lib/blotato';
+import type { HistoryData } from '@/lib/types';
+import { makeAsset } from '@/lib/__tests__/asset-fixtures';
+
+jest.mock('@/lib/history');
+jest.mock('@/lib/composition', () => ({ composeStory: jest.fn() }));
+jest.mock('@/lib/blotato', () => ({ scheduleStory: jest.fn() }));
+jest.mock('@/lib/brand-kits', () => ({
+  resolveBrandKit: jest.fn(async () => ({ id: 'default' })),
+  brandLogoStorageKey: jest.fn(() => null)
+}));
+jest.mock('@/lib/campaigns', () => ({ resolveCampaign: jest.fn(async () => null) }));
+jest.mock('@/lib/storage', () => ({
+  ...jest.requireActual('@/lib/storage'),
+  getStorage: () => ({
+    put: jest.fn(async (key: string) => `/${key}`),
+    localPath: jest.fn(async () => null)
+  }),
+  tempOutputPath: () => '/tmp/schedule-test-story.png',
+  withLocalFiles: jest.fn((keys: string[], fn: (paths: string[]) => unknown) => fn(keys.map(key => `/tmp/${key}`)))
+}));
+
+const SCHEDULED_TIME = '2099-01-01T10:00:00.000Z';
+
+function makeVersion(version: number) {
+  return {
+    version,
+    created_at: '2026-01-14T10:00:00Z',
+    prompt_used: 'prompt',
+    file_path: `/uploads/asset-1/background_v${version}.png`
+  };
+}
+
+function call(assetId = 'asset-1', headers: Record<string, string> = {}) {
+  const request = new NextRequest(`http://localhost:3000/api/assets/${assetId}/schedule`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ scheduledTime: SCHEDULED_TIME })
+  });
+  return POST(request, { params: Promise.resolve({ assetId }) });
+}
+
+describe('POST /api/assets/[assetId]/schedule', () => {
+  let history: HistoryData;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(fs, 'readFile').mockResolvedValue(Buffer.from('story') as any);
+    jest.spyOn(fs, 'unlink').mockResolvedValue(undefined);
+    (composeStory as jest.Mock).mockResolvedValue({ success: true });
+    (scheduleStory as jest.Mock).mockResolvedValue('post-1');
+    (updateHistory as jest.Mock).mockImplementation(async (fn: (data: HistoryData) => HistoryData) => {
+      history = fn(history);
+    });
+  });
+
+  it('should schedule the picked candidate after the losing candidates were discarded', async () => {
+    // Candidates 2-4 were generated together; 3 won, 2 and 4 were discarded
+    const asset = makeAsset('asset-1', { status: 'Ready', active_version: 3, versions: [makeVersion(1), makeVersion(3)] });
+    history = { assets: [asset] } as HistoryData;
+    (getAsset as jest.Mock).mockResolvedValue(asset);
+
+    const response = await call();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.story_image_path).toBe('/uploads/story-asset-1-v3.png');
+    expect(composeStory).toHaveBeenCalledWith(
+      '/tmp/uploads/asset-1/background_v3.png',
+      '/tmp/uploads/asset-1.png',
+      '/tmp/schedule-test-story.png',
+      expect.any(Object)
+    );
+
+    const [scheduled] = history.assets;
+    expect(scheduled.status).toBe('Scheduled');
+    expect(scheduled.versions).toHaveLength(2);
+    expect(scheduled.versions[0].file_path).toBe('/uploads/asset-1/background_v1.png');
+    expect(scheduled.versions[1]).toMatchObject({ version: 3, file_path: '/uploads/story-asset-1-v3.png' });
+  });
+
+  it('should return 400 when the active version is missing', async () => {
+    (getAsset as jest.Mock).mockResolvedValue(
+      makeAsset('asset-1', { status: 'Ready', active_version: 2, versions: [makeVersion(1), makeVersion(3)] })
+    );
+
+    const response = await call();
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Active version 2 not found in asset versions');
+    expect(scheduleStory).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 with the current asset when If-Match is stale', async () => {
+    const asset = makeAsset('asset-1', { status: 'Ready', revision: 5, active_version: 1, versions: [makeVersion(1)] });
+    (getAsset as jest.Mock).mockResolvedValue(asset);
+
+    const response = await call('asset-1', { 'If-Match': '"4"' });
+
+    expect(response.status).toBe(409);
+    expect(response.headers.get('ETag')).toBe('"5"');
+    expect(await response.json()).toEqual({ success: false, error: 'Asset was modified by someone else', asset });
+    expect(composeStory).not.toHaveBeenCalled();
+  });
+});
@@ -5,16 +5,25 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import path from 'path';
+import { promises as fs } from 'fs';
 import { getAsset, updateHistory } from '@/lib/history';
 import { composeStory } from '@/lib/composition';
+import { brandLogoStorageKey, resolveBrandKit } from '@/lib/brand-kits';
+import { resolveCampaign } from '@/lib/campaigns';
+import { resolveLayoutTemplate } from '@/lib/layouts';
 import { scheduleStory } from '@/lib/blotato';
 import { config } from '@/lib/config';
-import { uploadToS3, localPathToS3Key } from '@/lib/s3';
+import { getStorage, storageKeyFromUrl, tempOutputPath, withLocalFiles } from '@/lib/storage';
+import { getRequestActor } from '@/lib/audit';
+import { conflictResponse, getRevision, parseIfMatch } from '@/lib/revision';
 
 /**
  * POST handler for scheduling Instagram stories
  *
+ * Honors If-Match: returns 409 with the current asset if its revision
+ * differs. The check runs before Blotato is called; the final history write
+ * is not guarded, so a scheduled post is never left unrecorded.
+ *
  * @param request - Next.js request object
  * @param params - Route parameters containing assetId
  * @returns JSON response with scheduling details or error
@@ -112,6 +121,33 @@ export async function POST(
       );
     }
 
+    // 7b. Reject stale edits (If-Match) before composing or calling Blotato
+    const expectedRevision = parseIfMatch(request.headers.get('if-match'));
+    if (expectedRevision === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid If-Match header'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (expectedRevision !== undefined && getRevision(asset) !== expectedRevision) {
+      return conflictResponse(asset);
+    }
+
+    // 7c. Trashed assets can't be scheduled until restored
+    if (asset.deleted_at) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Asset is in the trash; restore it first'
+        },
+        { status: 409 }
+      );
+    }
+
     // 8. Verify asset status is 'Ready' (400 if not)
     if (asset.status !== 'Ready') {
       return NextResponse.json(
@@ -135,7 +171,8 @@ export async function POST(
       );
     }
 
-    const activeVersion = asset.versions[asset.active_version - 1];
+    // Look the version up by number: discarded candidates leave gaps
+    const activeVersion = asset.versions.find(v => v.version === asset.active_version);
     if (!activeVersion) {
       return NextResponse.json(
         {
@@ -146,20 +183,45 @@ export async function POST(
       );
     }
 
-    // Construct file paths (strip leading slash to avoid path.join treating as absolute)
-    const backgroundPath = path.join(process.cwd(), 'public', activeVersion.file_path.replace(/^\//, ''));
-    const assetPath = path.join(process.cwd(), 'public', asset.asset_url.replace(/^\//, ''));
-    const outputFileName = `story-${assetId}-v${asset.active_version}.png`;
-    const outputPath = path.join(process.cwd(), 'public', 'uploads', outputFileName);
-    const publicUrl = `/uploads/${outputFileName}`;
+    // Locate source images in storage
+    const backgroundKey = storageKeyFromUrl(activeVersion.file_path);
+    const assetKey = storageKeyFromUrl(asset.asset_url);
+    if (!backgroundKey || !assetKey) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Story composition failed: ${!backgroundKey ? 'background' : 'asset'} is not in storage`
+        },
+        { status: 500 }
+      );
+    }
+
+    // The asset's brand kit styles the text overlay and adds the logo; its
+    // campaign (if the date falls in one) replaces the kit's CTA
+    const brandKit = await resolveBrandKit(asset.brand_kit_id);
+    const campaign = await resolveCampaign(asset.date);
+    const logoKey = brandLogoStorageKey(brandKit);
+    // Compose with the layout the version's preview showed
+    const layout = resolveLayoutTemplate(activeVersion.layout_id ?? asset.layout_id);
+    const sourceKeys = logoKey ? [backgroundKey, assetKey, logoKey] : [backgroundKey, assetKey];
+
+    const storage = getStorage();
+    const storyKey = `uploads/story-${assetId}-v${asset.active_version}.png`;
+    const outputPath = tempOutputPath('.png');
 
-    // Call composeStory with text overlay options
+    // Call composeStory with text overlay options, then store the composed story
     let composeResult;
+    let finalPublicUrl: string;
     try {
-      composeResult = await composeStory(backgroundPath, assetPath, outputPath, {
-        includeText: config.textOverlay?.enabled !== false,
-        textOverride: asset.text_overlay_content
-      });
+      composeResult = await withLocalFiles(sourceKeys, ([backgroundPath, assetPath, logoPath]) =>
+        composeStory(backgroundPath, assetPath, outputPath, {
+          includeText: config.textOverlay?.enabled !== false,
+          textOverride: asset.text_overlay_content || campaign?.overlay_text,
+          brandKit,
+          logoPath,
+          layout
+        })
+      );
 
       // Log text overlay analytics if available
       if (composeResult.analytics?.text_overlay) {
@@ -180,6 +242,7 @@ export async function POST(
         throw new Error('Composition failed');
       }
     } catch (error) {
+      await fs.unlink(outputPath).catch(() => {});
       return NextResponse.json(
         {
           success: false,
@@ -189,36 +252,26 @@ export async function POST(
       );
     }
 
-    // Upload to S3 if storage mode is hybrid or s3
-    let finalPublicUrl = publicUrl;
-    if (config.storage?.mode === 'hybrid' || config.storage?.mode === 's3') {
-      try {
-        const s3Key = localPathToS3Key(publicUrl);
-        const s3Url = await uploadToS3(outputPath, s3Key, 'image/png');
-        finalPublicUrl = s3Url;
-        console.log(`[Schedule] Uploaded composed story to S3: ${s3Url}`);
-      } catch (s3Error) {
-        console.error('[Schedule] S3 upload failed:', s3Error);
-        if (config.storage?.mode === 's3') {
-          return NextResponse.json(
-            {
-              success: false,
-              error: `Failed to upload to S3: ${s3Error instanceof Error ? s3Error.message : 'Unknown error'}`
-            },
-            { status: 500 }
-          );
-        }
-        // In hybrid mode, fall back to local URL
-      }
+    try {
+      finalPublicUrl = await storage.put(storyKey, await fs.readFile(outputPath), 'image/png');
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Failed to store composed story: ${error instanceof Error ? error.message : 'Unknown error'}`
+        },
+        { status: 500 }
+      );
+    } finally {
+      await fs.unlink(outputPath).catch(() => {});
     }
 
     // 10. Upload composed story to Instagram via Blotato
     let postId: string;
     try {
-      // In S3 mode, Blotato needs to fetch from S3 URL
-      // For now, we still pass outputPath and let scheduleStory convert it to URL
-      // The finalPublicUrl will be stored in metadata
-      postId = await scheduleStory(outputPath, scheduledDate);
+      // Blotato fetches the image itself: pass the local file when there is
+      // one (converted to a URL under NEXT_PUBLIC_BASE_URL), else the S3 URL
+      postId = await scheduleStory((await storage.localPath(storyKey)) ?? finalPublicUrl, scheduledDate);
     } catch (error) {
       return NextResponse.json(
         {
@@ -255,10 +308,14 @@ export async function POST(
         updatedAsset.updated_at = new Date().toISOString();
 
         // Update active version's file_path with composed image path (S3 URL if uploaded)
-        const versionIndex = updatedAsset.active_version! - 1;
+        const versionIndex = updatedAsset.versions.findIndex(v => v.version === updatedAsset.active_version);
+        if (versionIndex === -1) {
+          throw new Error(`Active version ${updatedAsset.active_version} not found during update`);
+        }
         const versionUpdate: any = {
           ...updatedAsset.versions[versionIndex],
-          file_path: finalPublicUrl
+          file_path: finalPublicUrl,
+          layout_id: layout.id
         };
 
         // Add text overlay analytics to version if available
@@ -300,6 +357,10 @@ export async function POST(
           ...history,
           assets: updatedAssets
         };
+      }, config.paths.history, {
+        action: 'scheduled',
+        actor: getRequestActor(request),
+        source: 'POST /api/assets/[assetId]/schedule'
       });
     } catch (error) {
       return NextResponse.json(
@@ -319,7 +380,7 @@ export async function POST(
           post_id: postId,
           scheduled_time: scheduledTime,
           asset_id: assetId,
-          story_image_path: publicUrl
+          story_image_path: finalPublicUrl
         }
       },
       { status: 200 }
@@ -17,6 +17,11 @@ jest.mock('@/lib/text-overlay', () => ({
 
 jest.mock('@/lib/config', () => ({
   config: {
+    instagram: {
+      width: 1080,
+      height: 1920,
+      assetZone: { width: 756, height: 1344, xOffset: 162, yOffset: 288 },
+    },
     textOverlay: {
       defaultContent: 'Get this exclusive premium asset for free (today only!) - link in bio',
       positioning: {
@@ -24,6 +29,7 @@ jest.mock('@/lib/config', () => ({
         tier2Y: 1520,
         tier3Y: 1480,
         maxWidth: 900,
+        marginX: 90,
       },
       font: {
         size: 42,
@@ -33,15 +39,45 @@ jest.mock('@/lib/config', () => ({
   }
 }));
 
+jest.mock('@/lib/brand-kits', () => ({
+  resolveBrandKit: jest.fn(),
+}));
+
+jest.mock('@/lib/campaigns', () => ({
+  resolveCampaign: jest.fn(),
+}));
+
 import { readHistory } from '@/lib/history';
 import { generateTextSVG } from '@/lib/text-overlay';
+import { resolveBrandKit } from '@/lib/brand-kits';
+import { resolveCampaign } from '@/lib/campaigns';
+import { registerLayoutTemplate, resolveLayoutTemplate, unregisterLayoutTemplate } from '@/lib/layouts';
+
+const DEFAULT_KIT = {
+  id: 'iconscout',
+  name: 'IconScout',
+  allowed_colors: [],
+  forbidden_colors: [],
+  font: { family: 'DM Sans', path: 'public/fonts/DMSans-Variable.woff2', size: 42, weight: '700' },
+  text_color: '#FFFFFF',
+  logo_position: 'top-right' as const,
+  default_cta: 'Get this exclusive premium asset for free (today only!) - link in bio',
+  tone: '',
+  created_at: '1970-01-01T00:00:00.000Z',
+  updated_at: '1970-01-01T00:00:00.000Z',
+};
 
 describe('GET /api/assets/[assetId]/text-svg', () => {
   const mockReadHistory = readHistory as jest.MockedFunction<typeof readHistory>;
   const mockGenerateTextSVG = generateTextSVG as jest.MockedFunction<typeof generateTextSVG>;
 
+  const mockResolveBrandKit = resolveBrandKit as jest.MockedFunction<typeof resolveBrandKit>;
+  const mockResolveCampaign = resolveCampaign as jest.MockedFunction<typeof resolveCampaign>;
+
   beforeEach(() => {
     jest.clearAllMocks();
+    mockResolveBrandKit.mockResolvedValue(DEFAULT_KIT);
+    mockResolveCampaign.mockResolvedValue(null);
   });
 
   it('should generate SVG with asset text_overlay_analytics', async () => {
@@ -63,7 +99,7 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
     mockGenerateTextSVG.mockReturnValue('<svg>Mock SVG</svg>');
 
     const request = new NextRequest('http://localhost:3000/api/assets/test-asset-id/text-svg');
-    const response = await GET(request, { params: { assetId: 'test-asset-id' } });
+    const response = await GET(request, { params: Promise.resolve({ assetId: 'test-asset-id' }) });
 
     expect(response.status).toBe(200);
 
@@ -81,6 +117,8 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
       y: 1520,
       fontSize: 42,
       fontWeight: '700',
+      fontFamily: 'DM Sans',
+      fontPath: 'public/fonts/DMSans-Variable.woff2',
       color: '#FFFFFF',
       shadowColor: '#000000',
       maxWidth: 900,
@@ -106,7 +144,7 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
     mockGenerateTextSVG.mockReturnValue('<svg>Custom SVG</svg>');
 
     const request = new NextRequest('http://localhost:3000/api/assets/test-asset-id/text-svg?content=Override%20text');
-    const response = await GET(request, { params: { assetId: 'test-asset-id' } });
+    const response = await GET(request, { params: Promise.resolve({ assetId: 'test-asset-id' }) });
 
     expect(response.status).toBe(200);
 
@@ -124,6 +162,8 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
       y: 1560,
       fontSize: 42,
       fontWeight: '700',
+      fontFamily: 'DM Sans',
+      fontPath: 'public/fonts/DMSans-Variable.woff2',
       color: '#FFFFFF',
       shadowColor: '#FFFFFF',
       maxWidth: 900,
@@ -136,7 +176,7 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
     });
 
     const request = new NextRequest('http://localhost:3000/api/assets/nonexistent/text-svg');
-    const response = await GET(request, { params: { assetId: 'nonexistent' } });
+    const response = await GET(request, { params: Promise.resolve({ assetId: 'nonexistent' }) });
 
     expect(response.status).toBe(404);
 
@@ -162,7 +202,7 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
     mockGenerateTextSVG.mockReturnValue('<svg>Default SVG</svg>');
 
     const request = new NextRequest('http://localhost:3000/api/assets/test-asset-id/text-svg');
-    const response = await GET(request, { params: { assetId: 'test-asset-id' } });
+    const response = await GET(request, { params: Promise.resolve({ assetId: 'test-asset-id' }) });
 
     expect(response.status).toBe(200);
 
@@ -180,6 +220,8 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
       y: 1520,
       fontSize: 42,
       fontWeight: '700',
+      fontFamily: 'DM Sans',
+      fontPath: 'public/fonts/DMSans-Variable.woff2',
       color: '#FFFFFF',
       shadowColor: '#000000',
       maxWidth: 900,
@@ -204,7 +246,7 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
     mockGenerateTextSVG.mockReturnValue('<svg>Default content SVG</svg>');
 
     const request = new NextRequest('http://localhost:3000/api/assets/test-asset-id/text-svg');
-    const response = await GET(request, { params: { assetId: 'test-asset-id' } });
+    const response = await GET(request, { params: Promise.resolve({ assetId: 'test-asset-id' }) });
 
     expect(response.status).toBe(200);
 
@@ -220,12 +262,99 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
     );
   });
 
+  it("should style the text with the asset's brand kit", async () => {
+    mockReadHistory.mockResolvedValue({
+      assets: [{ id: 'test-asset-id', brand_kit_id: 'kit-2' } as any],
+    });
+    mockResolveBrandKit.mockResolvedValue({
+      ...DEFAULT_KIT,
+      id: 'kit-2',
+      font: { family: 'Brand Serif', path: 'public/fonts/BrandSerif.ttf', size: 48, weight: '600' },
+      text_color: '#112233',
+      default_cta: 'Shop the collection',
+    });
+    mockGenerateTextSVG.mockReturnValue('<svg>Brand SVG</svg>');
+
+    const request = new NextRequest('http://localhost:3000/api/assets/test-asset-id/text-svg');
+    const response = await GET(request, { params: Promise.resolve({ assetId: 'test-asset-id' }) });
+
+    expect(response.status).toBe(200);
+    expect(mockResolveBrandKit).toHaveBeenCalledWith('kit-2');
+    expect(mockGenerateTextSVG).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: 'Shop the collection',
+        fontSize: 48,
+        fontWeight: '600',
+        fontFamily: 'Brand Serif',
+        fontPath: 'public/fonts/BrandSerif.ttf',
+        color: '#112233',
+      })
+    );
+  });
+
+  it("should place the text in the active version's layout", async () => {
+    registerLayoutTemplate({
+      ...resolveLayoutTemplate(),
+      id: 'narrow-text',
+      name: 'Narrow text',
+      textRegion: { left: 140, width: 800, tiers: [1600, 1540, 1500], breakpoints: [900, 1100] },
+    });
+    try {
+      mockReadHistory.mockResolvedValue({
+        assets: [{
+          id: 'test-asset-id',
+          active_version: 1,
+          layout_id: 'centered',
+          versions: [{ version: 1, layout_id: 'narrow-text' }],
+          text_overlay_analytics: { position_tier_used: 3 },
+        } as any],
+      });
+      mockGenerateTextSVG.mockReturnValue('<svg>Layout SVG</svg>');
+
+      const request = new NextRequest('http://localhost:3000/api/assets/test-asset-id/text-svg');
+      const response = await GET(request, { params: Promise.resolve({ assetId: 'test-asset-id' }) });
+
+      expect((await response.json()).position_y).toBe(1500);
+      expect(mockGenerateTextSVG).toHaveBeenCalledWith(
+        expect.objectContaining({ x: 540, y: 1500, maxWidth: 800 })
+      );
+    } finally {
+      unregisterLayoutTemplate('narrow-text');
+    }
+  });
+
+  it("should use the campaign's overlay text for assets without their own", async () => {
+    mockReadHistory.mockResolvedValue({
+      assets: [{ id: 'test-asset-id', date: '2026-12-24' } as any],
+    });
+    mockResolveCampaign.mockResolvedValue({
+      id: 'xmas',
+      name: 'Christmas',
+      start_date: '2026-12-20',
+      end_date: '2026-12-26',
+      prompt_additions: 'Festive snowflakes',
+      overlay_text: 'Merry Christmas - link in bio',
+      created_at: '2026-11-01T00:00:00.000Z',
+      updated_at: '2026-11-01T00:00:00.000Z',
+    });
+    mockGenerateTextSVG.mockReturnValue('<svg>Campaign SVG</svg>');
+
+    const request = new NextRequest('http://localhost:3000/api/assets/test-asset-id/text-svg');
+    const response = await GET(request, { params: Promise.resolve({ assetId: 'test-asset-id' }) });
+
+    expect(response.status).toBe(200);
+    expect(mockResolveCampaign).toHaveBeenCalledWith('2026-12-24');
+    expect(mockGenerateTextSVG).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Merry Christmas - link in bio' })
+    );
+  });
+
   it('should return 500 if an unexpected error occurs', async () => {
     const { readHistory } = require('@/lib/history');
     (readHistory as jest.Mock).mockRejectedValue(new Error('Database error'));
 
     const request = new NextRequest('http://localhost/api/assets/test-id/text-svg');
-    const response = await GET(request, { params: { assetId: 'test-id' } });
+    const response = await GET(request, { params: Promise.resolve({ assetId: 'test-id' }) });
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -234,7 +363,7 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
 
   it('should return 400 if assetId is invalid', async () => {
     const request = new NextRequest('http://localhost/api/assets//text-svg');
-    const response = await GET(request, { params: { assetId: '' } });
+    const response = await GET(request, { params: Promise.resolve({ assetId: '' }) });
     const data = await response.json();
 
     expect(response.status).toBe(400);
@@ -246,7 +375,7 @@ describe('GET /api/assets/[assetId]/text-svg', () => {
     const request = new NextRequest(
       `http://localhost/api/assets/test-id/text-svg?content=${longContent}`
     );
-    const response = await GET(request, { params: { assetId: 'test-id' } });
+    const response = await GET(request, { params: Promise.resolve({ assetId: 'test-id' }) });
     const data = await response.json();
 
     expect(response.status).toBe(400);
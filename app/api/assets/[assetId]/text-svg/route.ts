@@ -6,24 +6,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { readHistory } from '@/lib/history';
 import { generateTextSVG } from '@/lib/text-overlay';
-import { config } from '@/lib/config';
+import { resolveBrandKit } from '@/lib/brand-kits';
+import { resolveCampaign } from '@/lib/campaigns';
+import { resolveLayoutTemplate, type LayoutTemplate } from '@/lib/layouts';
 
 /**
- * Maps position tier to Y coordinate
+ * Maps position tier to Y coordinate in the layout's text region
  */
-function getTierYPosition(tier: 1 | 2 | 3): number {
-  const { tier1Y, tier2Y, tier3Y } = config.textOverlay.positioning;
-
-  switch (tier) {
-    case 1:
-      return tier1Y;
-    case 2:
-      return tier2Y;
-    case 3:
-      return tier3Y;
-    default:
-      return tier2Y; // Default to tier 2
-  }
+function getTierYPosition(tier: 1 | 2 | 3, layout: LayoutTemplate): number {
+  const { tiers } = layout.textRegion;
+  return tiers[tier - 1] ?? tiers[1]; // Default to tier 2
 }
 
 /**
@@ -69,29 +61,41 @@ export async function GET(
       );
     }
 
-    // Determine text content (priority: query param > asset content > default)
+    // The asset's brand kit sets the font, color and default CTA
+    const brandKit = await resolveBrandKit(asset.brand_kit_id);
+    const campaign = await resolveCampaign(asset.date);
+
+    // Determine text content (priority: query param > asset content > campaign > brand kit CTA)
     const textContent = customContent ||
                        asset.text_overlay_content ||
-                       config.textOverlay.defaultContent;
+                       campaign?.overlay_text ||
+                       brandKit.default_cta;
 
     // Determine position tier and shadow type (use analytics or defaults)
     const positionTier = asset.text_overlay_analytics?.position_tier_used || 2;
     const shadowType = asset.text_overlay_analytics?.shadow_type || 'dark';
 
+    // The active version's layout (else the asset's) sets the text region
+    const activeVersion = asset.versions?.find(v => v.version === asset.active_version);
+    const layout = resolveLayoutTemplate(activeVersion?.layout_id ?? asset.layout_id);
+    const { left, width } = layout.textRegion;
+
     // Calculate position and shadow color
-    const positionY = getTierYPosition(positionTier as 1 | 2 | 3);
+    const positionY = getTierYPosition(positionTier as 1 | 2 | 3, layout);
     const shadowColor = getShadowColor(shadowType);
 
     // Generate SVG
     const svg = generateTextSVG({
       text: textContent,
-      x: 540, // Centered horizontally (1080 / 2)
+      x: left + Math.round(width / 2), // Centered in the text region
       y: positionY,
-      fontSize: config.textOverlay.font.size,
-      fontWeight: config.textOverlay.font.weight,
-      color: '#FFFFFF',
+      fontSize: brandKit.font.size,
+      fontWeight: brandKit.font.weight,
+      fontFamily: brandKit.font.family,
+      fontPath: brandKit.font.path,
+      color: brandKit.text_color,
       shadowColor: shadowColor,
-      maxWidth: config.textOverlay.positioning.maxWidth,
+      maxWidth: width,
     });
 
     // Return SVG with metadata
@@ -1,17 +1,22 @@
 import { POST } from './route';
 import { NextRequest } from 'next/server';
 import * as historyLib from '@/lib/history';
-import fs from 'fs';
-import path from 'path';
+import { getStorage } from '@/lib/storage';
 
 // Mock dependencies
 jest.mock('@/lib/history');
-jest.mock('fs');
+jest.mock('@/lib/storage', () => {
+  const storage = { stat: jest.fn() };
+  return {
+    ...jest.requireActual('@/lib/storage'),
+    getStorage: () => storage
+  };
+});
 
 describe('POST /api/assets/bulk-approve', () => {
   const mockUpdateHistory = historyLib.updateHistory as jest.MockedFunction<typeof historyLib.updateHistory>;
   const mockReadHistory = historyLib.readHistory as jest.MockedFunction<typeof historyLib.readHistory>;
-  const mockExistsSync = fs.existsSync as jest.MockedFunction<typeof fs.existsSync>;
+  const mockStat = getStorage().stat as jest.Mock;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -43,7 +48,7 @@ describe('POST /api/assets/bulk-approve', () => {
     ];
 
     mockReadHistory.mockResolvedValue({ assets: mockAssets });
-    mockExistsSync.mockReturnValue(true); // All files exist
+    mockStat.mockResolvedValue({ key: 'uploads/v1.png', size: 1, last_modified: '' }); // All files exist
 
     let updateCallCount = 0;
     mockUpdateHistory.mockImplementation(async (updateFn) => {
@@ -110,7 +115,7 @@ describe('POST /api/assets/bulk-approve', () => {
     ];
 
     mockReadHistory.mockResolvedValue({ assets: mockAssets });
-    mockExistsSync.mockReturnValue(true);
+    mockStat.mockResolvedValue({ key: 'uploads/v1.png', size: 1, last_modified: '' });
 
     mockUpdateHistory.mockImplementation(async (updateFn) => {
       const updated = await updateFn({ assets: [...mockAssets] });
@@ -175,7 +180,7 @@ describe('POST /api/assets/bulk-approve', () => {
     ];
 
     mockReadHistory.mockResolvedValue({ assets: mockAssets });
-    mockExistsSync.mockReturnValue(true);
+    mockStat.mockResolvedValue({ key: 'uploads/v1.png', size: 1, last_modified: '' });
 
     let attemptCount = 0;
     mockUpdateHistory.mockImplementation(async (updateFn) => {
@@ -208,4 +213,81 @@ describe('POST /api/assets/bulk-approve', () => {
     expect(data.failed).toEqual([]);
     expect(attemptCount).toBe(3); // Failed twice, succeeded on third attempt
   });
+
+  it('should reject the batch with 409 when a revision is stale', async () => {
+    const mockAssets = [
+      {
+        id: 'asset-1',
+        status: 'Draft',
+        revision: 3,
+        active_version: 1,
+        versions: [{ version: 1, file_path: '/uploads/asset-1/v1.png' }],
+        asset_url: 'https://example.com/asset1.png',
+        date: '2026-01-20',
+        created_at: '2026-01-13T10:00:00Z'
+      },
+      {
+        id: 'asset-2',
+        status: 'Draft',
+        revision: 1,
+        active_version: 1,
+        versions: [{ version: 1, file_path: '/uploads/asset-2/v1.png' }],
+        asset_url: 'https://example.com/asset2.png',
+        date: '2026-01-21',
+        created_at: '2026-01-13T10:00:00Z'
+      }
+    ];
+
+    mockReadHistory.mockResolvedValue({ assets: mockAssets as any });
+    mockStat.mockResolvedValue({ key: 'uploads/v1.png', size: 1, last_modified: '' });
+
+    const request = new NextRequest('http://localhost:3000/api/assets/bulk-approve', {
+      method: 'POST',
+      body: JSON.stringify({
+        assetIds: ['asset-1', 'asset-2'],
+        revisions: { 'asset-1': 2, 'asset-2': 1 }
+      })
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.success).toBe(false);
+    expect(data.conflicts).toEqual([mockAssets[0]]);
+    expect(mockUpdateHistory).not.toHaveBeenCalled();
+  });
+
+  it('should fail an asset without retrying when it changes during approval', async () => {
+    const readAsset = {
+      id: 'asset-1',
+      status: 'Draft',
+      revision: 1,
+      active_version: 1,
+      versions: [{ version: 1, file_path: '/uploads/asset-1/v1.png' }],
+      asset_url: 'https://example.com/asset1.png',
+      date: '2026-01-20',
+      created_at: '2026-01-13T10:00:00Z'
+    };
+
+    mockReadHistory.mockResolvedValue({ assets: [readAsset] as any });
+    mockStat.mockResolvedValue({ key: 'uploads/v1.png', size: 1, last_modified: '' });
+    mockUpdateHistory.mockImplementation(async (updateFn) => {
+      // Someone else wrote the asset after it was read
+      updateFn({ assets: [{ ...readAsset, revision: 2 }] as any });
+    });
+
+    const request = new NextRequest('http://localhost:3000/api/assets/bulk-approve', {
+      method: 'POST',
+      body: JSON.stringify({ assetIds: ['asset-1'] })
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.approved).toEqual([]);
+    expect(data.failed[0].reason).toContain('Revision conflict');
+    expect(mockUpdateHistory).toHaveBeenCalledTimes(1);
+  });
 });
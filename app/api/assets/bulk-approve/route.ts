@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { readHistory, updateHistory } from '@/lib/history';
-import { BULK_APPROVAL_LIMIT } from '@/lib/config';
+import { BULK_APPROVAL_LIMIT, config } from '@/lib/config';
+import { getRequestActor } from '@/lib/audit';
+import { assertRevision, getRevision, isRevisionConflict } from '@/lib/revision';
 import type { BulkApproveRequest, BulkApproveResponse, AssetMetadata, AssetVersion } from '@/lib/types';
-import fs from 'fs';
-import path from 'path';
+import { getStorage, storageKeyFromUrl } from '@/lib/storage';
 
 /**
  * Sleep helper for backoff delays
@@ -30,8 +31,8 @@ async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error as Error;
 
-      // If this was the last attempt, throw the error
-      if (attempt === maxRetries - 1) {
+      // If this was the last attempt, or retrying can't help, throw the error
+      if (attempt === maxRetries - 1 || isRevisionConflict(lastError)) {
         throw lastError;
       }
 
@@ -48,7 +49,12 @@ async function retryWithBackoff<T>(
 /**
  * Validate if an asset can be approved
  */
-function canApproveAsset(asset: AssetMetadata): { valid: boolean; reason?: string } {
+async function canApproveAsset(asset: AssetMetadata): Promise<{ valid: boolean; reason?: string }> {
+  // Trashed assets can't be approved until restored
+  if (asset.deleted_at) {
+    return { valid: false, reason: 'Asset is in the trash' };
+  }
+
   // Must be in Draft status
   if (asset.status !== 'Draft') {
     return { valid: false, reason: `Asset is in ${asset.status} status, not Draft` };
@@ -68,9 +74,9 @@ function canApproveAsset(asset: AssetMetadata): { valid: boolean; reason?: strin
     return { valid: false, reason: 'Active version has no file path' };
   }
 
-  // Check if background file exists
-  const backgroundPath = path.join(process.cwd(), 'public', activeVersionData.file_path);
-  if (!fs.existsSync(backgroundPath)) {
+  // Check if background file exists in storage
+  const backgroundKey = storageKeyFromUrl(activeVersionData.file_path);
+  if (!backgroundKey || !(await getStorage().stat(backgroundKey))) {
     return { valid: false, reason: `Background file not found: ${activeVersionData.file_path}` };
   }
 
@@ -86,11 +92,17 @@ function canApproveAsset(asset: AssetMetadata): { valid: boolean; reason?: strin
 /**
  * POST /api/assets/bulk-approve
  * Bulk approve multiple assets
+ *
+ * Optional `revisions` (asset ID -> revision last seen) act like If-Match:
+ * if any selected asset has moved on, nothing is approved and a 409 returns
+ * the current records as `conflicts`. Each approval is also guarded by the
+ * revision read here, so concurrent changes fail that asset instead of being
+ * overwritten.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { assetIds } = body;
+    const { assetIds, revisions } = body as BulkApproveRequest;
 
     // Validate request body
     if (!assetIds || !Array.isArray(assetIds)) {
@@ -108,22 +120,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (revisions !== undefined && (typeof revisions !== 'object' || revisions === null || Array.isArray(revisions))) {
+      return NextResponse.json(
+        { error: 'revisions must be an object mapping asset IDs to revisions' },
+        { status: 400 }
+      );
+    }
+
     // Read current history
     const history = await readHistory();
 
+    // Reject the whole batch if the client approved stale records
+    const conflicts = revisions
+      ? history.assets.filter((a: AssetMetadata) =>
+          assetIds.includes(a.id) &&
+          revisions[a.id] !== undefined &&
+          getRevision(a) !== revisions[a.id]
+        )
+      : [];
+
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${conflicts.length} asset${conflicts.length !== 1 ? 's were' : ' was'} modified by someone else`,
+          conflicts
+        },
+        { status: 409 }
+      );
+    }
+
     // Filter to only Draft assets and validate
-    const draftAssets = assetIds
-      .map((id: string) => {
-        const asset = history.assets.find((a: AssetMetadata) => a.id === id);
-        if (!asset) return null;
+    const draftAssets: AssetMetadata[] = [];
+    for (const id of assetIds) {
+      const asset = history.assets.find((a: AssetMetadata) => a.id === id);
+      if (!asset) continue;
 
-        const validation = canApproveAsset(asset);
-        return validation.valid ? asset : null;
-      })
-      .filter((asset: AssetMetadata | null): asset is AssetMetadata => asset !== null);
+      const validation = await canApproveAsset(asset);
+      if (validation.valid) draftAssets.push(asset);
+    }
 
     const approved: string[] = [];
     const failed: Array<{ id: string; reason: string }> = [];
+    const actor = getRequestActor(request);
 
     // Process assets sequentially to avoid lock contention
     for (const asset of draftAssets) {
@@ -133,10 +172,15 @@ export async function POST(request: NextRequest) {
           await updateHistory((history) => {
             const assetToUpdate = history.assets.find((a: AssetMetadata) => a.id === asset.id);
             if (assetToUpdate) {
+              assertRevision(assetToUpdate, getRevision(asset));
               assetToUpdate.status = 'Ready';
               assetToUpdate.updated_at = new Date().toISOString();
             }
             return history;
+          }, config.paths.history, {
+            action: 'bulk_approved',
+            actor,
+            source: 'POST /api/assets/bulk-approve'
           });
         });
 
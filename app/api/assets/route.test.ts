@@ -0,0 +1,67 @@
+import { GET } from './route';
+import { NextRequest } from 'next/server';
+import { readHistory } from '@/lib/history';
+import { readCampaigns } from '@/lib/campaigns';
+import type { AssetMetadata, Campaign } from '@/lib/types';
+import { makeAsset } from '@/lib/__tests__/asset-fixtures';
+
+jest.mock('@/lib/history');
+jest.mock('@/lib/campaigns', () => ({
+  ...jest.requireActual('@/lib/campaigns'),
+  readCampaigns: jest.fn()
+}));
+
+const CAMPAIGN: Campaign = {
+  id: 'winter',
+  name: 'Winter sale',
+  start_date: '2026-12-01',
+  end_date: '2026-12-31',
+  prompt_additions: 'Winter theme',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+};
+
+function call(query = '') {
+  return GET(new NextRequest(`http://localhost:3000/api/assets${query}`));
+}
+
+describe('GET /api/assets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (readHistory as jest.Mock).mockResolvedValue({
+      assets: [
+        makeAsset('asset-1', { date: '2026-12-10' }),
+        makeAsset('asset-2', { date: '2026-06-10' }),
+        makeAsset('trashed', { date: '2026-12-11', deleted_at: '2026-02-01T00:00:00.000Z' })
+      ]
+    });
+    (readCampaigns as jest.Mock).mockResolvedValue([CAMPAIGN]);
+  });
+
+  it('should return assets outside the trash with their campaigns', async () => {
+    const response = await call();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.assets.map((a: AssetMetadata) => a.id)).toEqual(['asset-1', 'asset-2']);
+    expect(data.campaigns).toEqual({ 'asset-1': { id: 'winter', name: 'Winter sale' } });
+  });
+
+  it('should return the trash on request', async () => {
+    const data = await (await call('?trash=only')).json();
+
+    expect(data.assets.map((a: AssetMetadata) => a.id)).toEqual(['trashed']);
+  });
+
+  it('should still return the assets if campaigns.json cannot be read', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (readCampaigns as jest.Mock).mockRejectedValue(new SyntaxError('Unexpected end of JSON input'));
+
+    const response = await call();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.assets).toHaveLength(2);
+    expect(data).not.toHaveProperty('campaigns');
+  });
+});
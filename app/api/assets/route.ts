@@ -1,25 +1,60 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { readHistory } from '@/lib/history';
+import { campaignForDate, readCampaigns } from '@/lib/campaigns';
 
 /**
  * GET /api/assets
  * Fetch all assets from history.json
  *
+ * Query:
+ * - trash: 'exclude' (default) hides trashed assets, 'only' returns just the
+ *   trash, 'include' returns both
+ *
  * Response:
  * - success: true
  * - assets: AssetMetadata[] (on success)
+ * - campaigns: { [assetId]: { id, name } } - Campaign each asset's date falls in
+ *   (assets outside every campaign are left out). Omitted if campaigns.json
+ *   can't be read, so a bad campaigns file doesn't hide the assets
  * - error: Error message (on failure)
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const trash = request.nextUrl.searchParams.get('trash') ?? 'exclude';
+    if (!['exclude', 'only', 'include'].includes(trash)) {
+      return NextResponse.json(
+        { success: false, error: "trash must be 'exclude', 'only' or 'include'" },
+        { status: 400 }
+      );
+    }
+
     // Read history using readHistory() from lib/history.ts
     const history = await readHistory();
 
+    const assets = trash === 'include'
+      ? history.assets
+      : history.assets.filter(asset => !!asset.deleted_at === (trash === 'only'));
+
+    let campaigns: Record<string, { id: string; name: string }> | undefined;
+    try {
+      const allCampaigns = await readCampaigns();
+      campaigns = {};
+      for (const asset of assets) {
+        const campaign = campaignForDate(allCampaigns, asset.date);
+        if (campaign) {
+          campaigns[asset.id] = { id: campaign.id, name: campaign.name };
+        }
+      }
+    } catch (error) {
+      console.error('Failed to read campaigns for the asset list:', error);
+    }
+
     // Return assets array
     return NextResponse.json(
       {
         success: true,
-        assets: history.assets
+        assets,
+        ...(campaigns ? { campaigns } : {})
       },
       { status: 200 }
     );
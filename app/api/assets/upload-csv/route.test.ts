@@ -0,0 +1,300 @@
+import { POST } from './route';
+import { NextRequest } from 'next/server';
+import { addAsset } from '@/lib/history';
+import { storeAssetFile, removeStoredAssetFile } from '@/lib/uploads';
+import { checkForDuplicates } from '@/lib/duplicates';
+import { promises as fs } from 'fs';
+import { lookup } from 'dns/promises';
+
+jest.mock('@/lib/history');
+jest.mock('@/lib/uploads', () => ({
+  ...jest.requireActual('@/lib/uploads'),
+  storeAssetFile: jest.fn(),
+  removeStoredAssetFile: jest.fn()
+}));
+jest.mock('@/lib/duplicates', () => ({
+  ...jest.requireActual('@/lib/duplicates'),
+  checkForDuplicates: jest.fn()
+}));
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+function createRequest(csv: string | null): NextRequest {
+  const formData = new FormData();
+  if (csv !== null) {
+    formData.append('csvFile', new File([csv], 'assets.csv', { type: 'text/csv' }));
+  }
+  return new NextRequest('http://localhost:3000/api/assets/upload-csv', {
+    method: 'POST',
+    body: formData
+  });
+}
+
+function mockImageResponse(contentType = 'image/png', body = Buffer.from('png-bytes')) {
+  (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(body, {
+    status: 200,
+    headers: { 'content-type': contentType, 'content-length': String(body.length) }
+  }));
+}
+
+describe('POST /api/assets/upload-csv', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (addAsset as jest.Mock).mockResolvedValue(undefined);
+    (storeAssetFile as jest.Mock).mockImplementation(async (_buffer, assetId, extension) => ({
+      assetUrl: `/uploads/${assetId}.${extension}`,
+      key: `uploads/${assetId}.${extension}`
+    }));
+    (checkForDuplicates as jest.Mock).mockResolvedValue({ duplicates: [], rejected: [] });
+    (lookup as jest.Mock).mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  it('should create assets for every valid row', async () => {
+    mockImageResponse();
+    mockImageResponse('image/jpeg');
+
+    const csv = [
+      'date,asset_url,meta_description,text_overlay_content',
+      '2026-02-01,https://cdn.example.com/rocket.png,Rocket icon,Free today only',
+      '2026-02-02,https://cdn.example.com/planet.jpg,Planet illustration,'
+    ].join('\n');
+
+    const response = await POST(createRequest(csv));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.success).toBe(true);
+    expect(data.count).toBe(2);
+    expect(data.summary).toEqual({ total_rows: 2, total_created: 2, total_failed: 0 });
+    expect(data.results.every((r: any) => r.success && r.asset_id)).toBe(true);
+
+    expect(addAsset).toHaveBeenCalledTimes(2);
+    const firstAsset = (addAsset as jest.Mock).mock.calls[0][0];
+    expect(firstAsset).toMatchObject({
+      date: '2026-02-01',
+      meta_description: 'Rocket icon',
+      status: 'Draft',
+      text_overlay_content: 'Free today only',
+      versions: []
+    });
+    const secondAsset = (addAsset as jest.Mock).mock.calls[1][0];
+    expect(secondAsset.text_overlay_content).toBeUndefined();
+    expect(secondAsset.asset_url).toMatch(/\.jpg$/);
+  });
+
+  it('should report per-row validation failures without aborting the import', async () => {
+    mockImageResponse();
+    mockImageResponse('text/html');
+
+    const csv = [
+      'date,asset_url,meta_description',
+      '2026-02-01,https://cdn.example.com/ok.png,Valid row',
+      '02/03/2026,https://cdn.example.com/bad-date.png,Bad date',
+      '2026-02-04,,Missing image',
+      '2026-02-05,https://cdn.example.com/page,Not an image',
+      '2026-02-06,https://cdn.example.com/x.png,'
+    ].join('\n');
+
+    const response = await POST(createRequest(csv));
+    const data = await response.json();
+
+    expect(data.success).toBe(true);
+    expect(data.count).toBe(1);
+    expect(data.summary).toEqual({ total_rows: 5, total_created: 1, total_failed: 4 });
+    expect(data.results).toEqual([
+      expect.objectContaining({ row: 2, success: true }),
+      { row: 3, success: false, error: 'Invalid date format. Use YYYY-MM-DD format.' },
+      { row: 4, success: false, error: 'Missing asset_url' },
+      expect.objectContaining({ row: 5, success: false, error: expect.stringContaining('Invalid file format') }),
+      { row: 6, success: false, error: 'Missing meta_description' }
+    ]);
+    expect(addAsset).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report download failures', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+    const csv = 'date,asset_url,meta_description\n2026-02-01,https://cdn.example.com/missing.png,Gone\n';
+    const response = await POST(createRequest(csv));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.count).toBe(0);
+    expect(data.results[0]).toEqual({ row: 2, success: false, error: 'Failed to download image: HTTP 404' });
+  });
+
+  it('should refuse image URLs that point at private or internal hosts', async () => {
+    (lookup as jest.Mock).mockResolvedValueOnce([{ address: '10.0.0.5', family: 4 }]);
+
+    const csv = [
+      'date,asset_url,meta_description',
+      '2026-02-01,http://127.0.0.1/admin.png,Loopback',
+      '2026-02-02,http://169.254.169.254/latest/meta-data.png,Metadata',
+      '2026-02-03,http://[::1]/a.png,IPv6 loopback',
+      '2026-02-04,http://localhost:3000/a.png,Localhost',
+      '2026-02-05,https://intranet.example.com/a.png,Resolves to a private address'
+    ].join('\n');
+
+    const response = await POST(createRequest(csv));
+    const data = await response.json();
+
+    expect(data.count).toBe(0);
+    expect(data.results.map((r: any) => r.error)).toEqual([
+      'Image URL host is not allowed: http://127.0.0.1/admin.png',
+      'Image URL host is not allowed: http://169.254.169.254/latest/meta-data.png',
+      'Image URL host is not allowed: http://[::1]/a.png',
+      'Image URL host is not allowed: http://localhost:3000/a.png',
+      'Image URL host is not allowed: https://intranet.example.com/a.png'
+    ]);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should follow redirects only to allowed hosts', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response(null, { status: 302, headers: { location: '/images/moved.png' } }))
+      .mockResolvedValueOnce(new Response(Buffer.from('png-bytes'), {
+        status: 200,
+        headers: { 'content-type': 'image/png' }
+      }))
+      .mockResolvedValueOnce(new Response(null, {
+        status: 301,
+        headers: { location: 'http://169.254.169.254/latest/meta-data' }
+      }));
+
+    const csv = [
+      'date,asset_url,meta_description',
+      '2026-02-01,https://cdn.example.com/old.png,Moved',
+      '2026-02-02,https://cdn.example.com/sneaky.png,Redirects to metadata'
+    ].join('\n');
+
+    const response = await POST(createRequest(csv));
+    const data = await response.json();
+
+    expect(data.results[0]).toEqual(expect.objectContaining({ row: 2, success: true }));
+    expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe('https://cdn.example.com/images/moved.png');
+    expect((global.fetch as jest.Mock).mock.calls[0][1]).toEqual(expect.objectContaining({ redirect: 'manual' }));
+    expect(data.results[1]).toEqual({
+      row: 3,
+      success: false,
+      error: 'Image URL host is not allowed: http://169.254.169.254/latest/meta-data'
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop downloading once an image without content-length passes the size limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let chunksSent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        chunksSent++;
+        controller.enqueue(chunk);
+      }
+    });
+    (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(body, {
+      status: 200,
+      headers: { 'content-type': 'image/png' }
+    }));
+
+    const csv = 'date,asset_url,meta_description\n2026-02-01,https://cdn.example.com/huge.png,Huge\n';
+    const response = await POST(createRequest(csv));
+    const data = await response.json();
+
+    expect(data.results[0]).toEqual({ row: 2, success: false, error: 'File too large. Maximum size: 30MB' });
+    expect(chunksSent).toBeLessThan(40);
+    expect(storeAssetFile).not.toHaveBeenCalled();
+  });
+
+  it('should read local images from public/ and reject paths outside it', async () => {
+    jest.spyOn(fs, 'stat').mockResolvedValueOnce({ size: 9, isFile: () => true, mtime: new Date() } as any);
+    jest.spyOn(fs, 'readFile').mockResolvedValueOnce(Buffer.from('png-bytes') as any);
+
+    const csv = [
+      'date,asset_url,meta_description',
+      '2026-02-01,/uploads/local.png,Local asset',
+      '2026-02-02,../../etc/passwd.png,Escape attempt'
+    ].join('\n');
+
+    const response = await POST(createRequest(csv));
+    const data = await response.json();
+
+    expect(data.results[0]).toEqual(expect.objectContaining({ row: 2, success: true }));
+    expect(data.results[1]).toEqual({
+      row: 3,
+      success: false,
+      error: 'Image path must be inside public/: ../../etc/passwd.png'
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should clean up the stored file when history update fails', async () => {
+    mockImageResponse();
+    (addAsset as jest.Mock).mockRejectedValueOnce(new Error('lock timeout'));
+
+    const csv = 'date,asset_url,meta_description\n2026-02-01,https://cdn.example.com/a.png,Asset A\n';
+    const response = await POST(createRequest(csv));
+    const data = await response.json();
+
+    expect(data.results[0]).toEqual({
+      row: 2,
+      success: false,
+      error: 'Failed to update history: lock timeout'
+    });
+    expect(removeStoredAssetFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject rows that duplicate an existing asset unless allowed', async () => {
+    const match = {
+      asset_id: 'existing',
+      match: 'exact',
+      distance: 0,
+      asset_url: '/uploads/existing.png',
+      meta_description: 'Existing',
+      date: '2026-01-01',
+      status: 'Draft'
+    };
+    (checkForDuplicates as jest.Mock).mockResolvedValue({ duplicates: [match], rejected: [match] });
+    mockImageResponse();
+
+    const csv = 'date,asset_url,meta_description\n2026-02-01,https://cdn.example.com/a.png,Asset A\n';
+    const response = await POST(createRequest(csv));
+    const data = await response.json();
+
+    expect(data.results[0]).toEqual({
+      row: 2,
+      success: false,
+      error: 'Duplicate of existing asset existing',
+      duplicates: [match]
+    });
+    expect(storeAssetFile).not.toHaveBeenCalled();
+
+    mockImageResponse();
+    const formData = new FormData();
+    formData.append('csvFile', new File([csv], 'assets.csv', { type: 'text/csv' }));
+    formData.append('allowDuplicates', 'true');
+    const allowed = await POST(new NextRequest('http://localhost:3000/api/assets/upload-csv', {
+      method: 'POST',
+      body: formData
+    }));
+
+    expect((await allowed.json()).results[0]).toMatchObject({ success: true, duplicates: [match] });
+  });
+
+  it('should return 400 when csvFile is missing', async () => {
+    const response = await POST(createRequest(null));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data).toEqual({ success: false, error: 'Missing csvFile' });
+  });
+
+  it('should return 400 for a CSV without data rows', async () => {
+    const response = await POST(createRequest('date,asset_url,meta_description\n'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.success).toBe(false);
+    expect(data.error).toContain('no data rows');
+  });
+});
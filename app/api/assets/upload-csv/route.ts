@@ -0,0 +1,335 @@
+/**
+ * POST /api/assets/upload-csv
+ *
+ * Bulk import assets from a CSV file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { addAsset } from '@/lib/history';
+import { config } from '@/lib/config';
+import { getRequestActor } from '@/lib/audit';
+import { parseAssetCsv, type AssetCsvRow } from '@/lib/csv';
+import { getStorage, normalizeStorageKey } from '@/lib/storage';
+import { checkForDuplicates, duplicateErrorMessage } from '@/lib/duplicates';
+import {
+  validateFileType,
+  validateFileSize,
+  validateRemoteImageUrl,
+  resolveAssetDate,
+  mimeTypeFromExtension,
+  storeAssetFile,
+  removeStoredAssetFile,
+  MAX_FILE_SIZE,
+  MAX_TEXT_OVERLAY_LENGTH
+} from '@/lib/uploads';
+import type { AssetMetadata, AuditContext, CsvImportRowResult, CsvUploadResponse } from '@/lib/types';
+
+const MAX_CSV_SIZE = 1024 * 1024; // 1MB
+const MAX_CSV_ROWS = 100;
+const IMAGE_FETCH_TIMEOUT_MS = 30000;
+const MAX_IMAGE_REDIRECTS = 3;
+
+/**
+ * Image contents loaded from a CSV row
+ */
+interface LoadedImage {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Read a response body, stopping once it passes MAX_FILE_SIZE
+ * (a missing or false content-length can't make us buffer more)
+ */
+async function readBodyWithLimit(response: Response): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_FILE_SIZE) {
+      await reader.cancel();
+      throw new Error(`File too large. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024}MB`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download an image from an http(s) URL
+ *
+ * The URL and every redirect must point at a public host (see
+ * validateRemoteImageUrl).
+ */
+async function fetchImage(url: string): Promise<LoadedImage> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), IMAGE_FETCH_TIMEOUT_MS);
+
+  try {
+    let currentUrl = url;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      const urlError = await validateRemoteImageUrl(currentUrl);
+      if (urlError) {
+        throw new Error(urlError);
+      }
+
+      response = await fetch(currentUrl, { signal: controller.signal, redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      if (redirects >= MAX_IMAGE_REDIRECTS) {
+        throw new Error(`Failed to download image: more than ${MAX_IMAGE_REDIRECTS} redirects`);
+      }
+      currentUrl = new URL(location, currentUrl).toString();
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to download image: HTTP ${response.status}`);
+    }
+
+    // Reject oversized files before downloading the body when possible
+    const contentLength = parseInt(response.headers.get('content-length') || '0', 10);
+    const sizeError = validateFileSize(contentLength);
+    if (sizeError) {
+      throw new Error(sizeError);
+    }
+
+    const buffer = await readBodyWithLimit(response);
+
+    // Prefer the declared content type, fall back to the URL extension
+    const urlExtension = path.extname(new URL(currentUrl).pathname).replace(/^\./, '').toLowerCase();
+    const headerType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    const contentType = headerType.startsWith('image/')
+      ? headerType
+      : mimeTypeFromExtension(urlExtension) || headerType;
+    const extension = mimeTypeFromExtension(urlExtension)
+      ? urlExtension
+      : contentType === 'image/png' ? 'png' : 'jpg';
+
+    return { buffer, contentType, extension };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Image download timeout after ${IMAGE_FETCH_TIMEOUT_MS}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Read an image already in storage (e.g. /uploads/foo.png)
+ */
+async function readStoredImage(imagePath: string): Promise<LoadedImage> {
+  // Only allow keys inside the storage root (public/ or the bucket)
+  let key: string;
+  try {
+    key = normalizeStorageKey(imagePath);
+  } catch {
+    throw new Error(`Image path must be inside public/: ${imagePath}`);
+  }
+
+  const extension = path.extname(key).replace(/^\./, '').toLowerCase();
+  const contentType = mimeTypeFromExtension(extension) || `image/${extension || 'unknown'}`;
+
+  const storage = getStorage();
+  const stat = await storage.stat(key);
+  if (!stat) {
+    throw new Error(`Image file not found: ${imagePath}`);
+  }
+  if (stat.size > MAX_FILE_SIZE) {
+    throw new Error(validateFileSize(stat.size)!);
+  }
+
+  const buffer = await storage.get(key);
+  return { buffer, contentType, extension };
+}
+
+/**
+ * Validate a CSV row and create its asset
+ */
+async function importRow(
+  row: AssetCsvRow,
+  audit: AuditContext,
+  allowDuplicates: boolean
+): Promise<CsvImportRowResult> {
+  const fail = (error: string): CsvImportRowResult => ({ row: row.row, success: false, error });
+
+  // Validate required fields (same rules as POST /api/assets/upload)
+  if (!row.image) {
+    return fail('Missing asset_url');
+  }
+
+  if (!row.meta_description) {
+    return fail('Missing meta_description');
+  }
+
+  const { date: assetDate, error: dateError } = resolveAssetDate(row.date);
+  if (dateError || !assetDate) {
+    return fail(dateError || 'Invalid date');
+  }
+
+  if (row.text_overlay_content && row.text_overlay_content.length > MAX_TEXT_OVERLAY_LENGTH) {
+    return fail(`text_overlay_content too long (max ${MAX_TEXT_OVERLAY_LENGTH} characters)`);
+  }
+
+  // Load image from URL or local path
+  let image: LoadedImage;
+  try {
+    image = /^https?:\/\//i.test(row.image)
+      ? await fetchImage(row.image)
+      : await readStoredImage(row.image);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Failed to load image');
+  }
+
+  const typeError = validateFileType(image.contentType);
+  if (typeError) {
+    return fail(typeError);
+  }
+
+  const sizeError = validateFileSize(image.buffer.length);
+  if (sizeError) {
+    return fail(sizeError);
+  }
+
+  // Check for duplicates of existing assets (including earlier rows)
+  const { hashes, duplicates, rejected } = await checkForDuplicates(image.buffer);
+  if (rejected.length > 0 && !allowDuplicates) {
+    return { ...fail(duplicateErrorMessage(rejected[0])), duplicates: rejected };
+  }
+
+  // Save file and create asset
+  const assetId = uuidv4();
+  let stored;
+  try {
+    stored = await storeAssetFile(image.buffer, assetId, image.extension, image.contentType);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Failed to save file');
+  }
+
+  const asset: AssetMetadata = {
+    id: assetId,
+    date: assetDate,
+    asset_url: stored.assetUrl,
+    meta_description: row.meta_description,
+    status: 'Draft',
+    created_at: new Date().toISOString(),
+    versions: [],
+    ...hashes,
+    ...(row.text_overlay_content ? { text_overlay_content: row.text_overlay_content } : {})
+  };
+
+  try {
+    await addAsset(asset, config.paths.history, audit);
+  } catch (error) {
+    await removeStoredAssetFile(stored.key);
+    return fail(`Failed to update history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return {
+    row: row.row,
+    success: true,
+    asset_id: assetId,
+    asset_url: stored.assetUrl,
+    ...(duplicates.length > 0 ? { duplicates } : {})
+  };
+}
+
+/**
+ * POST handler for CSV bulk import
+ *
+ * Request (multipart/form-data):
+ * - csvFile: CSV with columns asset_url (image URL or path under public/),
+ *   meta_description, date (YYYY-MM-DD, optional) and
+ *   text_overlay_content (optional)
+ * - allowDuplicates: Optional "true" to import rows that duplicate existing assets
+ *
+ * Response:
+ * - success: true if the CSV was processed (even if some rows failed)
+ * - count: Number of assets created
+ * - results: Per-row success/failure report (with duplicate matches)
+ * - summary: Row totals
+ * - error: Error message (if the CSV itself could not be processed)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const csvFile = formData.get('csvFile') as File | null;
+
+    if (!csvFile) {
+      return NextResponse.json(
+        { success: false, error: 'Missing csvFile' },
+        { status: 400 }
+      );
+    }
+
+    if (csvFile.size > MAX_CSV_SIZE) {
+      return NextResponse.json(
+        { success: false, error: 'CSV file too large. Maximum size: 1MB' },
+        { status: 400 }
+      );
+    }
+
+    let rows: AssetCsvRow[];
+    try {
+      rows = parseAssetCsv(await csvFile.text());
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Failed to parse CSV' },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length > MAX_CSV_ROWS) {
+      return NextResponse.json(
+        { success: false, error: `Cannot import more than ${MAX_CSV_ROWS} rows at once` },
+        { status: 400 }
+      );
+    }
+
+    // Process rows sequentially to avoid lock contention
+    const audit = { actor: getRequestActor(request), source: 'POST /api/assets/upload-csv' };
+    const allowDuplicates = formData.get('allowDuplicates') === 'true';
+    const results: CsvImportRowResult[] = [];
+    for (const row of rows) {
+      results.push(await importRow(row, audit, allowDuplicates));
+    }
+
+    const created = results.filter(r => r.success).length;
+
+    const response: CsvUploadResponse = {
+      success: true,
+      count: created,
+      results,
+      summary: {
+        total_rows: rows.length,
+        total_created: created,
+        total_failed: rows.length - created
+      }
+    };
+
+    return NextResponse.json(response, { status: created > 0 ? 201 : 200 });
+
+  } catch (error) {
+    console.error('CSV upload error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
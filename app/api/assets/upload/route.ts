@@ -1,15 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { addAsset } from '@/lib/history';
+import { config } from '@/lib/config';
+import { getRequestActor } from '@/lib/audit';
+import { checkForDuplicates, duplicateErrorMessage } from '@/lib/duplicates';
+import { getBrandKit } from '@/lib/brand-kits';
+import { getLayoutTemplate } from '@/lib/layouts';
 import { AssetMetadata } from '@/lib/types';
 import { v4 as uuidv4 } from 'uuid';
-import { promises as fs } from 'fs';
-import path from 'path';
-import { config } from '@/lib/config';
-import { uploadToS3, localPathToS3Key } from '@/lib/s3';
-
-const MAX_FILE_SIZE = 30 * 1024 * 1024; // 30MB
-const ALLOWED_TYPES = ['image/png', 'image/jpg', 'image/jpeg'];
-const UPLOADS_DIR = path.join(process.cwd(), 'public', 'uploads');
+import {
+  validateFileType,
+  validateFileSize,
+  resolveAssetDate,
+  storeAssetFile,
+  removeStoredAssetFile,
+  type StoredAssetFile
+} from '@/lib/uploads';
 
 /**
  * POST /api/assets/upload
@@ -19,10 +24,17 @@ const UPLOADS_DIR = path.join(process.cwd(), 'public', 'uploads');
  * - assetFile: Image file (PNG, JPG, JPEG)
  * - metaDescription: String description
  * - date: Optional date string in YYYY-MM-DD format (defaults to current date)
+ * - allowDuplicate: Optional "true" to upload even if the image duplicates an existing asset
+ * - brandKitId: Optional brand kit for the asset's prompts, text overlay and logo
+ *   (the default kit if omitted)
+ * - layoutId: Optional layout template for the asset's previews and story
+ *   (see GET /api/layouts; the centered layout if omitted)
  *
  * Response:
  * - success: true/false
  * - asset: AssetMetadata (on success)
+ * - duplicates: DuplicateMatch[] - Existing assets this image matches (warnings on
+ *   success; the blocking matches on 409)
  * - error: Error message (on failure)
  */
 export async function POST(request: NextRequest) {
@@ -32,6 +44,9 @@ export async function POST(request: NextRequest) {
     const assetFile = formData.get('assetFile') as File | null;
     const metaDescription = formData.get('metaDescription') as string | null;
     const date = formData.get('date') as string | null;
+    const allowDuplicate = formData.get('allowDuplicate') === 'true';
+    const brandKitId = (formData.get('brandKitId') as string | null) || undefined;
+    const layoutId = (formData.get('layoutId') as string | null) || undefined;
 
     // Validate assetFile exists
     if (!assetFile) {
@@ -50,120 +65,100 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file format
-    if (!ALLOWED_TYPES.includes(assetFile.type)) {
+    const typeError = validateFileType(assetFile.type);
+    if (typeError) {
       return NextResponse.json(
-        {
-          success: false,
-          error: `Invalid file format. Allowed types: PNG, JPG, JPEG. Received: ${assetFile.type}`
-        },
+        { success: false, error: typeError },
         { status: 400 }
       );
     }
 
     // Validate file size
-    if (assetFile.size > MAX_FILE_SIZE) {
+    const sizeError = validateFileSize(assetFile.size);
+    if (sizeError) {
       return NextResponse.json(
-        {
-          success: false,
-          error: `File too large. Maximum size: 30MB. Received: ${(assetFile.size / 1024 / 1024).toFixed(2)}MB`
-        },
+        { success: false, error: sizeError },
+        { status: 400 }
+      );
+    }
+
+    // Process date field: validate if provided, otherwise use current date
+    const { date: assetDate, error: dateError } = resolveAssetDate(date);
+    if (dateError || !assetDate) {
+      return NextResponse.json(
+        { success: false, error: dateError },
+        { status: 400 }
+      );
+    }
+
+    if (brandKitId && !(await getBrandKit(brandKitId))) {
+      return NextResponse.json(
+        { success: false, error: `Unknown brand kit: ${brandKitId}` },
         { status: 400 }
       );
     }
 
+    if (layoutId && !getLayoutTemplate(layoutId)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown layout: ${layoutId}` },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await assetFile.arrayBuffer());
+
+    // Check for exact and near-duplicates of existing assets
+    const { hashes, duplicates, rejected } = await checkForDuplicates(buffer);
+    if (rejected.length > 0 && !allowDuplicate) {
+      return NextResponse.json(
+        { success: false, error: duplicateErrorMessage(rejected[0]), duplicates: rejected },
+        { status: 409 }
+      );
+    }
+
     // Generate unique asset ID
     const assetId = uuidv4();
 
     // Get file extension
     const extension = assetFile.name.split('.').pop() || 'png';
 
-    // Create filename: {uuid}.{ext}
-    const filename = `${assetId}.${extension}`;
-    const filePath = path.join(UPLOADS_DIR, filename);
-
-    // Ensure uploads directory exists
-    try {
-      await fs.mkdir(UPLOADS_DIR, { recursive: true });
-    } catch (error) {
-      // Directory might already exist, ignore error
-    }
-
-    // Save file to disk
+    // Save file through the configured storage driver
+    let stored: StoredAssetFile;
     try {
-      const arrayBuffer = await assetFile.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-      await fs.writeFile(filePath, buffer);
+      stored = await storeAssetFile(buffer, assetId, extension, assetFile.type);
     } catch (error) {
       return NextResponse.json(
         {
           success: false,
-          error: `Failed to save file: ${error instanceof Error ? error.message : 'Unknown error'}`
+          error: error instanceof Error ? error.message : 'Failed to save file: Unknown error'
         },
         { status: 500 }
       );
     }
 
-    // Upload to S3 if storage mode is hybrid or s3
-    let assetUrl = `/uploads/${filename}`;
-    if (config.storage?.mode === 'hybrid' || config.storage?.mode === 's3') {
-      try {
-        const s3Key = localPathToS3Key(`/uploads/${filename}`);
-        const s3Url = await uploadToS3(filePath, s3Key, assetFile.type);
-        assetUrl = s3Url;
-        console.log(`[Upload] Uploaded to S3: ${s3Url}`);
-      } catch (s3Error) {
-        console.error('[Upload] S3 upload failed:', s3Error);
-        // In hybrid mode, fall back to local URL
-        // In s3 mode, this is a critical error
-        if (config.storage?.mode === 's3') {
-          return NextResponse.json(
-            {
-              success: false,
-              error: `Failed to upload to S3: ${s3Error instanceof Error ? s3Error.message : 'Unknown error'}`
-            },
-            { status: 500 }
-          );
-        }
-      }
-    }
-
-    // Process date field: validate if provided, otherwise use current date
-    let assetDate: string;
-    if (date && date.trim()) {
-      // Validate YYYY-MM-DD format
-      if (!/^\d{4}-\d{2}-\d{2}$/.test(date.trim())) {
-        return NextResponse.json(
-          { success: false, error: 'Invalid date format. Use YYYY-MM-DD format.' },
-          { status: 400 }
-        );
-      }
-      assetDate = date.trim();
-    } else {
-      // Default to current date
-      assetDate = new Date().toISOString().split('T')[0];
-    }
-
     // Create AssetMetadata object
     const asset: AssetMetadata = {
       id: assetId,
       date: assetDate,
-      asset_url: assetUrl,
+      asset_url: stored.assetUrl,
       meta_description: metaDescription.trim(),
       status: 'Draft',
       created_at: new Date().toISOString(),
-      versions: []
+      versions: [],
+      ...(brandKitId ? { brand_kit_id: brandKitId } : {}),
+      ...(layoutId ? { layout_id: layoutId } : {}),
+      ...hashes
     };
 
     // Add asset to history
     try {
-      await addAsset(asset);
+      await addAsset(asset, config.paths.history, {
+        actor: getRequestActor(request),
+        source: 'POST /api/assets/upload'
+      });
     } catch (error) {
       // If history update fails, try to clean up the uploaded file
-      try {
-        await fs.unlink(filePath);
-      } catch (unlinkError) {
-        // Ignore cleanup errors
-      }
+      await removeStoredAssetFile(stored.key);
 
       return NextResponse.json(
         {
@@ -178,7 +173,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       {
         success: true,
-        asset: asset
+        asset: asset,
+        ...(duplicates.length > 0 ? { duplicates } : {})
       },
       { status: 201 }
     );
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { brandLogoKey, getBrandKit, setBrandKitLogo } from '@/lib/brand-kits';
+import { getStorage, storageKeyFromUrl } from '@/lib/storage';
+import { validateFileSize, validateFileType } from '@/lib/uploads';
+
+/**
+ * Delete a replaced or removed logo, ignoring errors
+ */
+async function removeLogo(logoUrl: string | undefined): Promise<void> {
+  const key = logoUrl ? storageKeyFromUrl(logoUrl) : null;
+  if (!key) return;
+  await getStorage().delete(key).catch(error => console.warn(`Failed to delete logo ${key}:`, error));
+}
+
+/**
+ * POST /api/brand-kits/[kitId]/logo
+ * Upload (or replace) a brand kit's logo
+ *
+ * The logo is scaled into config.brandKits.logo and composited onto stories
+ * and previews; use a PNG with transparency.
+ *
+ * Request (multipart/form-data):
+ * - logoFile: Image file (PNG, JPG, JPEG)
+ *
+ * Response:
+ * - success: true/false
+ * - kit: Updated BrandKit with logo_url
+ * - error: Error message (400 if the file is missing or invalid, 404 if the kit is unknown)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ kitId: string }> }
+) {
+  try {
+    const { kitId } = await params;
+
+    const formData = await request.formData();
+    const logoFile = formData.get('logoFile') as File | null;
+    if (!logoFile) {
+      return NextResponse.json(
+        { success: false, error: 'Missing logoFile' },
+        { status: 400 }
+      );
+    }
+
+    const fileError = validateFileType(logoFile.type) ?? validateFileSize(logoFile.size);
+    if (fileError) {
+      return NextResponse.json(
+        { success: false, error: fileError },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getBrandKit(kitId))) {
+      return NextResponse.json(
+        { success: false, error: 'Brand kit not found' },
+        { status: 404 }
+      );
+    }
+
+    const extension = logoFile.type === 'image/png' ? 'png' : 'jpg';
+    const key = brandLogoKey(kitId, extension);
+    const logoUrl = await getStorage().put(key, Buffer.from(await logoFile.arrayBuffer()), logoFile.type);
+
+    let result;
+    try {
+      result = await setBrandKitLogo(kitId, logoUrl);
+    } catch (error) {
+      await getStorage().delete(key).catch(() => {});
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { success: false, error: 'Brand kit not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+    await removeLogo(result.previous);
+
+    return NextResponse.json(
+      {
+        success: true,
+        kit: result.kit
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to upload brand kit logo:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to upload brand kit logo: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/brand-kits/[kitId]/logo
+ * Remove a brand kit's logo
+ *
+ * Response:
+ * - success: true/false
+ * - kit: Updated BrandKit
+ * - error: Error message (404 if the kit is unknown)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ kitId: string }> }
+) {
+  try {
+    const { kitId } = await params;
+
+    let result;
+    try {
+      result = await setBrandKitLogo(kitId, null);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { success: false, error: 'Brand kit not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+    await removeLogo(result.previous);
+
+    return NextResponse.json(
+      {
+        success: true,
+        kit: result.kit
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to remove brand kit logo:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to remove brand kit logo: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  brandLogoStorageKey,
+  deleteBrandKit,
+  getBrandKit,
+  updateBrandKit,
+  type BrandKitInput
+} from '@/lib/brand-kits';
+import { getStorage } from '@/lib/storage';
+
+/**
+ * GET /api/brand-kits/[kitId]
+ * Fetch a brand kit
+ *
+ * Response:
+ * - success: true
+ * - kit: BrandKit
+ * - error: Error message (on failure; 404 if unknown)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ kitId: string }> }
+) {
+  try {
+    const { kitId } = await params;
+
+    const kit = await getBrandKit(kitId);
+    if (!kit) {
+      return NextResponse.json(
+        { success: false, error: 'Brand kit not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        kit
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to get brand kit:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to get brand kit: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/brand-kits/[kitId]
+ * Edit a brand kit
+ *
+ * Request body (all optional): name, allowed_colors, forbidden_colors,
+ * font (merged into the current font), text_color, logo_position,
+ * default_cta, tone. Assets pick up the changes on their next generation,
+ * preview or schedule.
+ *
+ * Response:
+ * - success: true/false
+ * - kit: Updated BrandKit
+ * - error: Error message (400 if a field is invalid, 404 if unknown)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ kitId: string }> }
+) {
+  try {
+    const { kitId } = await params;
+
+    let body: Partial<BrandKitInput>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    let kit;
+    try {
+      kit = await updateBrandKit(kitId, {
+        name: body.name,
+        allowed_colors: body.allowed_colors,
+        forbidden_colors: body.forbidden_colors,
+        font: body.font,
+        text_color: body.text_color,
+        logo_position: body.logo_position,
+        default_cta: body.default_cta,
+        tone: body.tone
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid brand kit')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { success: false, error: 'Brand kit not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        kit
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to update brand kit:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to update brand kit: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/brand-kits/[kitId]
+ * Delete a brand kit and its logo; assets that used it fall back to the default kit
+ *
+ * Response:
+ * - success: true/false
+ * - error: Error message (404 if unknown, 409 if it is the default)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ kitId: string }> }
+) {
+  try {
+    const { kitId } = await params;
+
+    let deleted;
+    try {
+      deleted = await deleteBrandKit(kitId);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Cannot delete the default')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Brand kit not found' },
+        { status: 404 }
+      );
+    }
+
+    const logoKey = brandLogoStorageKey(deleted);
+    if (logoKey) {
+      await getStorage().delete(logoKey).catch(error =>
+        console.warn(`Failed to delete logo of brand kit ${kitId}:`, error)
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to delete brand kit:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to delete brand kit: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
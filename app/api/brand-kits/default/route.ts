@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readBrandKits, setDefaultBrandKit } from '@/lib/brand-kits';
+
+/**
+ * GET /api/brand-kits/default
+ * Fetch the default brand kit
+ *
+ * Response:
+ * - success: true
+ * - kit: Default BrandKit
+ * - error: Error message (404 if the default no longer exists)
+ */
+export async function GET() {
+  try {
+    const { default_kit_id, kits } = await readBrandKits();
+
+    const kit = kits.find(k => k.id === default_kit_id);
+    if (!kit) {
+      return NextResponse.json(
+        { success: false, error: `Default brand kit ${default_kit_id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        kit
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to get default brand kit:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to get default brand kit: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/brand-kits/default
+ * Choose the default brand kit
+ *
+ * Request body:
+ * - kit_id: Kit used by assets without a brand_kit_id
+ *
+ * Response:
+ * - success: true/false
+ * - kit: New default BrandKit
+ * - error: Error message (400 without kit_id, 404 if unknown)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    let body: { kit_id?: string };
+    try {
+      body = await request.json();
+    } catch {
+      body = {};
+    }
+
+    if (!body.kit_id || typeof body.kit_id !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'kit_id is required' },
+        { status: 400 }
+      );
+    }
+
+    let kit;
+    try {
+      kit = await setDefaultBrandKit(body.kit_id);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { success: false, error: 'Brand kit not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        kit
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to set default brand kit:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to set default brand kit: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
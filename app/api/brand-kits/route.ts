@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBrandKit, readBrandKits, type BrandKitInput } from '@/lib/brand-kits';
+
+/**
+ * GET /api/brand-kits
+ * List brand kits
+ *
+ * Response:
+ * - success: true
+ * - default_kit_id: Kit used by assets without one
+ * - kits: BrandKit[]
+ * - error: Error message (on failure)
+ */
+export async function GET() {
+  try {
+    const { default_kit_id, kits } = await readBrandKits();
+
+    return NextResponse.json(
+      {
+        success: true,
+        default_kit_id,
+        kits
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to list brand kits:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to list brand kits: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/brand-kits
+ * Create a brand kit
+ *
+ * Request body:
+ * - name: Display name
+ * - allowed_colors, forbidden_colors: Optional #RRGGBB arrays
+ * - font: Optional { family, path, weight, size } (missing fields from the built-in kit)
+ * - text_color: Optional #RRGGBB text overlay fill
+ * - logo_position: Optional 'top-left' | 'top-right' (upload the logo to /logo)
+ * - default_cta: Optional text overlay content for assets without their own
+ * - tone: Optional style and tone guidelines for prompts
+ *
+ * Response:
+ * - success: true/false
+ * - kit: Created BrandKit (201)
+ * - error: Error message (400 if a field is missing or invalid)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: BrandKitInput;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    let kit;
+    try {
+      kit = await createBrandKit({
+        name: body.name,
+        allowed_colors: body.allowed_colors,
+        forbidden_colors: body.forbidden_colors,
+        font: body.font,
+        text_color: body.text_color,
+        logo_position: body.logo_position,
+        default_cta: body.default_cta,
+        tone: body.tone
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid brand kit')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        kit
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Failed to create brand kit:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to create brand kit: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteCampaign, getCampaign, updateCampaign, type CampaignInput } from '@/lib/campaigns';
+
+/**
+ * GET /api/campaigns/[campaignId]
+ * Fetch a seasonal campaign
+ *
+ * Response:
+ * - success: true
+ * - campaign: Campaign
+ * - error: Error message (on failure; 404 if unknown)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    const { campaignId } = await params;
+
+    const campaign = await getCampaign(campaignId);
+    if (!campaign) {
+      return NextResponse.json(
+        { success: false, error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        campaign
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to get campaign:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to get campaign: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/campaigns/[campaignId]
+ * Edit a seasonal campaign
+ *
+ * Request body (all optional): name, start_date, end_date, prompt_additions,
+ * overlay_text, palette. An empty overlay_text or palette removes it. Assets
+ * pick up the changes on their next generation or schedule.
+ *
+ * Response:
+ * - success: true/false
+ * - campaign: Updated Campaign
+ * - error: Error message (400 if a field is invalid, 404 if unknown)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    const { campaignId } = await params;
+
+    let body: Partial<CampaignInput>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    let campaign;
+    try {
+      campaign = await updateCampaign(campaignId, {
+        name: body.name,
+        start_date: body.start_date,
+        end_date: body.end_date,
+        prompt_additions: body.prompt_additions,
+        overlay_text: body.overlay_text,
+        palette: body.palette
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid campaign')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { success: false, error: 'Campaign not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        campaign
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to update campaign:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to update campaign: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/campaigns/[campaignId]
+ * Delete a seasonal campaign (versions generated under it keep its ID)
+ *
+ * Response:
+ * - success: true/false
+ * - error: Error message (404 if unknown)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    const { campaignId } = await params;
+
+    if (!(await deleteCampaign(campaignId))) {
+      return NextResponse.json(
+        { success: false, error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to delete campaign:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to delete campaign: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
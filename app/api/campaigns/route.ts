@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campaignForDate, createCampaign, readCampaigns, type CampaignInput } from '@/lib/campaigns';
+
+/**
+ * GET /api/campaigns
+ * List seasonal campaigns
+ *
+ * Query parameters:
+ * - date: Optional YYYY-MM-DD; also return the campaign that date falls in
+ *
+ * Response:
+ * - success: true
+ * - campaigns: Campaign[] by start date
+ * - campaign: Campaign for `date`, or null (only with `date`)
+ * - error: Error message (on failure)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const date = request.nextUrl.searchParams.get('date');
+    if (date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Use YYYY-MM-DD format.' },
+        { status: 400 }
+      );
+    }
+
+    const campaigns = await readCampaigns();
+
+    return NextResponse.json(
+      {
+        success: true,
+        campaigns: [...campaigns].sort((a, b) => a.start_date.localeCompare(b.start_date)),
+        ...(date !== null ? { campaign: campaignForDate(campaigns, date) } : {})
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to list campaigns:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to list campaigns: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/campaigns
+ * Create a seasonal campaign
+ *
+ * Request body:
+ * - name: Display name
+ * - start_date, end_date: YYYY-MM-DD, inclusive
+ * - prompt_additions: Optional text appended to background prompts
+ * - overlay_text: Optional text overlay for assets without their own
+ * - palette: Optional #RRGGBB colors replacing the brand palette
+ *
+ * Response:
+ * - success: true/false
+ * - campaign: Created Campaign (201)
+ * - error: Error message (400 if a field is missing or invalid)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: CampaignInput;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    let campaign;
+    try {
+      campaign = await createCampaign({
+        name: body.name,
+        start_date: body.start_date,
+        end_date: body.end_date,
+        prompt_additions: body.prompt_additions,
+        overlay_text: body.overlay_text,
+        palette: body.palette
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid campaign')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        campaign
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Failed to create campaign:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to create campaign: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getBackupHealth } from '@/lib/history-backup-runner';
+
+/**
+ * GET /api/health/backups
+ * Report the status of scheduled history backups
+ *
+ * Response (200 when healthy, 503 when the last backup failed or is overdue):
+ * - success: true
+ * - healthy: boolean
+ * - enabled, schedule, retention_days
+ * - status: last run details (HistoryBackupStatus)
+ * - reason: Explanation when unhealthy
+ */
+export async function GET() {
+  try {
+    const health = getBackupHealth();
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...health
+      },
+      { status: health.healthy ? 200 : 503 }
+    );
+  } catch (error) {
+    console.error('Failed to read backup health:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to read backup health: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { inspectHistoryFile } from '@/lib/history-repository';
+import { CURRENT_HISTORY_SCHEMA_VERSION } from '@/lib/history-schema';
+
+/**
+ * GET /api/health/history
+ * Report the schema version of history.json and any malformed asset records
+ *
+ * Malformed records are hidden from every other route (and kept in the file),
+ * so this is where they surface. Not applicable with the Postgres backend.
+ *
+ * Response (200 when healthy, 503 when records are malformed):
+ * - success: true
+ * - healthy: boolean
+ * - backend: 'file' | 'postgres'
+ * - schema_version, stored_schema_version, asset_count, issues (file backend)
+ * - error: Error message (on failure, e.g. a schema newer than this release)
+ */
+export async function GET() {
+  try {
+    if (config.database?.enabled) {
+      return NextResponse.json(
+        {
+          success: true,
+          healthy: true,
+          backend: 'postgres',
+          schema_version: CURRENT_HISTORY_SCHEMA_VERSION
+        },
+        { status: 200 }
+      );
+    }
+
+    const report = await inspectHistoryFile();
+    const healthy = report.issues.length === 0;
+
+    return NextResponse.json(
+      {
+        success: true,
+        healthy,
+        backend: 'file',
+        ...report
+      },
+      { status: healthy ? 200 : 503 }
+    );
+  } catch (error) {
+    console.error('Failed to inspect history:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to inspect history: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { POST } from './route';
+import { NextRequest } from 'next/server';
+import { restoreBackup } from '@/lib/history-backups';
+
+jest.mock('@/lib/history-backups', () => ({
+  ...jest.requireActual('@/lib/history-backups'),
+  restoreBackup: jest.fn()
+}));
+
+const BACKUP_ID = 'history-2026-01-20-2026-01-20T02-00-00-000Z.json';
+
+function callRestore(backupId: string) {
+  const request = new NextRequest(`http://localhost:3000/api/history/backups/${backupId}/restore`, {
+    method: 'POST'
+  });
+  return POST(request, { params: Promise.resolve({ backupId }) });
+}
+
+describe('POST /api/history/backups/[backupId]/restore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should restore the backup and return the safety backup key', async () => {
+    const result = {
+      restored_from: `backups/${BACKUP_ID}`,
+      safety_backup: 'backups/history-2026-02-01-pre-restore.json',
+      asset_count: 3,
+      diff: { added: [], removed: [], changed: [], unchanged_count: 3 }
+    };
+    (restoreBackup as jest.Mock).mockResolvedValue(result);
+
+    const response = await callRestore(BACKUP_ID);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true, result });
+    expect(restoreBackup).toHaveBeenCalledWith(BACKUP_ID, 'api');
+  });
+
+  it('should return 400 for an invalid backupId', async () => {
+    const response = await callRestore('..%2Fhistory.json');
+
+    expect(response.status).toBe(400);
+    expect(restoreBackup).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the backup does not exist', async () => {
+    (restoreBackup as jest.Mock).mockResolvedValue(null);
+
+    const response = await callRestore(BACKUP_ID);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ success: false, error: 'Backup not found' });
+  });
+
+  it('should return 409 when history changed during restore', async () => {
+    (restoreBackup as jest.Mock).mockRejectedValue(
+      new Error('Failed to update history: History changed during restore; no changes were made, please retry')
+    );
+
+    const response = await callRestore(BACKUP_ID);
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should return 422 for a malformed backup', async () => {
+    (restoreBackup as jest.Mock).mockRejectedValue(new Error('Invalid backup: assets must be an array'));
+
+    const response = await callRestore(BACKUP_ID);
+
+    expect(response.status).toBe(422);
+  });
+});
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidBackupId, restoreBackup } from '@/lib/history-backups';
+import { getRequestActor } from '@/lib/audit';
+
+/**
+ * POST /api/history/backups/[backupId]/restore
+ * Replace the current history with a backup
+ *
+ * Steps:
+ * 1. Validate backupId
+ * 2. Load and validate the backup
+ * 3. Upload a safety backup of the current history
+ * 4. Swap in the backup under the history lock
+ *
+ * Response:
+ * - success: true
+ * - result: HistoryRestoreResult (on success)
+ * - error: Error message (on failure)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ backupId: string }> }
+) {
+  try {
+    // 1. Validate backupId
+    const { backupId } = await params;
+
+    if (!backupId || !isValidBackupId(backupId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid backupId format' },
+        { status: 400 }
+      );
+    }
+
+    // 2-4. Restore (safety backup is taken before anything is written)
+    const result = await restoreBackup(backupId, getRequestActor(request));
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Backup not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[History] Restored ${result.restored_from} (safety backup: ${result.safety_backup})`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        result
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to restore history backup:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    let status = 500;
+    if (message.startsWith('Invalid backup')) {
+      status = 422;
+    } else if (message.includes('History changed during restore')) {
+      status = 409;
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to restore backup: ${message}`
+      },
+      { status }
+    );
+  }
+}
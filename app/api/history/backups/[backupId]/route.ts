@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidBackupId, previewBackup } from '@/lib/history-backups';
+
+/**
+ * GET /api/history/backups/[backupId]
+ * Preview a history backup: asset counts and a diff against the current history
+ *
+ * Response:
+ * - success: true
+ * - preview: HistoryBackupPreview (on success)
+ * - error: Error message (on failure)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ backupId: string }> }
+) {
+  try {
+    const { backupId } = await params;
+
+    if (!backupId || !isValidBackupId(backupId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid backupId format' },
+        { status: 400 }
+      );
+    }
+
+    const preview = await previewBackup(backupId);
+
+    if (!preview) {
+      return NextResponse.json(
+        { success: false, error: 'Backup not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        preview
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to preview history backup:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to preview backup: ${message}`
+      },
+      { status: message.startsWith('Invalid backup') ? 422 : 500 }
+    );
+  }
+}
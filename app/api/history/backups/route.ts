@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { listBackups } from '@/lib/history-backups';
+
+/**
+ * GET /api/history/backups
+ * List history backups stored in S3, newest first
+ *
+ * Response:
+ * - success: true
+ * - backups: HistoryBackupInfo[] (on success)
+ * - error: Error message (on failure)
+ */
+export async function GET() {
+  try {
+    const backups = await listBackups();
+
+    return NextResponse.json(
+      {
+        success: true,
+        backups
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to list history backups:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to list backups: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
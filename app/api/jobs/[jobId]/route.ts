@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob, getJob } from '@/lib/jobs';
+
+/**
+ * GET /api/jobs/[jobId]
+ * Fetch a job's status
+ *
+ * Response:
+ * - success: true
+ * - job: Job with status (queued, running, succeeded, failed, cancelled),
+ *   per-stage status, queue position while waiting for OpenRouter, and
+ *   result once it has succeeded (on success)
+ * - error: Error message (on failure; 404 if unknown or pruned after
+ *   JOBS_RETENTION_DAYS)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const job = await getJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        job
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to get job:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to get job: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/jobs/[jobId]
+ * Cancel a job
+ *
+ * Steps:
+ * 1. Return 404 if the job doesn't exist
+ * 2. Return 409 if it has already finished
+ * 3. Cancel a queued job at once; a running job stops before its next stage
+ *    (cancel_requested is set until it does)
+ *
+ * Response:
+ * - success: true/false
+ * - job: Updated job (on success)
+ * - error: Error message (on failure)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    let job;
+    try {
+      job = await cancelJob(jobId);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Job is already')) {
+        return NextResponse.json(
+          { success: false, error: error.message, job: await getJob(jobId) },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        job
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to cancel job:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to cancel job: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
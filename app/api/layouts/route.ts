@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_LAYOUT_ID, listLayoutTemplates } from '@/lib/layouts';
+
+/**
+ * GET /api/layouts
+ * List layout templates for story composition
+ *
+ * Response:
+ * - success: true
+ * - default_layout_id: Layout used by assets without one
+ * - layouts: LayoutTemplate[] (asset box, anchor, scale, rotation, text region)
+ * - error: Error message (on failure)
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(
+      {
+        success: true,
+        default_layout_id: DEFAULT_LAYOUT_ID,
+        layouts: listLayoutTemplates()
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to list layouts:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to list layouts: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
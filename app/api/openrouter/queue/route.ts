@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getOpenRouterLimiter } from '@/lib/openrouter';
+
+/**
+ * GET /api/openrouter/queue
+ * Report the shared OpenRouter rate limiter for this server process
+ *
+ * Response:
+ * - success: true
+ * - calls_per_minute: OPENROUTER_MAX_CALLS_PER_MINUTE
+ * - available_tokens: Calls that can start immediately
+ * - queued: Calls waiting for a token
+ * - eta_ms: Estimated wait for a call made now
+ * - error: Error message (on failure)
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(
+      {
+        success: true,
+        ...getOpenRouterLimiter().status()
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to read OpenRouter queue:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to read OpenRouter queue: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readHistory } from '@/lib/history';
+import { summarizeLlmUsage } from '@/lib/llm-usage';
+
+/**
+ * Parse an optional positive integer query parameter
+ * @returns The value, undefined if absent, or null if invalid
+ */
+function parseCount(value: string | null, max: number): number | undefined | null {
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 1 && parsed <= max ? parsed : null;
+}
+
+/**
+ * GET /api/openrouter/usage
+ * Report LLM usage and cost recorded on assets (trashed assets included)
+ *
+ * Query parameters:
+ * - days: Days in the daily series (1-366, default 30)
+ * - months: Months in the monthly series (1-60, default 12)
+ *
+ * Response:
+ * - success: true/false
+ * - total: calls, prompt_tokens, completion_tokens, total_tokens, cost_usd,
+ *   unpriced_calls (no cost reported), avg_latency_ms
+ * - daily: [{ date, ...totals }] ending today (UTC)
+ * - monthly: [{ month, ...totals }] ending this month (UTC)
+ * - by_model, by_operation: totals keyed by model / 'background' | 'vision'
+ * - top_assets: [{ asset_id, meta_description, ...totals }] by cost
+ * - error: Error message (on failure)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const days = parseCount(request.nextUrl.searchParams.get('days'), 366);
+    const months = parseCount(request.nextUrl.searchParams.get('months'), 60);
+    if (days === null || months === null) {
+      return NextResponse.json(
+        { success: false, error: 'days must be 1-366 and months 1-60' },
+        { status: 400 }
+      );
+    }
+
+    const history = await readHistory();
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...summarizeLlmUsage(history.assets, { days, months })
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to read LLM usage:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to read LLM usage: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deletePromptTemplate,
+  getPromptTemplate,
+  updatePromptTemplate,
+  type PromptTemplateInput
+} from '@/lib/prompt-templates';
+import { getRequestActor } from '@/lib/audit';
+
+/**
+ * GET /api/prompt-templates/[templateId]
+ * Fetch a prompt template with its version history
+ *
+ * Response:
+ * - success: true
+ * - template: PromptTemplate (versions oldest first; the last is current)
+ * - error: Error message (on failure; 404 if unknown)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+
+    const template = await getPromptTemplate(templateId);
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        template
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to get prompt template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to get prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/prompt-templates/[templateId]
+ * Edit a prompt template
+ *
+ * Request body (all optional):
+ * - name, description: Changed in place
+ * - system_prompt, user_prompt: Changing either adds a version; earlier
+ *   versions are kept for the asset versions that used them
+ *
+ * Response:
+ * - success: true/false
+ * - template: Updated PromptTemplate
+ * - error: Error message (400 if a field is invalid, 404 if unknown)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+
+    let body: Partial<PromptTemplateInput>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    let template;
+    try {
+      template = await updatePromptTemplate(
+        templateId,
+        {
+          name: body.name,
+          description: body.description,
+          system_prompt: body.system_prompt,
+          user_prompt: body.user_prompt
+        },
+        getRequestActor(request)
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid template')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { success: false, error: 'Prompt template not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        template
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to update prompt template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to update prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/prompt-templates/[templateId]
+ * Delete a prompt template
+ *
+ * Response:
+ * - success: true/false
+ * - error: Error message (404 if unknown, 409 if it is the default)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+
+    let deleted: boolean;
+    try {
+      deleted = await deletePromptTemplate(templateId);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Cannot delete the default')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to delete prompt template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to delete prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readPromptTemplates, setDefaultPromptTemplate } from '@/lib/prompt-templates';
+
+/**
+ * GET /api/prompt-templates/default
+ * Fetch the workspace default prompt template
+ *
+ * Response:
+ * - success: true
+ * - template: Default PromptTemplate
+ * - error: Error message (404 if the default no longer exists)
+ */
+export async function GET() {
+  try {
+    const { default_template_id, templates } = await readPromptTemplates();
+
+    const template = templates.find(t => t.id === default_template_id);
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: `Default prompt template ${default_template_id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        template
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to get default prompt template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to get default prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/prompt-templates/default
+ * Choose the workspace default prompt template
+ *
+ * Request body:
+ * - template_id: Template used when a generation request doesn't name one
+ *
+ * Response:
+ * - success: true/false
+ * - template: New default PromptTemplate
+ * - error: Error message (400 without template_id, 404 if unknown)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    let body: { template_id?: string };
+    try {
+      body = await request.json();
+    } catch {
+      body = {};
+    }
+
+    if (!body.template_id || typeof body.template_id !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'template_id is required' },
+        { status: 400 }
+      );
+    }
+
+    let template;
+    try {
+      template = await setDefaultPromptTemplate(body.template_id);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { success: false, error: 'Prompt template not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        template
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to set default prompt template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to set default prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
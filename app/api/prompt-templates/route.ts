@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createPromptTemplate,
+  PROMPT_TEMPLATE_VARIABLES,
+  readPromptTemplates,
+  type PromptTemplateInput
+} from '@/lib/prompt-templates';
+import { getRequestActor } from '@/lib/audit';
+
+/**
+ * GET /api/prompt-templates
+ * List prompt templates
+ *
+ * Response:
+ * - success: true
+ * - default_template_id: Workspace default template
+ * - templates: PromptTemplate[] with every version (the last is current)
+ * - variables: Variables templates may use
+ * - error: Error message (on failure)
+ */
+export async function GET() {
+  try {
+    const { default_template_id, templates } = await readPromptTemplates();
+
+    return NextResponse.json(
+      {
+        success: true,
+        default_template_id,
+        templates,
+        variables: PROMPT_TEMPLATE_VARIABLES
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to list prompt templates:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to list prompt templates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/prompt-templates
+ * Create a prompt template
+ *
+ * Request body:
+ * - name: Display name
+ * - description: Optional
+ * - system_prompt, user_prompt: Prompt text with {{variables}}
+ *
+ * Response:
+ * - success: true/false
+ * - template: Created PromptTemplate at version 1 (201)
+ * - error: Error message (400 if a field is missing or a variable is unknown)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: PromptTemplateInput;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    let template;
+    try {
+      template = await createPromptTemplate(
+        {
+          name: body.name,
+          description: body.description,
+          system_prompt: body.system_prompt,
+          user_prompt: body.user_prompt
+        },
+        getRequestActor(request)
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid template')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        template
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Failed to create prompt template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to create prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { GET, POST } from './route';
+import { NextRequest } from 'next/server';
+import { runStorageGc } from '@/lib/storage-gc';
+
+jest.mock('@/lib/storage-gc', () => ({
+  runStorageGc: jest.fn()
+}));
+
+function report(overrides: Record<string, unknown> = {}) {
+  return {
+    dry_run: true,
+    generated_at: '2026-03-01T12:00:00.000Z',
+    retention_days: 30,
+    scanned_files: 2,
+    scanned_bytes: 300,
+    orphans: [{ key: 'uploads/old.png', size: 100, last_modified: '2026-01-01T00:00:00.000Z', reason: 'orphan' }],
+    expired_previews: [],
+    reclaimable_bytes: 100,
+    deleted: [],
+    deleted_bytes: 0,
+    errors: [],
+    ...overrides
+  };
+}
+
+function callPost(body?: unknown) {
+  const request = new NextRequest('http://localhost:3000/api/storage/gc', {
+    method: 'POST',
+    headers: { 'x-actor': 'ops' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return POST(request);
+}
+
+describe('/api/storage/gc', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('GET should return a dry-run report', async () => {
+    (runStorageGc as jest.Mock).mockResolvedValue(report());
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true, report: report() });
+    expect(runStorageGc).toHaveBeenCalledWith({ dryRun: true });
+  });
+
+  it('POST should delete only the reviewed keys', async () => {
+    const deleted = report({ dry_run: false, deleted: ['uploads/old.png'], deleted_bytes: 100 });
+    (runStorageGc as jest.Mock).mockResolvedValue(deleted);
+
+    const response = await callPost({ keys: ['uploads/old.png'] });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, report: deleted });
+    expect(runStorageGc).toHaveBeenCalledWith({ dryRun: false, keys: ['uploads/old.png'], actor: 'ops' });
+  });
+
+  it('POST should report failed deletes', async () => {
+    (runStorageGc as jest.Mock).mockResolvedValue(
+      report({ dry_run: false, errors: [{ key: 'uploads/old.png', error: 'Access Denied' }] })
+    );
+
+    const data = await (await callPost()).json();
+
+    expect(data.success).toBe(false);
+    expect(data.report.errors).toHaveLength(1);
+  });
+
+  it('POST should reject malformed keys', async () => {
+    const response = await callPost({ keys: 'uploads/old.png' });
+
+    expect(response.status).toBe(400);
+    expect(runStorageGc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runStorageGc } from '@/lib/storage-gc';
+import { getRequestActor } from '@/lib/audit';
+
+/**
+ * GET /api/storage/gc
+ * Dry run: list orphaned files and expired previews without deleting anything
+ *
+ * Response:
+ * - success: true
+ * - report: StorageGcReport (dry_run: true, byte totals, items to delete)
+ */
+export async function GET() {
+  try {
+    const report = await runStorageGc({ dryRun: true });
+
+    return NextResponse.json(
+      {
+        success: true,
+        report
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to scan storage:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to scan storage: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/storage/gc
+ * Delete orphaned files and expired previews
+ *
+ * Request body (optional):
+ * - keys: string[] - Only delete these keys (e.g. the ones reviewed in a GET
+ *   report). Keys no longer eligible are skipped. Omit to delete everything
+ *   a fresh scan finds.
+ *
+ * Steps:
+ * 1. Validate request body
+ * 2. Re-scan storage against current history
+ * 3. Clear metadata of expired previews, then delete files
+ *
+ * Response:
+ * - success: false if any delete failed (see report.errors)
+ * - report: StorageGcReport (deleted keys, deleted_bytes, errors)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Validate request body
+    let body: { keys?: unknown } = {};
+    try {
+      body = await request.json();
+    } catch {
+      // Body is optional
+      body = {};
+    }
+
+    const { keys } = body ?? {};
+    if (keys !== undefined && (!Array.isArray(keys) || keys.some(key => typeof key !== 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'keys must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    // 2-3. Re-scan and delete
+    const report = await runStorageGc({
+      dryRun: false,
+      keys: keys as string[] | undefined,
+      actor: getRequestActor(request)
+    });
+
+    return NextResponse.json(
+      {
+        success: report.errors.length === 0,
+        report
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Failed to collect storage garbage:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to collect storage garbage: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
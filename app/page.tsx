@@ -14,6 +14,8 @@ import EditAssetModal from '@/components/EditAssetModal';
 import ErrorDetailsModal from '@/components/ErrorDetailsModal';
 import PromptPreviewModal from '@/components/PromptPreviewModal';
 import BulkActionToolbar from '@/components/BulkActionToolbar';
+import type { Job } from '@/lib/jobs';
+import { summarizeLlmUsage } from '@/lib/llm-usage';
 import toast from 'react-hot-toast';
 
 // Helper for screen reader announcements
@@ -33,11 +35,23 @@ function announceToScreenReader(message: string) {
   }, 1000);
 }
 
+// Background job polling: interval, retries of a failed poll (each waits
+// twice as long), and how long to wait in total
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_POLL_MAX_RETRIES = 3;
+const JOB_WAIT_TIMEOUT_MS = 10 * 60 * 1000;
+
+// LLM costs are often fractions of a cent
+function formatUsd(amount: number) {
+  return `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`;
+}
+
 export default function Dashboard() {
   // State management
   const [assets, setAssets] = useState<AssetMetadata[]>([]);
+  const [assetCampaigns, setAssetCampaigns] = useState<Record<string, { id: string; name: string }>>({});
   const [filteredAssets, setFilteredAssets] = useState<AssetMetadata[]>([]);
-  const [statusFilter, setStatusFilter] = useState<Status | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<Status | 'all' | 'trash'>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState('date-desc');
   const [loading, setLoading] = useState(true);
@@ -162,10 +176,15 @@ export default function Dashboard() {
     onNavigateDown: handleNavigateDownCallback,
   });
 
+  // Trashed assets only appear in the Trash view
+  const liveAssets = useMemo(() => assets.filter(a => !a.deleted_at), [assets]);
+  const trashedAssets = useMemo(() => assets.filter(a => a.deleted_at), [assets]);
+  const viewAssets = statusFilter === 'trash' ? trashedAssets : liveAssets;
+
   // Check if there are assets that need polling (Draft or Scheduled status)
   const hasProcessingAssets = useMemo(() => {
-    return assets.some(a => a.status === 'Draft' || a.status === 'Scheduled');
-  }, [assets]);
+    return liveAssets.some(a => a.status === 'Draft' || a.status === 'Scheduled');
+  }, [liveAssets]);
 
   // Auto-polling for status updates
   useAutoPolling({
@@ -185,40 +204,46 @@ export default function Dashboard() {
     const currentMonth = now.getMonth();
     const currentYear = now.getFullYear();
 
-    const scheduledThisMonth = assets.filter(a => {
+    const scheduledThisMonth = liveAssets.filter(a => {
       const assetDate = new Date(a.date);
       return a.status === 'Scheduled' &&
         assetDate.getMonth() === currentMonth &&
         assetDate.getFullYear() === currentYear;
     }).length;
 
-    const publishedToday = assets.filter(a => {
+    const publishedToday = liveAssets.filter(a => {
       const assetDate = new Date(a.date);
       const today = new Date();
       return a.status === 'Published' &&
         assetDate.toDateString() === today.toDateString();
     }).length;
 
-    const totalScheduled = assets.filter(a => a.status === 'Scheduled' || a.status === 'Published').length;
-    const failedScheduled = assets.filter(a => a.status === 'Failed').length;
+    const totalScheduled = liveAssets.filter(a => a.status === 'Scheduled' || a.status === 'Published').length;
+    const failedScheduled = liveAssets.filter(a => a.status === 'Failed').length;
     const successRate = totalScheduled > 0
       ? Math.round(((totalScheduled - failedScheduled) / totalScheduled) * 100)
       : 0;
 
     return {
-      totalStories: assets.length,
+      totalStories: liveAssets.length,
       scheduledThisMonth,
       publishedToday,
       successRate,
     };
-  }, [assets]);
+  }, [liveAssets]);
+
+  // LLM spend includes trashed assets (the money was spent either way)
+  const llmSpendThisMonth = useMemo(
+    () => summarizeLlmUsage(assets, { days: 1, months: 1 }).monthly[0].cost_usd,
+    [assets]
+  );
 
   // Apply filters function
   const applyFilters = useCallback(() => {
-    let result = assets;
+    let result = statusFilter === 'trash' ? trashedAssets : liveAssets;
 
     // Filter by status
-    if (statusFilter !== 'all') {
+    if (statusFilter !== 'all' && statusFilter !== 'trash') {
       result = result.filter(a => a.status.toLowerCase() === statusFilter);
     }
 
@@ -234,7 +259,7 @@ export default function Dashboard() {
     result = sortAssets(result, sortBy);
 
     setFilteredAssets(result);
-  }, [assets, statusFilter, searchQuery, sortBy]);
+  }, [liveAssets, trashedAssets, statusFilter, searchQuery, sortBy]);
 
   // Fetch assets on mount
   useEffect(() => {
@@ -255,11 +280,12 @@ export default function Dashboard() {
   async function fetchAssets() {
     setLoading(true);
     try {
-      const response = await fetch('/api/assets');
+      const response = await fetch('/api/assets?trash=include');
       const data = await response.json();
 
       if (data.success) {
         setAssets(data.assets || []);
+        setAssetCampaigns(data.campaigns || {});
       } else {
         toast.error(data.error || 'Failed to load assets');
       }
@@ -302,20 +328,96 @@ export default function Dashboard() {
     });
   }
 
-  // Handle Generate Background button
-  async function handleGenerateBackground(id: string) {
+  // If-Match header with the revision shown, so the server rejects writes based on a stale record
+  function ifMatchHeaders(id: string): Record<string, string> {
+    const asset = assets.find(a => a.id === id);
+    return asset ? { 'If-Match': `"${asset.revision ?? 0}"` } : {};
+  }
+
+  // After a 409, show the current records instead of overwriting them
+  function applyConflicts(current: AssetMetadata[]) {
+    setAssets(prev => prev.map(a => current.find(c => c.id === a.id) ?? a));
+    setEditingAsset(prev => (prev && current.find(c => c.id === prev.id)) || prev);
+    toast.error(
+      current.length === 1
+        ? `"${current[0].meta_description}" was changed by someone else. Showing the latest version; review it and try again.`
+        : `${current.length} assets were changed by someone else. Showing the latest versions; review them and try again.`
+    );
+  }
+
+  // Poll a background job until it finishes. Failed polls (network errors,
+  // server errors) are retried with backoff; after too many, or after
+  // JOB_WAIT_TIMEOUT_MS, stop waiting and say so (the job keeps running on the
+  // server). Returns null if it stopped waiting.
+  async function waitForJob(jobId: string): Promise<Job | null> {
+    const deadline = Date.now() + JOB_WAIT_TIMEOUT_MS;
+    let failures = 0;
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS * 2 ** failures));
+
+      let status = 0;
+      let data: { success?: boolean; error?: string; job?: Job } | undefined;
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        status = response.status;
+        data = await response.json();
+      } catch (error) {
+        console.warn('Job status poll failed:', error);
+      }
+
+      if (data?.success && data.job) {
+        if (['succeeded', 'failed', 'cancelled'].includes(data.job.status)) {
+          return data.job;
+        }
+        failures = 0;
+      } else if (status >= 400 && status < 500) {
+        // The job is gone (or the request is wrong); retrying won't help
+        toast.error(data?.error || 'Failed to read job status');
+        return null;
+      } else if (++failures > JOB_POLL_MAX_RETRIES) {
+        toast.error('Lost contact with the server while waiting for the background. It may still finish; refresh to check.');
+        return null;
+      }
+    }
+
+    toast.error(`Background generation is taking more than ${JOB_WAIT_TIMEOUT_MS / 60000} minutes. It may still finish; refresh to check.`);
+    return null;
+  }
+
+  // Toast the outcome of a finished background job and refresh the gallery
+  async function reportBackgroundJob(job: Job, successMessage: string) {
+    const result = job.result as { version?: { provider?: string }; fallback_from?: { provider: string } } | undefined;
+
+    if (job.status === 'succeeded' && result?.fallback_from) {
+      toast(`${result.fallback_from.provider} failed; background generated with ${result.version?.provider} instead`, { icon: '⚠️' });
+    } else if (job.status === 'succeeded') {
+      toast.success(successMessage);
+    } else if (job.status === 'cancelled') {
+      toast('Background generation cancelled');
+    } else {
+      toast.error(job.error || 'Failed to generate background');
+    }
+    await fetchAssets();
+  }
+
+  // Handle Generate Background button (and regenerating with a chosen prompt template)
+  async function handleGenerateBackground(id: string, templateId?: string) {
     try {
       setAssetLoading(id, true);
       const response = await fetch(`/api/assets/${id}/background`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
+        headers: { 'Content-Type': 'application/json', ...ifMatchHeaders(id) },
+        ...(templateId ? { body: JSON.stringify({ templateId }) } : {})
       });
 
       const data = await response.json();
 
-      if (data.success) {
-        toast.success('Background generated successfully');
-        await fetchAssets();
+      if (response.status === 409 && data.asset) {
+        applyConflicts([data.asset]);
+      } else if (data.success) {
+        const job = await waitForJob(data.job.id);
+        if (job) await reportBackgroundJob(job, 'Background generated successfully');
       } else {
         toast.error(data.error || 'Failed to generate background');
       }
@@ -377,13 +479,15 @@ export default function Dashboard() {
 
       const response = await fetch(`/api/assets/${selectedAssetId}/schedule`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...ifMatchHeaders(selectedAssetId) },
         body: JSON.stringify({ scheduledTime })
       });
 
       const data = await response.json();
 
-      if (data.success) {
+      if (response.status === 409 && data.asset) {
+        applyConflicts([data.asset]);
+      } else if (data.success) {
         toast.success('Story scheduled successfully');
         await fetchAssets();
       } else {
@@ -412,20 +516,23 @@ export default function Dashboard() {
 
   // Handle Delete button
   async function handleDelete(id: string) {
-    if (!confirm('Are you sure you want to delete this asset? This action cannot be undone.')) {
+    if (!confirm('Move this asset to the trash? You can restore it from the Trash view until it is purged.')) {
       return;
     }
 
     try {
       setAssetLoading(id, true);
       const response = await fetch(`/api/assets/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: ifMatchHeaders(id)
       });
 
       const data = await response.json();
 
-      if (data.success || response.ok) {
-        toast.success('Asset deleted successfully');
+      if (response.status === 409 && data.asset) {
+        applyConflicts([data.asset]);
+      } else if (data.success || response.ok) {
+        toast.success('Asset moved to trash');
         await fetchAssets();
       } else {
         toast.error(data.error || 'Failed to delete asset');
@@ -438,6 +545,33 @@ export default function Dashboard() {
     }
   }
 
+  // Handle Restore button (Trash view)
+  async function handleRestore(id: string) {
+    try {
+      setAssetLoading(id, true);
+      const response = await fetch(`/api/assets/${id}/restore`, {
+        method: 'POST',
+        headers: ifMatchHeaders(id)
+      });
+
+      const data = await response.json();
+
+      if (response.status === 409 && data.asset) {
+        applyConflicts([data.asset]);
+      } else if (data.success) {
+        toast.success('Asset restored');
+        await fetchAssets();
+      } else {
+        toast.error(data.error || 'Failed to restore asset');
+      }
+    } catch (error) {
+      toast.error('Failed to restore asset');
+      console.error('Restore error:', error);
+    } finally {
+      setAssetLoading(id, false);
+    }
+  }
+
   // Handle asset selection
   const handleToggleSelection = useCallback((assetId: string) => {
     setSelectedAssetIds(prev => {
@@ -474,12 +608,22 @@ export default function Dashboard() {
       const response = await fetch('/api/assets/bulk-approve', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ assetIds: selectedAssetIds })
+        body: JSON.stringify({
+          assetIds: selectedAssetIds,
+          revisions: Object.fromEntries(
+            assets
+              .filter(a => selectedAssetIds.includes(a.id))
+              .map(a => [a.id, a.revision ?? 0])
+          )
+        })
       });
 
       const result = await response.json();
 
-      if (result.success) {
+      if (response.status === 409 && result.conflicts) {
+        // Nothing was approved; keep the selection so it can be re-approved after review
+        applyConflicts(result.conflicts);
+      } else if (result.success) {
         // Show success toast
         toast.success(`Successfully approved ${result.summary.total_approved} asset${result.summary.total_approved !== 1 ? 's' : ''}`);
 
@@ -496,29 +640,37 @@ export default function Dashboard() {
     } finally {
       setIsApproving(false);
     }
-  }, [selectedAssetIds]);
+  }, [selectedAssetIds, assets]);
 
   // Handle regenerate background from edit modal
-  async function handleRegenerateFromModal(id: string, refinementPrompt?: string) {
+  async function handleRegenerateFromModal(id: string, refinementPrompt?: string, count?: number, reanalyze?: boolean) {
     try {
       setAssetLoading(id, true);
 
       const response = await fetch(`/api/assets/${id}/background`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ refinementPrompt }),
+        headers: { 'Content-Type': 'application/json', ...ifMatchHeaders(id) },
+        body: JSON.stringify({
+          refinementPrompt,
+          ...(count && count > 1 ? { count } : {}),
+          ...(reanalyze ? { reanalyze } : {})
+        }),
       });
 
       const data = await response.json();
 
-      if (data.success) {
+      if (response.status === 409 && data.asset) {
+        applyConflicts([data.asset]);
+      } else if (data.success) {
         toast.success('Background regeneration started');
-        await fetchAssets();
-
-        // Update editing asset with new data
-        const updatedAsset = assets.find(a => a.id === id);
-        if (updatedAsset) {
-          setEditingAsset(updatedAsset);
+        const job = await waitForJob(data.job.id);
+        if (job) await reportBackgroundJob(job, 'Background regenerated successfully');
+
+        // Update editing asset with new data (including any candidates to pick from)
+        const assetResponse = await fetch(`/api/assets/${id}`);
+        const assetData = await assetResponse.json();
+        if (assetData.success) {
+          setEditingAsset(assetData.asset);
         }
       } else {
         toast.error(data.error || 'Failed to regenerate background');
@@ -531,6 +683,32 @@ export default function Dashboard() {
     }
   }
 
+  // Handle picking the winning candidate in the edit modal
+  async function handlePickCandidate(id: string, version: number, keepAlternates: boolean) {
+    try {
+      const response = await fetch(`/api/assets/${id}/candidates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...ifMatchHeaders(id) },
+        body: JSON.stringify({ version, keep_alternates: keepAlternates }),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 409 && data.asset) {
+        applyConflicts([data.asset]);
+      } else if (data.success) {
+        toast.success(`Version ${version} picked`);
+        setEditingAsset(data.asset);
+        await fetchAssets();
+      } else {
+        toast.error(data.error || 'Failed to pick candidate');
+      }
+    } catch (error) {
+      toast.error('Failed to pick candidate');
+      console.error('Pick candidate error:', error);
+    }
+  }
+
   // Handle version change from edit modal
   async function handleVersionChange(id: string, version: number) {
     try {
@@ -617,7 +795,7 @@ export default function Dashboard() {
           </div>
 
           {/* Metrics Grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
             <MetricCard
               label="Total Stories"
               value={metrics.totalStories}
@@ -654,13 +832,22 @@ export default function Dashboard() {
                 </svg>
               }
             />
+            <MetricCard
+              label="LLM Spend This Month"
+              value={formatUsd(llmSpendThisMonth)}
+              icon={
+                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              }
+            />
           </div>
         </section>
 
         {/* Filter Bar */}
         <FilterBar
           onSearch={setSearchQuery}
-          onStatusFilter={(status) => setStatusFilter(status as Status | 'all')}
+          onStatusFilter={(status) => setStatusFilter(status as Status | 'all' | 'trash')}
           onSort={setSortBy}
           selectedCount={selectedAssetIds.length}
           onBulkAction={() => {}}
@@ -699,11 +886,17 @@ export default function Dashboard() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                 </svg>
               }
-              title={assets.length === 0 ? 'No stories yet' : 'No assets found'}
+              title={
+                statusFilter === 'trash' && viewAssets.length === 0
+                  ? 'Trash is empty'
+                  : assets.length === 0 ? 'No stories yet' : 'No assets found'
+              }
               description={
-                assets.length === 0
-                  ? 'Upload your first asset to get started with automated Instagram Story creation'
-                  : 'Try adjusting your filters or search query'
+                statusFilter === 'trash' && viewAssets.length === 0
+                  ? 'Deleted assets appear here until they are purged'
+                  : assets.length === 0
+                    ? 'Upload your first asset to get started with automated Instagram Story creation'
+                    : 'Try adjusting your filters or search query'
               }
               action={
                 assets.length === 0
@@ -721,10 +914,12 @@ export default function Dashboard() {
                   <AssetCard
                     key={asset.id}
                     asset={asset}
+                    campaign={assetCampaigns[asset.id]}
                     onGenerateBackground={handleGenerateBackground}
                     onSchedule={handleSchedule}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
+                    onRestore={handleRestore}
                     onViewError={handleViewError}
                     onViewPrompt={handleViewPrompt}
                     loading={loadingAssetIds.has(asset.id)}
@@ -737,7 +932,7 @@ export default function Dashboard() {
 
               {/* Results Count */}
               <div className="mt-6 text-center text-sm text-fg-tertiary">
-                Showing {filteredAssets.length} of {assets.length} assets
+                Showing {filteredAssets.length} of {viewAssets.length} {statusFilter === 'trash' ? 'trashed ' : ''}assets
               </div>
             </>
           )}
@@ -798,6 +993,7 @@ export default function Dashboard() {
         }}
         asset={editingAsset}
         onRegenerateBackground={handleRegenerateFromModal}
+        onPickCandidate={handlePickCandidate}
         onSchedule={(id) => {
           setShowEditModal(false);
           handleSchedule(id);
@@ -829,6 +1025,7 @@ export default function Dashboard() {
           setPromptAsset(null);
         }}
         asset={promptAsset}
+        onRegenerate={handleGenerateBackground}
       />
 
       {/* Keyboard Shortcuts Help Modal */}
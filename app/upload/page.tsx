@@ -1,12 +1,19 @@
 'use client'
 
-import { useState, ChangeEvent, FormEvent } from 'react';
+import { useState, useEffect, ChangeEvent, FormEvent } from 'react';
 import { useRouter } from 'next/navigation';
 import Button from '@/components/Button';
 import toast from 'react-hot-toast';
+import type { BrandKit, CsvUploadResponse, DuplicateMatch } from '@/lib/types';
+import type { LayoutTemplate } from '@/lib/layouts';
 
 type UploadMode = 'manual' | 'csv';
 
+// Browsers report CSV files inconsistently (e.g. application/vnd.ms-excel on Windows)
+function isCsvFile(file: File): boolean {
+  return file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
+}
+
 export default function UploadPage() {
   const router = useRouter();
   const [mode, setMode] = useState<UploadMode>('manual');
@@ -17,12 +24,44 @@ export default function UploadPage() {
   const [uploading, setUploading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [csvResult, setCsvResult] = useState<CsvUploadResponse | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [brandKitId, setBrandKitId] = useState('');
+  const [layouts, setLayouts] = useState<LayoutTemplate[]>([]);
+  const [layoutId, setLayoutId] = useState('');
   const [errors, setErrors] = useState<{
     file?: string;
     description?: string;
     date?: string;
   }>({});
 
+  // Brand kits and layouts for the pickers; the defaults are preselected
+  useEffect(() => {
+    fetch('/api/brand-kits')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setBrandKits(data.kits);
+          setBrandKitId(data.default_kit_id);
+        }
+      })
+      .catch(() => {
+        // Without kits the upload uses the default kit
+      });
+    fetch('/api/layouts')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setLayouts(data.layouts);
+          setLayoutId(data.default_layout_id);
+        }
+      })
+      .catch(() => {
+        // Without layouts the upload uses the default layout
+      });
+  }, []);
+
   // File input validation and preview generation
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -31,6 +70,7 @@ export default function UploadPage() {
 
   const processFile = (file: File | undefined) => {
     setErrors(prev => ({ ...prev, file: undefined }));
+    setDuplicates([]);
 
     if (!file) {
       setAssetFile(null);
@@ -74,8 +114,9 @@ export default function UploadPage() {
   // CSV file handling
   const handleCsvChange = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type === 'text/csv') {
+    if (file && isCsvFile(file)) {
       setCsvFile(file);
+      setCsvResult(null);
     } else {
       toast.error('Please select a valid CSV file');
     }
@@ -100,8 +141,9 @@ export default function UploadPage() {
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       if (mode === 'csv') {
         const file = e.dataTransfer.files[0];
-        if (file.type === 'text/csv') {
+        if (isCsvFile(file)) {
           setCsvFile(file);
+          setCsvResult(null);
         } else {
           toast.error('Please drop a valid CSV file');
         }
@@ -136,7 +178,11 @@ export default function UploadPage() {
   // Form submission handler
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
+    await submitAsset(false);
+  };
 
+  // Upload the asset, optionally overriding duplicate rejection
+  const submitAsset = async (allowDuplicate: boolean) => {
     if (!validateForm()) {
       toast.error('Please fix the errors before submitting.');
       return;
@@ -151,6 +197,15 @@ export default function UploadPage() {
       if (date) {
         formData.append('date', date);
       }
+      if (allowDuplicate) {
+        formData.append('allowDuplicate', 'true');
+      }
+      if (brandKitId) {
+        formData.append('brandKitId', brandKitId);
+      }
+      if (layoutId) {
+        formData.append('layoutId', layoutId);
+      }
 
       const response = await fetch('/api/assets/upload', {
         method: 'POST',
@@ -160,8 +215,16 @@ export default function UploadPage() {
       const data = await response.json();
 
       if (data.success) {
-        toast.success('Asset uploaded successfully!');
+        if (data.duplicates?.length) {
+          toast(`Uploaded, but it resembles ${data.duplicates.length} existing asset(s)`, { icon: '⚠️' });
+        } else {
+          toast.success('Asset uploaded successfully!');
+        }
         router.push('/');
+      } else if (response.status === 409 && data.duplicates) {
+        // Keep the form filled in so the upload can be confirmed
+        setDuplicates(data.duplicates);
+        toast.error(data.error || 'This image duplicates an existing asset');
       } else {
         toast.error(data.error || 'Failed to upload asset');
       }
@@ -193,8 +256,15 @@ export default function UploadPage() {
       const data = await response.json();
 
       if (data.success) {
-        toast.success(`${data.count || 0} assets uploaded successfully!`);
-        router.push('/');
+        const result = data as CsvUploadResponse;
+        if (result.summary.total_failed === 0) {
+          toast.success(`${result.count} assets uploaded successfully!`);
+          router.push('/');
+        } else {
+          // Stay on the page so failed rows can be fixed and re-uploaded
+          setCsvResult(result);
+          toast.error(`${result.summary.total_failed} of ${result.summary.total_rows} rows failed`);
+        }
       } else {
         toast.error(data.error || 'Failed to upload CSV');
       }
@@ -285,7 +355,7 @@ export default function UploadPage() {
                 </p>
               )}
               <p className="text-xs text-fg-tertiary mt-4">
-                CSV should include: date, asset_url, meta_description
+                CSV should include: date, asset_url, meta_description (optional: text_overlay_content)
               </p>
               {csvFile && (
                 <div className="mt-6">
@@ -299,6 +369,34 @@ export default function UploadPage() {
                   </Button>
                 </div>
               )}
+              {csvResult && (
+                <div className="mt-6 text-left space-y-3">
+                  <p className="text-sm text-fg-primary">
+                    {csvResult.summary.total_created} of {csvResult.summary.total_rows} rows imported
+                  </p>
+                  <ul className="max-h-64 overflow-y-auto divide-y divide-border-primary bg-bg-tertiary border border-border-primary rounded-lg">
+                    {csvResult.results.filter(r => !r.success).map(r => (
+                      <li key={r.row} className="px-4 py-2 text-sm">
+                        <span className="font-mono text-fg-tertiary mr-3">Row {r.row}</span>
+                        <span className="text-error">{r.error}</span>
+                      </li>
+                    ))}
+                    {csvResult.results.filter(r => r.success && r.duplicates?.length).map(r => (
+                      <li key={r.row} className="px-4 py-2 text-sm">
+                        <span className="font-mono text-fg-tertiary mr-3">Row {r.row}</span>
+                        <span className="text-warning">
+                          Imported, but resembles {r.duplicates!.map(d => d.asset_id).join(', ')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {csvResult.count > 0 && (
+                    <Button variant="secondary" onClick={() => router.push('/')}>
+                      View imported assets
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           ) : (
             // Manual Entry Mode
@@ -332,6 +430,7 @@ export default function UploadPage() {
                         onClick={() => {
                           setAssetFile(null);
                           setPreview(null);
+                          setDuplicates([]);
                         }}
                         className="text-sm text-brand-500 hover:text-brand-600"
                       >
@@ -422,6 +521,95 @@ export default function UploadPage() {
                 )}
               </div>
 
+              {/* Brand kit */}
+              {brandKits.length > 1 && (
+                <div>
+                  <label htmlFor="brandKit" className="block text-sm font-medium text-fg-primary mb-2">
+                    Brand Kit
+                  </label>
+                  <select
+                    id="brandKit"
+                    value={brandKitId}
+                    onChange={(e) => setBrandKitId(e.target.value)}
+                    disabled={uploading}
+                    className="w-full h-11 px-4 bg-bg-tertiary border border-border-primary rounded-lg text-sm text-fg-primary focus:border-brand-500 focus:ring-2 focus:ring-brand-500/20 outline-none transition-all"
+                  >
+                    {brandKits.map(kit => (
+                      <option key={kit.id} value={kit.id}>{kit.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-fg-tertiary mt-2">
+                    Palette, tone, font, CTA and logo used for this asset&apos;s stories
+                  </p>
+                </div>
+              )}
+
+              {/* Layout */}
+              {layouts.length > 1 && (
+                <div>
+                  <label htmlFor="layout" className="block text-sm font-medium text-fg-primary mb-2">
+                    Layout
+                  </label>
+                  <select
+                    id="layout"
+                    value={layoutId}
+                    onChange={(e) => setLayoutId(e.target.value)}
+                    disabled={uploading}
+                    className="w-full h-11 px-4 bg-bg-tertiary border border-border-primary rounded-lg text-sm text-fg-primary focus:border-brand-500 focus:ring-2 focus:ring-brand-500/20 outline-none transition-all"
+                  >
+                    {layouts.map(layout => (
+                      <option key={layout.id} value={layout.id}>{layout.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-fg-tertiary mt-2">
+                    {layouts.find(layout => layout.id === layoutId)?.description ??
+                      'Where the asset and text sit in the story'}
+                  </p>
+                </div>
+              )}
+
+              {/* Duplicate matches */}
+              {duplicates.length > 0 && (
+                <div className="p-4 bg-bg-tertiary border border-warning/50 rounded-lg space-y-3">
+                  <p className="text-sm font-medium text-fg-primary">
+                    This image matches existing assets
+                  </p>
+                  <ul className="space-y-2">
+                    {duplicates.map(match => (
+                      <li key={match.asset_id} className="flex items-center gap-3 text-sm">
+                        <img
+                          src={match.asset_url}
+                          alt=""
+                          className="w-12 h-12 object-cover rounded border border-border-primary"
+                        />
+                        <div className="min-w-0">
+                          <a
+                            href={match.asset_url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="font-mono text-xs text-brand-500 hover:text-brand-600"
+                          >
+                            {match.asset_id}
+                          </a>
+                          <p className="text-fg-secondary truncate">
+                            {match.match === 'exact' ? 'Identical file' : `Near-duplicate (${match.distance} of 64 bits differ)`}
+                            {' · '}{match.date} · {match.status}
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => submitAsset(true)}
+                    disabled={uploading}
+                  >
+                    Upload anyway
+                  </Button>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex gap-3 pt-4">
                 <Button
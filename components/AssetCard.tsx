@@ -7,10 +7,13 @@ import { useState } from 'react';
 
 interface AssetCardProps {
   asset: AssetMetadata;
+  /** Seasonal campaign the asset's date falls in */
+  campaign?: { id: string; name: string };
   onGenerateBackground: (id: string) => void;
   onSchedule: (id: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
+  onRestore?: (id: string) => void;
   onViewError?: (id: string) => void;
   onViewPrompt?: (id: string) => void;
   loading?: boolean;
@@ -22,10 +25,12 @@ interface AssetCardProps {
 
 export function AssetCard({
   asset,
+  campaign,
   onGenerateBackground,
   onSchedule,
   onEdit,
   onDelete,
+  onRestore,
   onViewError,
   onViewPrompt,
   loading = false,
@@ -69,7 +74,7 @@ export function AssetCard({
       onMouseLeave={() => setIsHovered(false)}
     >
       {/* Checkbox for Draft assets */}
-      {isSelectable && asset.status === 'Draft' && (
+      {isSelectable && asset.status === 'Draft' && !asset.deleted_at && (
         <div className="absolute top-2 left-2 z-10">
           <input
             type="checkbox"
@@ -183,6 +188,14 @@ export function AssetCard({
                 format(new Date(asset.date), 'MMM dd, yyyy')
               )}
             </span>
+            {campaign && (
+              <span
+                className="ml-auto px-2 py-0.5 rounded-full bg-brand-500/15 text-brand-500 font-medium truncate max-w-[50%]"
+                title={`Campaign: ${campaign.name}`}
+              >
+                {campaign.name}
+              </span>
+            )}
           </div>
 
           {/* Description */}
@@ -190,65 +203,86 @@ export function AssetCard({
             {asset.meta_description}
           </p>
 
-          {/* Action Buttons (status-based) */}
-          <div className="pt-2 flex gap-2">
-            {asset.status === 'Draft' && (
-              <button
-                onClick={() => onGenerateBackground(asset.id)}
-                disabled={loading}
-                className="flex-1 px-3 py-2 bg-brand-500 hover:bg-brand-600 text-white text-xs font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Generate Background
-              </button>
-            )}
-            {asset.status === 'Ready' && (
-              <>
+          {/* Trashed assets can only be restored */}
+          {asset.deleted_at && (
+            <div className="pt-2 space-y-2">
+              <p className="text-xs text-fg-tertiary">
+                Deleted {format(new Date(asset.deleted_at), 'MMM dd, yyyy HH:mm')}
+                {asset.deleted_by ? ` by ${asset.deleted_by}` : ''}
+              </p>
+              {onRestore && (
                 <button
-                  onClick={() => onSchedule(asset.id)}
+                  onClick={() => onRestore(asset.id)}
                   disabled={loading}
-                  className="flex-1 px-3 py-2 bg-status-scheduled-bg hover:bg-status-scheduled-border/20 text-status-scheduled-fg border border-status-scheduled-border text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                  className="w-full px-3 py-2 bg-bg-tertiary hover:bg-bg-tertiary/70 text-fg-primary border border-border-primary text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
                 >
-                  Schedule
+                  Restore
                 </button>
+              )}
+            </div>
+          )}
+
+          {/* Action Buttons (status-based) */}
+          {!asset.deleted_at && (
+            <div className="pt-2 flex gap-2">
+              {asset.status === 'Draft' && (
                 <button
-                  onClick={() => onEdit(asset.id)}
+                  onClick={() => onGenerateBackground(asset.id)}
                   disabled={loading}
-                  className="px-3 py-2 bg-bg-tertiary hover:bg-bg-tertiary/70 text-fg-secondary text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                  className="flex-1 px-3 py-2 bg-brand-500 hover:bg-brand-600 text-white text-xs font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Edit
+                  Generate Background
                 </button>
-              </>
-            )}
-            {(asset.status === 'Scheduled' || asset.status === 'Published') && (
-              <button
-                onClick={() => onEdit(asset.id)}
-                disabled={loading}
-                className="flex-1 px-3 py-2 bg-bg-tertiary hover:bg-bg-tertiary/70 text-fg-secondary text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
-              >
-                View Details
-              </button>
-            )}
-            {asset.status === 'Failed' && (
-              <>
-                {asset.error && onViewError && (
+              )}
+              {asset.status === 'Ready' && (
+                <>
                   <button
-                    onClick={() => onViewError(asset.id)}
+                    onClick={() => onSchedule(asset.id)}
                     disabled={loading}
-                    className="flex-1 px-3 py-2 bg-bg-tertiary hover:bg-bg-tertiary/70 text-fg-primary text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                    className="flex-1 px-3 py-2 bg-status-scheduled-bg hover:bg-status-scheduled-border/20 text-status-scheduled-fg border border-status-scheduled-border text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
                   >
-                    View Error
+                    Schedule
                   </button>
-                )}
+                  <button
+                    onClick={() => onEdit(asset.id)}
+                    disabled={loading}
+                    className="px-3 py-2 bg-bg-tertiary hover:bg-bg-tertiary/70 text-fg-secondary text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                </>
+              )}
+              {(asset.status === 'Scheduled' || asset.status === 'Published') && (
                 <button
-                  onClick={() => onGenerateBackground(asset.id)}
+                  onClick={() => onEdit(asset.id)}
                   disabled={loading}
-                  className="flex-1 px-3 py-2 bg-status-failed-bg hover:bg-status-failed-border/20 text-status-failed-fg border border-status-failed-border text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                  className="flex-1 px-3 py-2 bg-bg-tertiary hover:bg-bg-tertiary/70 text-fg-secondary text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
                 >
-                  Retry
+                  View Details
                 </button>
-              </>
-            )}
-          </div>
+              )}
+              {asset.status === 'Failed' && (
+                <>
+                  {asset.error && onViewError && (
+                    <button
+                      onClick={() => onViewError(asset.id)}
+                      disabled={loading}
+                      className="flex-1 px-3 py-2 bg-bg-tertiary hover:bg-bg-tertiary/70 text-fg-primary text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      View Error
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onGenerateBackground(asset.id)}
+                    disabled={loading}
+                    className="flex-1 px-3 py-2 bg-status-failed-bg hover:bg-status-failed-border/20 text-status-failed-fg border border-status-failed-border text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Retry
+                  </button>
+                </>
+              )}
+            </div>
+          )}
 
           {/* Error Display */}
           {asset.error && (
@@ -1,17 +1,19 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { AssetMetadata, AssetVersion } from '@/lib/types';
+import { AssetMetadata, AssetVersion, AuditAction, AuditEvent } from '@/lib/types';
 import Modal from './Modal';
 import Button from './Button';
 import toast from 'react-hot-toast';
 import DOMPurify from 'isomorphic-dompurify';
+import type { LayoutTemplate } from '@/lib/layouts';
 
 interface EditAssetModalProps {
   isOpen: boolean;
   onClose: () => void;
   asset: AssetMetadata | null;
-  onRegenerateBackground?: (id: string, refinementPrompt?: string) => Promise<void>;
+  onRegenerateBackground?: (id: string, refinementPrompt?: string, count?: number, reanalyze?: boolean) => Promise<void>;
+  onPickCandidate?: (id: string, version: number, keepAlternates: boolean) => Promise<void>;
   onSchedule?: (id: string) => void;
   onDelete?: (id: string) => void;
   onVersionChange?: (id: string, version: number) => void;
@@ -28,6 +30,31 @@ function isPreviewStale(version: AssetVersion): boolean {
   return previewTime < versionTime;
 }
 
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  status_changed: 'Status changed',
+  version_created: 'New version',
+  scheduled: 'Scheduled',
+  bulk_approved: 'Bulk approved',
+  deleted: 'Deleted',
+  restored: 'Restored from backup',
+  trashed: 'Moved to trash',
+  restored_from_trash: 'Restored from trash',
+  purged: 'Purged',
+  candidate_picked: 'Candidate picked',
+};
+
+/**
+ * Short display form of an audited field value
+ */
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object' && 'version' in value) return `v${(value as AssetVersion).version}`;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
 export default function EditAssetModal({
   isOpen,
   onClose,
@@ -36,6 +63,7 @@ export default function EditAssetModal({
   onSchedule,
   onDelete,
   onVersionChange,
+  onPickCandidate,
 }: EditAssetModalProps) {
   const [selectedVersion, setSelectedVersion] = useState(asset?.active_version || 1);
   const [refinementPrompt, setRefinementPrompt] = useState('');
@@ -45,9 +73,25 @@ export default function EditAssetModal({
   const [textOverlaySVG, setTextOverlaySVG] = useState<string | null>(null);
   const [loadingTextSVG, setLoadingTextSVG] = useState(false);
   const [regeneratingPreview, setRegeneratingPreview] = useState(false);
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+  const [loadingAudit, setLoadingAudit] = useState(false);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [reanalyze, setReanalyze] = useState(false);
+  const [keepAlternates, setKeepAlternates] = useState(false);
+  const [pickingCandidate, setPickingCandidate] = useState(false);
+  const [layouts, setLayouts] = useState<LayoutTemplate[]>([]);
+  const [defaultLayoutId, setDefaultLayoutId] = useState<string | null>(null);
 
   const currentVersion = asset?.versions.find(v => v.version === selectedVersion);
 
+  // Layout the version was composed with, else the one its next preview will use
+  const currentLayoutId = currentVersion?.layout_id ?? asset?.layout_id ?? defaultLayoutId;
+  const currentLayout = layouts.find(layout => layout.id === currentLayoutId);
+
+  // Candidates from the most recent multi-candidate generation still awaiting a pick
+  const pendingGroup = asset?.versions.filter(v => v.candidate_group).at(-1)?.candidate_group;
+  const candidates = pendingGroup ? asset!.versions.filter(v => v.candidate_group === pendingGroup) : [];
+
   // Determine preview URL (priority order)
   const previewUrl = currentVersion?.preview_file_path && !isPreviewStale(currentVersion)
     ? `${currentVersion.preview_file_path}?t=${currentVersion.preview_generated_at}`
@@ -80,6 +124,47 @@ export default function EditAssetModal({
       });
   }, [showTextOverlay, asset?.id]);
 
+  // Fetch audit trail (refetched whenever the asset is updated)
+  useEffect(() => {
+    if (!isOpen || !asset?.id) {
+      setAuditEvents([]);
+      return;
+    }
+
+    setLoadingAudit(true);
+
+    fetch(`/api/assets/${asset.id}/audit`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) {
+          setAuditEvents(data.events);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load audit trail:', error);
+      })
+      .finally(() => {
+        setLoadingAudit(false);
+      });
+  }, [isOpen, asset?.id, asset?.updated_at]);
+
+  // Layout templates for the picker and the asset box overlay (loaded once)
+  useEffect(() => {
+    if (!isOpen || layouts.length > 0) return;
+
+    fetch('/api/layouts')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) {
+          setLayouts(data.layouts);
+          setDefaultLayoutId(data.default_layout_id);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load layouts:', error);
+      });
+  }, [isOpen, layouts.length]);
+
   // Keyboard shortcuts for text overlay (T key) and safe zones (S key)
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -111,9 +196,10 @@ export default function EditAssetModal({
 
     setRegenerating(true);
     try {
-      await onRegenerateBackground?.(asset.id, refinementPrompt);
+      await onRegenerateBackground?.(asset.id, refinementPrompt, candidateCount, reanalyze);
       toast.success('Background regeneration started');
       setRefinementPrompt('');
+      setReanalyze(false);
     } catch (error) {
       toast.error('Failed to regenerate background');
       console.error('Regenerate error:', error);
@@ -122,6 +208,18 @@ export default function EditAssetModal({
     }
   };
 
+  const handlePickCandidate = async (version: number) => {
+    if (!asset?.id) return;
+
+    setPickingCandidate(true);
+    try {
+      await onPickCandidate?.(asset.id, version, keepAlternates);
+      setSelectedVersion(version);
+    } finally {
+      setPickingCandidate(false);
+    }
+  };
+
   const handleVersionChange = (version: number) => {
     if (!asset?.id) return;
     setSelectedVersion(version);
@@ -139,7 +237,8 @@ export default function EditAssetModal({
     toast.success('Download started');
   };
 
-  const handleRegeneratePreview = async () => {
+  // With a layout, the asset switches to it and the preview is recomposed in it
+  const handleRegeneratePreview = async (layoutId?: string) => {
     if (!asset?.id) return;
 
     setRegeneratingPreview(true);
@@ -147,13 +246,13 @@ export default function EditAssetModal({
       const response = await fetch(`/api/assets/${asset.id}/preview`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ version: selectedVersion })
+        body: JSON.stringify({ version: selectedVersion, ...(layoutId ? { layoutId } : {}) })
       });
 
       const data = await response.json();
 
       if (data.success) {
-        toast.success('Preview regenerated successfully');
+        toast.success(layoutId ? 'Layout applied' : 'Preview regenerated successfully');
         // Trigger a re-render by updating the preview URL with cache buster
         window.location.reload();
       } else {
@@ -235,10 +334,15 @@ export default function EditAssetModal({
                     </span>
                   </div>
 
-                  {/* Center Safe Zone for Asset (70% = 252px wide) */}
+                  {/* Asset box of the layout (the centered 70% safe zone by default) */}
                   <div
                     className="absolute border-2 border-green-500 bg-green-500/10"
-                    style={{
+                    style={currentLayout ? {
+                      top: `${(currentLayout.assetBox.y / 1920) * 100}%`,
+                      left: `${(currentLayout.assetBox.x / 1080) * 100}%`,
+                      width: `${(currentLayout.assetBox.width / 1080) * 100}%`,
+                      height: `${(currentLayout.assetBox.height / 1920) * 100}%`,
+                    } : {
                       top: '51px',
                       left: '54px',
                       width: '252px',
@@ -246,7 +350,7 @@ export default function EditAssetModal({
                     }}
                   >
                     <span className="absolute top-2 left-2 text-xs font-mono text-white bg-green-500 px-2 py-1 rounded">
-                      Asset Safe Zone (70%)
+                      {currentLayout ? `Asset Box (${currentLayout.name})` : 'Asset Safe Zone (70%)'}
                     </span>
                   </div>
                 </div>
@@ -272,6 +376,61 @@ export default function EditAssetModal({
             </div>
           </div>
 
+          {/* Candidate Picker */}
+          {candidates.length > 1 && onPickCandidate && (
+            <div className="space-y-3 p-4 bg-brand-500/5 border border-brand-500/30 rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-medium text-fg-primary">
+                  Pick a background ({candidates.length} candidates)
+                </h3>
+                <label className="flex items-center gap-2 text-xs text-fg-secondary">
+                  <input
+                    type="checkbox"
+                    checked={keepAlternates}
+                    onChange={(e) => setKeepAlternates(e.target.checked)}
+                  />
+                  Keep the others as alternates
+                </label>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {candidates.map((candidate) => (
+                  <div key={candidate.version} className="space-y-2">
+                    <button
+                      onClick={() => setSelectedVersion(candidate.version)}
+                      className={`w-full aspect-[9/16] rounded-lg overflow-hidden border-2 transition-all ${
+                        selectedVersion === candidate.version
+                          ? 'border-brand-500 ring-2 ring-brand-500/20'
+                          : 'border-border-primary hover:border-border-secondary'
+                      }`}
+                    >
+                      <img
+                        src={candidate.preview_file_path || candidate.file_path}
+                        alt={`Candidate v${candidate.version}`}
+                        className="w-full h-full object-cover"
+                      />
+                    </button>
+                    {candidate.quality && (
+                      <p
+                        className={`text-xs ${candidate.quality.issues.length > 0 ? 'text-yellow-500' : 'text-fg-tertiary'}`}
+                        title={candidate.quality.issues.join('\n') || undefined}
+                      >
+                        Quality {candidate.quality.score}/100
+                      </p>
+                    )}
+                    <Button
+                      variant="secondary"
+                      onClick={() => handlePickCandidate(candidate.version)}
+                      disabled={pickingCandidate}
+                      className="w-full text-xs"
+                    >
+                      Pick v{candidate.version}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Version History Carousel */}
           {asset.versions.length > 1 && (
             <div className="space-y-2">
@@ -306,6 +465,31 @@ export default function EditAssetModal({
                           Composing
                         </div>
                       )}
+
+                      {/* Placeholder from an early release that never got a file */}
+                      {version.missing_file && (
+                        <div className="absolute top-1 right-1 bg-red-500/90 text-white text-[10px] px-1 rounded">
+                          No file
+                        </div>
+                      )}
+
+                      {/* Quality gate score */}
+                      {version.quality && (
+                        <div
+                          className={`absolute bottom-1 left-1 text-[10px] px-1 rounded ${
+                            version.quality.issues.length > 0 ? 'bg-yellow-500/90 text-black' : 'bg-black/60 text-white'
+                          }`}
+                        >
+                          Q{version.quality.score}
+                        </div>
+                      )}
+
+                      {/* Refinement tree: the version this one was refined from */}
+                      {version.parent_version !== undefined && (
+                        <div className="absolute bottom-1 right-1 bg-black/60 text-white text-[10px] px-1 rounded">
+                          ↳v{version.parent_version}
+                        </div>
+                      )}
                     </button>
                   );
                 })}
@@ -315,7 +499,21 @@ export default function EditAssetModal({
                 {currentVersion?.created_at && (
                   <> • Created {new Date(currentVersion.created_at).toLocaleString()}</>
                 )}
+                {currentVersion?.parent_version !== undefined && (
+                  <> • Refined from v{currentVersion.parent_version}</>
+                )}
+                {currentVersion?.quality && (
+                  <> • Quality {currentVersion.quality.score}/100</>
+                )}
+                {currentVersion?.usage?.cost_usd !== undefined && (
+                  <> • Cost ${currentVersion.usage.cost_usd.toFixed(4)}</>
+                )}
               </p>
+              {currentVersion?.quality && currentVersion.quality.issues.length > 0 && (
+                <p className="text-xs text-yellow-500">
+                  {currentVersion.quality.issues.join(' • ')}
+                </p>
+              )}
             </div>
           )}
 
@@ -335,7 +533,7 @@ export default function EditAssetModal({
             {/* NEW: Preview regeneration button */}
             <Button
               variant="secondary"
-              onClick={handleRegeneratePreview}
+              onClick={() => handleRegeneratePreview()}
               disabled={regeneratingPreview}
               title="Regenerate preview composition"
             >
@@ -377,6 +575,28 @@ export default function EditAssetModal({
               <StatusBadge status={asset.status} />
             </div>
 
+            {layouts.length > 1 && (
+              <div>
+                <label htmlFor="layout" className="block text-sm font-medium text-fg-tertiary mb-1">
+                  Layout
+                </label>
+                <select
+                  id="layout"
+                  value={currentLayoutId ?? ''}
+                  onChange={(e) => handleRegeneratePreview(e.target.value)}
+                  disabled={regeneratingPreview}
+                  className="w-full px-3 py-2 bg-bg-tertiary border border-border-primary rounded-lg text-sm text-fg-primary"
+                >
+                  {layouts.map(layout => (
+                    <option key={layout.id} value={layout.id}>{layout.name}</option>
+                  ))}
+                </select>
+                {currentLayout && (
+                  <p className="text-xs text-fg-tertiary mt-1">{currentLayout.description}</p>
+                )}
+              </div>
+            )}
+
             <div>
               <h3 className="text-sm font-medium text-fg-tertiary mb-1">
                 {(asset.status === 'Scheduled' || asset.status === 'Published') && asset.scheduled_time
@@ -463,7 +683,7 @@ export default function EditAssetModal({
             <div>
               <h3 className="text-base font-semibold text-fg-primary mb-1">Refine Background</h3>
               <p className="text-sm text-fg-secondary">
-                Describe how you'd like to improve the background. The AI will regenerate it based on your feedback.
+                Describe how you'd like to improve the background. The AI edits the current version based on your feedback.
               </p>
             </div>
 
@@ -481,10 +701,38 @@ export default function EditAssetModal({
                 className="w-full px-4 py-3 bg-bg-tertiary border border-border-primary rounded-lg text-sm text-fg-primary placeholder:text-fg-tertiary focus:border-brand-500 focus:ring-2 focus:ring-brand-500/20 outline-none transition-all resize-none disabled:opacity-50"
               />
               <p className="text-xs text-fg-tertiary mt-2">
-                The original asset and colors will be preserved. Only the background will be regenerated.
+                {currentVersion && <>Version {currentVersion.version} is sent as the reference image. </>}
+                The original asset and colors will be preserved.
               </p>
             </div>
 
+            <div className="flex items-center justify-between gap-2">
+              <label htmlFor="candidateCount" className="text-sm font-medium text-fg-primary">
+                Candidates
+              </label>
+              <select
+                id="candidateCount"
+                value={candidateCount}
+                onChange={(e) => setCandidateCount(Number(e.target.value))}
+                disabled={regenerating}
+                className="px-3 py-2 bg-bg-tertiary border border-border-primary rounded-lg text-sm text-fg-primary"
+              >
+                {[1, 2, 3, 4].map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-fg-secondary">
+              <input
+                type="checkbox"
+                checked={reanalyze}
+                onChange={(e) => setReanalyze(e.target.checked)}
+                disabled={regenerating}
+              />
+              Re-analyze the asset (fresh description and colors)
+            </label>
+
             <Button
               variant="primary"
               onClick={handleRegenerateBackground}
@@ -509,6 +757,12 @@ export default function EditAssetModal({
               )}
             </Button>
           </div>
+
+          {/* Activity Timeline */}
+          <div className="pt-6 border-t border-border-primary space-y-4">
+            <h3 className="text-base font-semibold text-fg-primary">Activity</h3>
+            <AuditTimeline events={auditEvents} loading={loadingAudit} />
+          </div>
         </div>
       </div>
     </Modal>
@@ -531,3 +785,47 @@ function StatusBadge({ status }: { status: string }) {
     </div>
   );
 }
+
+function AuditTimeline({ events, loading }: { events: AuditEvent[]; loading: boolean }) {
+  if (loading && events.length === 0) {
+    return <p className="text-sm text-fg-tertiary">Loading activity...</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-fg-tertiary">No recorded activity yet.</p>;
+  }
+
+  // Newest first
+  const timeline = [...events].reverse();
+
+  return (
+    <ol className="relative border-l border-border-primary ml-2 space-y-4">
+      {timeline.map((event) => (
+        <li key={event.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-brand-500 border-2 border-bg-secondary" />
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-sm font-medium text-fg-primary">
+              {AUDIT_ACTION_LABELS[event.action] || event.action}
+            </span>
+            <time className="text-xs text-fg-tertiary" dateTime={event.at}>
+              {new Date(event.at).toLocaleString()}
+            </time>
+          </div>
+          <p className="text-xs text-fg-tertiary">
+            by {event.actor}
+            {event.source && <> • {event.source}</>}
+          </p>
+          {event.action !== 'created' && event.action !== 'deleted' && (
+            <ul className="mt-1 space-y-0.5">
+              {Object.entries(event.changes).map(([field, change]) => (
+                <li key={field} className="text-xs font-mono text-fg-secondary break-all">
+                  {field}: {formatAuditValue(change.before)} → {formatAuditValue(change.after)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
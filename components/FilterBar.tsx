@@ -53,6 +53,7 @@ export default function FilterBar({
           <option value="published">Published</option>
           <option value="failed">Failed</option>
           <option value="archived">Archived</option>
+          <option value="trash">Trash</option>
         </select>
 
         {/* Sort Control */}
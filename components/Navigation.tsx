@@ -22,6 +22,7 @@ export default function Navigation() {
           <div className="hidden md:flex items-center gap-1">
             <NavLink href="/" active>Dashboard</NavLink>
             <NavLink href="/upload">Upload</NavLink>
+            <NavLink href="/admin/backups">Backups</NavLink>
           </div>
         </div>
 
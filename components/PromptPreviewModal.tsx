@@ -1,6 +1,7 @@
 'use client';
 
-import { AssetMetadata } from '@/lib/types';
+import { useEffect, useState } from 'react';
+import { AssetMetadata, PromptTemplate } from '@/lib/types';
 import Modal from './Modal';
 import Button from './Button';
 import toast from 'react-hot-toast';
@@ -10,6 +11,8 @@ interface PromptPreviewModalProps {
   onClose: () => void;
   asset: AssetMetadata | null;
   version?: number;
+  /** Queue a new background rendered from the chosen prompt template */
+  onRegenerate?: (assetId: string, templateId: string) => void;
 }
 
 export default function PromptPreviewModal({
@@ -17,7 +20,30 @@ export default function PromptPreviewModal({
   onClose,
   asset,
   version,
+  onRegenerate,
 }: PromptPreviewModalProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [defaultTemplateId, setDefaultTemplateId] = useState<string | null>(null);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    fetch('/api/prompt-templates')
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled || !data.success) return;
+        setTemplates(data.templates);
+        setDefaultTemplateId(data.default_template_id);
+      })
+      .catch(error => console.error('Failed to load prompt templates:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
   if (!asset) return null;
 
   // Get the version to display (either specified or active version)
@@ -65,6 +91,11 @@ export default function PromptPreviewModal({
 
   const parsedPrompt = parsePrompt(prompt);
 
+  const usedTemplate = versionData.template_id
+    ? templates.find(t => t.id === versionData.template_id)
+    : undefined;
+  const pickedTemplateId = selectedTemplateId || versionData.template_id || defaultTemplateId || '';
+
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Prompt Preview" size="lg">
       <div className="space-y-6">
@@ -90,6 +121,51 @@ export default function PromptPreviewModal({
           </div>
         </div>
 
+        {/* Prompt Template */}
+        {(versionData.template_id || (onRegenerate && templates.length > 0)) && (
+          <div className="p-4 bg-bg-tertiary/50 border border-border-primary rounded-lg space-y-3">
+            <h4 className="text-xs font-medium text-fg-tertiary uppercase tracking-wide">
+              Prompt Template
+            </h4>
+            {versionData.template_id && (
+              <p className="text-sm text-fg-secondary">
+                Rendered from{' '}
+                <span className="font-medium text-fg-primary">
+                  {usedTemplate?.name ?? 'a deleted template'}
+                </span>{' '}
+                v{versionData.template_version}
+              </p>
+            )}
+            {onRegenerate && templates.length > 0 && (
+              <div className="flex gap-2">
+                <select
+                  aria-label="Prompt template"
+                  value={pickedTemplateId}
+                  onChange={(e) => setSelectedTemplateId(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-bg-secondary border border-border-primary rounded-lg text-sm text-fg-primary"
+                >
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>
+                      {template.name} (v{template.versions[template.versions.length - 1].version})
+                      {template.id === defaultTemplateId ? ' — default' : ''}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="secondary"
+                  disabled={!pickedTemplateId}
+                  onClick={() => {
+                    onRegenerate(asset.id, pickedTemplateId);
+                    onClose();
+                  }}
+                >
+                  Regenerate
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Prompt Display */}
         <div className="space-y-4">
           {parsedPrompt.system && (
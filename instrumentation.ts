@@ -0,0 +1,54 @@
+/**
+ * Next.js Instrumentation Hook
+ *
+ * Runs once when the server starts. Starts the scheduled history backup runner
+ * in-process unless backups are disabled or delegated to the standalone worker
+ * (S3_HISTORY_BACKUP_RUNNER=worker), the storage garbage collector when
+ * STORAGE_GC_ENABLED is true, the trash purge unless TRASH_RETENTION_DAYS
+ * is 0, and the background job worker (resuming jobs a restart interrupted).
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { config } = await import('./lib/config');
+
+  if (config.storageGc.enabled) {
+    const { startStorageGcScheduler } = await import('./lib/storage-gc');
+    try {
+      startStorageGcScheduler();
+    } catch (error) {
+      console.error('[Storage GC] Failed to start storage GC scheduler:', error);
+    }
+  }
+
+  const { startJobWorker } = await import('./lib/jobs');
+  await import('./lib/background-jobs');
+  try {
+    await startJobWorker();
+  } catch (error) {
+    console.error('[Jobs] Failed to start job worker:', error);
+  }
+
+  if (config.trash.retentionDays > 0) {
+    const { startTrashPurgeScheduler } = await import('./lib/trash');
+    try {
+      startTrashPurgeScheduler();
+    } catch (error) {
+      console.error('[Trash] Failed to start trash purge scheduler:', error);
+    }
+  }
+
+  if (!config.s3.historyBackupEnabled || config.s3.historyBackupRunner !== 'app') {
+    return;
+  }
+
+  const { startHistoryBackupScheduler } = await import('./lib/history-backup-runner');
+  try {
+    startHistoryBackupScheduler();
+  } catch (error) {
+    console.error('[Backup] Failed to start history backup scheduler:', error);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Test suite for the asset analysis cache
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { cacheAnalysis, getCachedAnalysis } from '../analysis-cache';
+
+describe('analysis cache', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'isa-analysis-cache-'));
+    path = join(dir, 'analysis-cache.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should miss until a file has been analyzed', async () => {
+    expect(await getCachedAnalysis('hash-1', path)).toBeNull();
+
+    await cacheAnalysis('hash-1', { vision_description: 'A red rocket' }, path);
+
+    expect(await getCachedAnalysis('hash-1', path)).toMatchObject({ vision_description: 'A red rocket' });
+    expect(await getCachedAnalysis('hash-2', path)).toBeNull();
+  });
+
+  it('should merge results into the existing entry', async () => {
+    await cacheAnalysis('hash-1', { vision_description: 'A red rocket' }, path);
+    await cacheAnalysis('hash-1', { dominant_colors: ['#FF0000'], vision_description: undefined }, path);
+
+    expect(await getCachedAnalysis('hash-1', path)).toEqual({
+      vision_description: 'A red rocket',
+      dominant_colors: ['#FF0000'],
+      updated_at: expect.any(String)
+    });
+  });
+
+  it('should evict the least recently updated entries', async () => {
+    await cacheAnalysis('hash-1', { vision_description: 'one' }, path, 2);
+    await cacheAnalysis('hash-2', { vision_description: 'two' }, path, 2);
+    await cacheAnalysis('hash-1', { dominant_colors: ['#000000'] }, path, 2);
+    await cacheAnalysis('hash-3', { vision_description: 'three' }, path, 2);
+
+    expect(await getCachedAnalysis('hash-2', path)).toBeNull();
+    expect(await getCachedAnalysis('hash-1', path)).not.toBeNull();
+    expect(await getCachedAnalysis('hash-3', path)).not.toBeNull();
+  });
+});
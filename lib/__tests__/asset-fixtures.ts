@@ -0,0 +1,21 @@
+/**
+ * Asset fixtures shared by history, repository and route tests
+ */
+
+import type { AssetMetadata } from '../types';
+
+/**
+ * Minimal Draft asset with no versions; overrides replace any field
+ */
+export function makeAsset(id: string, overrides: Partial<AssetMetadata> = {}): AssetMetadata {
+  return {
+    id,
+    date: '2026-02-01',
+    asset_url: `/uploads/${id}.png`,
+    meta_description: `Asset ${id}`,
+    status: 'Draft',
+    created_at: '2026-01-20T10:00:00.000Z',
+    versions: [],
+    ...overrides
+  };
+}
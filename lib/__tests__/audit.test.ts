@@ -0,0 +1,185 @@
+/**
+ * Test suite for the asset audit trail
+ */
+
+import { existsSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { AssetVersion } from '../types';
+import { makeAsset } from './asset-fixtures';
+
+const TEST_HISTORY_PATH = join(process.cwd(), 'test-audit-history.json');
+const TEST_AUDIT_PATH = join(process.cwd(), 'test-audit-history.audit.jsonl');
+
+jest.mock('../config', () => ({
+  config: {
+    paths: {
+      history: join(process.cwd(), 'test-audit-history.json')
+    }
+  }
+}));
+
+import {
+  buildAuditEvents,
+  getAuditLogPath,
+  getRequestActor,
+  readAuditLog
+} from '../audit';
+import {
+  addAsset,
+  updateHistory,
+  updateAssetStatus,
+  deleteAsset,
+  getAssetAuditTrail
+} from '../history';
+
+function makeVersion(version: number, overrides: Partial<AssetVersion> = {}): AssetVersion {
+  return {
+    version,
+    created_at: '2026-01-21T09:00:00.000Z',
+    prompt_used: `prompt ${version}`,
+    file_path: `/uploads/a1-v${version}.png`,
+    ...overrides
+  };
+}
+
+function cleanUp() {
+  for (const path of [TEST_HISTORY_PATH, TEST_AUDIT_PATH]) {
+    if (existsSync(path)) unlinkSync(path);
+  }
+}
+
+describe('buildAuditEvents', () => {
+  const at = new Date('2026-01-22T12:00:00Z');
+
+  it('should record only the changed fields with before/after values', () => {
+    const before = makeAsset('a1', { active_version: 1, versions: [makeVersion(1)] });
+    const after = makeAsset('a1', {
+      status: 'Failed',
+      active_version: 1,
+      updated_at: '2026-01-22T12:00:00.000Z',
+      error: { message: 'boom', details: '', failed_at: '2026-01-22T12:00:00.000Z', retry_count: 0 },
+      versions: [makeVersion(1)]
+    });
+
+    const [event] = buildAuditEvents({ assets: [before] }, { assets: [after] }, {}, at);
+
+    expect(event).toMatchObject({
+      asset_id: 'a1',
+      action: 'status_changed',
+      actor: 'system',
+      at: '2026-01-22T12:00:00.000Z'
+    });
+    expect(event.changes).toEqual({
+      status: { before: 'Draft', after: 'Failed' },
+      error: { before: null, after: after.error }
+    });
+  });
+
+  it('should diff versions individually and detect new versions', () => {
+    const before = makeAsset('a1', { active_version: 1, versions: [makeVersion(1)] });
+    const after = makeAsset('a1', { active_version: 2, versions: [makeVersion(1), makeVersion(2)] });
+
+    const [event] = buildAuditEvents({ assets: [before] }, { assets: [after] });
+
+    expect(event.action).toBe('version_created');
+    expect(Object.keys(event.changes)).toEqual(['active_version', 'versions[2]']);
+    expect(event.changes['versions[2]']).toEqual({ before: null, after: makeVersion(2) });
+  });
+
+  it('should snapshot created and deleted assets', () => {
+    const events = buildAuditEvents(
+      { assets: [makeAsset('gone')] },
+      { assets: [makeAsset('new')] }
+    );
+
+    expect(events.map(e => [e.asset_id, e.action])).toEqual([['gone', 'deleted'], ['new', 'created']]);
+    expect(events[0].changes.meta_description).toEqual({ before: 'Asset gone', after: null });
+    expect(events[1].changes.status).toEqual({ before: null, after: 'Draft' });
+  });
+
+  it('should let the context override the action and set actor and source', () => {
+    const [event] = buildAuditEvents(
+      { assets: [makeAsset('a1')] },
+      { assets: [makeAsset('a1', { status: 'Ready' })] },
+      { action: 'bulk_approved', actor: 'ops@example.com', source: 'POST /api/assets/bulk-approve' }
+    );
+
+    expect(event).toMatchObject({
+      action: 'bulk_approved',
+      actor: 'ops@example.com',
+      source: 'POST /api/assets/bulk-approve'
+    });
+  });
+
+  it('should ignore updated_at-only and no-op updates', () => {
+    const before = makeAsset('a1');
+    const touched = makeAsset('a1', { updated_at: '2026-01-22T12:00:00.000Z' });
+
+    expect(buildAuditEvents({ assets: [before] }, { assets: [touched] })).toEqual([]);
+    expect(buildAuditEvents({ assets: [before] }, { assets: [before] })).toEqual([]);
+  });
+});
+
+describe('getRequestActor', () => {
+  const request = (headers: Record<string, string>) => ({ headers: new Headers(headers) });
+
+  it('should prefer X-Actor, then X-Forwarded-User, then api', () => {
+    expect(getRequestActor(request({ 'x-actor': ' alice ', 'x-forwarded-user': 'bob' }))).toBe('alice');
+    expect(getRequestActor(request({ 'x-forwarded-user': 'bob' }))).toBe('bob');
+    expect(getRequestActor(request({}))).toBe('api');
+  });
+});
+
+describe('audit trail with the history.json backend', () => {
+  beforeEach(cleanUp);
+  afterEach(cleanUp);
+
+  it('should journal every mutation next to history.json', async () => {
+    expect(getAuditLogPath(TEST_HISTORY_PATH)).toBe(TEST_AUDIT_PATH);
+
+    await addAsset(makeAsset('a1'), TEST_HISTORY_PATH, { actor: 'uploader' });
+    await updateAssetStatus('a1', 'Ready');
+    await updateHistory(history => {
+      history.assets[0].status = 'Scheduled';
+      history.assets[0].blotato_post_id = 'post-1';
+      return history;
+    }, TEST_HISTORY_PATH, { action: 'scheduled', actor: 'scheduler' });
+    await deleteAsset('a1');
+
+    const trail = await getAssetAuditTrail('a1');
+
+    expect(trail.map(e => [e.action, e.actor])).toEqual([
+      ['created', 'uploader'],
+      ['status_changed', 'system'],
+      ['scheduled', 'scheduler'],
+      ['deleted', 'system']
+    ]);
+    expect(trail[2].changes).toEqual({
+      status: { before: 'Ready', after: 'Scheduled' },
+      blotato_post_id: { before: null, after: 'post-1' }
+    });
+  });
+
+  it('should not journal updates that change nothing', async () => {
+    await addAsset(makeAsset('a1'));
+    await updateHistory(history => history);
+
+    expect(await getAssetAuditTrail('a1')).toHaveLength(1);
+  });
+
+  it('should not journal failed updates', async () => {
+    await addAsset(makeAsset('a1'));
+
+    await expect(updateHistory(() => ({ assets: null } as any))).rejects.toThrow();
+
+    expect(readAuditLog(TEST_AUDIT_PATH, 'a1')).toHaveLength(1);
+  });
+
+  it('should skip unreadable journal lines', () => {
+    writeFileSync(TEST_AUDIT_PATH, '{"asset_id":"a1","action":"created"}\n{"asset_id":"a1",\n');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(readAuditLog(TEST_AUDIT_PATH, 'a1')).toHaveLength(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,616 @@
+/**
+ * Test suite for the background generation job handler
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AssetMetadata, AssetVersion, BackgroundQuality, LlmUsage } from '../types';
+
+const TEST_DIR = mkdtempSync(join(tmpdir(), 'isa-background-jobs-'));
+
+jest.mock('../config', () => {
+  const actual = jest.requireActual('../config').config;
+  return {
+    config: {
+      ...actual,
+      paths: {
+        ...actual.paths,
+        jobs: join(TEST_DIR, 'jobs.json'),
+        promptTemplates: join(TEST_DIR, 'prompt-templates.json'),
+        brandKits: join(TEST_DIR, 'brand-kits.json'),
+        campaigns: join(TEST_DIR, 'campaigns.json')
+      },
+      jobs: { concurrency: 1, maxAttempts: 3, retentionDays: 7 },
+      backgrounds: {
+        ...actual.backgrounds,
+        provider: 'test-primary',
+        fallbackProvider: '',
+        maxCandidates: 4,
+        quality: { enabled: false, minScore: 60, autoRegenerate: false, maxRegenerations: 2 }
+      },
+      analysisCache: { enabled: true, maxEntries: 100 }
+    }
+  };
+});
+
+// In-memory history with the real revision check
+const mockAssets = new Map<string, AssetMetadata>();
+jest.mock('../history', () => ({
+  getAsset: jest.fn(async (id: string) => {
+    const asset = mockAssets.get(id);
+    return asset ? structuredClone(asset) : null;
+  }),
+  updateAsset: jest.fn(async (
+    id: string,
+    fn: (asset: AssetMetadata) => AssetMetadata,
+    _path: string,
+    options: { expectedRevision?: number } = {}
+  ) => {
+    const current = mockAssets.get(id);
+    if (!current) throw new Error(`Asset with id ${id} not found`);
+    jest.requireActual('../revision').assertRevision(current, options.expectedRevision);
+    const updated = { ...fn(structuredClone(current)), revision: (current.revision ?? 0) + 1 };
+    mockAssets.set(id, updated);
+    return structuredClone(updated);
+  })
+}));
+
+const mockStorage = {
+  put: jest.fn(async (key: string) => `/${key}`),
+  get: jest.fn(async (key: string) => Buffer.from(`stored ${key}`))
+};
+jest.mock('../storage', () => ({
+  ...jest.requireActual('../storage'),
+  getStorage: () => mockStorage,
+  withLocalFiles: jest.fn(async (keys: string[], fn: (paths: string[]) => Promise<unknown>) =>
+    fn(keys.map(key => `/local/${key}`)))
+}));
+
+jest.mock('fs/promises', () => ({
+  ...jest.requireActual('fs/promises'),
+  readFile: jest.fn(async () => Buffer.from('asset file'))
+}));
+
+jest.mock('../vision', () => ({ analyzeAsset: jest.fn() }));
+jest.mock('../colors', () => ({ extractDominantColors: jest.fn() }));
+jest.mock('../analysis-cache', () => ({ getCachedAnalysis: jest.fn(), cacheAnalysis: jest.fn() }));
+jest.mock('../background-quality', () => ({ assessBackgroundQuality: jest.fn() }));
+jest.mock('../preview', () => ({ generatePreview: jest.fn() }));
+
+import { config } from '../config';
+import { computeContentHash } from '../duplicates';
+import { getJob, kickJobs, recoverJobs, type Job } from '../jobs';
+import { enqueueBackgroundJob, BACKGROUND_JOB_STAGES } from '../background-jobs';
+import {
+  registerBackgroundProvider,
+  unregisterBackgroundProvider,
+  type BackgroundRequest,
+  type GeneratedBackground
+} from '../background-providers';
+import { analyzeAsset } from '../vision';
+import { extractDominantColors } from '../colors';
+import { cacheAnalysis, getCachedAnalysis } from '../analysis-cache';
+import { generatePreview } from '../preview';
+import { assessBackgroundQuality } from '../background-quality';
+import { makeAsset } from './asset-fixtures';
+
+const ASSET_ID = 'asset-1';
+const ASSET_HASH = computeContentHash(Buffer.from('asset file'));
+
+const generate = jest.fn<Promise<GeneratedBackground>, [BackgroundRequest]>();
+
+function usage(operation: LlmUsage['operation'], generationId: string): LlmUsage {
+  return { operation, model: 'test-model', generation_id: generationId, latency_ms: 10, created_at: '2026-03-01T00:00:00.000Z' };
+}
+
+function background(provider = 'test-primary', generationId = 'gen-bg'): GeneratedBackground {
+  return {
+    image: Buffer.from('background'),
+    contentType: 'image/png',
+    provider,
+    model: 'test-model',
+    usage: usage('background', generationId)
+  };
+}
+
+function makeVersion(version: number): AssetVersion {
+  return {
+    version,
+    created_at: '2026-02-01T00:00:00.000Z',
+    prompt_used: 'prompt',
+    file_path: `/uploads/${ASSET_ID}/background_v${version}.png`
+  };
+}
+
+function makeJobAsset(overrides: Partial<AssetMetadata> = {}): AssetMetadata {
+  return makeAsset(ASSET_ID, {
+    date: '2026-03-01',
+    meta_description: 'A rocket icon',
+    asset_vision_description: 'A red rocket',
+    dominant_colors: ['#FF0000'],
+    content_hash: ASSET_HASH,
+    created_at: '2026-01-01T00:00:00.000Z',
+    revision: 1,
+    ...overrides
+  });
+}
+
+function readJobsFile(): Job[] {
+  return JSON.parse(readFileSync(config.paths.jobs, 'utf8')).jobs;
+}
+
+async function waitForJob(jobId: string): Promise<Job> {
+  for (let i = 0; i < 300; i++) {
+    const job = await getJob(jobId);
+    if (job && ['succeeded', 'failed', 'cancelled'].includes(job.status)) return job;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${jobId} never finished`);
+}
+
+async function runJob(params: Record<string, unknown> = {}): Promise<Job> {
+  const queued = await enqueueBackgroundJob(ASSET_ID, params, 'alice');
+  return waitForJob(queued.id);
+}
+
+function storedAsset(): AssetMetadata {
+  return mockAssets.get(ASSET_ID)!;
+}
+
+describe('background jobs', () => {
+  beforeAll(() => {
+    registerBackgroundProvider({ name: 'test-primary', supportsReferenceImage: true, generate });
+  });
+
+  afterAll(() => {
+    unregisterBackgroundProvider('test-primary');
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    rmSync(config.paths.jobs, { force: true });
+    mockAssets.clear();
+    mockAssets.set(ASSET_ID, makeJobAsset());
+    generate.mockImplementation(async (request) => {
+      request.onUsage?.(usage('background', `gen-${request.seed}`));
+      return background('test-primary', `gen-${request.seed}`);
+    });
+    (generatePreview as jest.Mock).mockResolvedValue({ success: true });
+    (getCachedAnalysis as jest.Mock).mockResolvedValue(null);
+    (cacheAnalysis as jest.Mock).mockResolvedValue({});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    // Let the worker look for (and not find) another queued job
+    await new Promise(resolve => setTimeout(resolve, 20));
+  });
+
+  describe('stages and checkpoints', () => {
+    it('should save the version and checkpoint it before the preview stage', async () => {
+      let checkpointed: Job | undefined;
+      (generatePreview as jest.Mock).mockImplementation(async () => {
+        checkpointed = readJobsFile()[0];
+        return { success: true };
+      });
+
+      const job = await runJob();
+
+      expect(job.status).toBe('succeeded');
+      expect(job.stages.map(s => [s.name, s.status])).toEqual([
+        ['vision', 'skipped'],
+        ['colors', 'skipped'],
+        ['generate', 'done'],
+        ['save', 'done'],
+        ['preview', 'done']
+      ]);
+      expect(checkpointed?.result?.versions).toEqual([expect.objectContaining({ version: 1 })]);
+      expect(storedAsset().versions).toHaveLength(1);
+      expect(storedAsset().active_version).toBe(1);
+      expect(mockStorage.put).toHaveBeenCalledWith(`uploads/${ASSET_ID}/background_v1.png`, expect.any(Buffer), 'image/png');
+      expect(generatePreview).toHaveBeenCalledWith(ASSET_ID, 1);
+    });
+
+    it('should resume a job recovered after a restart without regenerating saved versions', async () => {
+      const version = makeVersion(1);
+      mockAssets.set(ASSET_ID, makeJobAsset({ versions: [version], active_version: 1, revision: 3 }));
+      const now = new Date().toISOString();
+      writeFileSync(config.paths.jobs, JSON.stringify({
+        jobs: [{
+          id: 'interrupted',
+          type: 'background',
+          asset_id: ASSET_ID,
+          status: 'running',
+          stages: BACKGROUND_JOB_STAGES.map(name => ({
+            name,
+            status: name === 'preview' ? 'running' : name === 'generate' || name === 'save' ? 'done' : 'skipped'
+          })),
+          params: { expectedRevision: 2 },
+          result: { version, versions: [version], revision: 3 },
+          attempts: 1,
+          worker_id: 'previous-process',
+          created_at: now,
+          updated_at: now
+        }]
+      }));
+
+      expect(await recoverJobs()).toEqual({ requeued: ['interrupted'], stopped: [] });
+      kickJobs();
+      const job = await waitForJob('interrupted');
+
+      expect(job.status).toBe('succeeded');
+      expect(job.attempts).toBe(2);
+      expect(generate).not.toHaveBeenCalled();
+      expect(storedAsset().versions).toHaveLength(1);
+      expect(generatePreview).toHaveBeenCalledWith(ASSET_ID, 1);
+      expect(job.stages.find(s => s.name === 'preview')?.status).toBe('done');
+      expect(job.result?.versions).toEqual([expect.objectContaining({ version: 1 })]);
+    });
+
+    it('should fail the job if the asset moved past the expected revision', async () => {
+      mockAssets.set(ASSET_ID, makeJobAsset({ revision: 5 }));
+
+      const job = await runJob({ expectedRevision: 4 });
+
+      expect(job.status).toBe('failed');
+      expect(job.error).toBe('Asset was modified by someone else');
+      expect(job.stages.find(s => s.name === 'save')).toMatchObject({ status: 'failed' });
+      expect(job.stages.find(s => s.name === 'preview')?.status).toBe('skipped');
+      expect(storedAsset().versions).toHaveLength(0);
+      expect(storedAsset().revision).toBe(5);
+    });
+
+    it('should analyze an asset missing its description and colors', async () => {
+      mockAssets.set(ASSET_ID, makeJobAsset({ asset_vision_description: undefined, dominant_colors: undefined }));
+      (analyzeAsset as jest.Mock).mockResolvedValue('A blue rocket');
+      (extractDominantColors as jest.Mock).mockResolvedValue(['#0000FF']);
+
+      const job = await runJob();
+
+      expect(job.status).toBe('succeeded');
+      expect(job.stages.slice(0, 2).map(s => s.status)).toEqual(['done', 'done']);
+      expect(storedAsset()).toMatchObject({ asset_vision_description: 'A blue rocket', dominant_colors: ['#0000FF'] });
+      expect(generate.mock.calls[0][0].dominantColors).toEqual(['#0000FF']);
+    });
+  });
+
+  describe('refinements', () => {
+    const refine = { refinementPrompt: 'Make it warmer', parentVersion: 2 };
+
+    beforeEach(() => {
+      mockAssets.set(ASSET_ID, makeJobAsset({ versions: [makeVersion(1), makeVersion(2)], active_version: 2 }));
+    });
+
+    afterEach(() => {
+      (config.backgrounds as { fallbackProvider: string }).fallbackProvider = '';
+    });
+
+    it('should send the parent version as the reference image and record it', async () => {
+      const job = await runJob(refine);
+
+      expect(job.status).toBe('succeeded');
+      expect(mockStorage.get).toHaveBeenCalledWith(`uploads/${ASSET_ID}/background_v2.png`);
+      const request = generate.mock.calls[0][0];
+      expect(request.referenceImage).toEqual({
+        image: Buffer.from(`stored uploads/${ASSET_ID}/background_v2.png`),
+        contentType: 'image/png'
+      });
+      expect(request.userPrompt).toContain('REFINEMENT');
+      expect(request.userPrompt).toContain('Make it warmer');
+      expect(storedAsset().versions[2]).toMatchObject({ version: 3, parent_version: 2, refinement_prompt: 'Make it warmer' });
+      expect(storedAsset().active_version).toBe(3);
+    });
+
+    it('should fail if the parent version or its file is missing', async () => {
+      const missingVersion = await runJob({ ...refine, parentVersion: 7 });
+      expect(missingVersion.status).toBe('failed');
+      expect(missingVersion.error).toBe('Background generation failed: Version 7 to refine not found');
+
+      mockStorage.get.mockRejectedValueOnce(new Error('ENOENT: no such file'));
+      const missingFile = await runJob(refine);
+      expect(missingFile.status).toBe('failed');
+      expect(missingFile.error).toBe('Background generation failed: ENOENT: no such file');
+
+      expect(generate).not.toHaveBeenCalled();
+      expect(storedAsset().versions).toHaveLength(2);
+    });
+
+    it('should not fall back to a provider that would ignore the reference image', async () => {
+      (config.backgrounds as { fallbackProvider: string }).fallbackProvider = 'procedural';
+      generate.mockRejectedValue(new Error('402 out of credits'));
+
+      const job = await runJob(refine);
+
+      expect(job.status).toBe('failed');
+      expect(job.error).toBe("Background generation failed: 402 out of credits; fallback procedural can't refine an image");
+      expect(storedAsset().versions).toHaveLength(2);
+    });
+  });
+
+  describe('candidates', () => {
+    it('should save every candidate in one group, preview each and activate the first', async () => {
+      mockAssets.set(ASSET_ID, makeJobAsset({ versions: [makeVersion(1)], active_version: 1 }));
+
+      const job = await runJob({ count: 3 });
+
+      expect(job.status).toBe('succeeded');
+      expect(generate).toHaveBeenCalledTimes(3);
+      expect(generate.mock.calls.map(([request]) => request.seed).sort())
+        .toEqual([`${ASSET_ID}:v2`, `${ASSET_ID}:v3`, `${ASSET_ID}:v4`]);
+      const candidates = storedAsset().versions.slice(1);
+      expect(candidates.map(v => v.version)).toEqual([2, 3, 4]);
+      expect(candidates.every(v => v.candidate_group === job.id)).toBe(true);
+      expect(storedAsset().versions[0].candidate_group).toBeUndefined();
+      expect(storedAsset().active_version).toBe(2);
+      expect((generatePreview as jest.Mock).mock.calls).toEqual([[ASSET_ID, 2], [ASSET_ID, 3], [ASSET_ID, 4]]);
+      expect((job.result?.versions as AssetVersion[]).map(v => v.version)).toEqual([2, 3, 4]);
+      expect((job.result?.version as AssetVersion).version).toBe(2);
+    });
+
+    it('should keep the candidates that succeeded', async () => {
+      generate
+        .mockImplementationOnce(async () => { throw new Error('Model returned no image'); })
+        .mockImplementationOnce(async () => background());
+
+      const job = await runJob({ count: 2 });
+
+      expect(job.status).toBe('succeeded');
+      expect(storedAsset().versions.map(v => v.version)).toEqual([1]);
+      expect(storedAsset().versions[0].candidate_group).toBeUndefined();
+      expect(storedAsset().active_version).toBe(1);
+    });
+
+    it('should not group a single version', async () => {
+      await runJob();
+
+      expect(storedAsset().versions[0].candidate_group).toBeUndefined();
+    });
+  });
+
+  describe('quality gate', () => {
+    const gate = config.backgrounds.quality as { enabled: boolean; minScore: number; autoRegenerate: boolean; maxRegenerations: number };
+    let scores: Record<string, number>;
+
+    function quality(score: number): BackgroundQuality {
+      return {
+        score,
+        width: 1080,
+        height: 1920,
+        checks: { aspect_ratio: 1, resolution: 1, asset_zone_busyness: 1, safe_zone_busyness: 1, text: 1, contrast: 1 },
+        issues: score < gate.minScore ? ['Busy asset zone'] : [],
+        checked_at: '2026-03-01T00:00:00.000Z'
+      };
+    }
+
+    function storedImage(): string {
+      return (mockStorage.put.mock.calls[0] as unknown as [string, Buffer])[1].toString();
+    }
+
+    beforeEach(() => {
+      Object.assign(gate, { enabled: true, minScore: 60, autoRegenerate: true, maxRegenerations: 2 });
+      // Each attempt's image is its seed, so scores can be set per attempt
+      generate.mockImplementation(async (request) => ({ ...background(), image: Buffer.from(request.seed!) }));
+      scores = {};
+      (assessBackgroundQuality as jest.Mock).mockImplementation(async (image: Buffer) => quality(scores[image.toString()]));
+    });
+
+    afterEach(() => {
+      Object.assign(gate, { enabled: false, autoRegenerate: false });
+    });
+
+    it('should regenerate a flagged background and keep the better attempt', async () => {
+      scores = { [`${ASSET_ID}:v1`]: 40, [`${ASSET_ID}:v1:r1`]: 75 };
+
+      const job = await runJob();
+
+      expect(job.status).toBe('succeeded');
+      expect(generate.mock.calls.map(([request]) => request.seed)).toEqual([`${ASSET_ID}:v1`, `${ASSET_ID}:v1:r1`]);
+      expect(storedImage()).toBe(`${ASSET_ID}:v1:r1`);
+      expect(storedAsset().versions[0].quality).toMatchObject({ score: 75, regenerations: 1, issues: [] });
+    });
+
+    it('should stop after BACKGROUND_QUALITY_MAX_REGENERATIONS and keep the best flagged attempt', async () => {
+      scores = { [`${ASSET_ID}:v1`]: 30, [`${ASSET_ID}:v1:r1`]: 45, [`${ASSET_ID}:v1:r2`]: 40 };
+
+      const job = await runJob();
+
+      expect(job.status).toBe('succeeded');
+      expect(generate).toHaveBeenCalledTimes(3);
+      expect(storedImage()).toBe(`${ASSET_ID}:v1:r1`);
+      expect(storedAsset().versions[0].quality).toMatchObject({ score: 45, regenerations: 2, issues: ['Busy asset zone'] });
+    });
+
+    it('should keep the flagged background if a regeneration fails', async () => {
+      scores = { [`${ASSET_ID}:v1`]: 30 };
+      generate
+        .mockImplementationOnce(async (request) => ({ ...background(), image: Buffer.from(request.seed!) }))
+        .mockRejectedValueOnce(new Error('Rate limited'));
+
+      const job = await runJob();
+
+      expect(job.status).toBe('succeeded');
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(storedImage()).toBe(`${ASSET_ID}:v1`);
+      expect(storedAsset().versions[0].quality).toMatchObject({ score: 30, regenerations: 1 });
+    });
+
+    it('should only flag low scores when auto-regeneration is off', async () => {
+      gate.autoRegenerate = false;
+      scores = { [`${ASSET_ID}:v1`]: 30 };
+
+      await runJob();
+
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(storedAsset().versions[0].quality).toEqual(quality(30));
+    });
+
+    it('should save an unscored background if the quality check fails', async () => {
+      (assessBackgroundQuality as jest.Mock).mockRejectedValue(new Error('Unsupported image format'));
+
+      const job = await runJob();
+
+      expect(job.status).toBe('succeeded');
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(storedAsset().versions[0].quality).toBeUndefined();
+    });
+  });
+
+  describe('LLM usage', () => {
+    function generationIds(): string[] {
+      return (storedAsset().llm_usage ?? []).map(u => u.generation_id!);
+    }
+
+    it('should record the vision and background calls once each', async () => {
+      mockAssets.set(ASSET_ID, makeJobAsset({ asset_vision_description: undefined }));
+      (analyzeAsset as jest.Mock).mockImplementation(async (_path: string, options: { onUsage: (u: LlmUsage) => void }) => {
+        options.onUsage(usage('vision', 'gen-vision'));
+        return 'A blue rocket';
+      });
+
+      const job = await runJob();
+
+      expect(job.status).toBe('succeeded');
+      expect(generationIds()).toEqual(['gen-vision', `gen-${ASSET_ID}:v1`]);
+      expect(storedAsset().versions[0].usage?.generation_id).toBe(`gen-${ASSET_ID}:v1`);
+    });
+
+    it('should record billed calls of candidates that failed', async () => {
+      generate.mockImplementationOnce(async (request) => {
+        request.onUsage?.(usage('background', 'gen-no-image'));
+        throw new Error('Model returned no image');
+      });
+
+      const job = await runJob({ count: 2 });
+
+      expect(job.status).toBe('succeeded');
+      expect(generationIds().sort()).toEqual([`gen-${ASSET_ID}:v2`, 'gen-no-image']);
+      expect(storedAsset().versions).toHaveLength(1);
+    });
+
+    it('should record billed calls when every candidate fails', async () => {
+      generate.mockImplementation(async (request) => {
+        request.onUsage?.(usage('background', `gen-${request.seed}`));
+        throw new Error('Model returned no image');
+      });
+
+      const job = await runJob({ count: 2 });
+
+      expect(job.status).toBe('failed');
+      expect(generationIds().sort()).toEqual([`gen-${ASSET_ID}:v1`, `gen-${ASSET_ID}:v2`]);
+      expect(storedAsset().versions).toHaveLength(0);
+    });
+
+    it('should not record usage again when a resumed job skips saved versions', async () => {
+      await runJob();
+      expect(generationIds()).toHaveLength(1);
+
+      // Interrupted during the preview, then recovered by a new process
+      const [job] = readJobsFile();
+      writeFileSync(config.paths.jobs, JSON.stringify({
+        jobs: [{
+          ...job,
+          status: 'running',
+          worker_id: 'previous-process',
+          stages: job.stages.map(stage => stage.name === 'preview' ? { name: 'preview', status: 'running' } : stage),
+          finished_at: undefined
+        }]
+      }));
+      await recoverJobs();
+      kickJobs();
+      const resumed = await waitForJob(job.id);
+
+      expect(resumed.status).toBe('succeeded');
+      expect(resumed.attempts).toBe(2);
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(generationIds()).toEqual([`gen-${ASSET_ID}:v1`]);
+    });
+
+    it('should record only the rerun call when a job is resumed before saving', async () => {
+      const now = new Date().toISOString();
+      writeFileSync(config.paths.jobs, JSON.stringify({
+        jobs: [{
+          id: 'interrupted',
+          type: 'background',
+          asset_id: ASSET_ID,
+          status: 'running',
+          stages: BACKGROUND_JOB_STAGES.map(name => ({ name, status: name === 'generate' ? 'running' : name === 'vision' || name === 'colors' ? 'skipped' : 'pending' })),
+          params: {},
+          attempts: 1,
+          worker_id: 'previous-process',
+          created_at: now,
+          updated_at: now
+        }]
+      }));
+
+      await recoverJobs();
+      kickJobs();
+      const job = await waitForJob('interrupted');
+
+      expect(job.status).toBe('succeeded');
+      expect(generationIds()).toEqual([`gen-${ASSET_ID}:v1`]);
+    });
+  });
+
+  describe('analysis cache', () => {
+    const cached = { vision_description: 'A cached rocket', dominant_colors: ['#00FF00'], updated_at: '2026-02-01T00:00:00.000Z' };
+
+    beforeEach(() => {
+      (analyzeAsset as jest.Mock).mockResolvedValue('A fresh rocket');
+      (extractDominantColors as jest.Mock).mockResolvedValue(['#0000FF']);
+    });
+
+    it('should use cached results instead of calling the vision model and extracting colors', async () => {
+      mockAssets.set(ASSET_ID, makeJobAsset({ asset_vision_description: undefined, dominant_colors: undefined }));
+      (getCachedAnalysis as jest.Mock).mockResolvedValue(cached);
+
+      const job = await runJob();
+
+      expect(getCachedAnalysis).toHaveBeenCalledWith(ASSET_HASH);
+      expect(analyzeAsset).not.toHaveBeenCalled();
+      expect(extractDominantColors).not.toHaveBeenCalled();
+      expect(job.stages.slice(0, 2)).toEqual([
+        { name: 'vision', status: 'skipped', error: 'From analysis cache' },
+        { name: 'colors', status: 'skipped', error: 'From analysis cache' }
+      ]);
+      expect(storedAsset()).toMatchObject({ asset_vision_description: 'A cached rocket', dominant_colors: ['#00FF00'] });
+      expect(generate.mock.calls[0][0].dominantColors).toEqual(['#00FF00']);
+    });
+
+    it('should discard the analysis of a replaced file and look up its new hash', async () => {
+      mockAssets.set(ASSET_ID, makeJobAsset({ content_hash: 'hash-of-the-old-file' }));
+
+      const job = await runJob();
+
+      expect(getCachedAnalysis).toHaveBeenCalledWith(ASSET_HASH);
+      expect(getCachedAnalysis).not.toHaveBeenCalledWith('hash-of-the-old-file');
+      expect(analyzeAsset).toHaveBeenCalledTimes(1);
+      expect(extractDominantColors).toHaveBeenCalledTimes(1);
+      expect(job.stages.slice(0, 2).map(s => s.status)).toEqual(['done', 'done']);
+      expect(storedAsset()).toMatchObject({
+        content_hash: ASSET_HASH,
+        asset_vision_description: 'A fresh rocket',
+        dominant_colors: ['#0000FF']
+      });
+      expect(cacheAnalysis).toHaveBeenCalledWith(ASSET_HASH, { vision_description: 'A fresh rocket' });
+      expect(cacheAnalysis).toHaveBeenCalledWith(ASSET_HASH, { dominant_colors: ['#0000FF'] });
+    });
+
+    it('should bypass the stored results and the cache when asked to reanalyze', async () => {
+      (getCachedAnalysis as jest.Mock).mockResolvedValue(cached);
+
+      const job = await runJob({ reanalyze: true });
+
+      expect(getCachedAnalysis).not.toHaveBeenCalled();
+      expect(analyzeAsset).toHaveBeenCalledTimes(1);
+      expect(extractDominantColors).toHaveBeenCalledTimes(1);
+      expect(storedAsset()).toMatchObject({ asset_vision_description: 'A fresh rocket', dominant_colors: ['#0000FF'] });
+      expect(cacheAnalysis).toHaveBeenCalledWith(ASSET_HASH, { vision_description: 'A fresh rocket' });
+      expect(job.result?.analyzed).toBe(true);
+    });
+  });
+});
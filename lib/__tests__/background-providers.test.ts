@@ -0,0 +1,115 @@
+/**
+ * Test suite for the background provider registry
+ */
+
+jest.mock('../config', () => ({
+  config: {
+    ...jest.requireActual('../config').config,
+    backgrounds: { provider: 'openrouter', fallbackProvider: 'procedural', proceduralStyle: 'auto' }
+  }
+}));
+
+import { config } from '../config';
+import {
+  backgroundExtension,
+  generateBackgroundWithFallback,
+  getBackgroundProvider,
+  listBackgroundProviders,
+  registerBackgroundProvider,
+  unregisterBackgroundProvider,
+  type BackgroundProvider
+} from '../background-providers';
+
+const stubProvider: BackgroundProvider = {
+  name: 'stub',
+  async generate() {
+    return { image: Buffer.from('png'), contentType: 'image/png', provider: 'stub' };
+  }
+};
+
+describe('background provider registry', () => {
+  afterEach(() => {
+    unregisterBackgroundProvider('stub');
+    (config.backgrounds as { provider: string }).provider = 'openrouter';
+  });
+
+  it('should register the built-in providers and return BACKGROUND_PROVIDER by default', () => {
+    expect(listBackgroundProviders()).toEqual(['openrouter', 'procedural']);
+    expect(getBackgroundProvider().name).toBe('openrouter');
+  });
+
+  it('should look up registered providers by name or from config', async () => {
+    registerBackgroundProvider(stubProvider);
+
+    expect(getBackgroundProvider('stub')).toBe(stubProvider);
+    (config.backgrounds as { provider: string }).provider = 'stub';
+    expect(getBackgroundProvider()).toBe(stubProvider);
+    expect(listBackgroundProviders()).toEqual(['openrouter', 'procedural', 'stub']);
+  });
+
+  it('should reject unknown and duplicate providers', () => {
+    registerBackgroundProvider(stubProvider);
+
+    expect(() => getBackgroundProvider('dall-e'))
+      .toThrow('Unknown background provider: dall-e (available: openrouter, procedural, stub)');
+    expect(() => registerBackgroundProvider(stubProvider))
+      .toThrow('Background provider already registered: stub');
+  });
+
+  describe('generateBackgroundWithFallback', () => {
+    const request = { systemPrompt: 's', userPrompt: 'u', dominantColors: ['#112233', '#AABBCC'], seed: 'a:v1' };
+    const failing: BackgroundProvider = {
+      name: 'failing',
+      generate: jest.fn().mockRejectedValue(new Error('402 out of credits'))
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should return the provider result when it succeeds', async () => {
+      const background = await generateBackgroundWithFallback(stubProvider, request);
+
+      expect(background).toEqual({ image: Buffer.from('png'), contentType: 'image/png', provider: 'stub' });
+    });
+
+    it('should fall back to the procedural provider after a failure', async () => {
+      const background = await generateBackgroundWithFallback(failing, request);
+
+      expect(background).toMatchObject({
+        contentType: 'image/png',
+        provider: 'procedural',
+        fallbackFrom: { provider: 'failing', error: '402 out of credits' }
+      });
+    });
+
+    it('should rethrow when the fallback is disabled or fails too', async () => {
+      await expect(generateBackgroundWithFallback(failing, request, '')).rejects.toThrow('402 out of credits');
+
+      registerBackgroundProvider({ ...failing, name: 'stub' });
+      await expect(generateBackgroundWithFallback(failing, request, 'stub'))
+        .rejects.toThrow('402 out of credits; fallback stub also failed: 402 out of credits');
+    });
+
+    it('should only send a reference image to providers that can refine it', async () => {
+      const refinement = { ...request, referenceImage: { image: Buffer.from('v1'), contentType: 'image/png' } };
+      const refining: BackgroundProvider = { ...failing, name: 'refining', supportsReferenceImage: true };
+
+      await expect(generateBackgroundWithFallback(stubProvider, refinement))
+        .rejects.toThrow("Background provider stub can't refine an image");
+      await expect(generateBackgroundWithFallback(refining, refinement))
+        .rejects.toThrow("402 out of credits; fallback procedural can't refine an image");
+      expect(refining.generate).toHaveBeenCalledWith(refinement);
+    });
+  });
+
+  it('should map content types to file extensions', () => {
+    expect(backgroundExtension('image/jpeg')).toBe('jpg');
+    expect(backgroundExtension('image/webp')).toBe('webp');
+    expect(backgroundExtension('image/png')).toBe('png');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Test suite for the background quality gate
+ */
+
+import sharp from 'sharp';
+import { assessBackgroundQuality } from '../background-quality';
+import { renderProceduralBackground } from '../procedural-background';
+
+const assetColors = ['#FF5733', '#FFC300'];
+
+function gradient(width = 1080, height = 1920): Promise<Buffer> {
+  return sharp(Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    '<defs><linearGradient id="g" x1="0" y1="0" x2="0" y2="1">' +
+    '<stop offset="0" stop-color="#1B1B3A"/><stop offset="1" stop-color="#33A1FF"/>' +
+    '</linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/></svg>'
+  )).png().toBuffer();
+}
+
+function noise(width: number, height: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  let state = 42;
+  for (let i = 0; i < pixels.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    pixels[i] = state >> 23;
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+function lettering(): Promise<Buffer> {
+  const lines = Array.from({ length: 14 }, (_, i) =>
+    `<text x="60" y="${420 + i * 90}" font-size="56" font-family="sans-serif" fill="#FFFFFF">SUMMER SALE 50% OFF TODAY</text>`
+  ).join('');
+  return sharp(Buffer.from(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="1080" height="1920">' +
+    `<rect width="100%" height="100%" fill="#1B1B3A"/>${lines}</svg>`
+  )).png().toBuffer();
+}
+
+describe('assessBackgroundQuality', () => {
+  it('should pass a smooth, correctly sized background', async () => {
+    const quality = await assessBackgroundQuality(await gradient(), assetColors);
+
+    expect(quality.score).toBeGreaterThanOrEqual(95);
+    expect(quality.issues).toEqual([]);
+    expect(quality).toMatchObject({ width: 1080, height: 1920 });
+  });
+
+  it.each(['gradient', 'geometric'] as const)('should pass the %s procedural background', async (style) => {
+    const { image } = await renderProceduralBackground({ colors: ['#4F46E5', '#06B6D4'], seed: 'gate', style });
+    const quality = await assessBackgroundQuality(image, assetColors);
+
+    expect(quality.score).toBeGreaterThanOrEqual(80);
+  });
+
+  it('should flag a square, low-resolution image', async () => {
+    const quality = await assessBackgroundQuality(await gradient(512, 512), assetColors);
+
+    expect(quality.checks.aspect_ratio).toBe(0);
+    expect(quality.issues).toEqual([
+      'Aspect ratio 512x512 is not 9:16',
+      'Resolution 512x512 is below 1080x1920'
+    ]);
+    expect(quality.score).toBe(0);
+  });
+
+  it('should flag busy detail behind the asset and in the safe zones', async () => {
+    const quality = await assessBackgroundQuality(await noise(1080, 1920));
+
+    expect(quality.checks.asset_zone_busyness).toBe(0);
+    expect(quality.checks.safe_zone_busyness).toBe(0);
+    expect(quality.issues).toContain('Busy detail behind the asset');
+    expect(quality.score).toBeLessThan(60);
+  });
+
+  it('should flag text-like regions', async () => {
+    const quality = await assessBackgroundQuality(await lettering());
+
+    expect(quality.issues).toContain('Possible text or lettering');
+  });
+
+  it('should flag a background matching the asset colors', async () => {
+    const flat = await sharp({ create: { width: 1080, height: 1920, channels: 3, background: '#FF5A30' } })
+      .png()
+      .toBuffer();
+    const quality = await assessBackgroundQuality(flat, assetColors);
+
+    expect(quality.checks.contrast).toBeLessThan(0.5);
+    expect(quality.issues).toEqual(['Asset zone is close to the asset colors']);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Test suite for brand kits
+ */
+
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BUILTIN_BRAND_KIT_ID,
+  brandPalette,
+  createBrandKit,
+  deleteBrandKit,
+  readBrandKits,
+  resolveBrandKit,
+  setBrandKitLogo,
+  setDefaultBrandKit,
+  updateBrandKit,
+  validateBrandKitInput
+} from '../brand-kits';
+import { promptVariablesForAsset, renderPromptTemplate, resolvePromptTemplate } from '../prompt-templates';
+
+const INPUT = {
+  name: 'Sub-brand',
+  allowed_colors: ['#112233', '#445566'],
+  forbidden_colors: ['#FF0000'],
+  default_cta: 'Shop the drop - link in bio',
+  tone: 'Playful and bold'
+};
+
+describe('brand kits', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'isa-brand-kits-'));
+    path = join(dir, 'brand-kits.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('validation', () => {
+    it('should reject malformed colors and conflicting palettes', () => {
+      expect(() => validateBrandKitInput({ ...INPUT, allowed_colors: ['red'] }))
+        .toThrow('Invalid brand kit: allowed_colors must be an array of #RRGGBB colors');
+      expect(() => validateBrandKitInput({ ...INPUT, forbidden_colors: ['#112233'] }))
+        .toThrow('Invalid brand kit: #112233 is both allowed and forbidden');
+    });
+
+    it('should reject a font file that does not exist', () => {
+      expect(() => validateBrandKitInput({ font: { path: 'public/fonts/Missing.woff2' } }, true))
+        .toThrow('Invalid brand kit: font file public/fonts/Missing.woff2 not found');
+      expect(() => validateBrandKitInput({ font: { path: 'public/fonts/font.exe' } }, true))
+        .toThrow('Invalid brand kit: font.path must be a');
+    });
+  });
+
+  describe('storage', () => {
+    it('should start with the built-in kit without writing a file', async () => {
+      const data = await readBrandKits(path);
+
+      expect(data.default_kit_id).toBe(BUILTIN_BRAND_KIT_ID);
+      expect(data.kits[0]).toMatchObject({ font: { family: 'DM Sans' }, text_color: '#FFFFFF' });
+      expect(existsSync(path)).toBe(false);
+    });
+
+    it('should create kits from the built-in defaults and edit them', async () => {
+      const created = await createBrandKit(INPUT, path);
+      expect(created).toMatchObject({ ...INPUT, font: { family: 'DM Sans', size: 42 }, logo_position: 'top-right' });
+
+      const edited = await updateBrandKit(created.id, { font: { size: 50 }, text_color: '#000000' }, path);
+      expect(edited.font).toMatchObject({ family: 'DM Sans', size: 50 });
+      expect(edited.text_color).toBe('#000000');
+
+      await expect(updateBrandKit(created.id, { forbidden_colors: ['#445566'] }, path))
+        .rejects.toThrow('Invalid brand kit: #445566 is both allowed and forbidden');
+
+      const { kit, previous } = await setBrandKitLogo(created.id, '/brand/logo.png', path);
+      expect(kit.logo_url).toBe('/brand/logo.png');
+      expect(previous).toBeUndefined();
+      expect((await setBrandKitLogo(created.id, null, path)).previous).toBe('/brand/logo.png');
+    });
+
+    it('should resolve the default for unknown kits and protect it from deletion', async () => {
+      const created = await createBrandKit(INPUT, path);
+
+      expect((await resolveBrandKit(created.id, path)).id).toBe(created.id);
+      expect((await resolveBrandKit('deleted-kit', path)).id).toBe(BUILTIN_BRAND_KIT_ID);
+
+      await setDefaultBrandKit(created.id, path);
+      expect((await resolveBrandKit(undefined, path)).id).toBe(created.id);
+      await expect(deleteBrandKit(created.id, path)).rejects.toThrow('Cannot delete the default brand kit');
+      await expect(deleteBrandKit(BUILTIN_BRAND_KIT_ID, path)).resolves.toMatchObject({ id: BUILTIN_BRAND_KIT_ID });
+      await expect(deleteBrandKit(BUILTIN_BRAND_KIT_ID, path)).resolves.toBeNull();
+    });
+  });
+
+  describe('consumers', () => {
+    it('should prefer the allowed colors, else drop forbidden asset colors', async () => {
+      const created = await createBrandKit(INPUT, path);
+      expect(brandPalette(created, ['#ABCDEF'])).toEqual(['#112233', '#445566']);
+      expect(brandPalette({ ...created, allowed_colors: [] }, ['#ff0000', '#ABCDEF'])).toEqual(['#ABCDEF']);
+    });
+
+    it('should inject the kit into the built-in prompt', async () => {
+      const kit = await createBrandKit(INPUT, path);
+      const { version } = await resolvePromptTemplate(undefined, undefined, join(dir, 'prompt-templates.json'));
+      const variables = promptVariablesForAsset(
+        { meta_description: 'Rocket icon', date: '2026-02-01', dominant_colors: ['#ABCDEF'] },
+        kit
+      );
+
+      expect(renderPromptTemplate(version.system_prompt, variables))
+        .toContain('specializing in the Sub-brand brand aesthetic.\n\nBRAND STYLE:\nPlayful and bold\n');
+      expect(renderPromptTemplate(version.user_prompt, variables))
+        .toContain('BRAND COLORS: #112233, #445566\nNEVER USE THESE COLORS: #FF0000\n');
+    });
+  });
+});
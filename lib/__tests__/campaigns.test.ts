@@ -0,0 +1,87 @@
+/**
+ * Test suite for seasonal campaigns
+ */
+
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  applyCampaignToPrompt,
+  createCampaign,
+  deleteCampaign,
+  readCampaigns,
+  resolveCampaign,
+  updateCampaign,
+  validateCampaignInput
+} from '../campaigns';
+
+const DECEMBER = {
+  name: 'Holiday season',
+  start_date: '2026-12-01',
+  end_date: '2026-12-31',
+  prompt_additions: 'Warm winter tones, subtle snow',
+  overlay_text: 'Holiday freebie - link in bio'
+};
+
+describe('campaigns', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'isa-campaigns-'));
+    path = join(dir, 'campaigns.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should reject invalid dates, ranges and palettes', () => {
+    expect(() => validateCampaignInput({ ...DECEMBER, start_date: '2026-02-30' }))
+      .toThrow('Invalid campaign: start_date must be a YYYY-MM-DD date');
+    expect(() => validateCampaignInput({ ...DECEMBER, end_date: '2026-11-30' }))
+      .toThrow('Invalid campaign: end_date is before start_date');
+    expect(() => validateCampaignInput({ ...DECEMBER, palette: ['red'] }))
+      .toThrow('Invalid campaign: palette must be an array of #RRGGBB colors');
+  });
+
+  it('should match dates inclusively, preferring the narrowest campaign', async () => {
+    expect(await readCampaigns(path)).toEqual([]);
+    expect(existsSync(path)).toBe(false);
+
+    const season = await createCampaign(DECEMBER, path);
+    const christmas = await createCampaign(
+      { name: 'Christmas', start_date: '2026-12-24', end_date: '2026-12-26', palette: ['#C1121F', '#FFFFFF'] },
+      path
+    );
+
+    expect((await resolveCampaign('2026-12-01', path))?.id).toBe(season.id);
+    expect((await resolveCampaign('2026-12-31', path))?.id).toBe(season.id);
+    expect((await resolveCampaign('2026-12-25', path))?.id).toBe(christmas.id);
+    expect(await resolveCampaign('2027-01-01', path)).toBeNull();
+
+    await expect(deleteCampaign(christmas.id, path)).resolves.toBe(true);
+    expect((await resolveCampaign('2026-12-25', path))?.id).toBe(season.id);
+  });
+
+  it('should validate the merged range and remove cleared fields on update', async () => {
+    const campaign = await createCampaign({ ...DECEMBER, palette: ['#112233'] }, path);
+
+    await expect(updateCampaign(campaign.id, { start_date: '2027-01-15' }, path))
+      .rejects.toThrow('Invalid campaign: end_date is before start_date');
+
+    const updated = await updateCampaign(campaign.id, { overlay_text: '', palette: [] }, path);
+    expect(updated.overlay_text).toBeUndefined();
+    expect(updated.palette).toBeUndefined();
+    await expect(updateCampaign('missing', { name: 'x' }, path)).rejects.toThrow('Campaign missing not found');
+  });
+
+  it('should append the additions and palette to a prompt', async () => {
+    const campaign = await createCampaign({ ...DECEMBER, palette: ['#C1121F'] }, path);
+
+    expect(applyCampaignToPrompt('Create a background.', campaign)).toBe(
+      'Create a background.\n\nSEASONAL CAMPAIGN: Holiday season\nWarm winter tones, subtle snow\n' +
+      'CAMPAIGN COLORS (use these instead of the brand colors): #C1121F'
+    );
+  });
+});
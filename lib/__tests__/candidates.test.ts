@@ -0,0 +1,103 @@
+/**
+ * Test suite for picking background candidates
+ */
+
+import { existsSync, mkdtempSync, rmSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AssetMetadata, AssetVersion } from '../types';
+
+const TEST_HISTORY_PATH = join(process.cwd(), 'test-candidates-history.json');
+const TEST_AUDIT_PATH = join(process.cwd(), 'test-candidates-history.audit.jsonl');
+
+jest.mock('../config', () => ({
+  config: {
+    storage: { mode: 'local' },
+    paths: { history: join(process.cwd(), 'test-candidates-history.json') },
+    tempDir: '/tmp/isa-processing'
+  }
+}));
+
+import { addAsset, getAsset, getAssetAuditTrail } from '../history';
+import { createLocalStorageDriver, type StorageDriver } from '../storage';
+import { pickCandidate } from '../candidates';
+import { makeAsset } from './asset-fixtures';
+
+function makeVersion(version: number, candidateGroup?: string): AssetVersion {
+  return {
+    version,
+    created_at: '2026-01-02T00:00:00.000Z',
+    prompt_used: 'prompt',
+    file_path: `/uploads/asset-1/background_v${version}.png`,
+    preview_file_path: `/uploads/asset-1/preview-v${version}.png`,
+    ...(candidateGroup ? { candidate_group: candidateGroup } : {})
+  };
+}
+
+function makeCandidateAsset(): AssetMetadata {
+  return makeAsset('asset-1', {
+    active_version: 2,
+    versions: [makeVersion(1), makeVersion(2, 'job-1'), makeVersion(3, 'job-1'), makeVersion(4, 'job-1')]
+  });
+}
+
+describe('pickCandidate', () => {
+  let root: string;
+  let storage: StorageDriver;
+
+  function cleanUp() {
+    for (const path of [TEST_HISTORY_PATH, TEST_AUDIT_PATH]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  }
+
+  beforeEach(async () => {
+    cleanUp();
+    root = mkdtempSync(join(tmpdir(), 'isa-candidates-'));
+    storage = createLocalStorageDriver(root);
+
+    await addAsset(makeCandidateAsset());
+    for (const version of [1, 2, 3, 4]) {
+      await storage.put(`uploads/asset-1/background_v${version}.png`, Buffer.from('png'));
+      await storage.put(`uploads/asset-1/preview-v${version}.png`, Buffer.from('png'));
+    }
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    cleanUp();
+  });
+
+  it('should activate the winner and discard the other candidates with their files', async () => {
+    const result = await pickCandidate('asset-1', 3, { storage, audit: { actor: 'alice' } });
+
+    expect(result.discarded).toEqual([2, 4]);
+    expect(result.kept).toEqual([]);
+    expect(result.asset.active_version).toBe(3);
+    expect(result.asset.versions.map(v => v.version)).toEqual([1, 3]);
+    expect(result.asset.versions[1].candidate_group).toBeUndefined();
+    expect(await getAsset('asset-1')).toMatchObject({ active_version: 3 });
+
+    expect(existsSync(join(root, 'uploads/asset-1/background_v2.png'))).toBe(false);
+    expect(existsSync(join(root, 'uploads/asset-1/preview-v4.png'))).toBe(false);
+    expect(existsSync(join(root, 'uploads/asset-1/background_v3.png'))).toBe(true);
+
+    const trail = await getAssetAuditTrail('asset-1');
+    expect(trail[trail.length - 1]).toMatchObject({ action: 'candidate_picked', actor: 'alice' });
+  });
+
+  it('should keep the other candidates as alternates when asked', async () => {
+    const result = await pickCandidate('asset-1', 4, { storage, keepAlternates: true });
+
+    expect(result.kept).toEqual([2, 3]);
+    expect(result.asset.versions.map(v => v.version)).toEqual([1, 2, 3, 4]);
+    expect(result.asset.versions.some(v => v.candidate_group)).toBe(false);
+    expect(existsSync(join(root, 'uploads/asset-1/background_v2.png'))).toBe(true);
+  });
+
+  it('should reject versions that are not pending candidates', async () => {
+    await expect(pickCandidate('asset-1', 1, { storage })).rejects.toThrow('Version 1 is not a pending candidate');
+    await expect(pickCandidate('asset-1', 9, { storage })).rejects.toThrow('Version 9 not found');
+    await expect(pickCandidate('asset-1', 2, { storage, expectedRevision: 7 })).rejects.toThrow('Revision conflict');
+  });
+});
@@ -10,6 +10,8 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { composeStory } from '../composition';
 import { config } from '../config';
+import { builtinBrandKit } from '../brand-kits';
+import { resolveLayoutTemplate } from '../layouts';
 
 const FIXTURES_DIR = path.join(__dirname, 'fixtures');
 const OUTPUT_DIR = path.join(__dirname, 'output');
@@ -439,6 +441,63 @@ describe('composeStory', () => {
       await expect(fs.access(outputPath)).resolves.not.toThrow();
     });
 
+    it('should place the brand logo in the top corner below the safe zone', async () => {
+      const backgroundPath = path.join(FIXTURES_DIR, 'background-1080x1920.png');
+      const assetPath = path.join(FIXTURES_DIR, 'asset-landscape.png');
+      const logoPath = path.join(OUTPUT_DIR, 'logo.png');
+      const outputPath = path.join(OUTPUT_DIR, 'output-logo.png');
+      await sharp({
+        create: { width: 400, height: 200, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } }
+      }).png().toFile(logoPath);
+
+      const result = await composeStory(backgroundPath, assetPath, outputPath, {
+        includeText: false,
+        brandKit: { ...builtinBrandKit(), logo_position: 'top-left' },
+        logoPath
+      });
+
+      expect(result.success).toBe(true);
+      const { data, info } = await sharp(outputPath).raw().toBuffer({ resolveWithObject: true });
+      const pixel = (x: number, y: number) => {
+        const offset = (y * info.width + x) * info.channels;
+        return Array.from(data.subarray(offset, offset + 3));
+      };
+      const { marginX, maxWidth } = config.brandKits.logo;
+      expect(pixel(marginX + 10, config.instagram.safeZones.top + 10)).toEqual([255, 0, 0]);
+      expect(pixel(marginX + 10, config.instagram.safeZones.top - 10)).toEqual([100, 150, 200]);
+      expect(pixel(marginX + maxWidth + 10, config.instagram.safeZones.top + 10)).toEqual([100, 150, 200]);
+    });
+
+    it('should place the asset as the layout declares', async () => {
+      const backgroundPath = path.join(FIXTURES_DIR, 'background-1080x1920.png');
+      const assetPath = path.join(FIXTURES_DIR, 'asset-landscape.png');
+      const topAlignedPath = path.join(OUTPUT_DIR, 'output-top-aligned.png');
+      const tiltedPath = path.join(OUTPUT_DIR, 'output-tilted.png');
+
+      await composeStory(backgroundPath, assetPath, topAlignedPath, {
+        includeText: false,
+        layout: resolveLayoutTemplate('top-aligned')
+      });
+      const tilted = await composeStory(backgroundPath, assetPath, tiltedPath, {
+        includeText: false,
+        layout: resolveLayoutTemplate('tilted')
+      });
+
+      const pixelAt = async (file: string, x: number, y: number) => {
+        const { data, info } = await sharp(file).raw().toBuffer({ resolveWithObject: true });
+        const offset = (y * info.width + x) * info.channels;
+        return Array.from(data.subarray(offset, offset + 3));
+      };
+      // 800x600 fits the 756-wide zone as 756x567, flush with the zone's top
+      const { yOffset } = config.instagram.assetZone;
+      expect(await pixelAt(topAlignedPath, 540, yOffset + 5)).toEqual([255, 200, 100]);
+      expect(await pixelAt(topAlignedPath, 540, yOffset + 567 + 10)).toEqual([100, 150, 200]);
+
+      expect(tilted.success).toBe(true);
+      expect(await pixelAt(tiltedPath, 540, yOffset + 672)).toEqual([255, 200, 100]);
+      expect(await pixelAt(tiltedPath, 540, yOffset + 5)).toEqual([100, 150, 200]);
+    });
+
     it('should maintain backward compatibility with old signature', async () => {
       const backgroundPath = path.join(FIXTURES_DIR, 'background-1080x1920.png');
       const assetPath = path.join(FIXTURES_DIR, 'asset-landscape.png');
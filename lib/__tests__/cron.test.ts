@@ -0,0 +1,53 @@
+/**
+ * Test suite for cron expression parsing
+ */
+
+import { parseCron, nextCronRun } from '../cron';
+
+describe('parseCron', () => {
+  it('should expand lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-11 */10 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 11, 21, 31]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat day-of-week 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('0 2 * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 2 * * *')).toThrow('allowed 0-59');
+    expect(() => parseCron('0 2 * * */0')).toThrow('Invalid step');
+    expect(() => parseCron('0 abc * * *')).toThrow('Invalid cron expression');
+  });
+});
+
+describe('nextCronRun', () => {
+  it('should find the next daily run in UTC', () => {
+    expect(nextCronRun('0 2 * * *', new Date('2026-01-20T01:59:30Z')).toISOString())
+      .toBe('2026-01-20T02:00:00.000Z');
+    expect(nextCronRun('0 2 * * *', new Date('2026-01-20T02:00:00Z')).toISOString())
+      .toBe('2026-01-21T02:00:00.000Z');
+  });
+
+  it('should roll over months and years', () => {
+    expect(nextCronRun('15 3 1 * *', new Date('2026-12-15T00:00:00Z')).toISOString())
+      .toBe('2027-01-01T03:15:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2026-01-20 is a Tuesday; next is Friday 23rd (dow) before the 25th (dom)
+    expect(nextCronRun('0 0 25 * 5', new Date('2026-01-20T12:00:00Z')).toISOString())
+      .toBe('2026-01-23T00:00:00.000Z');
+  });
+
+  it('should handle leap-day schedules', () => {
+    expect(nextCronRun('0 0 29 2 *', new Date('2026-03-01T00:00:00Z')).toISOString())
+      .toBe('2028-02-29T00:00:00.000Z');
+  });
+});
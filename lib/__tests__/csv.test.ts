@@ -0,0 +1,94 @@
+/**
+ * Test suite for CSV parsing utility
+ */
+
+import { parseCsv, parseAssetCsv } from '../csv';
+
+describe('parseCsv', () => {
+  it('should split simple rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3']
+    ]);
+  });
+
+  it('should handle quoted fields with commas, quotes and newlines', () => {
+    const csv = 'name,desc\n"Icon, blue","He said ""hi""\nsecond line"\n';
+    expect(parseCsv(csv)).toEqual([
+      ['name', 'desc'],
+      ['Icon, blue', 'He said "hi"\nsecond line']
+    ]);
+  });
+
+  it('should handle CRLF line endings, BOM and missing trailing newline', () => {
+    expect(parseCsv('\uFEFFa,b\r\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2']
+    ]);
+  });
+
+  it('should skip blank lines', () => {
+    expect(parseCsv('a,b\n\n1,2\n\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2']
+    ]);
+  });
+
+  it('should throw on unterminated quoted field', () => {
+    expect(() => parseCsv('a,"b\n1,2')).toThrow('unterminated quoted field');
+  });
+});
+
+describe('parseAssetCsv', () => {
+  it('should map header columns in any order', () => {
+    const csv = [
+      'Meta Description,Date,Asset URL,Text Overlay Content',
+      'Rocket icon,2026-02-01,https://cdn.example.com/rocket.png,Free today only'
+    ].join('\n');
+
+    expect(parseAssetCsv(csv)).toEqual([
+      {
+        row: 2,
+        image: 'https://cdn.example.com/rocket.png',
+        meta_description: 'Rocket icon',
+        date: '2026-02-01',
+        text_overlay_content: 'Free today only'
+      }
+    ]);
+  });
+
+  it('should accept header aliases and leave optional fields empty', () => {
+    const csv = 'image_path,description\n/uploads/a.png,  Asset A  \n';
+
+    expect(parseAssetCsv(csv)).toEqual([
+      { row: 2, image: '/uploads/a.png', meta_description: 'Asset A', date: '' }
+    ]);
+  });
+
+  it('should read headerless CSV positionally', () => {
+    const csv = '2026-02-01,/uploads/a.png,Asset A\n2026-02-02,/uploads/b.png,Asset B,Custom text\n';
+
+    expect(parseAssetCsv(csv)).toEqual([
+      { row: 1, image: '/uploads/a.png', meta_description: 'Asset A', date: '2026-02-01' },
+      {
+        row: 2,
+        image: '/uploads/b.png',
+        meta_description: 'Asset B',
+        date: '2026-02-02',
+        text_overlay_content: 'Custom text'
+      }
+    ]);
+  });
+
+  it('should throw for empty CSV', () => {
+    expect(() => parseAssetCsv('\n\n')).toThrow('CSV file is empty');
+  });
+
+  it('should throw when header row has no data rows', () => {
+    expect(() => parseAssetCsv('date,asset_url,meta_description\n')).toThrow('no data rows');
+  });
+
+  it('should throw for unrecognized headerless layout', () => {
+    expect(() => parseAssetCsv('foo,bar\n1,2\n')).toThrow('at least 3 columns');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Test suite for duplicate upload detection
+ */
+
+import sharp from 'sharp';
+
+jest.mock('../config', () => ({
+  config: {
+    duplicates: { exact: 'reject', near: 'warn', nearThreshold: 6 }
+  }
+}));
+jest.mock('../history', () => ({
+  readHistory: jest.fn()
+}));
+
+import { readHistory } from '../history';
+import {
+  checkForDuplicates,
+  computeImageHashes,
+  computePerceptualHash,
+  findDuplicateAssets,
+  hammingDistance
+} from '../duplicates';
+import { makeAsset } from './asset-fixtures';
+
+/**
+ * Left-to-right gradient, so the dHash has a stable, non-trivial pattern
+ */
+async function gradient(width: number, height: number, format: 'png' | 'jpeg' = 'png'): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round((255 * (width - 1 - x)) / (width - 1));
+      pixels.fill(value, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  const image = sharp(pixels, { raw: { width, height, channels: 3 } });
+  return format === 'png' ? image.png().toBuffer() : image.jpeg({ quality: 70 }).toBuffer();
+}
+
+describe('hashing', () => {
+  it('should give resized and recompressed copies a close perceptual hash', async () => {
+    const original = await computePerceptualHash(await gradient(320, 240));
+    const copy = await computePerceptualHash(await gradient(160, 120, 'jpeg'));
+    const inverted = await computePerceptualHash(
+      await sharp(await gradient(320, 240)).negate().png().toBuffer()
+    );
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(original, copy)).toBeLessThanOrEqual(6);
+    expect(hammingDistance(original, inverted)).toBeGreaterThan(32);
+  });
+
+  it('should reject images it cannot decode', async () => {
+    await expect(computeImageHashes(Buffer.from('not an image'))).rejects.toThrow();
+  });
+
+  it('should count differing bits', () => {
+    expect(hammingDistance('00', '00')).toBe(0);
+    expect(hammingDistance('0f', '00')).toBe(4);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(() => hammingDistance('00', '000')).toThrow('Hash length mismatch');
+  });
+});
+
+describe('findDuplicateAssets', () => {
+  const hashes = { content_hash: 'abc', perceptual_hash: 'ff00ff00ff00ff00' };
+
+  it('should list exact matches first, then near matches by distance', () => {
+    const matches = findDuplicateAssets([
+      makeAsset('far', { perceptual_hash: '00ff00ff00ff00ff' }),
+      makeAsset('near-3', { perceptual_hash: 'ff00ff00ff00ff07' }),
+      makeAsset('near-1', { perceptual_hash: 'ff00ff00ff00ff01' }),
+      makeAsset('exact', { content_hash: 'abc', perceptual_hash: 'ff00ff00ff00ff00' }),
+      makeAsset('unhashed')
+    ], hashes, 6);
+
+    expect(matches.map(m => [m.asset_id, m.match, m.distance])).toEqual([
+      ['exact', 'exact', 0],
+      ['near-1', 'near', 1],
+      ['near-3', 'near', 3]
+    ]);
+    expect(matches[0]).toMatchObject({ asset_url: '/uploads/exact.png', meta_description: 'Asset exact' });
+  });
+});
+
+describe('checkForDuplicates', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should reject exact duplicates and warn about near ones', async () => {
+    const buffer = await gradient(320, 240);
+    const { content_hash, perceptual_hash } = await computeImageHashes(buffer);
+    const nearHash = perceptual_hash.slice(0, -1) + (parseInt(perceptual_hash.slice(-1), 16) ^ 1).toString(16);
+    (readHistory as jest.Mock).mockResolvedValue({
+      assets: [
+        makeAsset('near', { perceptual_hash: nearHash }),
+        makeAsset('exact', { content_hash, perceptual_hash })
+      ]
+    });
+
+    const result = await checkForDuplicates(buffer);
+
+    expect(result.hashes).toEqual({ content_hash, perceptual_hash });
+    expect(result.duplicates.map(m => m.asset_id)).toEqual(['exact', 'near']);
+    expect(result.rejected.map(m => m.asset_id)).toEqual(['exact']);
+  });
+
+  it('should ignore assets in the trash', async () => {
+    const buffer = await gradient(320, 240);
+    const hashes = await computeImageHashes(buffer);
+    (readHistory as jest.Mock).mockResolvedValue({
+      assets: [makeAsset('trashed', { ...hashes, deleted_at: '2026-02-01T00:00:00.000Z' })]
+    });
+
+    expect((await checkForDuplicates(buffer)).duplicates).toEqual([]);
+  });
+
+  it('should skip the check for images it cannot hash', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await checkForDuplicates(Buffer.from('not an image'));
+
+    expect(result).toEqual({ duplicates: [], rejected: [] });
+    expect(readHistory).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * In-memory Prisma client stand-in for history repository tests
+ *
+ * Tests using it must mock '@prisma/client' so Prisma.DbNull is 'DbNull'.
+ */
+
+type Row = Record<string, any>;
+
+/**
+ * Minimal in-memory stand-in for the Asset/Version/AuditEvent delegates used by the repository
+ */
+export function createFakeClient() {
+  const assets = new Map<string, Row>();
+  let versions: Row[] = [];
+  const auditEvents: Row[] = [];
+  const calls: string[] = [];
+
+  const fromData = (data: Row) =>
+    Object.fromEntries(Object.entries(data).map(([k, v]) => [k, v === 'DbNull' ? null : v]));
+
+  const tx = {
+    $executeRaw: jest.fn(async () => 0),
+    asset: {
+      findMany: jest.fn(async () =>
+        [...assets.values()]
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .map(a => ({ ...a, versions: versions.filter(v => v.assetId === a.id) }))
+      ),
+      upsert: jest.fn(async ({ where, create }: Row) => {
+        calls.push(`asset.upsert:${where.id}`);
+        assets.set(where.id, fromData(create));
+      }),
+      deleteMany: jest.fn(async ({ where }: Row) => {
+        calls.push(`asset.deleteMany:${where.id.in.join(',')}`);
+        for (const id of where.id.in) assets.delete(id);
+        versions = versions.filter(v => !where.id.in.includes(v.assetId));
+      })
+    },
+    version: {
+      upsert: jest.fn(async ({ where, create }: Row) => {
+        const { assetId, version } = where.assetId_version;
+        calls.push(`version.upsert:${assetId}:${version}`);
+        versions = versions.filter(v => !(v.assetId === assetId && v.version === version));
+        versions.push(fromData(create));
+      }),
+      deleteMany: jest.fn(async ({ where }: Row) => {
+        calls.push(`version.deleteMany:${where.assetId}`);
+        versions = versions.filter(
+          v => v.assetId !== where.assetId || where.version.notIn.includes(v.version)
+        );
+      })
+    },
+    auditEvent: {
+      createMany: jest.fn(async ({ data }: Row) => {
+        auditEvents.push(...data);
+      }),
+      findMany: jest.fn(async ({ where }: Row) =>
+        auditEvents
+          .filter(e => e.assetId === where.assetId)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      )
+    }
+  };
+
+  const client = {
+    ...tx,
+    $transaction: jest.fn(async (fn: (t: typeof tx) => Promise<unknown>) => fn(tx))
+  };
+
+  return { client, tx, calls, auditEvents };
+}
@@ -0,0 +1,186 @@
+/**
+ * Test suite for scheduled history backups
+ */
+
+import { existsSync, unlinkSync } from 'fs';
+import { join } from 'path';
+
+const TEST_STATUS_PATH = join(process.cwd(), 'test-backup-status.json');
+
+const mockConfig = {
+  database: { enabled: false },
+  paths: {
+    history: './history.json',
+    backupStatus: join(process.cwd(), 'test-backup-status.json')
+  },
+  s3: {
+    historyBackupEnabled: true,
+    historyBackupSchedule: '0 2 * * *',
+    historyBackupRetentionDays: 30
+  }
+};
+
+jest.mock('../config', () => ({ config: mockConfig }));
+jest.mock('../history');
+jest.mock('../s3', () => ({
+  backupHistoryToS3: jest.fn(),
+  backupHistoryContentToS3: jest.fn(),
+  listHistoryBackups: jest.fn(),
+  deleteFromS3: jest.fn()
+}));
+
+import { readHistory } from '../history';
+import { backupHistoryToS3, backupHistoryContentToS3, listHistoryBackups, deleteFromS3 } from '../s3';
+import {
+  pruneHistoryBackups,
+  runHistoryBackup,
+  readBackupStatus,
+  startHistoryBackupScheduler,
+  getBackupHealth
+} from '../history-backup-runner';
+
+function backup(key: string, lastModified: string) {
+  return { key: `backups/history-${key}.json`, size: 10, last_modified: lastModified };
+}
+
+describe('history backup runner', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig.database.enabled = false;
+    mockConfig.s3.historyBackupEnabled = true;
+    (listHistoryBackups as jest.Mock).mockResolvedValue([]);
+    if (existsSync(TEST_STATUS_PATH)) unlinkSync(TEST_STATUS_PATH);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    if (existsSync(TEST_STATUS_PATH)) unlinkSync(TEST_STATUS_PATH);
+  });
+
+  describe('pruneHistoryBackups', () => {
+    it('should delete backups past retention but always keep the newest', async () => {
+      (listHistoryBackups as jest.Mock).mockResolvedValue([
+        backup('january', '2026-01-01T00:00:00.000Z'),
+        backup('old', '2025-12-01T00:00:00.000Z'),
+        backup('recent', '2026-02-25T00:00:00.000Z')
+      ].sort((a, b) => b.last_modified.localeCompare(a.last_modified)));
+
+      const deleted = await pruneHistoryBackups(30, new Date('2026-03-01T00:00:00Z'));
+
+      expect(deleted).toEqual(['backups/history-january.json', 'backups/history-old.json']);
+      expect(deleteFromS3).toHaveBeenCalledTimes(2);
+      expect(deleteFromS3).not.toHaveBeenCalledWith('backups/history-recent.json');
+    });
+
+    it('should keep the only backup even when expired', async () => {
+      (listHistoryBackups as jest.Mock).mockResolvedValue([backup('only', '2020-01-01T00:00:00.000Z')]);
+
+      expect(await pruneHistoryBackups(30, new Date('2026-03-01T00:00:00Z'))).toEqual([]);
+    });
+
+    it('should skip pruning when retention is disabled', async () => {
+      expect(await pruneHistoryBackups(0)).toEqual([]);
+      expect(listHistoryBackups).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runHistoryBackup', () => {
+    it('should back up history.json and record success', async () => {
+      (backupHistoryToS3 as jest.Mock).mockResolvedValue('backups/history-new.json');
+
+      const result = await runHistoryBackup(TEST_STATUS_PATH);
+
+      expect(result).toEqual({ success: true, backup_key: 'backups/history-new.json', pruned: [] });
+      expect(backupHistoryToS3).toHaveBeenCalledWith('./history.json');
+      expect(readBackupStatus(TEST_STATUS_PATH)).toMatchObject({
+        last_status: 'success',
+        last_backup_key: 'backups/history-new.json',
+        pruned_count: 0
+      });
+    });
+
+    it('should serialize history from the database backend', async () => {
+      mockConfig.database.enabled = true;
+      (readHistory as jest.Mock).mockResolvedValue({ assets: [] });
+      (backupHistoryContentToS3 as jest.Mock).mockResolvedValue('backups/history-db.json');
+
+      await runHistoryBackup(TEST_STATUS_PATH);
+
+      expect(backupHistoryContentToS3).toHaveBeenCalledWith(
+        JSON.stringify({ assets: [] }, null, 2),
+        { source: 'database' }
+      );
+      expect(backupHistoryToS3).not.toHaveBeenCalled();
+    });
+
+    it('should record failures without throwing and clear them on success', async () => {
+      (backupHistoryToS3 as jest.Mock).mockRejectedValueOnce(new Error('S3 bucket not configured'));
+
+      const failed = await runHistoryBackup(TEST_STATUS_PATH);
+
+      expect(failed).toEqual({ success: false, pruned: [], error: 'S3 bucket not configured' });
+      expect(readBackupStatus(TEST_STATUS_PATH)).toMatchObject({
+        last_status: 'failed',
+        last_error: 'S3 bucket not configured'
+      });
+
+      (backupHistoryToS3 as jest.Mock).mockResolvedValue('backups/history-retry.json');
+      await runHistoryBackup(TEST_STATUS_PATH);
+
+      expect(readBackupStatus(TEST_STATUS_PATH).last_error).toBeUndefined();
+    });
+  });
+
+  describe('startHistoryBackupScheduler', () => {
+    it('should run on the cron schedule and record the next run', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-20T01:59:00Z') });
+      (backupHistoryToS3 as jest.Mock).mockResolvedValue('backups/history-scheduled.json');
+
+      const scheduler = startHistoryBackupScheduler('0 2 * * *', TEST_STATUS_PATH);
+      expect(readBackupStatus(TEST_STATUS_PATH).next_run_at).toBe('2026-01-20T02:00:00.000Z');
+
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      scheduler.stop();
+
+      expect(backupHistoryToS3).toHaveBeenCalledTimes(1);
+      expect(readBackupStatus(TEST_STATUS_PATH)).toMatchObject({
+        last_status: 'success',
+        next_run_at: '2026-01-21T02:00:00.000Z'
+      });
+    });
+
+    it('should reject an invalid schedule', () => {
+      expect(() => startHistoryBackupScheduler('not a cron', TEST_STATUS_PATH))
+        .toThrow('Invalid cron expression');
+    });
+  });
+
+  describe('getBackupHealth', () => {
+    it('should be unhealthy after a failed run', async () => {
+      (backupHistoryToS3 as jest.Mock).mockRejectedValue(new Error('timeout'));
+      await runHistoryBackup();
+
+      const health = getBackupHealth();
+
+      expect(health.healthy).toBe(false);
+      expect(health.reason).toBe('Last backup failed: timeout');
+    });
+
+    it('should be unhealthy when the next run is overdue', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-20T02:00:00Z') });
+      (backupHistoryToS3 as jest.Mock).mockResolvedValue('backups/history-a.json');
+      await runHistoryBackup();
+
+      expect(getBackupHealth(new Date('2026-01-21T02:30:00Z')).healthy).toBe(true);
+
+      const overdue = getBackupHealth(new Date('2026-01-21T03:30:00Z'));
+      expect(overdue.healthy).toBe(false);
+      expect(overdue.reason).toContain('overdue since 2026-01-21T02:00:00.000Z');
+    });
+
+    it('should be healthy when backups are disabled', () => {
+      mockConfig.s3.historyBackupEnabled = false;
+      expect(getBackupHealth()).toMatchObject({ healthy: true, enabled: false });
+    });
+  });
+});
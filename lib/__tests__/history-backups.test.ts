@@ -0,0 +1,177 @@
+/**
+ * Test suite for history backup listing, preview and restore
+ */
+
+import type { AssetMetadata, HistoryData } from '../types';
+
+jest.mock('../history');
+jest.mock('../s3', () => ({
+  listHistoryBackups: jest.fn(),
+  readHistoryBackup: jest.fn(),
+  backupHistoryContentToS3: jest.fn()
+}));
+
+import { readHistory, updateHistory } from '../history';
+import { listHistoryBackups, readHistoryBackup, backupHistoryContentToS3 } from '../s3';
+import {
+  isValidBackupId,
+  parseHistoryBackup,
+  diffHistory,
+  listBackups,
+  previewBackup,
+  restoreBackup
+} from '../history-backups';
+import { CURRENT_HISTORY_SCHEMA_VERSION } from '../history-schema';
+import { makeAsset } from './asset-fixtures';
+
+const BACKUP_ID = 'history-2026-01-20-2026-01-20T02-00-00-000Z.json';
+
+function mockBackup(history: HistoryData) {
+  (readHistoryBackup as jest.Mock).mockResolvedValue({
+    key: `backups/${BACKUP_ID}`,
+    size: 100,
+    last_modified: '2026-01-20T02:00:00.000Z',
+    content: JSON.stringify(history)
+  });
+}
+
+describe('history backups', () => {
+  let stored: HistoryData;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = { assets: [makeAsset('a1'), makeAsset('a2', { status: 'Ready' })] };
+    (readHistory as jest.Mock).mockImplementation(async () => JSON.parse(JSON.stringify(stored)));
+    (updateHistory as jest.Mock).mockImplementation(async (fn: (h: HistoryData) => HistoryData) => {
+      stored = fn(JSON.parse(JSON.stringify(stored)));
+    });
+    (backupHistoryContentToS3 as jest.Mock).mockResolvedValue('backups/history-safety-pre-restore.json');
+  });
+
+  describe('isValidBackupId', () => {
+    it('should accept backup file names and reject paths', () => {
+      expect(isValidBackupId(BACKUP_ID)).toBe(true);
+      expect(isValidBackupId('history-2026-01-20-pre-restore.json')).toBe(true);
+      expect(isValidBackupId('../uploads/secret.json')).toBe(false);
+      expect(isValidBackupId('history-x.txt')).toBe(false);
+    });
+  });
+
+  describe('parseHistoryBackup', () => {
+    it('should reject malformed backups', () => {
+      expect(() => parseHistoryBackup('not json')).toThrow('Invalid backup');
+      expect(() => parseHistoryBackup('{"foo":1}')).toThrow('assets must be an array');
+      expect(() => parseHistoryBackup('{"assets":[{"id":1}]}')).toThrow('every asset needs an id');
+    });
+
+    it('should upgrade backups taken by older releases', () => {
+      const history = parseHistoryBackup(JSON.stringify({
+        assets: [makeAsset('a1', { status: 'ready' as AssetMetadata['status'], versions: undefined })]
+      }));
+
+      expect(history).toEqual({ schema_version: CURRENT_HISTORY_SCHEMA_VERSION, assets: [makeAsset('a1', { status: 'Ready' })] });
+      expect(() => parseHistoryBackup(JSON.stringify({ schema_version: 99, assets: [] })))
+        .toThrow('Invalid backup: history.json schema version 99 is newer than supported');
+    });
+  });
+
+  describe('diffHistory', () => {
+    it('should classify added, removed, changed and unchanged assets', () => {
+      const diff = diffHistory(
+        { assets: [makeAsset('a1'), makeAsset('a2'), makeAsset('a3')] },
+        { assets: [makeAsset('a1'), makeAsset('a2', { status: 'Ready' }), makeAsset('a4')] }
+      );
+
+      expect(diff.added.map(e => e.id)).toEqual(['a4']);
+      expect(diff.removed.map(e => e.id)).toEqual(['a3']);
+      expect(diff.changed).toEqual([{ id: 'a2', meta_description: 'Asset a2', status: 'Ready' }]);
+      expect(diff.unchanged_count).toBe(1);
+    });
+  });
+
+  describe('listBackups', () => {
+    it('should expose backup IDs without the backups/ prefix', async () => {
+      (listHistoryBackups as jest.Mock).mockResolvedValue([
+        { key: `backups/${BACKUP_ID}`, size: 42, last_modified: '2026-01-20T02:00:00.000Z' }
+      ]);
+
+      expect(await listBackups()).toEqual([
+        { id: BACKUP_ID, key: `backups/${BACKUP_ID}`, size: 42, last_modified: '2026-01-20T02:00:00.000Z' }
+      ]);
+    });
+  });
+
+  describe('previewBackup', () => {
+    it('should report counts and diff against current history', async () => {
+      mockBackup({ assets: [makeAsset('a1', { versions: [{ version: 1, created_at: '', prompt_used: '', file_path: '/backgrounds/a1-v1.png' }] })] });
+
+      const preview = await previewBackup(BACKUP_ID);
+
+      expect(preview).toMatchObject({
+        asset_count: 1,
+        version_count: 1,
+        current_asset_count: 2
+      });
+      expect(preview!.diff.removed.map(e => e.id)).toEqual(['a2']);
+      expect(updateHistory).not.toHaveBeenCalled();
+    });
+
+    it('should return null for a missing backup', async () => {
+      (readHistoryBackup as jest.Mock).mockResolvedValue(null);
+      expect(await previewBackup(BACKUP_ID)).toBeNull();
+    });
+
+    it('should throw for an invalid ID without reading S3', async () => {
+      await expect(previewBackup('../../etc/passwd')).rejects.toThrow('Invalid backup id');
+      expect(readHistoryBackup).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('should take a safety backup before replacing history', async () => {
+      const backup = { assets: [makeAsset('old')] };
+      mockBackup(backup);
+      const before = JSON.parse(JSON.stringify(stored));
+
+      const result = await restoreBackup(BACKUP_ID);
+
+      expect(backupHistoryContentToS3).toHaveBeenCalledWith(
+        JSON.stringify(before, null, 2),
+        { 'restored-from': `backups/${BACKUP_ID}` },
+        'pre-restore'
+      );
+      expect((backupHistoryContentToS3 as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan((updateHistory as jest.Mock).mock.invocationCallOrder[0]);
+      expect(stored).toEqual({ ...backup, schema_version: CURRENT_HISTORY_SCHEMA_VERSION });
+      expect(result).toMatchObject({
+        restored_from: `backups/${BACKUP_ID}`,
+        safety_backup: 'backups/history-safety-pre-restore.json',
+        asset_count: 1
+      });
+    });
+
+    it('should abort if history changes after the safety backup', async () => {
+      mockBackup({ assets: [] });
+      (backupHistoryContentToS3 as jest.Mock).mockImplementation(async () => {
+        stored.assets.push(makeAsset('late'));
+        return 'backups/history-safety-pre-restore.json';
+      });
+
+      await expect(restoreBackup(BACKUP_ID)).rejects.toThrow('History changed during restore');
+      expect(stored.assets.map(a => a.id)).toEqual(['a1', 'a2', 'late']);
+    });
+
+    it('should not back up or write when the backup is malformed', async () => {
+      (readHistoryBackup as jest.Mock).mockResolvedValue({
+        key: `backups/${BACKUP_ID}`,
+        size: 3,
+        last_modified: '2026-01-20T02:00:00.000Z',
+        content: '{}'
+      });
+
+      await expect(restoreBackup(BACKUP_ID)).rejects.toThrow('Invalid backup');
+      expect(backupHistoryContentToS3).not.toHaveBeenCalled();
+      expect(updateHistory).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Test suite for the history.json → Postgres migration
+ */
+
+import type { AssetMetadata } from '../types';
+
+jest.mock('@prisma/client', () => ({
+  Prisma: { DbNull: 'DbNull' }
+}));
+
+import { migrateHistoryToDatabase, diffFields, toDatabaseShape } from '../history-migration';
+import { createPrismaHistoryRepository } from '../prisma-history-repository';
+import { createFakeClient } from './fake-prisma-client';
+import { makeAsset } from './asset-fixtures';
+
+function makeScheduledAsset(id: string, overrides: Partial<AssetMetadata> = {}): AssetMetadata {
+  return makeAsset(id, {
+    status: 'Scheduled',
+    text_overlay_analytics: {
+      position_tier_used: 2,
+      shadow_type: 'dark',
+      lines_count: 2,
+      applied_at: '2026-01-20T12:00:00.000Z',
+      brightness_samples: [180, 185]
+    },
+    error: {
+      message: 'Blotato timeout',
+      details: '503',
+      failed_at: '2026-01-20T13:00:00.000Z',
+      retry_count: 1
+    },
+    versions: [
+      {
+        version: 1,
+        created_at: '2026-01-20T11:00:00.000Z',
+        prompt_used: 'prompt',
+        file_path: `/uploads/${id}-v1.png`,
+        text_overlay_position: { tier: 2, y: 1520 }
+      }
+    ],
+    ...overrides
+  });
+}
+
+describe('diffFields', () => {
+  it('should report nested leaf paths', () => {
+    expect(diffFields(
+      { a: 1, b: { c: [1, 2] }, d: 'x' },
+      { a: 1, b: { c: [1, 3] } }
+    )).toEqual([
+      { path: 'b.c[1]', expected: 2, actual: 3 },
+      { path: 'd', expected: 'x', actual: undefined }
+    ]);
+  });
+});
+
+describe('toDatabaseShape', () => {
+  it('should apply column defaults and normalize timestamps', () => {
+    const shaped = toDatabaseShape(makeScheduledAsset('a1', {
+      created_at: '2026-01-20T10:00:00Z',
+      dominant_colors: []
+    }));
+
+    expect(shaped.created_at).toBe('2026-01-20T10:00:00.000Z');
+    expect(shaped.text_overlay_enabled).toBe(true);
+    expect(shaped).not.toHaveProperty('dominant_colors');
+  });
+});
+
+describe('migrateHistoryToDatabase', () => {
+  it('should report counts without writing on dry run', async () => {
+    const { client, calls } = createFakeClient();
+
+    const report = await migrateHistoryToDatabase(
+      client as any,
+      { assets: [makeScheduledAsset('a1'), makeScheduledAsset('a2')] },
+      { dryRun: true }
+    );
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      source: { assets: 2, versions: 2 },
+      database: { assets: 0, versions: 0 },
+      created: ['a1', 'a2'],
+      updated: [],
+      unchanged: []
+    });
+    expect(report.verification).toBeUndefined();
+    expect(calls).toEqual([]);
+  });
+
+  it('should migrate nested fields and verify the result', async () => {
+    const { client } = createFakeClient();
+    const asset = makeScheduledAsset('a1');
+
+    const report = await migrateHistoryToDatabase(client as any, { assets: [asset] });
+
+    expect(report.created).toEqual(['a1']);
+    expect(report.verification).toEqual({ assets: 1, versions: 1, mismatches: [] });
+
+    const { assets } = await createPrismaHistoryRepository(client as any).read();
+    expect(assets[0].text_overlay_analytics).toEqual(asset.text_overlay_analytics);
+    expect(assets[0].error).toEqual(asset.error);
+    expect(assets[0].versions[0].text_overlay_position).toEqual({ tier: 2, y: 1520 });
+  });
+
+  it('should be idempotent and only update changed assets on re-run', async () => {
+    const { client, calls } = createFakeClient();
+    await migrateHistoryToDatabase(client as any, { assets: [makeScheduledAsset('a1'), makeScheduledAsset('a2')] });
+    calls.length = 0;
+
+    const rerun = await migrateHistoryToDatabase(client as any, {
+      assets: [makeScheduledAsset('a1'), makeScheduledAsset('a2', { status: 'Published' })]
+    });
+
+    expect(rerun.unchanged).toEqual(['a1']);
+    expect(rerun.updated).toEqual([
+      { id: 'a2', diffs: [{ path: 'status', expected: 'Published', actual: 'Scheduled' }] }
+    ]);
+    expect(calls).toEqual(['asset.upsert:a2']);
+    expect(rerun.verification?.mismatches).toEqual([]);
+  });
+
+  it('should report invalid and database-only assets without touching them', async () => {
+    const { client } = createFakeClient();
+    await migrateHistoryToDatabase(client as any, { assets: [makeScheduledAsset('db-only')] });
+
+    const report = await migrateHistoryToDatabase(client as any, {
+      assets: [
+        makeScheduledAsset('a1'),
+        makeScheduledAsset('a1'),
+        makeScheduledAsset('bad-status', { status: 'Queued' as any }),
+        makeScheduledAsset('bad-date', { created_at: 'yesterday' })
+      ]
+    });
+
+    expect(report.created).toEqual(['a1']);
+    expect(report.extra).toEqual(['db-only']);
+    expect(report.invalid).toEqual([
+      { id: 'a1', error: 'Duplicate asset id' },
+      { id: 'bad-status', error: 'Invalid status: Queued' },
+      { id: 'bad-date', error: 'Invalid created_at' }
+    ]);
+    expect(report.verification?.assets).toBe(2);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Test suite for history.json schema migrations and record validation
+ */
+
+import {
+  CURRENT_HISTORY_SCHEMA_VERSION,
+  HISTORY_MIGRATIONS,
+  migrateHistoryDocument,
+  validateAssetRecord,
+  validateHistoryRecords,
+  type HistoryDocument,
+  type HistoryMigration
+} from '../history-schema';
+
+function makeRecord(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'asset-1',
+    date: '2026-02-01',
+    asset_url: '/uploads/asset-1.png',
+    meta_description: 'Asset 1',
+    status: 'Draft',
+    created_at: '2026-01-01T00:00:00.000Z',
+    versions: [],
+    ...overrides
+  };
+}
+
+describe('migrateHistoryDocument', () => {
+  it('should run every migration for an unversioned document', () => {
+    const document: HistoryDocument = {
+      assets: [
+        makeRecord({
+          status: 'PUBLISHED',
+          active_version: '3',
+          versions: [
+            { version: '1', file_path: '/backgrounds/v1.png', prompt_used: 'sea', created_at: '2025-01-01T00:00:00Z' },
+            { version: 3, file_path: '  ', prompt_used: 'Asset 1', created_at: '2025-01-02T00:00:00Z' }
+          ]
+        }),
+        makeRecord({ id: 'asset-2', versions: undefined, active_version: null })
+      ]
+    };
+
+    const result = migrateHistoryDocument(document);
+
+    expect(result).toMatchObject({ from: 0, to: CURRENT_HISTORY_SCHEMA_VERSION });
+    expect(result.applied.map(m => m.version)).toEqual(HISTORY_MIGRATIONS.map(m => m.version));
+    expect(document.schema_version).toBe(CURRENT_HISTORY_SCHEMA_VERSION);
+    // The placeholder version is kept, marked, and stays active
+    expect(document.assets[0]).toMatchObject({
+      status: 'Published',
+      active_version: 3,
+      versions: [
+        { version: 1, file_path: '/backgrounds/v1.png' },
+        { version: 3, file_path: '', missing_file: true, prompt_used: 'Asset 1' }
+      ]
+    });
+    expect((document.assets[0] as { versions: object[] }).versions[0]).not.toHaveProperty('missing_file');
+    expect(document.assets[1]).toEqual(makeRecord({ id: 'asset-2' }));
+    expect(validateHistoryRecords(document.assets).issues).toEqual([]);
+  });
+
+  it('should only run migrations newer than the stored version', () => {
+    const migrate = jest.fn();
+    const migrations: HistoryMigration[] = [
+      { version: 1, description: 'one', migrate: () => { throw new Error('should not run'); } },
+      { version: 2, description: 'two', migrate }
+    ];
+
+    const result = migrateHistoryDocument({ schema_version: 1, assets: [] }, migrations);
+
+    expect(migrate).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ from: 1, to: 2, applied: [{ version: 2, description: 'two' }] });
+  });
+
+  it('should leave current documents untouched', () => {
+    const document = { schema_version: CURRENT_HISTORY_SCHEMA_VERSION, assets: [makeRecord()] };
+
+    expect(migrateHistoryDocument(document).applied).toEqual([]);
+  });
+
+  it('should reject documents newer than the registry and out-of-order registries', () => {
+    expect(() => migrateHistoryDocument({ schema_version: CURRENT_HISTORY_SCHEMA_VERSION + 1, assets: [] }))
+      .toThrow(`history.json schema version ${CURRENT_HISTORY_SCHEMA_VERSION + 1} is newer than supported`);
+
+    const gap: HistoryMigration[] = [
+      { version: 1, description: 'one', migrate: () => {} },
+      { version: 3, description: 'three', migrate: () => {} }
+    ];
+    expect(() => migrateHistoryDocument({ assets: [] }, gap))
+      .toThrow('History migrations out of order: expected version 2, got 3');
+  });
+});
+
+describe('validateAssetRecord', () => {
+  it('should accept a valid record', () => {
+    expect(validateAssetRecord(makeRecord({
+      active_version: 1,
+      versions: [{ version: 1, file_path: '/backgrounds/v1.png', prompt_used: '', created_at: '2026-01-01T00:00:00Z' }]
+    }))).toEqual([]);
+  });
+
+  it('should accept a version without a file only if it is marked missing_file', () => {
+    expect(validateAssetRecord(makeRecord({
+      active_version: 1,
+      versions: [{ version: 1, file_path: '', missing_file: true, prompt_used: 'x', created_at: '2026-01-01T00:00:00Z' }]
+    }))).toEqual([]);
+  });
+
+  it('should list every problem with a record', () => {
+    expect(validateAssetRecord('nope')).toEqual(['Record must be an object']);
+    expect(validateAssetRecord(makeRecord({
+      id: '',
+      status: 'Pending',
+      active_version: 1.5,
+      versions: [
+        { version: 1, file_path: '', prompt_used: 'x', created_at: '2026-01-01T00:00:00Z' },
+        { version: 1, file_path: '/b.png', created_at: '2026-01-01T00:00:00Z' }
+      ]
+    }))).toEqual([
+      'id must be a non-empty string',
+      'Invalid status: "Pending"',
+      'active_version must be an integer',
+      'versions[0].file_path must be a non-empty string unless missing_file is set',
+      'versions[1]: duplicate version 1',
+      'versions[1].prompt_used must be a string'
+    ]);
+  });
+});
+
+describe('validateHistoryRecords', () => {
+  it('should split valid assets from issues and flag duplicate ids', () => {
+    const { assets, issues } = validateHistoryRecords([
+      makeRecord(),
+      makeRecord({ id: 'asset-2', date: 5 }),
+      makeRecord(),
+      null
+    ]);
+
+    expect(assets.map(a => a.id)).toEqual(['asset-1']);
+    expect(issues).toEqual([
+      { index: 1, id: 'asset-2', errors: ['date must be a non-empty string'] },
+      { index: 2, id: 'asset-1', errors: ['Duplicate asset id'] },
+      { index: 3, errors: ['Record must be an object'] }
+    ]);
+  });
+});
@@ -8,6 +8,8 @@ import { dirname, join } from 'path';
 import type { AssetMetadata, HistoryData } from '../types';
 
 const TEST_HISTORY_PATH = join(process.cwd(), 'test-history.json');
+const TEST_AUDIT_PATH = join(process.cwd(), 'test-history.audit.jsonl');
+const TEST_BACKUP_PATH = join(process.cwd(), 'test-history.json.schema-v0.bak');
 
 // Mock config to use test history file
 jest.mock('../config', () => ({
@@ -24,8 +26,13 @@ import {
   addAsset,
   updateAssetStatus,
   getAsset,
-  deleteAsset
+  deleteAsset,
+  updateAsset,
+  trashAsset,
+  restoreAsset
 } from '../history';
+import { inspectHistoryFile } from '../history-repository';
+import { CURRENT_HISTORY_SCHEMA_VERSION } from '../history-schema';
 
 describe('History Management', () => {
   beforeEach(() => {
@@ -33,6 +40,12 @@ describe('History Management', () => {
     if (existsSync(TEST_HISTORY_PATH)) {
       unlinkSync(TEST_HISTORY_PATH);
     }
+    if (existsSync(TEST_AUDIT_PATH)) {
+      unlinkSync(TEST_AUDIT_PATH);
+    }
+    if (existsSync(TEST_BACKUP_PATH)) {
+      unlinkSync(TEST_BACKUP_PATH);
+    }
   });
 
   afterEach(() => {
@@ -40,17 +53,24 @@ describe('History Management', () => {
     if (existsSync(TEST_HISTORY_PATH)) {
       unlinkSync(TEST_HISTORY_PATH);
     }
+    if (existsSync(TEST_AUDIT_PATH)) {
+      unlinkSync(TEST_AUDIT_PATH);
+    }
+    if (existsSync(TEST_BACKUP_PATH)) {
+      unlinkSync(TEST_BACKUP_PATH);
+    }
   });
 
   describe('readHistory', () => {
     it('should return empty assets array for empty file', async () => {
       const history = await readHistory();
-      expect(history).toEqual({ assets: [] });
+      expect(history).toEqual({ schema_version: CURRENT_HISTORY_SCHEMA_VERSION, assets: [] });
       expect(existsSync(TEST_HISTORY_PATH)).toBe(true);
     });
 
     it('should read existing data from file', async () => {
       const testData: HistoryData = {
+        schema_version: CURRENT_HISTORY_SCHEMA_VERSION,
         assets: [
           {
             id: 'test-1',
@@ -94,7 +114,7 @@ describe('History Management', () => {
       writeFileSync(TEST_HISTORY_PATH, JSON.stringify({ assets: null }, null, 2));
 
       const history = await readHistory();
-      expect(history).toEqual({ assets: [] });
+      expect(history).toEqual({ schema_version: CURRENT_HISTORY_SCHEMA_VERSION, assets: [] });
     });
   });
 
@@ -118,7 +138,7 @@ describe('History Management', () => {
 
       const content = readFileSync(TEST_HISTORY_PATH, 'utf8');
       const parsed = JSON.parse(content);
-      expect(parsed).toEqual(testData);
+      expect(parsed).toEqual({ ...testData, schema_version: CURRENT_HISTORY_SCHEMA_VERSION });
     });
 
     it('should throw error for invalid data structure', async () => {
@@ -232,6 +252,53 @@ describe('History Management', () => {
     });
   });
 
+  describe('revisions', () => {
+    const asset: AssetMetadata = {
+      id: 'test-1',
+      date: '2026-01-09',
+      asset_url: 'https://example.com/asset.svg',
+      meta_description: 'Test asset',
+      status: 'Draft',
+      created_at: '2026-01-09T10:00:00Z',
+      versions: []
+    };
+
+    it('should bump the revision only when an asset changes', async () => {
+      await addAsset({ ...asset });
+      expect((await getAsset('test-1'))?.revision).toBe(1);
+
+      await updateAssetStatus('test-1', 'Ready');
+      expect((await getAsset('test-1'))?.revision).toBe(2);
+
+      await updateHistory(history => history);
+      expect((await getAsset('test-1'))?.revision).toBe(2);
+    });
+
+    it('should return the saved asset from updateAsset', async () => {
+      await addAsset({ ...asset });
+
+      const updated = await updateAsset('test-1', a => ({ ...a, status: 'Ready' }), TEST_HISTORY_PATH, {
+        expectedRevision: 1
+      });
+
+      expect(updated).toMatchObject({ status: 'Ready', revision: 2 });
+      expect(await getAsset('test-1')).toEqual(updated);
+    });
+
+    it('should reject stale updates and deletes without writing', async () => {
+      await addAsset({ ...asset });
+      await updateAssetStatus('test-1', 'Ready');
+
+      await expect(
+        updateAsset('test-1', a => ({ ...a, status: 'Failed' }), TEST_HISTORY_PATH, { expectedRevision: 1 })
+      ).rejects.toThrow('Revision conflict: asset test-1 is at revision 2, expected 1');
+      await expect(deleteAsset('test-1', TEST_HISTORY_PATH, undefined, 1))
+        .rejects.toThrow('Revision conflict');
+
+      expect(await getAsset('test-1')).toMatchObject({ status: 'Ready', revision: 2 });
+    });
+  });
+
   describe('getAsset', () => {
     it('should retrieve asset by ID', async () => {
       const asset: AssetMetadata = {
@@ -318,6 +385,130 @@ describe('History Management', () => {
     });
   });
 
+  describe('trashAsset / restoreAsset', () => {
+    const asset: AssetMetadata = {
+      id: 'test-1',
+      date: '2026-01-09',
+      asset_url: 'https://example.com/asset.svg',
+      meta_description: 'Test asset',
+      status: 'Ready',
+      created_at: '2026-01-09T10:00:00Z',
+      versions: []
+    };
+
+    it('should keep trashed assets in history and restore them unchanged', async () => {
+      await addAsset(asset);
+
+      const trashed = await trashAsset('test-1', undefined, { actor: 'alice' });
+      expect(trashed.deleted_at).toBeDefined();
+      expect(trashed.deleted_by).toBe('alice');
+      expect((await getAsset('test-1'))?.deleted_at).toBe(trashed.deleted_at);
+
+      const restored = await restoreAsset('test-1');
+      expect(restored.deleted_at).toBeUndefined();
+      expect(restored.deleted_by).toBeUndefined();
+      expect(restored.status).toBe('Ready');
+      expect((await readHistory()).assets).toHaveLength(1);
+    });
+
+    it('should reject trashing twice and restoring a live asset', async () => {
+      await addAsset(asset);
+
+      await expect(restoreAsset('test-1')).rejects.toThrow('is not in the trash');
+      await trashAsset('test-1');
+      await expect(trashAsset('test-1')).rejects.toThrow('is already in the trash');
+      await expect(trashAsset('nonexistent')).rejects.toThrow('Asset with id nonexistent not found');
+    });
+
+    it('should honor the expected revision', async () => {
+      await addAsset(asset);
+
+      await expect(trashAsset('test-1', undefined, undefined, 7)).rejects.toThrow('Revision conflict');
+      expect((await getAsset('test-1'))?.deleted_at).toBeUndefined();
+    });
+  });
+
+  describe('schema versioning', () => {
+    const legacyData = {
+      assets: [
+        {
+          id: 'legacy-1',
+          date: '2025-06-01',
+          asset_url: '/uploads/legacy-1.png',
+          meta_description: 'Legacy asset',
+          status: 'ready',
+          created_at: '2025-06-01T10:00:00Z',
+          active_version: '2',
+          versions: [
+            { version: '1', file_path: '/backgrounds/legacy-1-v1.png', prompt_used: 'sunset', created_at: '2025-06-01T10:01:00Z' },
+            { version: 2, file_path: '', prompt_used: 'A legacy asset', created_at: '2025-06-01T10:02:00Z' }
+          ]
+        },
+        { id: 'broken', status: 'Draft', versions: 'none' }
+      ]
+    };
+
+    beforeEach(() => {
+      mkdirSync(dirname(TEST_HISTORY_PATH), { recursive: true });
+      writeFileSync(TEST_HISTORY_PATH, JSON.stringify(legacyData, null, 2));
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should upgrade an unversioned file on read and keep the original', async () => {
+      const history = await readHistory();
+
+      expect(history.schema_version).toBe(CURRENT_HISTORY_SCHEMA_VERSION);
+      expect(history.assets).toEqual([
+        expect.objectContaining({
+          id: 'legacy-1',
+          status: 'Ready',
+          active_version: 2,
+          versions: [
+            expect.objectContaining({ version: 1, file_path: '/backgrounds/legacy-1-v1.png' }),
+            expect.objectContaining({ version: 2, file_path: '', missing_file: true, prompt_used: 'A legacy asset' })
+          ]
+        })
+      ]);
+
+      const stored = JSON.parse(readFileSync(TEST_HISTORY_PATH, 'utf8'));
+      expect(stored.schema_version).toBe(CURRENT_HISTORY_SCHEMA_VERSION);
+      expect(stored.assets.map((a: { id: string }) => a.id)).toEqual(['legacy-1', 'broken']);
+      expect(JSON.parse(readFileSync(TEST_BACKUP_PATH, 'utf8'))).toEqual(legacyData);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Skipping malformed record #1 (broken)'));
+    });
+
+    it('should hide malformed records from callers but keep them on update', async () => {
+      await updateAssetStatus('legacy-1', 'Published');
+
+      expect((await readHistory()).assets.map(a => a.id)).toEqual(['legacy-1']);
+      const stored = JSON.parse(readFileSync(TEST_HISTORY_PATH, 'utf8'));
+      expect(stored.assets[1]).toEqual(legacyData.assets[1]);
+    });
+
+    it('should report issues without modifying the file', async () => {
+      const report = await inspectHistoryFile(TEST_HISTORY_PATH);
+
+      expect(report).toMatchObject({
+        schema_version: CURRENT_HISTORY_SCHEMA_VERSION,
+        stored_schema_version: 0,
+        asset_count: 1,
+        issues: [{ index: 1, id: 'broken', errors: expect.arrayContaining(['versions must be an array']) }]
+      });
+      expect(JSON.parse(readFileSync(TEST_HISTORY_PATH, 'utf8'))).toEqual(legacyData);
+    });
+
+    it('should refuse files written by a newer release', async () => {
+      writeFileSync(TEST_HISTORY_PATH, JSON.stringify({ schema_version: CURRENT_HISTORY_SCHEMA_VERSION + 1, assets: [] }));
+
+      await expect(readHistory()).rejects.toThrow('is newer than supported version');
+    });
+  });
+
   describe('concurrent access handling', () => {
     it('should handle multiple simultaneous operations', async () => {
       // Create multiple assets concurrently
@@ -0,0 +1,230 @@
+/**
+ * Test suite for persisted background jobs
+ */
+
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.mock('../config', () => ({
+  config: {
+    ...jest.requireActual('../config').config,
+    jobs: { concurrency: 1, maxAttempts: 3, retentionDays: 7 }
+  }
+}));
+
+import {
+  cancelJob,
+  enqueueJob,
+  getJob,
+  recoverJobs,
+  registerJobHandler,
+  type Job,
+  type JobContext
+} from '../jobs';
+
+const STAGES = ['first', 'second'];
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('jobs', () => {
+  let dir: string;
+  let path: string;
+
+  async function waitForJob(jobId: string, statuses = ['succeeded', 'failed', 'cancelled']): Promise<Job> {
+    for (let i = 0; i < 200; i++) {
+      const job = await getJob(jobId, path);
+      if (job && statuses.includes(job.status)) return job;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Job ${jobId} never reached ${statuses.join('/')}`);
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'isa-jobs-'));
+    path = join(dir, 'jobs.json');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    // Let the worker look for (and not find) another queued job
+    await new Promise(resolve => setTimeout(resolve, 20));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run queued jobs through their stages and save the result', async () => {
+    registerJobHandler('background', async (ctx: JobContext) => {
+      await ctx.stage('first', async () => {
+        await ctx.checkpoint({ partial: true });
+      });
+      await ctx.skip('second', 'Not needed');
+      return { done: true };
+    });
+
+    const queued = await enqueueJob('background', 'asset-1', STAGES, { prompt: 'p' }, 'alice', path);
+    expect(queued).toMatchObject({ status: 'queued', asset_id: 'asset-1', actor: 'alice', attempts: 0 });
+
+    const job = await waitForJob(queued.id);
+    expect(job.status).toBe('succeeded');
+    expect(job.attempts).toBe(1);
+    expect(job.result).toEqual({ partial: true, done: true });
+    expect(job.stages[0]).toMatchObject({ name: 'first', status: 'done' });
+    expect(job.stages[0].started_at).toBeDefined();
+    expect(job.stages[1]).toEqual({ name: 'second', status: 'skipped', error: 'Not needed' });
+    expect(job.finished_at).toBeDefined();
+  });
+
+  it('should record a failed stage and skip the rest', async () => {
+    registerJobHandler('background', async (ctx) => {
+      await ctx.stage('first', async () => {
+        throw new Error('Generation failed');
+      });
+      return {};
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const job = await waitForJob((await enqueueJob('background', 'asset-1', STAGES, {}, undefined, path)).id);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Generation failed');
+    expect(job.stages.map(s => s.status)).toEqual(['failed', 'skipped']);
+    expect(job.stages[0].error).toBe('Generation failed');
+  });
+
+  it('should allow one active job per asset', async () => {
+    const gate = deferred();
+    registerJobHandler('background', async (ctx) => {
+      await ctx.stage('first', () => gate.promise);
+      return {};
+    });
+
+    const first = await enqueueJob('background', 'asset-1', STAGES, {}, undefined, path);
+    await expect(enqueueJob('background', 'asset-1', STAGES, {}, undefined, path))
+      .rejects.toThrow(`Asset asset-1 already has an active job: ${first.id}`);
+
+    gate.resolve();
+    await waitForJob(first.id);
+    await expect(enqueueJob('background', 'asset-1', STAGES, {}, undefined, path)).resolves.toBeDefined();
+  });
+
+  it('should cancel queued jobs at once and running jobs before their next stage', async () => {
+    const gate = deferred();
+    const started = deferred();
+    registerJobHandler('background', async (ctx) => {
+      await ctx.stage('first', async () => {
+        started.resolve();
+        await gate.promise;
+      });
+      await ctx.stage('second', async () => undefined);
+      return {};
+    });
+
+    const running = await enqueueJob('background', 'asset-1', STAGES, {}, undefined, path);
+    await started.promise;
+    // Concurrency is 1, so this one waits
+    const waiting = await enqueueJob('background', 'asset-2', STAGES, {}, undefined, path);
+
+    const cancelledQueued = await cancelJob(waiting.id, path);
+    expect(cancelledQueued).toMatchObject({ status: 'cancelled' });
+    expect(cancelledQueued!.stages.map(s => s.status)).toEqual(['skipped', 'skipped']);
+
+    const requested = await cancelJob(running.id, path);
+    expect(requested).toMatchObject({ status: 'running', cancel_requested: true });
+
+    gate.resolve();
+    const job = await waitForJob(running.id);
+    expect(job.status).toBe('cancelled');
+    expect(job.error).toBeUndefined();
+    expect(job.stages.map(s => s.status)).toEqual(['done', 'skipped']);
+
+    await expect(cancelJob(running.id, path)).rejects.toThrow('Job is already cancelled');
+    await expect(cancelJob('missing', path)).resolves.toBeNull();
+  });
+
+  it('should requeue or stop jobs interrupted by a restart', async () => {
+    const now = new Date().toISOString();
+    const interrupted = (id: string, extra: Partial<Job>): Job => ({
+      id,
+      type: 'background',
+      asset_id: id,
+      status: 'running',
+      stages: [
+        { name: 'first', status: 'done', started_at: now, finished_at: now },
+        { name: 'second', status: 'running', started_at: now }
+      ],
+      params: {},
+      attempts: 1,
+      worker_id: 'previous-process',
+      created_at: now,
+      updated_at: now,
+      ...extra
+    });
+    writeFileSync(path, JSON.stringify({
+      jobs: [
+        interrupted('resume', { queue: { position: 2, eta_ms: 1000 } }),
+        interrupted('exhausted', { attempts: 3 }),
+        interrupted('cancelling', { cancel_requested: true })
+      ]
+    }));
+
+    await expect(recoverJobs(path)).resolves.toEqual({ requeued: ['resume'], stopped: ['exhausted', 'cancelling'] });
+
+    const resumed = (await getJob('resume', path))!;
+    expect(resumed.status).toBe('queued');
+    expect(resumed.queue).toBeUndefined();
+    expect(resumed.stages.map(s => s.status)).toEqual(['done', 'pending']);
+    expect(await getJob('exhausted', path)).toMatchObject({
+      status: 'failed',
+      error: 'Interrupted by a server restart 3 time(s)'
+    });
+    expect((await getJob('cancelling', path))!.status).toBe('cancelled');
+  });
+
+  it('should prune finished jobs older than the retention period', async () => {
+    const old = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+    writeFileSync(path, JSON.stringify({
+      jobs: [
+        { id: 'old', type: 'background', asset_id: 'a', status: 'succeeded', stages: [], params: {}, attempts: 1, created_at: old, updated_at: old },
+        { id: 'stuck', type: 'background', asset_id: 'b', status: 'queued', stages: [], params: {}, attempts: 0, created_at: old, updated_at: old }
+      ]
+    }));
+
+    await recoverJobs(path);
+
+    const ids = JSON.parse(readFileSync(path, 'utf8')).jobs.map((job: Job) => job.id);
+    expect(ids).toEqual(['stuck']);
+  });
+
+  it('should record queue positions before the next stage update', async () => {
+    const ticket = { position: 2, eta_ms: 500 };
+    const seen: { job?: Job | null } = {};
+    registerJobHandler('background', async (ctx: JobContext) => {
+      await ctx.stage('first', async () => {
+        void ctx.setQueue(ticket);
+      });
+      seen.job = await getJob(ctx.job.id, path);
+      await ctx.setQueue(null);
+      return {};
+    });
+
+    const queued = await enqueueJob('background', 'asset-queue', STAGES, {}, undefined, path);
+    const job = await waitForJob(queued.id);
+
+    expect(seen.job?.queue).toEqual(ticket);
+    expect(job.status).toBe('succeeded');
+    expect(job.queue).toBeUndefined();
+  });
+
+  it('should replace jobs.json without leaving temp files', async () => {
+    registerJobHandler('background', async () => ({}));
+
+    const queued = await enqueueJob('background', 'asset-atomic', STAGES, {}, undefined, path);
+    await waitForJob(queued.id);
+
+    expect(readdirSync(dir).filter(name => name !== 'jobs.json.lock')).toEqual(['jobs.json']);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Test suite for locked, atomically written JSON stores
+ */
+
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readJsonStore, updateJsonStore, writeJsonFileAtomic, type JsonStoreFormat } from '../json-store';
+
+interface Counter {
+  count: number;
+}
+
+const FORMAT: JsonStoreFormat<Counter> = {
+  empty: () => ({ count: 0 }),
+  parse: data => ({ count: typeof data?.count === 'number' ? data.count : 0 })
+};
+
+describe('json-store', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'isa-json-store-'));
+    path = join(dir, 'nested', 'store.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read missing and empty files as empty documents', () => {
+    expect(readJsonStore(path, FORMAT)).toEqual({ count: 0 });
+
+    writeFileSync(join(dir, 'blank.json'), '  \n');
+    expect(readJsonStore(join(dir, 'blank.json'), FORMAT)).toEqual({ count: 0 });
+  });
+
+  it('should throw on invalid JSON', () => {
+    writeFileSync(join(dir, 'bad.json'), '{ "count": ');
+    expect(() => readJsonStore(join(dir, 'bad.json'), FORMAT)).toThrow();
+  });
+
+  it('should create the file and apply concurrent updates without losing any', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => updateJsonStore(path, FORMAT, (data) => ++data.count))
+    );
+
+    expect(results.sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(readJsonStore(path, FORMAT)).toEqual({ count: 5 });
+  });
+
+  it('should leave the file unchanged if the update throws', async () => {
+    await updateJsonStore(path, FORMAT, (data) => { data.count = 1; });
+
+    await expect(updateJsonStore(path, FORMAT, (data) => {
+      data.count = 2;
+      throw new Error('nope');
+    })).rejects.toThrow('nope');
+
+    expect(readJsonStore(path, FORMAT)).toEqual({ count: 1 });
+  });
+
+  it('should replace files through a temp file that is renamed into place', () => {
+    const file = join(dir, 'atomic.json');
+    writeFileSync(file, JSON.stringify({ count: 1 }));
+
+    writeJsonFileAtomic(file, { count: 2 });
+
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({ count: 2 });
+    expect(readdirSync(dir)).toEqual(['atomic.json']);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Test suite for layout templates
+ */
+
+import {
+  DEFAULT_LAYOUT_ID,
+  listLayoutTemplates,
+  placeAsset,
+  registerLayoutTemplate,
+  resolveLayoutTemplate,
+  textTierForY,
+  unregisterLayoutTemplate,
+  validateLayoutTemplate
+} from '../layouts';
+import { calculateTextTier } from '../asset-detection';
+
+describe('layout templates', () => {
+  const centered = resolveLayoutTemplate();
+
+  it('should reproduce the original centered asset zone by default', () => {
+    expect(centered.id).toBe(DEFAULT_LAYOUT_ID);
+    expect(listLayoutTemplates().map(t => t.id)).toEqual(['centered', 'top-aligned', 'compact', 'offset-left', 'tilted']);
+
+    // Landscape fills the zone's width, portrait its height
+    expect(placeAsset(centered, 800, 600)).toEqual({ width: 756, height: 567, left: 162, top: 677 });
+    expect(placeAsset(centered, 500, 1000)).toEqual({ width: 672, height: 1344, left: 204, top: 288 });
+  });
+
+  it('should anchor and scale the asset inside its box', () => {
+    expect(placeAsset(resolveLayoutTemplate('top-aligned'), 800, 600)).toMatchObject({ left: 162, top: 288 });
+    expect(placeAsset(resolveLayoutTemplate('compact'), 800, 600)).toEqual({ width: 529, height: 397, left: 276, top: 762 });
+    expect(placeAsset({ ...centered, anchor: 'bottom-right' }, 800, 600)).toMatchObject({ left: 162, top: 1065 });
+  });
+
+  it('should fall back to the default for unknown layouts', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(resolveLayoutTemplate('deleted-layout').id).toBe(DEFAULT_LAYOUT_ID);
+    jest.restoreAllMocks();
+  });
+
+  it('should pick text tiers from the layout', () => {
+    const low = { ...centered, textRegion: { ...centered.textRegion, tiers: [1700, 1650, 1600] as [number, number, number] } };
+
+    expect(calculateTextTier(0)).toBe(1560);
+    expect(calculateTextTier(1000)).toBe(1520);
+    expect(calculateTextTier(1200, low)).toBe(1600);
+    expect(textTierForY(low, 1600)).toBe(3);
+  });
+
+  it('should validate and register custom templates', () => {
+    expect(() => validateLayoutTemplate({ ...centered, assetBox: { x: 600, y: 0, width: 600, height: 100 } }))
+      .toThrow('Invalid layout template: assetBox must be a whole-pixel box inside 1080x1920');
+    expect(() => validateLayoutTemplate({ ...centered, rotation: 90 }))
+      .toThrow('Invalid layout template: rotation must be from -45 to 45 degrees');
+    expect(() => registerLayoutTemplate(centered)).toThrow('Invalid layout template: centered is already registered');
+
+    registerLayoutTemplate({ ...centered, id: 'bottom-heavy', name: 'Bottom heavy', anchor: 'bottom' });
+    try {
+      expect(resolveLayoutTemplate('bottom-heavy').anchor).toBe('bottom');
+    } finally {
+      unregisterLayoutTemplate('bottom-heavy');
+    }
+    unregisterLayoutTemplate(DEFAULT_LAYOUT_ID);
+    expect(resolveLayoutTemplate().id).toBe(DEFAULT_LAYOUT_ID);
+  });
+});
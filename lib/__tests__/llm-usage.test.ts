@@ -0,0 +1,80 @@
+/**
+ * Test suite for LLM usage reporting
+ */
+
+import { summarizeLlmUsage, totalLlmUsage } from '../llm-usage';
+import type { AssetMetadata, LlmUsage } from '../types';
+
+function call(createdAt: string, overrides: Partial<LlmUsage> = {}): LlmUsage {
+  return {
+    operation: 'background',
+    model: 'google/gemini-2.5-flash-image',
+    prompt_tokens: 100,
+    completion_tokens: 1000,
+    total_tokens: 1100,
+    cost_usd: 0.04,
+    latency_ms: 3000,
+    created_at: createdAt,
+    ...overrides
+  };
+}
+
+function asset(id: string, usage: LlmUsage[]): AssetMetadata {
+  return {
+    id,
+    date: '2026-03-01',
+    asset_url: `/uploads/${id}.png`,
+    meta_description: `Asset ${id}`,
+    status: 'Draft',
+    created_at: '2026-01-01T00:00:00.000Z',
+    versions: [],
+    llm_usage: usage
+  };
+}
+
+describe('LLM usage', () => {
+  it('should total tokens, cost and latency, counting unpriced calls separately', () => {
+    const totals = totalLlmUsage([
+      call('2026-03-01T10:00:00.000Z', { cost_usd: 0.1, latency_ms: 1000 }),
+      call('2026-03-01T11:00:00.000Z', { cost_usd: 0.2, latency_ms: 2000 }),
+      call('2026-03-01T12:00:00.000Z', { cost_usd: undefined, total_tokens: undefined, latency_ms: 3000 })
+    ]);
+
+    expect(totals).toEqual({
+      calls: 3,
+      prompt_tokens: 300,
+      completion_tokens: 3000,
+      total_tokens: 3300,
+      cost_usd: 0.3,
+      unpriced_calls: 1,
+      avg_latency_ms: 2000
+    });
+  });
+
+  it('should break usage down by day, month, model, operation and asset', () => {
+    const assets = [
+      asset('a', [
+        call('2026-03-15T09:00:00.000Z'),
+        call('2026-03-15T09:00:01.000Z', { operation: 'vision', model: 'vision/model', cost_usd: 0.001 })
+      ]),
+      asset('b', [call('2026-02-20T09:00:00.000Z', { cost_usd: 0.5 })]),
+      asset('c', [])
+    ];
+
+    const summary = summarizeLlmUsage(assets, { days: 3, months: 2, now: new Date('2026-03-16T12:00:00.000Z') });
+
+    expect(summary.total).toMatchObject({ calls: 3, cost_usd: 0.541 });
+    expect(summary.daily.map(d => [d.date, d.calls])).toEqual([
+      ['2026-03-14', 0],
+      ['2026-03-15', 2],
+      ['2026-03-16', 0]
+    ]);
+    expect(summary.monthly.map(m => [m.month, m.cost_usd])).toEqual([
+      ['2026-02', 0.5],
+      ['2026-03', 0.041]
+    ]);
+    expect(Object.keys(summary.by_model)).toEqual(['google/gemini-2.5-flash-image', 'vision/model']);
+    expect(summary.by_operation.vision).toMatchObject({ calls: 1, cost_usd: 0.001 });
+    expect(summary.top_assets.map(a => a.asset_id)).toEqual(['b', 'a']);
+  });
+});
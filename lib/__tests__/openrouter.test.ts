@@ -2,7 +2,7 @@
  * Test suite for OpenRouter API client
  */
 
-import { generateBackground } from '../openrouter';
+import { callOpenRouter, createOpenRouterProvider, generateBackground, getOpenRouterLimiter } from '../openrouter';
 import { config } from '../config';
 
 // Mock fetch globally
@@ -12,17 +12,22 @@ describe('OpenRouter API Client', () => {
   const mockSystemPrompt = 'You are an expert background designer';
   const mockUserPrompt = 'Create a gradient background with blue and purple colors';
   const originalApiKey = config.openrouter.apiKey;
+  const originalLimits = { ...config.openrouter };
 
   beforeEach(() => {
     // Reset mocks before each test
     jest.clearAllMocks();
     // Restore API key
     (config.openrouter as any).apiKey = originalApiKey || 'test-api-key';
+    // No retries and no rate limiting unless a test opts in
+    (config.openrouter as any).maxRetries = 0;
+    (config.openrouter as any).maxCallsPerMinute = 1000;
   });
 
   afterEach(() => {
     // Restore original API key
     (config.openrouter as any).apiKey = originalApiKey;
+    Object.assign(config.openrouter, originalLimits);
   });
 
   describe('generateBackground', () => {
@@ -80,7 +85,8 @@ describe('OpenRouter API Client', () => {
           { role: 'system', content: mockSystemPrompt },
           { role: 'user', content: mockUserPrompt }
         ],
-        temperature: 0.7
+        temperature: 0.7,
+        usage: { include: true }
       });
     });
 
@@ -204,4 +210,182 @@ describe('OpenRouter API Client', () => {
       ).rejects.toThrow('Invalid response format: no content found');
     });
   });
+
+  describe('callOpenRouter', () => {
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      headers: new Headers(headers),
+      text: async () => `error ${status}`
+    });
+    const okResponse = { ok: true, status: 200, headers: new Headers() };
+
+    beforeEach(() => {
+      (config.openrouter as any).maxRetries = 2;
+      (config.openrouter as any).retryBaseDelayMs = 1;
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should retry 429 and 5xx responses, then return the success', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce(errorResponse(429, { 'retry-after': '0' }))
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(okResponse);
+
+      const response = await callOpenRouter({ model: 'm' });
+
+      expect(response).toBe(okResponse);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors or Retry-After beyond the max delay', async () => {
+      (global.fetch as any).mockResolvedValueOnce(errorResponse(401));
+      expect((await callOpenRouter({})).status).toBe(401);
+
+      (global.fetch as any).mockResolvedValueOnce(errorResponse(429, { 'retry-after': '3600' }));
+      expect((await callOpenRouter({})).status).toBe(429);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured retries', async () => {
+      (global.fetch as any).mockResolvedValue(errorResponse(500));
+
+      await expect(generateBackground(mockSystemPrompt, mockUserPrompt))
+        .rejects.toThrow('OpenRouter API error: 500 - error 500');
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should queue calls beyond the rate limit and report their position', async () => {
+      jest.useFakeTimers();
+      (config.openrouter as any).maxCallsPerMinute = 1;
+      (global.fetch as any).mockResolvedValue(okResponse);
+      const onQueued = jest.fn();
+
+      await callOpenRouter({});
+      const waiting = callOpenRouter({}, { onQueued });
+
+      expect(onQueued).toHaveBeenCalledWith({ position: 1, eta_ms: 60000 });
+      expect(getOpenRouterLimiter().status()).toMatchObject({ calls_per_minute: 1, queued: 1 });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(60000);
+      await expect(waiting).resolves.toBe(okResponse);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      jest.useRealTimers();
+    });
+
+    it('should share one limiter between copies of the module', () => {
+      const limiter = getOpenRouterLimiter();
+
+      jest.isolateModules(() => {
+        // A separate bundle has its own config and openrouter modules
+        const { config: otherConfig } = require('../config');
+        (otherConfig.openrouter as any).maxCallsPerMinute = config.openrouter.maxCallsPerMinute;
+        const { getOpenRouterLimiter: otherGetLimiter } = require('../openrouter');
+
+        expect(otherGetLimiter()).toBe(limiter);
+      });
+    });
+  });
+
+  describe('createOpenRouterProvider', () => {
+    const request = { systemPrompt: mockSystemPrompt, userPrompt: mockUserPrompt };
+
+    function mockCompletion(message: Record<string, unknown>, extra: Record<string, unknown> = {}) {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ choices: [{ message }], ...extra })
+      });
+    }
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should decode images returned as data URLs', async () => {
+      mockCompletion({ images: [{ image_url: { url: `data:image/jpeg;base64,${Buffer.from('jpeg').toString('base64')}` } }] });
+
+      const background = await createOpenRouterProvider('test/model').generate(request);
+
+      expect(background).toEqual({
+        image: Buffer.from('jpeg'),
+        contentType: 'image/jpeg',
+        provider: 'openrouter',
+        model: 'test/model',
+        usage: expect.objectContaining({ operation: 'background', model: 'test/model' })
+      });
+      expect(JSON.parse((global.fetch as any).mock.calls[0][1].body).model).toBe('test/model');
+    });
+
+    it('should send a reference image with the user prompt when refining', async () => {
+      mockCompletion({ images: [{ image_url: { url: `data:image/png;base64,${Buffer.from('png').toString('base64')}` } }] });
+
+      await createOpenRouterProvider().generate({
+        ...request,
+        referenceImage: { image: Buffer.from('previous'), contentType: 'image/png' }
+      });
+
+      const { messages } = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(messages[0]).toEqual({ role: 'system', content: mockSystemPrompt });
+      expect(messages[1].content).toEqual([
+        { type: 'image_url', image_url: { url: `data:image/png;base64,${Buffer.from('previous').toString('base64')}` } },
+        { type: 'text', text: mockUserPrompt }
+      ]);
+    });
+
+    it('should report usage and cost, including for answers without an image', async () => {
+      const onUsage = jest.fn();
+      mockCompletion({ content: 'No image today' }, {
+        id: 'gen-42',
+        model: 'google/gemini-2.5-flash-image',
+        usage: { prompt_tokens: 120, completion_tokens: 1290, total_tokens: 1410, cost: 0.0387 }
+      });
+
+      await expect(createOpenRouterProvider().generate({ ...request, onUsage })).rejects.toThrow('returned no image');
+
+      expect(onUsage).toHaveBeenCalledWith({
+        operation: 'background',
+        model: 'google/gemini-2.5-flash-image',
+        generation_id: 'gen-42',
+        prompt_tokens: 120,
+        completion_tokens: 1290,
+        total_tokens: 1410,
+        cost_usd: 0.0387,
+        latency_ms: expect.any(Number),
+        created_at: expect.any(String)
+      });
+    });
+
+    it('should download images returned as URLs', async () => {
+      mockCompletion({ content: 'https://cdn.example.com/bg.png' });
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'image/png' }),
+        arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer
+      });
+
+      const background = await createOpenRouterProvider().generate(request);
+
+      expect(global.fetch).toHaveBeenLastCalledWith('https://cdn.example.com/bg.png', expect.anything());
+      expect(background).toMatchObject({ image: Buffer.from([1, 2, 3]), contentType: 'image/png' });
+    });
+
+    it('should reject text answers', async () => {
+      mockCompletion({ content: 'A vibrant gradient background' });
+
+      await expect(createOpenRouterProvider().generate(request))
+        .rejects.toThrow('OpenRouter returned no image: A vibrant gradient background');
+    });
+  });
 });
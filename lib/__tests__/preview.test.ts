@@ -1,25 +1,28 @@
-import { getPreviewPath, isPreviewStale, generatePreview } from '../preview';
-import path from 'path';
+import { getPreviewKey, isPreviewStale, generatePreview } from '../preview';
 import type { AssetVersion } from '../types';
 import { readHistory, updateHistory } from '../history';
 import * as composition from '../composition';
+import fs from 'fs/promises';
 
 // Mock dependencies
 jest.mock('../history');
 jest.mock('../composition');
 jest.mock('fs/promises');
+jest.mock('../storage', () => ({
+  ...jest.requireActual('../storage'),
+  getStorage: () => ({ put: async (key: string) => `/${key}` }),
+  withLocalFiles: (keys: string[], fn: (paths: string[]) => Promise<unknown>) => fn(keys)
+}));
 
-describe('getPreviewPath', () => {
-  it('should return correct preview path for asset and version', () => {
-    const result = getPreviewPath('test-asset-id', 2);
+describe('getPreviewKey', () => {
+  it('should return correct preview key for asset and version', () => {
+    const result = getPreviewKey('test-asset-id', 2);
 
-    expect(result).toBe(
-      path.join(process.cwd(), 'public/uploads/test-asset-id/preview-v2.png')
-    );
+    expect(result).toBe('uploads/test-asset-id/preview-v2.png');
   });
 
   it('should handle asset IDs with special characters', () => {
-    const result = getPreviewPath('abc-123-def', 1);
+    const result = getPreviewKey('abc-123-def', 1);
 
     expect(result).toContain('abc-123-def/preview-v1.png');
   });
@@ -65,6 +68,7 @@ describe('isPreviewStale', () => {
 describe('generatePreview', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (fs.unlink as jest.Mock).mockResolvedValue(undefined);
   });
 
   it('should generate preview and update metadata', async () => {
@@ -108,8 +112,13 @@ describe('generatePreview', () => {
     expect(composition.composeStory).toHaveBeenCalledWith(
       expect.stringContaining('v1.png'),
       expect.stringContaining('test-id.png'),
-      expect.stringContaining('preview-v1.png'),
-      { includeText: false }
+      expect.stringContaining('.png'),
+      {
+        includeText: false,
+        brandKit: expect.objectContaining({ id: 'iconscout' }),
+        logoPath: undefined,
+        layout: expect.objectContaining({ id: 'centered' })
+      }
     );
     expect(updateHistory).toHaveBeenCalled();
   });
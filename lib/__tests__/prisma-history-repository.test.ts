@@ -0,0 +1,128 @@
+/**
+ * Test suite for the Prisma-backed history repository
+ */
+
+jest.mock('@prisma/client', () => ({
+  Prisma: { DbNull: 'DbNull' }
+}));
+
+import { createPrismaHistoryRepository } from '../prisma-history-repository';
+import { createFakeClient } from './fake-prisma-client';
+import { makeAsset } from './asset-fixtures';
+
+describe('Prisma history repository', () => {
+  it('should round-trip assets and versions in history.json shape', async () => {
+    const { client } = createFakeClient();
+    const repository = createPrismaHistoryRepository(client as any);
+
+    const asset = makeAsset('a1', {
+      status: 'Ready',
+      updated_at: '2026-01-21T10:00:00.000Z',
+      dominant_colors: ['#112233'],
+      active_version: 1,
+      text_overlay_content: 'Free today',
+      text_overlay_enabled: true,
+      error: { message: 'boom', details: 'stack', failed_at: '2026-01-21T10:00:00.000Z', retry_count: 1 },
+      versions: [
+        {
+          version: 1,
+          created_at: '2026-01-21T09:00:00.000Z',
+          prompt_used: 'prompt',
+          file_path: '/uploads/a1-v1.png',
+          text_overlay_position: { tier: 1, y: 20 }
+        }
+      ]
+    });
+
+    await repository.update(history => ({ assets: [...history.assets, asset] }));
+    const history = await repository.read();
+
+    expect(history).toEqual({ assets: [asset] });
+  });
+
+  it('should take an advisory lock inside a transaction', async () => {
+    const { client, tx } = createFakeClient();
+    const repository = createPrismaHistoryRepository(client as any);
+
+    await repository.update(history => history);
+
+    expect(client.$transaction).toHaveBeenCalledTimes(1);
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only write assets that changed, even when mutated in place', async () => {
+    const { client, calls } = createFakeClient();
+    const repository = createPrismaHistoryRepository(client as any);
+
+    await repository.update(() => ({ assets: [makeAsset('a1'), makeAsset('a2')] }));
+    calls.length = 0;
+
+    await repository.update(history => {
+      history.assets[1].status = 'Scheduled';
+      return history;
+    });
+
+    expect(calls).toEqual(['asset.upsert:a2']);
+    const { assets } = await repository.read();
+    expect(assets.map(a => a.status)).toEqual(['Draft', 'Scheduled']);
+  });
+
+  it('should delete removed assets and versions', async () => {
+    const { client, calls } = createFakeClient();
+    const repository = createPrismaHistoryRepository(client as any);
+    const version = (n: number) => ({
+      version: n,
+      created_at: '2026-01-21T09:00:00.000Z',
+      prompt_used: `p${n}`,
+      file_path: `/uploads/a1-v${n}.png`
+    });
+
+    await repository.update(() => ({
+      assets: [makeAsset('a1', { versions: [version(1), version(2)] }), makeAsset('a2')]
+    }));
+    calls.length = 0;
+
+    await repository.update(history => ({
+      assets: history.assets
+        .filter(a => a.id !== 'a2')
+        .map(a => ({ ...a, versions: a.versions.filter(v => v.version !== 1) }))
+    }));
+
+    expect(calls).toEqual(['asset.deleteMany:a2', 'asset.upsert:a1', 'version.deleteMany:a1']);
+    const { assets } = await repository.read();
+    expect(assets).toHaveLength(1);
+    expect(assets[0].versions.map(v => v.version)).toEqual([2]);
+  });
+
+  it('should record audit events in the same transaction', async () => {
+    const { client, tx, auditEvents } = createFakeClient();
+    const repository = createPrismaHistoryRepository(client as any);
+
+    await repository.update(() => ({ assets: [makeAsset('a1'), makeAsset('a2')] }));
+    await repository.update(history => {
+      history.assets[0].status = 'Ready';
+      return history;
+    }, { action: 'bulk_approved', actor: 'ops@example.com' });
+
+    expect(tx.auditEvent.createMany).toHaveBeenCalledTimes(2);
+    expect(auditEvents).toHaveLength(3);
+
+    const trail = await repository.readAudit('a1');
+    expect(trail.map(e => e.action)).toEqual(['created', 'bulk_approved']);
+    expect(trail[1]).toMatchObject({
+      asset_id: 'a1',
+      actor: 'ops@example.com',
+      changes: { status: { before: 'Draft', after: 'Ready' } }
+    });
+    expect(trail[1].source).toBeUndefined();
+  });
+
+  it('should reject invalid update results without writing', async () => {
+    const { client, calls } = createFakeClient();
+    const repository = createPrismaHistoryRepository(client as any);
+
+    await expect(repository.update(() => ({ assets: null } as any)))
+      .rejects.toThrow('Invalid history data: assets must be an array');
+    expect(calls).toEqual([]);
+  });
+});
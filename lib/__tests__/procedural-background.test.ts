@@ -0,0 +1,59 @@
+/**
+ * Test suite for procedural background generation
+ */
+
+import sharp from 'sharp';
+import {
+  buildProceduralSvg,
+  createProceduralProvider,
+  renderProceduralBackground,
+  PROCEDURAL_STYLES
+} from '../procedural-background';
+
+const colors = ['#FF5733', '#33A1FF', '#1B1B3A'];
+
+describe('procedural backgrounds', () => {
+  it('should be deterministic for the same colors and seed', () => {
+    const first = buildProceduralSvg({ colors, seed: 'asset-1:v1' });
+
+    expect(buildProceduralSvg({ colors, seed: 'asset-1:v1' })).toEqual(first);
+    expect(buildProceduralSvg({ colors, seed: 'asset-1:v2', style: first.style }).svg).not.toBe(first.svg);
+  });
+
+  it('should keep geometric decoration out of the asset zone and safe zones', () => {
+    const { svg } = buildProceduralSvg({ colors, seed: 'layout', style: 'geometric' });
+    const centers = [...svg.matchAll(/<circle cx="(-?\d+)" cy="(-?\d+)"/g)]
+      .map(([, x, y]) => [Number(x), Number(y)]);
+    const rects = [...svg.matchAll(/rotate\(\d+ (-?\d+) (-?\d+)\)/g)].map(([, x, y]) => [Number(x), Number(y)]);
+
+    for (const [x, y] of [...centers, ...rects]) {
+      expect(x < 162 || x > 918).toBe(true);
+      expect(y).toBeGreaterThanOrEqual(250);
+      expect(y).toBeLessThanOrEqual(1920 - 180);
+    }
+  });
+
+  it('should fall back to the default palette when colors are missing or invalid', () => {
+    const { svg } = buildProceduralSvg({ colors: ['not-a-color'], seed: 's', style: 'gradient' });
+
+    expect(svg).toMatch(/stop-color="#[0-9a-f]{6}"/);
+  });
+
+  it.each(PROCEDURAL_STYLES)('should render a 1080x1920 %s PNG', async (style) => {
+    const { image } = await renderProceduralBackground({ colors, seed: 'render', style });
+    const metadata = await sharp(image).metadata();
+
+    expect(metadata).toMatchObject({ format: 'png', width: 1080, height: 1920 });
+  });
+
+  it('should report the style it picked as the model', async () => {
+    const background = await createProceduralProvider('mesh').generate({
+      systemPrompt: 'ignored',
+      userPrompt: 'ignored',
+      dominantColors: colors,
+      seed: 'asset-1:v1'
+    });
+
+    expect(background).toMatchObject({ contentType: 'image/png', provider: 'procedural', model: 'mesh' });
+  });
+});
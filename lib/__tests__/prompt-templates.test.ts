@@ -0,0 +1,145 @@
+/**
+ * Test suite for the prompt template library
+ */
+
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BUILTIN_PROMPT_TEMPLATE_ID,
+  createPromptTemplate,
+  currentTemplateVersion,
+  deletePromptTemplate,
+  promptVariablesForAsset,
+  readPromptTemplates,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+  setDefaultPromptTemplate,
+  updatePromptTemplate,
+  validatePromptTemplateInput
+} from '../prompt-templates';
+
+const INPUT = {
+  name: 'Festive',
+  system_prompt: 'You design festive backgrounds.',
+  user_prompt: 'Background for {{meta_description}} on {{date}} using {{colors}}'
+};
+
+describe('prompt templates', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'isa-templates-'));
+    path = join(dir, 'prompt-templates.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('rendering', () => {
+    const asset = {
+      meta_description: 'Rocket icon',
+      date: '2026-02-01',
+      asset_vision_description: undefined,
+      dominant_colors: ['#FF0000', '#00FF00']
+    };
+
+    it('should fill variables from the asset', () => {
+      expect(renderPromptTemplate(INPUT.user_prompt, promptVariablesForAsset(asset)))
+        .toBe('Background for Rocket icon on 2026-02-01 using #FF0000, #00FF00');
+    });
+
+    it('should fall back to the meta description and generic colors', () => {
+      const variables = promptVariablesForAsset({ ...asset, dominant_colors: [] });
+      expect(variables.vision_description).toBe('Rocket icon');
+      expect(variables.colors).toBe('vibrant and bold colors');
+      expect(renderPromptTemplate('{{ vision_description }} / {{unknown}}', variables))
+        .toBe('Rocket icon / {{unknown}}');
+    });
+
+    it('should render the built-in template like the original hardcoded prompt', async () => {
+      const { version } = await resolvePromptTemplate(undefined, undefined, path);
+      const rendered = renderPromptTemplate(version.user_prompt, promptVariablesForAsset({
+        ...asset,
+        asset_vision_description: 'A red rocket'
+      }));
+
+      expect(rendered).toContain('ASSET DESCRIPTION: A red rocket\nMETA DESCRIPTION: Rocket icon\n');
+      expect(rendered).toContain('(use as guidance, not strict requirement): #FF0000, #00FF00\n');
+      expect(version.system_prompt).toMatch(/^You are an expert background designer/);
+    });
+  });
+
+  describe('validation', () => {
+    it('should require a name and both prompts', () => {
+      expect(() => validatePromptTemplateInput({ ...INPUT, name: ' ' })).toThrow('Invalid template: name');
+      expect(() => validatePromptTemplateInput({ name: 'x', system_prompt: 's' })).toThrow('user_prompt');
+      expect(() => validatePromptTemplateInput({ name: 'Renamed' }, true)).not.toThrow();
+    });
+
+    it('should reject unknown variables', () => {
+      expect(() => validatePromptTemplateInput({ ...INPUT, user_prompt: 'Hi {{brand}}' }))
+        .toThrow('Invalid template: unknown variable {{brand}} in user_prompt (available: meta_description, vision_description, colors, date, brand_name, brand_tone, brand_colors, forbidden_colors)');
+    });
+  });
+
+  describe('storage', () => {
+    it('should start with the built-in default without writing a file', async () => {
+      const data = await readPromptTemplates(path);
+
+      expect(data.default_template_id).toBe(BUILTIN_PROMPT_TEMPLATE_ID);
+      expect(data.templates.map(t => t.id)).toEqual([BUILTIN_PROMPT_TEMPLATE_ID]);
+      expect(existsSync(path)).toBe(false);
+    });
+
+    it('should create templates and version prompt edits', async () => {
+      const created = await createPromptTemplate(INPUT, 'alice', path);
+      expect(created.versions).toEqual([
+        expect.objectContaining({ version: 1, user_prompt: INPUT.user_prompt, created_by: 'alice' })
+      ]);
+
+      const renamed = await updatePromptTemplate(created.id, { name: 'Holiday' }, 'bob', path);
+      expect(renamed.name).toBe('Holiday');
+      expect(renamed.versions).toHaveLength(1);
+
+      const edited = await updatePromptTemplate(created.id, { user_prompt: 'Now {{colors}}' }, 'bob', path);
+      expect(edited.versions.map(v => v.version)).toEqual([1, 2]);
+      expect(currentTemplateVersion(edited)).toMatchObject({
+        system_prompt: INPUT.system_prompt,
+        user_prompt: 'Now {{colors}}',
+        created_by: 'bob'
+      });
+
+      const data = await readPromptTemplates(path);
+      expect(data.templates.map(t => t.id)).toEqual([BUILTIN_PROMPT_TEMPLATE_ID, created.id]);
+    });
+
+    it('should resolve the default or a pinned version', async () => {
+      const created = await createPromptTemplate(INPUT, undefined, path);
+      await updatePromptTemplate(created.id, { system_prompt: 'v2' }, undefined, path);
+
+      expect((await resolvePromptTemplate(created.id, 1, path)).version.system_prompt).toBe(INPUT.system_prompt);
+      expect((await resolvePromptTemplate(created.id, undefined, path)).version.version).toBe(2);
+      expect((await resolvePromptTemplate(undefined, undefined, path)).template.id).toBe(BUILTIN_PROMPT_TEMPLATE_ID);
+
+      await setDefaultPromptTemplate(created.id, path);
+      expect((await resolvePromptTemplate(undefined, undefined, path)).template.id).toBe(created.id);
+
+      await expect(resolvePromptTemplate('missing', undefined, path)).rejects.toThrow('Unknown prompt template: missing');
+      await expect(resolvePromptTemplate(created.id, 9, path)).rejects.toThrow('Unknown prompt template version: Festive v9');
+    });
+
+    it('should not delete the default template', async () => {
+      const created = await createPromptTemplate(INPUT, undefined, path);
+
+      await expect(deletePromptTemplate(BUILTIN_PROMPT_TEMPLATE_ID, path))
+        .rejects.toThrow('Cannot delete the default prompt template');
+      await expect(deletePromptTemplate(created.id, path)).resolves.toBe(true);
+      await expect(deletePromptTemplate(created.id, path)).resolves.toBe(false);
+      await expect(updatePromptTemplate(created.id, { name: 'x' }, undefined, path))
+        .rejects.toThrow(`Prompt template ${created.id} not found`);
+    });
+  });
+});
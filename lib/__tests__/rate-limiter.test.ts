@@ -0,0 +1,92 @@
+/**
+ * Test suite for the token-bucket rate limiter and retry backoff
+ */
+
+import { backoffDelay, createRateLimiter, isRetryableStatus, parseRetryAfter } from '../rate-limiter';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run a burst immediately, then queue in order with positions and ETAs', async () => {
+    const limiter = createRateLimiter(2);
+    const started: number[] = [];
+    const tickets: Array<{ position: number; eta_ms: number }> = [];
+    const task = (n: number) => async () => {
+      started.push(n);
+      return n;
+    };
+
+    const results = [1, 2, 3, 4].map(n => limiter.schedule(task(n), ticket => tickets.push(ticket)));
+
+    expect(started).toEqual([1, 2]);
+    // One token every 30s at 2 calls/minute
+    expect(tickets).toEqual([
+      { position: 1, eta_ms: 30000 },
+      { position: 2, eta_ms: 60000 }
+    ]);
+    expect(limiter.status()).toEqual({ calls_per_minute: 2, available_tokens: 0, queued: 2, eta_ms: 90000 });
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(started).toEqual([1, 2, 3]);
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(started).toEqual([1, 2, 3, 4]);
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3, 4]);
+  });
+
+  it('should refill tokens over time up to the burst size', async () => {
+    const limiter = createRateLimiter(60);
+    await Promise.all(Array.from({ length: 60 }, () => limiter.schedule(async () => undefined)));
+    expect(limiter.status().available_tokens).toBe(0);
+
+    jest.advanceTimersByTime(10000);
+    expect(limiter.status().available_tokens).toBe(10);
+
+    jest.advanceTimersByTime(600000);
+    expect(limiter.status().available_tokens).toBe(60);
+  });
+
+  it('should propagate task failures without blocking the queue', async () => {
+    const limiter = createRateLimiter(1);
+    const failed = limiter.schedule(async () => {
+      throw new Error('boom');
+    });
+    const next = limiter.schedule(async () => 'ok');
+
+    await expect(failed).rejects.toThrow('boom');
+    await jest.advanceTimersByTimeAsync(60000);
+    await expect(next).resolves.toBe('ok');
+  });
+});
+
+describe('retry helpers', () => {
+  it('should retry rate limits and server errors only', () => {
+    expect([429, 500, 503].map(isRetryableStatus)).toEqual([true, true, true]);
+    expect([400, 401, 404].map(isRetryableStatus)).toEqual([false, false, false]);
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    const now = Date.parse('2026-01-20T10:00:00Z');
+
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Tue, 20 Jan 2026 10:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it('should back off exponentially with full jitter, honoring Retry-After', () => {
+    const options = { baseMs: 1000, maxMs: 10000 };
+
+    expect(backoffDelay(0, options, () => 0.5)).toBe(500);
+    expect(backoffDelay(2, options, () => 0.5)).toBe(2000);
+    expect(backoffDelay(10, options, () => 0.999)).toBe(9990);
+    expect(backoffDelay(0, { ...options, retryAfterMs: 5000 }, () => 0.5)).toBe(5500);
+    expect(backoffDelay(0, { ...options, retryAfterMs: 3600000 }, () => 0.5)).toBeNull();
+  });
+});
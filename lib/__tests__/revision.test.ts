@@ -0,0 +1,97 @@
+/**
+ * Test suite for asset revisions
+ */
+
+import {
+  assertRevision,
+  bumpRevisions,
+  conflictResponse,
+  formatEtag,
+  isRevisionConflict,
+  parseIfMatch,
+  snapshotAssets
+} from '../revision';
+import { makeAsset } from './asset-fixtures';
+
+describe('parseIfMatch', () => {
+  it('should parse strong, weak and bare revisions', () => {
+    expect(parseIfMatch('"3"')).toBe(3);
+    expect(parseIfMatch('W/"3"')).toBe(3);
+    expect(parseIfMatch('3')).toBe(3);
+    expect(parseIfMatch('"3", "4"')).toBe(3);
+  });
+
+  it('should treat a missing header or * as no precondition', () => {
+    expect(parseIfMatch(null)).toBeUndefined();
+    expect(parseIfMatch('')).toBeUndefined();
+    expect(parseIfMatch('*')).toBeUndefined();
+  });
+
+  it('should return null for malformed values', () => {
+    expect(parseIfMatch('"abc"')).toBeNull();
+    expect(parseIfMatch('-1')).toBeNull();
+  });
+});
+
+describe('formatEtag', () => {
+  it('should quote the revision, defaulting to 0', () => {
+    expect(formatEtag(makeAsset('a1', { revision: 7 }))).toBe('"7"');
+    expect(formatEtag(makeAsset('a1'))).toBe('"0"');
+  });
+});
+
+describe('conflictResponse', () => {
+  it('should return 409 with the current asset and its ETag', async () => {
+    const asset = makeAsset('a1', { revision: 4 });
+    const response = conflictResponse(asset);
+
+    expect(response.status).toBe(409);
+    expect(response.headers.get('ETag')).toBe('"4"');
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Asset was modified by someone else',
+      asset
+    });
+  });
+});
+
+describe('assertRevision', () => {
+  it('should throw a revision conflict on mismatch only', () => {
+    const asset = makeAsset('a1', { revision: 2 });
+
+    expect(() => assertRevision(asset, 2)).not.toThrow();
+    expect(() => assertRevision(asset, undefined)).not.toThrow();
+
+    let error: unknown;
+    try {
+      assertRevision(asset, 1);
+    } catch (e) {
+      error = e;
+    }
+    expect(isRevisionConflict(error)).toBe(true);
+    expect((error as Error).message).toBe('Revision conflict: asset a1 is at revision 2, expected 1');
+  });
+});
+
+describe('bumpRevisions', () => {
+  it('should bump changed assets, start new assets at 1 and leave others alone', () => {
+    const history = { assets: [makeAsset('a1', { revision: 4 }), makeAsset('a2', { revision: 2 })] };
+    const snapshots = snapshotAssets(history);
+
+    history.assets[0].status = 'Ready';
+    history.assets.push(makeAsset('a3'));
+    bumpRevisions(snapshots, history);
+
+    expect(history.assets.map(a => a.revision)).toEqual([5, 2, 1]);
+  });
+
+  it('should never move a revision backwards when the update sets one', () => {
+    const history = { assets: [makeAsset('a1', { revision: 9 })] };
+    const snapshots = snapshotAssets(history);
+
+    const restored = { assets: [makeAsset('a1', { revision: 3, status: 'Ready' })] };
+    bumpRevisions(snapshots, restored);
+
+    expect(restored.assets[0].revision).toBe(10);
+  });
+});
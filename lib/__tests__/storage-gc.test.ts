@@ -0,0 +1,159 @@
+/**
+ * Test suite for storage garbage collection
+ */
+
+import { existsSync, mkdtempSync, rmSync, unlinkSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AssetMetadata } from '../types';
+
+const TEST_HISTORY_PATH = join(process.cwd(), 'test-gc-history.json');
+const TEST_AUDIT_PATH = join(process.cwd(), 'test-gc-history.audit.jsonl');
+
+jest.mock('../config', () => ({
+  config: {
+    storage: { mode: 'local' },
+    paths: { history: join(process.cwd(), 'test-gc-history.json') },
+    preview: { retentionDays: 30 },
+    storageGc: { orphanGraceMinutes: 60 },
+    tempDir: '/tmp/isa-processing'
+  }
+}));
+
+import { addAsset, readHistory, getAssetAuditTrail } from '../history';
+import { createLocalStorageDriver, type StorageDriver } from '../storage';
+import { collectReferencedKeys, runStorageGc } from '../storage-gc';
+import { makeAsset } from './asset-fixtures';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const OLD = new Date('2026-01-01T00:00:00Z');
+
+function makeAssetWithPreviews(): AssetMetadata {
+  return makeAsset('a1', {
+    active_version: 2,
+    versions: [
+      {
+        version: 1,
+        created_at: '2026-01-01T00:00:00.000Z',
+        prompt_used: 'v1',
+        file_path: '/uploads/a1/background_v1.png',
+        preview_file_path: '/uploads/a1/preview-v1.png',
+        preview_generated_at: '2026-01-01T00:00:00.000Z'
+      },
+      {
+        version: 2,
+        created_at: '2026-01-02T00:00:00.000Z',
+        prompt_used: 'v2',
+        file_path: '/uploads/a1/background_v2.png',
+        preview_file_path: '/uploads/a1/preview-v2.png',
+        preview_generated_at: '2026-01-02T00:00:00.000Z'
+      }
+    ]
+  });
+}
+
+describe('storage GC', () => {
+  let root: string;
+  let storage: StorageDriver;
+
+  async function putFile(key: string, size: number, modified: Date = OLD) {
+    await storage.put(key, Buffer.alloc(size));
+    utimesSync(join(root, key), modified, modified);
+  }
+
+  function cleanUp() {
+    for (const path of [TEST_HISTORY_PATH, TEST_AUDIT_PATH]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  }
+
+  beforeEach(async () => {
+    cleanUp();
+    root = mkdtempSync(join(tmpdir(), 'isa-gc-'));
+    storage = createLocalStorageDriver(root);
+
+    await addAsset(makeAssetWithPreviews());
+    await putFile('uploads/a1.png', 100);
+    await putFile('uploads/a1/background_v1.png', 200);
+    await putFile('uploads/a1/background_v2.png', 200);
+    await putFile('uploads/a1/preview-v1.png', 50);
+    await putFile('uploads/a1/preview-v2.png', 50);
+    await putFile('uploads/deleted-asset.png', 300);
+    await putFile('uploads/story-deleted-asset-v1.png', 400);
+    await putFile('uploads/just-uploaded.png', 10, new Date(NOW.getTime() - 5 * 60 * 1000));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    cleanUp();
+  });
+
+  it('should collect every URL history refers to', () => {
+    expect([...collectReferencedKeys({ assets: [makeAssetWithPreviews()] })].sort()).toEqual([
+      'uploads/a1.png',
+      'uploads/a1/background_v1.png',
+      'uploads/a1/background_v2.png',
+      'uploads/a1/preview-v1.png',
+      'uploads/a1/preview-v2.png'
+    ]);
+  });
+
+  it('should report orphans and expired previews without deleting on a dry run', async () => {
+    const report = await runStorageGc({ storage, now: NOW });
+
+    expect(report.dry_run).toBe(true);
+    expect(report.scanned_files).toBe(8);
+    expect(report.scanned_bytes).toBe(1310);
+    expect(report.orphans.map(item => item.key)).toEqual([
+      'uploads/deleted-asset.png',
+      'uploads/story-deleted-asset-v1.png'
+    ]);
+    // Only the inactive version's preview expires
+    expect(report.expired_previews).toEqual([
+      expect.objectContaining({ key: 'uploads/a1/preview-v1.png', asset_id: 'a1', version: 1, size: 50 })
+    ]);
+    expect(report.reclaimable_bytes).toBe(750);
+    expect(report.deleted).toEqual([]);
+    expect(existsSync(join(root, 'uploads/deleted-asset.png'))).toBe(true);
+  });
+
+  it('should delete reported files and clear expired preview metadata', async () => {
+    const report = await runStorageGc({ storage, now: NOW, dryRun: false, actor: 'ops' });
+
+    expect(report.deleted.sort()).toEqual([
+      'uploads/a1/preview-v1.png',
+      'uploads/deleted-asset.png',
+      'uploads/story-deleted-asset-v1.png'
+    ]);
+    expect(report.deleted_bytes).toBe(750);
+    expect(existsSync(join(root, 'uploads/a1/preview-v1.png'))).toBe(false);
+    expect(existsSync(join(root, 'uploads/a1/preview-v2.png'))).toBe(true);
+    expect(existsSync(join(root, 'uploads/just-uploaded.png'))).toBe(true);
+
+    const [asset] = (await readHistory()).assets;
+    expect(asset.versions[0].preview_file_path).toBeUndefined();
+    expect(asset.versions[1].preview_file_path).toBe('/uploads/a1/preview-v2.png');
+
+    const trail = await getAssetAuditTrail('a1');
+    expect(trail[trail.length - 1]).toMatchObject({ actor: 'ops', source: 'storage GC' });
+  });
+
+  it('should only delete the keys it was given', async () => {
+    const report = await runStorageGc({
+      storage,
+      now: NOW,
+      dryRun: false,
+      keys: ['uploads/deleted-asset.png', 'uploads/a1.png']
+    });
+
+    expect(report.deleted).toEqual(['uploads/deleted-asset.png']);
+    expect(existsSync(join(root, 'uploads/a1.png'))).toBe(true);
+    expect((await readHistory()).assets[0].versions[0].preview_file_path).toBe('/uploads/a1/preview-v1.png');
+  });
+
+  it('should keep previews when retention is disabled', async () => {
+    const report = await runStorageGc({ storage, now: NOW, retentionDays: 0 });
+
+    expect(report.expired_previews).toEqual([]);
+  });
+});
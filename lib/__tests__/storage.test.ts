@@ -0,0 +1,221 @@
+/**
+ * Test suite for storage drivers
+ */
+
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const mockConfig = {
+  storage: { mode: 'local' as 'local' | 'hybrid' | 's3' },
+  aws: { s3Bucket: 'isa-assets', region: 'us-east-1' },
+  cloudFront: { enabled: true, url: 'https://cdn.example.com' },
+  tempDir: join(tmpdir(), 'isa-storage-test')
+};
+
+jest.mock('../config', () => ({ config: mockConfig }));
+jest.mock('../s3', () => ({
+  putObjectToS3: jest.fn(),
+  getObjectFromS3: jest.fn(),
+  headS3Object: jest.fn(),
+  deleteFromS3: jest.fn(),
+  listS3Objects: jest.fn(),
+  getPublicUrl: jest.fn((key: string) => `https://cdn.example.com/${key}`),
+  isS3NotFound: jest.fn((error: any) => error?.name === 'NoSuchKey')
+}));
+
+import { putObjectToS3, getObjectFromS3 } from '../s3';
+import {
+  createHybridStorageDriver,
+  createLocalStorageDriver,
+  createS3StorageDriver,
+  getStorage,
+  normalizeStorageKey,
+  storageKeyFromUrl,
+  withLocalFiles,
+  type StorageDriver
+} from '../storage';
+
+/**
+ * In-memory driver standing in for a remote backend
+ */
+function createMemoryDriver(baseUrl = 'https://cdn.example.com'): StorageDriver & { objects: Map<string, Buffer> } {
+  const objects = new Map<string, Buffer>();
+  return {
+    mode: 's3',
+    objects,
+    async put(key, body) {
+      objects.set(key, body);
+      return `${baseUrl}/${key}`;
+    },
+    async get(key) {
+      const body = objects.get(key);
+      if (!body) throw new Error(`Stored file not found: ${key}`);
+      return body;
+    },
+    async stat(key) {
+      const body = objects.get(key);
+      return body ? { key, size: body.length, last_modified: '2026-01-01T00:00:00.000Z' } : null;
+    },
+    async list(prefix) {
+      return [...objects.keys()]
+        .filter(key => key.startsWith(prefix))
+        .sort()
+        .map(key => ({ key, size: objects.get(key)!.length, last_modified: '2026-01-01T00:00:00.000Z' }));
+    },
+    async delete(key) {
+      objects.delete(key);
+    },
+    publicUrl(key) {
+      return `${baseUrl}/${key}`;
+    },
+    async localPath() {
+      return null;
+    }
+  };
+}
+
+describe('storage keys', () => {
+  it('should normalize keys and reject traversal', () => {
+    expect(normalizeStorageKey('/uploads/a.png')).toBe('uploads/a.png');
+    expect(normalizeStorageKey('public/uploads/a.png')).toBe('uploads/a.png');
+    expect(() => normalizeStorageKey('uploads/../../etc/passwd')).toThrow('Invalid storage key');
+    expect(() => normalizeStorageKey('')).toThrow('Invalid storage key');
+  });
+
+  it('should map recorded URLs back to keys', () => {
+    expect(storageKeyFromUrl('/uploads/a1/background_v1.png')).toBe('uploads/a1/background_v1.png');
+    expect(storageKeyFromUrl('https://cdn.example.com/uploads/a1.png')).toBe('uploads/a1.png');
+    expect(storageKeyFromUrl('https://isa-assets.s3.us-east-1.amazonaws.com/uploads/a1.png?x=1'))
+      .toBe('uploads/a1.png');
+    expect(storageKeyFromUrl('https://example.com/uploads/a1.png')).toBeNull();
+    expect(storageKeyFromUrl('/../secret.png')).toBeNull();
+  });
+});
+
+describe('local storage driver', () => {
+  let root: string;
+  let storage: StorageDriver;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'isa-storage-'));
+    storage = createLocalStorageDriver(root);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should put, stat, get and delete files under the root', async () => {
+    const url = await storage.put('uploads/a1/background_v1.png', Buffer.from('png'));
+
+    expect(url).toBe('/uploads/a1/background_v1.png');
+    expect(existsSync(join(root, 'uploads/a1/background_v1.png'))).toBe(true);
+    expect(await storage.stat('uploads/a1/background_v1.png')).toMatchObject({ size: 3 });
+    expect((await storage.get('/uploads/a1/background_v1.png')).toString()).toBe('png');
+    expect(await storage.localPath('uploads/a1/background_v1.png')).toBe(join(root, 'uploads/a1/background_v1.png'));
+
+    await storage.put('uploads/a1.png', Buffer.from('asset'));
+    expect((await storage.list('uploads/')).map(o => o.key)).toEqual([
+      'uploads/a1.png',
+      'uploads/a1/background_v1.png'
+    ]);
+    expect((await storage.list('uploads/a1/')).map(o => o.key)).toEqual(['uploads/a1/background_v1.png']);
+
+    await storage.delete('uploads/a1/background_v1.png');
+    await storage.delete('uploads/a1/background_v1.png');
+
+    expect(await storage.stat('uploads/a1/background_v1.png')).toBeNull();
+    expect(await storage.localPath('uploads/a1/background_v1.png')).toBeNull();
+    await expect(storage.get('uploads/a1/background_v1.png')).rejects.toThrow('Stored file not found');
+  });
+});
+
+describe('s3 storage driver', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should write through the S3 helpers with normalized keys', async () => {
+    (putObjectToS3 as jest.Mock).mockResolvedValue('https://cdn.example.com/uploads/a1.png');
+
+    const url = await createS3StorageDriver().put('/uploads/a1.png', Buffer.from('png'), 'image/png');
+
+    expect(url).toBe('https://cdn.example.com/uploads/a1.png');
+    expect(putObjectToS3).toHaveBeenCalledWith('uploads/a1.png', Buffer.from('png'), 'image/png');
+  });
+
+  it('should report missing objects as not found', async () => {
+    (getObjectFromS3 as jest.Mock).mockRejectedValue(Object.assign(new Error('gone'), { name: 'NoSuchKey' }));
+
+    await expect(createS3StorageDriver().get('uploads/a1.png')).rejects.toThrow('Stored file not found: uploads/a1.png');
+  });
+});
+
+describe('hybrid storage driver', () => {
+  it('should write both copies and fall back to the local URL when S3 fails', async () => {
+    const local = createMemoryDriver('');
+    const s3 = createMemoryDriver();
+    const storage = createHybridStorageDriver(local, s3);
+
+    expect(await storage.put('uploads/a1.png', Buffer.from('png'))).toBe('https://cdn.example.com/uploads/a1.png');
+    expect(local.objects.has('uploads/a1.png')).toBe(true);
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    s3.put = async () => { throw new Error('S3 down'); };
+    expect(await storage.put('uploads/a2.png', Buffer.from('png'))).toBe('/uploads/a2.png');
+    error.mockRestore();
+  });
+
+  it('should read from S3 first and fall back to the local copy', async () => {
+    const local = createMemoryDriver();
+    const s3 = createMemoryDriver();
+    const storage = createHybridStorageDriver(local, s3);
+    await local.put('uploads/only-local.png', Buffer.from('local'));
+    await s3.put('uploads/both.png', Buffer.from('remote'));
+    await local.put('uploads/both.png', Buffer.from('local'));
+
+    expect((await storage.get('uploads/both.png')).toString()).toBe('remote');
+    expect((await storage.get('uploads/only-local.png')).toString()).toBe('local');
+    expect(await storage.stat('uploads/only-local.png')).toMatchObject({ size: 5 });
+  });
+});
+
+describe('withLocalFiles', () => {
+  it('should download remote objects to temp files and clean them up', async () => {
+    const remote = createMemoryDriver();
+    await remote.put('uploads/a1.png', Buffer.from('png'));
+
+    let seenPath = '';
+    const contents = await withLocalFiles(['uploads/a1.png'], async ([filePath]) => {
+      seenPath = filePath;
+      expect(filePath.startsWith(mockConfig.tempDir)).toBe(true);
+      expect(filePath.endsWith('.png')).toBe(true);
+      return readdirSync(mockConfig.tempDir).length;
+    }, remote);
+
+    expect(contents).toBe(1);
+    expect(existsSync(seenPath)).toBe(false);
+  });
+
+  it('should use local files in place', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'isa-storage-'));
+    const local = createLocalStorageDriver(root);
+    await local.put('uploads/a1.png', Buffer.from('png'));
+
+    const [filePath] = await withLocalFiles(['uploads/a1.png'], async paths => paths, local);
+
+    expect(filePath).toBe(join(root, 'uploads/a1.png'));
+    expect(existsSync(filePath)).toBe(true);
+    rmSync(root, { recursive: true, force: true });
+  });
+});
+
+describe('getStorage', () => {
+  it('should follow STORAGE_MODE', () => {
+    mockConfig.storage.mode = 's3';
+    expect(getStorage().mode).toBe('s3');
+    mockConfig.storage.mode = 'hybrid';
+    expect(getStorage().mode).toBe('hybrid');
+    mockConfig.storage.mode = 'local';
+    expect(getStorage().mode).toBe('local');
+  });
+});
@@ -67,6 +67,25 @@ describe('text-overlay', () => {
       expect(svg).toContain('DMSans-Variable.woff2');
     });
 
+    it('should use a brand font when given', () => {
+      const svg = generateTextSVG({
+        text: 'Test text',
+        x: 540,
+        y: 1520,
+        fontSize: 42,
+        fontWeight: '700',
+        color: '#FFFFFF',
+        shadowColor: 'rgba(0,0,0,0.3)',
+        fontFamily: 'Brand Sans',
+        fontPath: 'public/fonts/BrandSans.ttf'
+      });
+
+      expect(svg).toContain("font-family: 'Brand Sans'");
+      expect(svg).toContain('font-family="Brand Sans"');
+      expect(svg).toMatch(/BrandSans\.ttf'\) format\('truetype'\)/);
+      expect(svg).not.toContain('DM Sans');
+    });
+
     it('should include adaptive shadow via filter parameter', () => {
       const svg = generateTextSVG({
         text: 'Test text',
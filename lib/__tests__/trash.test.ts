@@ -0,0 +1,120 @@
+/**
+ * Test suite for trash purging
+ */
+
+import { existsSync, mkdtempSync, rmSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AssetMetadata } from '../types';
+
+const TEST_HISTORY_PATH = join(process.cwd(), 'test-trash-history.json');
+const TEST_AUDIT_PATH = join(process.cwd(), 'test-trash-history.audit.jsonl');
+
+jest.mock('../config', () => ({
+  config: {
+    storage: { mode: 'local' },
+    paths: { history: join(process.cwd(), 'test-trash-history.json') },
+    trash: { retentionDays: 30, purgeSchedule: '30 3 * * *' },
+    tempDir: '/tmp/isa-processing'
+  }
+}));
+
+import { addAsset, readHistory, getAssetAuditTrail } from '../history';
+import { createLocalStorageDriver, type StorageDriver } from '../storage';
+import { purgeTrash } from '../trash';
+import { makeAsset } from './asset-fixtures';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function makeTrashableAsset(id: string, deletedAt?: string): AssetMetadata {
+  return makeAsset(id, {
+    status: 'Ready',
+    active_version: 1,
+    versions: [
+      {
+        version: 1,
+        created_at: '2026-01-02T00:00:00.000Z',
+        prompt_used: 'v1',
+        file_path: `/uploads/${id}/background_v1.png`,
+        preview_file_path: `/uploads/${id}/preview-v1.png`
+      }
+    ],
+    ...(deletedAt ? { deleted_at: deletedAt, deleted_by: 'api' } : {})
+  });
+}
+
+describe('purgeTrash', () => {
+  let root: string;
+  let storage: StorageDriver;
+
+  function cleanUp() {
+    for (const path of [TEST_HISTORY_PATH, TEST_AUDIT_PATH]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  }
+
+  beforeEach(async () => {
+    cleanUp();
+    root = mkdtempSync(join(tmpdir(), 'isa-trash-'));
+    storage = createLocalStorageDriver(root);
+
+    await addAsset(makeTrashableAsset('live'));
+    await addAsset(makeTrashableAsset('old', '2026-01-15T00:00:00.000Z'));
+    await addAsset(makeTrashableAsset('recent', '2026-02-25T00:00:00.000Z'));
+    for (const id of ['live', 'old', 'recent']) {
+      await storage.put(`uploads/${id}.png`, Buffer.from('png'));
+      await storage.put(`uploads/${id}/background_v1.png`, Buffer.from('png'));
+      await storage.put(`uploads/${id}/preview-v1.png`, Buffer.from('png'));
+    }
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    cleanUp();
+  });
+
+  it('should list purgeable assets without changing anything on a dry run', async () => {
+    const report = await purgeTrash({ storage, now: NOW, dryRun: true });
+
+    expect(report.purged.map(asset => asset.asset_id)).toEqual(['old']);
+    expect(report.purged[0].files.sort()).toEqual([
+      'uploads/old.png',
+      'uploads/old/background_v1.png',
+      'uploads/old/preview-v1.png'
+    ]);
+    expect((await readHistory()).assets).toHaveLength(3);
+    expect(existsSync(join(root, 'uploads/old.png'))).toBe(true);
+  });
+
+  it('should remove assets past retention and delete their files', async () => {
+    const report = await purgeTrash({ storage, now: NOW, actor: 'ops' });
+
+    expect(report.deleted_files.sort()).toEqual([
+      'uploads/old.png',
+      'uploads/old/background_v1.png',
+      'uploads/old/preview-v1.png'
+    ]);
+    expect((await readHistory()).assets.map(asset => asset.id)).toEqual(['live', 'recent']);
+    expect(existsSync(join(root, 'uploads/old.png'))).toBe(false);
+    expect(existsSync(join(root, 'uploads/recent.png'))).toBe(true);
+
+    const trail = await getAssetAuditTrail('old');
+    expect(trail[trail.length - 1]).toMatchObject({ action: 'purged', actor: 'ops', source: 'trash purge' });
+  });
+
+  it('should keep files another asset still refers to', async () => {
+    await addAsset({ ...makeTrashableAsset('copy'), asset_url: '/uploads/old.png' });
+
+    const report = await purgeTrash({ storage, now: NOW });
+
+    expect(report.deleted_files).not.toContain('uploads/old.png');
+    expect(existsSync(join(root, 'uploads/old.png'))).toBe(true);
+  });
+
+  it('should purge nothing when retention is disabled', async () => {
+    const report = await purgeTrash({ storage, now: NOW, retentionDays: 0 });
+
+    expect(report.purged).toEqual([]);
+    expect((await readHistory()).assets).toHaveLength(3);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Asset Analysis Cache
+ *
+ * Vision descriptions and dominant colors depend only on the asset file, so
+ * they are cached in analysis-cache.json by the file's SHA-256 (the asset's
+ * content_hash). Background jobs check the cache before calling the vision
+ * model or extracting colors; an identical file uploaded again reuses the
+ * earlier results. A replaced file has a new hash, so it never hits the old
+ * entry.
+ *
+ * The oldest entries are evicted beyond ANALYSIS_CACHE_MAX_ENTRIES.
+ */
+
+import { config } from './config';
+import { readJsonStore, updateJsonStore, type JsonStoreFormat } from './json-store';
+
+/**
+ * Cached analysis of one file
+ */
+export interface AnalysisCacheEntry {
+  vision_description?: string;
+  dominant_colors?: string[];
+  updated_at: string;
+}
+
+interface AnalysisCacheData {
+  /** Keyed by content hash */
+  entries: Record<string, AnalysisCacheEntry>;
+}
+
+const CACHE_FORMAT: JsonStoreFormat<AnalysisCacheData> = {
+  empty: () => ({ entries: {} }),
+  parse: data => ({ entries: data?.entries ?? {} })
+};
+
+/**
+ * Look up the analysis of a file
+ *
+ * @param contentHash - SHA-256 of the file (hex)
+ * @returns The entry, or null if the file hasn't been analyzed
+ * @throws Error if analysis-cache.json is not valid JSON
+ */
+export async function getCachedAnalysis(
+  contentHash: string,
+  path: string = config.paths.analysisCache
+): Promise<AnalysisCacheEntry | null> {
+  return readJsonStore(path, CACHE_FORMAT).entries[contentHash] ?? null;
+}
+
+/**
+ * Store analysis results for a file, merged into any existing entry
+ *
+ * @param contentHash - SHA-256 of the file (hex)
+ * @param results - Fields to store (undefined fields keep their cached value)
+ * @param path - Cache file
+ * @param maxEntries - Entries to keep; the least recently updated are evicted
+ * @returns The stored entry
+ */
+export async function cacheAnalysis(
+  contentHash: string,
+  results: Pick<AnalysisCacheEntry, 'vision_description' | 'dominant_colors'>,
+  path: string = config.paths.analysisCache,
+  maxEntries: number = config.analysisCache.maxEntries
+): Promise<AnalysisCacheEntry> {
+  return updateJsonStore(path, CACHE_FORMAT, (data) => {
+    const defined = Object.fromEntries(Object.entries(results).filter(([, value]) => value !== undefined));
+    const entry: AnalysisCacheEntry = {
+      ...data.entries[contentHash],
+      ...defined,
+      updated_at: new Date().toISOString()
+    };
+    // Re-insert so the newest entry is last
+    delete data.entries[contentHash];
+    data.entries[contentHash] = entry;
+
+    const hashes = Object.keys(data.entries);
+    for (const hash of hashes.slice(0, Math.max(0, hashes.length - Math.max(1, maxEntries)))) {
+      delete data.entries[hash];
+    }
+    return entry;
+  });
+}
@@ -2,30 +2,36 @@
  * Asset Detection Utility
  *
  * Analyzes composed images to detect asset boundaries for intelligent text positioning.
+ * Geometry comes from the story's layout template (lib/layouts.ts).
  */
 
 import sharp from 'sharp';
+import { resolveLayoutTemplate, type LayoutTemplate } from './layouts';
 
 /**
  * Detect the bottom edge of the asset in a composed story image
  *
  * Algorithm:
- * 1. Extract the asset zone region (756x1344px centered)
+ * 1. Extract the layout's asset box (by default the 756x1344px centered asset zone)
  * 2. Scan from bottom to top to find the lowest row with non-background pixels
  * 3. Use color variance to detect asset vs background
  * 4. Return Y coordinate of detected bottom edge
  *
  * @param imagePath - Path to composed story image (background + asset, 1080x1920)
+ * @param layout - Layout the story was composed with (default: the centered layout)
  * @returns Y coordinate of asset's visual bottom edge (0 if not detected)
  */
-export async function detectAssetBottomEdge(imagePath: string): Promise<number> {
+export async function detectAssetBottomEdge(
+  imagePath: string,
+  layout: LayoutTemplate = resolveLayoutTemplate()
+): Promise<number> {
   try {
-    // Asset zone: 756x1344px centered at offset (162, 288)
+    const { assetBox } = layout;
     const assetZone = {
-      left: 162,
-      top: 288,
-      width: 756,
-      height: 1344
+      left: assetBox.x,
+      top: assetBox.y,
+      width: assetBox.width,
+      height: assetBox.height
     };
 
     // Extract asset zone and convert to raw pixel data
@@ -132,20 +138,25 @@ function calculateColorVariance(colors: number[][]): number {
 /**
  * Determine text position tier based on asset bottom edge
  *
- * Tiers:
+ * Tiers (the default layout's values; each layout declares its own):
  * - Tier 1 (Y=1560px): Asset bottom < 900px
  * - Tier 2 (Y=1520px): Asset bottom between 900px and 1100px
  * - Tier 3 (Y=1480px): Asset bottom > 1100px
  *
  * @param assetBottomY - Y coordinate of asset's bottom edge
- * @returns Text Y position (1560, 1520, or 1480)
+ * @param layout - Layout whose text region supplies the tiers and breakpoints
+ * @returns Text Y position of the chosen tier
  */
-export function calculateTextTier(assetBottomY: number): number {
-  if (assetBottomY === 0 || assetBottomY < 900) {
-    return 1560; // Tier 1: Asset is high up or not detected
-  } else if (assetBottomY <= 1100) {
-    return 1520; // Tier 2: Asset is in middle range
+export function calculateTextTier(
+  assetBottomY: number,
+  layout: LayoutTemplate = resolveLayoutTemplate()
+): number {
+  const { tiers, breakpoints } = layout.textRegion;
+  if (assetBottomY === 0 || assetBottomY < breakpoints[0]) {
+    return tiers[0]; // Tier 1: Asset is high up or not detected
+  } else if (assetBottomY <= breakpoints[1]) {
+    return tiers[1]; // Tier 2: Asset is in middle range
   } else {
-    return 1480; // Tier 3: Asset extends lower
+    return tiers[2]; // Tier 3: Asset extends lower
   }
 }
@@ -0,0 +1,188 @@
+/**
+ * Asset Audit Trail
+ *
+ * Builds append-only audit events from before/after history snapshots and
+ * stores them next to history.json as a JSON-lines journal (the Prisma
+ * backend writes the same events to the audit_events table instead).
+ */
+
+import { appendFileSync, readFileSync, existsSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AssetMetadata,
+  AssetVersion,
+  AuditAction,
+  AuditContext,
+  AuditEvent,
+  AuditFieldChange,
+  HistoryData
+} from './types';
+
+/**
+ * Fields left out of audit diffs (bumped on every change)
+ */
+const IGNORED_FIELDS = new Set(['id', 'updated_at', 'revision']);
+
+/**
+ * Minimal request shape needed to identify the caller
+ */
+interface RequestWithHeaders {
+  headers: { get(name: string): string | null };
+}
+
+/**
+ * Identify the caller of an API request for the audit trail
+ *
+ * Uses the X-Actor header (set by API clients) or X-Forwarded-User (set by
+ * an authenticating proxy), falling back to 'api'.
+ *
+ * @param request - Incoming request
+ */
+export function getRequestActor(request: RequestWithHeaders): string {
+  const actor = request.headers.get('x-actor') || request.headers.get('x-forwarded-user');
+  return actor?.trim().slice(0, 200) || 'api';
+}
+
+/**
+ * Path of the audit journal for a history file
+ * @param historyPath - Path to history.json
+ */
+export function getAuditLogPath(historyPath: string): string {
+  return historyPath.replace(/\.json$/, '') + '.audit.jsonl';
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function versionKey(version: number): string {
+  return `versions[${version}]`;
+}
+
+/**
+ * Diff two copies of an asset into changed fields
+ *
+ * Versions are compared individually so an edit to one version doesn't
+ * snapshot the whole version list.
+ */
+export function diffAssetFields(
+  before: AssetMetadata | undefined,
+  after: AssetMetadata | undefined
+): Record<string, AuditFieldChange> {
+  const changes: Record<string, AuditFieldChange> = {};
+  const beforeFields = (before ?? {}) as unknown as Record<string, unknown>;
+  const afterFields = (after ?? {}) as unknown as Record<string, unknown>;
+
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field) || field === 'versions') continue;
+    if (!isEqual(beforeFields[field], afterFields[field])) {
+      changes[field] = { before: beforeFields[field] ?? null, after: afterFields[field] ?? null };
+    }
+  }
+
+  const beforeVersions = new Map((before?.versions ?? []).map(v => [v.version, v]));
+  const afterVersions = new Map((after?.versions ?? []).map(v => [v.version, v]));
+  const versionNumbers = new Set([...beforeVersions.keys(), ...afterVersions.keys()]);
+  for (const number of [...versionNumbers].sort((a, b) => a - b)) {
+    const beforeVersion: AssetVersion | undefined = beforeVersions.get(number);
+    const afterVersion: AssetVersion | undefined = afterVersions.get(number);
+    if (!isEqual(beforeVersion, afterVersion)) {
+      changes[versionKey(number)] = { before: beforeVersion ?? null, after: afterVersion ?? null };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Infer what kind of mutation a set of changes represents
+ */
+function inferAction(
+  before: AssetMetadata | undefined,
+  after: AssetMetadata | undefined,
+  changes: Record<string, AuditFieldChange>
+): AuditAction {
+  if (!before) return 'created';
+  if (!after) return 'deleted';
+  if (after.versions.length > before.versions.length) return 'version_created';
+  if (changes.status) return 'status_changed';
+  return 'updated';
+}
+
+/**
+ * Build audit events for every asset that differs between two snapshots
+ *
+ * Assets whose only change is updated_at produce no event, so read-only
+ * updates leave the trail untouched.
+ *
+ * @param before - History before the update
+ * @param after - History after the update
+ * @param context - Actor and action for the update
+ * @param at - Event timestamp
+ */
+export function buildAuditEvents(
+  before: HistoryData,
+  after: HistoryData,
+  context: AuditContext = {},
+  at: Date = new Date()
+): AuditEvent[] {
+  const previous = new Map(before.assets.map(a => [a.id, a]));
+  const next = new Map(after.assets.map(a => [a.id, a]));
+  const ids = [...new Set([...previous.keys(), ...next.keys()])];
+
+  const events: AuditEvent[] = [];
+  for (const id of ids) {
+    const changes = diffAssetFields(previous.get(id), next.get(id));
+    if (Object.keys(changes).length === 0) continue;
+
+    events.push({
+      id: uuidv4(),
+      asset_id: id,
+      action: context.action ?? inferAction(previous.get(id), next.get(id), changes),
+      actor: context.actor ?? 'system',
+      ...(context.source ? { source: context.source } : {}),
+      at: at.toISOString(),
+      changes
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Append events to a JSON-lines audit journal
+ * @param path - Journal path
+ * @param events - Events to append
+ */
+export function appendAuditLog(path: string, events: AuditEvent[]): void {
+  if (events.length === 0) return;
+  appendFileSync(path, events.map(event => JSON.stringify(event) + '\n').join(''));
+}
+
+/**
+ * Read an asset's events from a JSON-lines audit journal, oldest first
+ *
+ * Unparseable lines (e.g. a partial write) are skipped.
+ *
+ * @param path - Journal path
+ * @param assetId - Asset ID
+ */
+export function readAuditLog(path: string, assetId: string): AuditEvent[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const events: AuditEvent[] = [];
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line) as AuditEvent;
+      if (event.asset_id === assetId) events.push(event);
+    } catch {
+      console.warn(`[Audit] Skipping unreadable line in ${path}`);
+    }
+  }
+
+  return events;
+}
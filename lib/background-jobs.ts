@@ -0,0 +1,477 @@
+/**
+ * Background Generation Jobs
+ *
+ * Runs background generation for an asset as a job (see lib/jobs.ts), in
+ * stages: vision → colors → generate → save → preview.
+ *
+ * Vision and color results are reused from the asset or the analysis cache
+ * (lib/analysis-cache.ts) unless the job asks to reanalyze.
+ * Vision, color and preview failures don't fail the job (the prompt falls back
+ * to the meta description and default colors; the preview can be regenerated).
+ * A job may generate several candidate versions for a reviewer to pick from.
+ * Saved versions are checkpointed, so a job resumed after a restart doesn't
+ * generate them again.
+ *
+ * Each generated background is scored by the quality gate
+ * (lib/background-quality.ts); with BACKGROUND_QUALITY_AUTO_REGENERATE a
+ * low-scoring one is regenerated and the best attempt kept.
+ *
+ * LLM usage of every call (vision, candidates, regenerations) is appended to
+ * the asset's llm_usage; each version also records the call that produced it.
+ *
+ * A refinement sends the version being refined as a reference image along
+ * with the instructions, and the new versions record it as parent_version.
+ * Only providers that can edit an image get a refinement (no fallback to one
+ * that can't), so a version with a parent_version was generated from it.
+ */
+
+import { readFile } from 'fs/promises';
+import { getAsset, updateAsset } from './history';
+import {
+  backgroundContentType,
+  backgroundExtension,
+  generateBackgroundWithFallback,
+  getBackgroundProvider,
+  type BackgroundProvider,
+  type BackgroundRequest,
+  type GeneratedBackground
+} from './background-providers';
+import { assessBackgroundQuality } from './background-quality';
+import { analyzeAsset } from './vision';
+import { extractDominantColors } from './colors';
+import { cacheAnalysis, getCachedAnalysis, type AnalysisCacheEntry } from './analysis-cache';
+import { computeContentHash, computeImageHashes } from './duplicates';
+import { generatePreview } from './preview';
+import { config } from './config';
+import { getStorage, storageKeyFromUrl, withLocalFiles } from './storage';
+import { getRevision, isRevisionConflict } from './revision';
+import { promptVariablesForAsset, renderPromptTemplate, resolvePromptTemplate } from './prompt-templates';
+import { brandPalette, resolveBrandKit } from './brand-kits';
+import { applyCampaignToPrompt, resolveCampaign } from './campaigns';
+import { enqueueJob, JobCancelledError, registerJobHandler, type Job, type JobContext } from './jobs';
+import type { QueueTicket } from './rate-limiter';
+import type { AssetMetadata, AssetVersion, AuditContext, BackgroundQuality, LlmUsage } from './types';
+
+/**
+ * Stages of a background job, in order
+ */
+export const BACKGROUND_JOB_STAGES = ['vision', 'colors', 'generate', 'save', 'preview'];
+
+/**
+ * Input of a background job
+ */
+export interface BackgroundJobParams {
+  /** Override the template's prompts */
+  systemPrompt?: string;
+  userPrompt?: string;
+  /** Prompt template and version (pinned when queued; default: the workspace default, current version) */
+  templateId?: string;
+  templateVersion?: number;
+  /** Background provider name (default: BACKGROUND_PROVIDER) */
+  provider?: string;
+  /** Candidate versions to generate (default 1); more than one awaits a pick */
+  count?: number;
+  /** Run vision analysis and color extraction again, ignoring stored and cached results */
+  reanalyze?: boolean;
+  /** Refinement instructions; parentVersion's image is sent as the reference to edit */
+  refinementPrompt?: string;
+  /** Version being refined (the active version when the job was queued) */
+  parentVersion?: number;
+  /** Revision from If-Match; every write fails the job if the asset has moved on */
+  expectedRevision?: number;
+}
+
+/**
+ * Queue background generation for an asset
+ *
+ * @returns The queued job
+ * @throws Error if the asset already has an active job
+ */
+export async function enqueueBackgroundJob(
+  assetId: string,
+  params: BackgroundJobParams,
+  actor?: string,
+  path: string = config.paths.jobs
+): Promise<Job> {
+  return enqueueJob('background', assetId, BACKGROUND_JOB_STAGES, { ...params }, actor, path);
+}
+
+/**
+ * Run a stage whose failure shouldn't fail the job
+ * @returns The stage's result, or undefined if it failed
+ */
+async function softStage<T>(context: JobContext, name: string, fn: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await context.stage(name, fn);
+  } catch (error) {
+    if (error instanceof JobCancelledError) throw error;
+    console.error(`[Background] ${context.job.asset_id} ${name} failed:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Score a background; a failed check is logged and leaves it unscored
+ */
+async function scoreBackground(
+  background: GeneratedBackground,
+  dominantColors: string[] | undefined,
+  label: string
+): Promise<BackgroundQuality | undefined> {
+  try {
+    return await assessBackgroundQuality(background.image, dominantColors);
+  } catch (error) {
+    console.warn(`[Background] ${label}: quality check failed:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Generate one background and run it through the quality gate, regenerating
+ * with a new seed while it scores below the threshold (if enabled)
+ *
+ * The best-scoring attempt is kept, flagged or not; a regeneration that fails
+ * ends the retries without failing the background.
+ */
+async function generateCheckedBackground(
+  provider: BackgroundProvider,
+  request: BackgroundRequest,
+  label: string
+): Promise<{ background: GeneratedBackground; quality?: BackgroundQuality }> {
+  const gate = config.backgrounds.quality;
+  let background = await generateBackgroundWithFallback(provider, request);
+  if (!gate.enabled) {
+    return { background };
+  }
+
+  let quality = await scoreBackground(background, request.dominantColors, label);
+  let regenerations = 0;
+  while (quality && quality.score < gate.minScore && gate.autoRegenerate && regenerations < gate.maxRegenerations) {
+    regenerations++;
+    console.log(`[Background] ${label}: score ${quality.score} < ${gate.minScore} (${quality.issues.join('; ')}), regenerating`);
+    let retry: GeneratedBackground;
+    try {
+      retry = await generateBackgroundWithFallback(provider, { ...request, seed: `${request.seed}:r${regenerations}` });
+    } catch (error) {
+      // Keep the flagged background rather than losing it
+      console.warn(`[Background] ${label}: regeneration failed, keeping the best attempt:`, error);
+      break;
+    }
+    const retryQuality = await scoreBackground(retry, request.dominantColors, label);
+    if (retryQuality && retryQuality.score > quality.score) {
+      background = retry;
+      quality = retryQuality;
+    }
+  }
+
+  return { background, quality: quality && regenerations > 0 ? { ...quality, regenerations } : quality };
+}
+
+/**
+ * Append refinement instructions to a rendered user prompt
+ */
+function applyRefinementToPrompt(userPrompt: string, refinementPrompt: string): string {
+  return `${userPrompt}\n\nREFINEMENT: The attached image is the current background. ` +
+    `Edit it rather than starting over, keeping everything the instructions don't mention:\n${refinementPrompt}`;
+}
+
+/**
+ * Read a version's background to send as a reference image
+ * @throws Error if the version or its file doesn't exist
+ */
+async function loadVersionImage(
+  asset: AssetMetadata,
+  versionNumber: number
+): Promise<{ image: Buffer; contentType: string }> {
+  const version = asset.versions.find(v => v.version === versionNumber);
+  const key = version ? storageKeyFromUrl(version.file_path) : null;
+  if (!version || !key) {
+    throw new Error(`Version ${versionNumber} to refine not found`);
+  }
+  return { image: await getStorage().get(key), contentType: backgroundContentType(version.file_path) };
+}
+
+async function runBackgroundJob(context: JobContext): Promise<Record<string, unknown>> {
+  const { job } = context;
+  const assetId = job.asset_id;
+  const params = job.params as BackgroundJobParams;
+  const saved = job.result ?? {};
+  const audit: AuditContext = { actor: job.actor, source: 'background job' };
+
+  const asset = await getAsset(assetId);
+  if (!asset) {
+    throw new Error(`Asset with id ${assetId} not found`);
+  }
+  if (asset.deleted_at) {
+    throw new Error('Asset is in the trash; restore it first');
+  }
+
+  // LLM calls not yet recorded on the asset; every write records them
+  const pendingUsage: LlmUsage[] = [];
+  const onUsage = (usage: LlmUsage) => {
+    pendingUsage.push(usage);
+  };
+
+  // Revision this job last wrote or saw; only enforced if the request sent If-Match
+  let revision = typeof saved.revision === 'number' ? saved.revision : params.expectedRevision;
+  const guardedUpdate = async (
+    fn: Parameters<typeof updateAsset>[1],
+    action?: AuditContext['action']
+  ) => {
+    const usage = [...pendingUsage];
+    try {
+      const updated = await updateAsset(assetId, (current) => {
+        const next = fn(current);
+        return usage.length > 0 ? { ...next, llm_usage: [...(next.llm_usage ?? []), ...usage] } : next;
+      }, config.paths.history, {
+        expectedRevision: revision,
+        audit: action ? { ...audit, action } : audit
+      });
+      pendingUsage.splice(0, usage.length);
+      if (revision !== undefined) {
+        revision = getRevision(updated);
+        await context.checkpoint({ revision });
+      }
+      return updated;
+    } catch (error) {
+      throw isRevisionConflict(error) ? new Error('Asset was modified by someone else') : error;
+    }
+  };
+
+  // OpenRouter calls share a rate limiter; remember the first wait to report it
+  let queued = saved.queued as QueueTicket | undefined;
+  const onQueued = (ticket: QueueTicket) => {
+    queued ??= ticket;
+    void context.setQueue(ticket);
+    console.log(`[Background] ${assetId} waiting for OpenRouter: position ${ticket.position}, ~${ticket.eta_ms}ms`);
+  };
+
+  // Vision analysis and color extraction. Results already on the asset are
+  // reused, then the content-hash cache; reanalyze bypasses both. If the file's
+  // hash no longer matches the asset's, the file was replaced and the stored
+  // results are stale.
+  const reanalyze = params.reanalyze === true && !saved.analyzed;
+  let needsVision = reanalyze || !asset.asset_vision_description;
+  let needsColors = reanalyze || !asset.dominant_colors || asset.dominant_colors.length === 0;
+  const assetKey = storageKeyFromUrl(asset.asset_url);
+  const attempted = new Set<string>();
+  const fromCache = new Set<string>();
+  if (assetKey) {
+    try {
+      await withLocalFiles([assetKey], async ([localAssetPath]) => {
+        const buffer = await readFile(localAssetPath);
+        const contentHash = computeContentHash(buffer);
+        if (contentHash !== asset.content_hash) {
+          const replaced = !!asset.content_hash;
+          const hashes = await computeImageHashes(buffer).catch(() => ({ content_hash: contentHash }));
+          if (replaced) {
+            console.log(`[Background] ${assetId}: asset file changed, discarding its analysis`);
+            needsVision = needsColors = true;
+            asset.asset_vision_description = undefined;
+            asset.dominant_colors = undefined;
+          }
+          await guardedUpdate(a => replaced
+            ? { ...a, ...hashes, asset_vision_description: undefined, dominant_colors: undefined }
+            : { ...a, ...hashes });
+        }
+        if (!needsVision && !needsColors) return;
+
+        let cached: AnalysisCacheEntry | null = null;
+        if (config.analysisCache.enabled && !reanalyze) {
+          cached = await getCachedAnalysis(contentHash).catch((error) => {
+            console.warn(`[Background] ${assetId}: analysis cache unavailable:`, error);
+            return null;
+          });
+        }
+        const store = (results: Parameters<typeof cacheAnalysis>[1]) => config.analysisCache.enabled
+          ? cacheAnalysis(contentHash, results).catch(error =>
+              console.warn(`[Background] ${assetId}: failed to cache analysis:`, error))
+          : undefined;
+
+        if (needsVision && cached?.vision_description) {
+          const description = cached.vision_description;
+          await guardedUpdate(a => ({ ...a, asset_vision_description: description }));
+          asset.asset_vision_description = description;
+          fromCache.add('vision');
+        } else if (needsVision) {
+          attempted.add('vision');
+          await softStage(context, 'vision', async () => {
+            const description = await analyzeAsset(localAssetPath, { onQueued, onUsage });
+            await context.setQueue(null);
+            await guardedUpdate(a => ({ ...a, asset_vision_description: description }));
+            asset.asset_vision_description = description;
+            await store({ vision_description: description });
+          });
+        }
+
+        if (needsColors && cached?.dominant_colors?.length) {
+          const colors = cached.dominant_colors;
+          await guardedUpdate(a => ({ ...a, dominant_colors: colors }));
+          asset.dominant_colors = colors;
+          fromCache.add('colors');
+        } else if (needsColors) {
+          attempted.add('colors');
+          await softStage(context, 'colors', async () => {
+            const colors = await extractDominantColors(localAssetPath);
+            await guardedUpdate(a => ({ ...a, dominant_colors: colors }));
+            asset.dominant_colors = colors;
+            await store({ dominant_colors: colors });
+          });
+        }
+      });
+    } catch (error) {
+      if (error instanceof JobCancelledError) throw error;
+      console.error('Failed to read asset file for analysis:', error);
+    }
+  }
+  for (const [name, needed] of [['vision', needsVision], ['colors', needsColors]] as const) {
+    if (!needed) {
+      await context.skip(name, 'Already analyzed');
+    } else if (fromCache.has(name)) {
+      await context.skip(name, 'From analysis cache');
+    } else if (!attempted.has(name)) {
+      await context.skip(name, 'Asset file unavailable');
+    }
+  }
+  if (reanalyze) {
+    await context.checkpoint({ analyzed: true });
+  }
+
+  // Jobs checkpointed before candidates existed saved a single version
+  let versions = (saved.versions ?? (saved.version ? [saved.version] : undefined)) as AssetVersion[] | undefined;
+  let fallbackFrom = saved.fallback_from as { provider: string; error: string } | undefined;
+
+  if (versions) {
+    await context.skip('generate', 'Resumed after the versions were saved');
+    await context.skip('save', 'Resumed after the versions were saved');
+  } else {
+    // Prompts not overridden by the request come from the template
+    const template = params.systemPrompt && params.userPrompt
+      ? undefined
+      : await resolvePromptTemplate(params.templateId, params.templateVersion);
+    const brandKit = await resolveBrandKit(asset.brand_kit_id);
+    const campaign = await resolveCampaign(asset.date);
+    const variables = promptVariablesForAsset(asset, brandKit);
+    const systemPrompt = params.systemPrompt || renderPromptTemplate(template!.version.system_prompt, variables);
+    // An overridden user prompt is used as written
+    const userPrompt = params.userPrompt || (campaign
+      ? applyCampaignToPrompt(renderPromptTemplate(template!.version.user_prompt, variables), campaign)
+      : renderPromptTemplate(template!.version.user_prompt, variables));
+    const refinement = params.refinementPrompt && params.parentVersion !== undefined
+      ? { prompt: params.refinementPrompt, parentVersion: params.parentVersion }
+      : undefined;
+    const requestPrompt = refinement ? applyRefinementToPrompt(userPrompt, refinement.prompt) : userPrompt;
+    const count = Math.max(1, params.count ?? 1);
+    const firstVersion = Math.max(0, ...asset.versions.map(v => v.version)) + 1;
+
+    // Candidates are generated concurrently (OpenRouter calls still wait for the
+    // rate limiter); the job only fails if none of them could be generated
+    const backgrounds = await context.stage('generate', async () => {
+      const provider = getBackgroundProvider(params.provider || undefined);
+      try {
+        const referenceImage = refinement ? await loadVersionImage(asset, refinement.parentVersion) : undefined;
+        const results = await Promise.allSettled(
+          Array.from({ length: count }, (_, i) => generateCheckedBackground(provider, {
+            systemPrompt,
+            userPrompt: requestPrompt,
+            ...(referenceImage ? { referenceImage } : {}),
+            dominantColors: asset.dominant_colors,
+            palette: campaign?.palette ?? brandPalette(brandKit, asset.dominant_colors),
+            seed: `${assetId}:v${firstVersion + i}`,
+            onQueued,
+            onUsage
+          }, `${assetId} v${firstVersion + i}`))
+        );
+        const generated = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+        const failures = results.flatMap(r => r.status === 'rejected' ? [r.reason] : []);
+        if (generated.length === 0) {
+          // Calls that returned no usable image are still billed
+          if (pendingUsage.length > 0) {
+            await guardedUpdate(a => ({ ...a, updated_at: new Date().toISOString() })).catch(error =>
+              console.warn(`[Background] ${assetId}: failed to record LLM usage:`, error)
+            );
+          }
+          throw failures[0];
+        }
+        if (failures.length > 0) {
+          console.warn(`[Background] ${assetId}: ${failures.length} of ${count} candidates failed:`, failures);
+        }
+        return generated;
+      } catch (error) {
+        throw new Error(`Background generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+        await context.setQueue(null);
+      }
+    });
+    fallbackFrom = backgrounds.find(b => b.background.fallbackFrom)?.background.fallbackFrom;
+
+    versions = await context.stage('save', async () => {
+      const created: AssetVersion[] = [];
+      for (const [i, { background, quality }] of backgrounds.entries()) {
+        const versionNumber = firstVersion + i;
+        const backgroundKey = `uploads/${assetId}/background_v${versionNumber}.${backgroundExtension(background.contentType)}`;
+        let filePath: string;
+        try {
+          filePath = await getStorage().put(backgroundKey, background.image, background.contentType);
+        } catch (error) {
+          throw new Error(`Failed to save background image: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        created.push({
+          version: versionNumber,
+          created_at: new Date().toISOString(),
+          prompt_used: `SYSTEM:\n${systemPrompt}\n\nUSER:\n${requestPrompt}`,
+          ...(refinement ? { refinement_prompt: refinement.prompt, parent_version: refinement.parentVersion } : {}),
+          file_path: filePath,
+          provider: background.provider,
+          ...(background.model ? { model: background.model } : {}),
+          ...(template ? { template_id: template.template.id, template_version: template.version.version } : {}),
+          ...(campaign ? { campaign_id: campaign.id } : {}),
+          ...(quality ? { quality } : {}),
+          ...(background.usage ? { usage: background.usage } : {}),
+          // Several candidates wait for a reviewer to pick one (see lib/candidates.ts)
+          ...(backgrounds.length > 1 ? { candidate_group: job.id } : {})
+        });
+      }
+
+      // The first candidate is active until one is picked
+      await guardedUpdate(a => ({
+        ...a,
+        versions: [...a.versions, ...created],
+        active_version: created[0].version,
+        updated_at: new Date().toISOString()
+      }), 'version_created');
+      return created;
+    });
+
+    await context.checkpoint({
+      version: versions[0],
+      versions,
+      ...(fallbackFrom ? { fallback_from: fallbackFrom } : {}),
+      ...(queued ? { queued } : {})
+    });
+  }
+
+  const savedVersions = versions;
+  await softStage(context, 'preview', async () => {
+    const failed: string[] = [];
+    for (const { version } of savedVersions) {
+      const result = await generatePreview(assetId, version);
+      if (!result.success) {
+        failed.push(`v${version}: ${result.error || 'Preview generation failed'}`);
+      }
+    }
+    if (failed.length > 0) {
+      throw new Error(failed.join('; '));
+    }
+  });
+
+  return {
+    version: versions[0],
+    versions,
+    ...(fallbackFrom ? { fallback_from: fallbackFrom } : {}),
+    ...(queued ? { queued } : {})
+  };
+}
+
+registerJobHandler('background', runBackgroundJob);
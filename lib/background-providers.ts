@@ -0,0 +1,190 @@
+/**
+ * Background Providers
+ *
+ * Background generation goes through a BackgroundProvider looked up by name
+ * in a registry, so routes never depend on one image model's API. The default
+ * is BACKGROUND_PROVIDER; a request may name another registered provider.
+ *
+ * To add a model, implement BackgroundProvider and call
+ * registerBackgroundProvider once at startup (or at the bottom of this file).
+ *
+ * When a provider fails, BACKGROUND_FALLBACK_PROVIDER (the offline
+ * 'procedural' generator by default) is tried before giving up.
+ */
+
+import { config } from './config';
+import { createOpenRouterProvider } from './openrouter';
+import { createProceduralProvider } from './procedural-background';
+import type { QueueTicket } from './rate-limiter';
+import type { LlmUsage } from './types';
+
+/**
+ * Prompts and asset context for one background
+ */
+export interface BackgroundRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  /** Asset colors (hex), for providers that render from a palette */
+  dominantColors?: string[];
+  /** Brand palette (hex) to render with instead of dominantColors, see brandPalette() */
+  palette?: string[];
+  /** Image to refine (image-to-image); only sent to providers with supportsReferenceImage */
+  referenceImage?: { image: Buffer; contentType: string };
+  /** Stable per asset version, so deterministic providers reproduce their output */
+  seed?: string;
+  /** Called if the provider has to wait for a rate limiter */
+  onQueued?: (ticket: QueueTicket) => void;
+  /** Called for every billed model call, including ones that returned no usable image */
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+/**
+ * A generated background image
+ */
+export interface GeneratedBackground {
+  image: Buffer;
+  /** MIME type of image, e.g. image/png */
+  contentType: string;
+  /** Name of the provider that generated it */
+  provider: string;
+  /** Model used, if the provider has several */
+  model?: string;
+  /** Usage of the model call that produced the image (providers that call an LLM) */
+  usage?: LlmUsage;
+  /** Set when this came from the fallback because the requested provider failed */
+  fallbackFrom?: { provider: string; error: string };
+}
+
+/**
+ * Image-generation backend for story backgrounds
+ */
+export interface BackgroundProvider {
+  /** Registry name, e.g. 'openrouter' */
+  readonly name: string;
+  /** Whether generate() edits request.referenceImage (needed for refinements) */
+  readonly supportsReferenceImage?: boolean;
+  /**
+   * Generate a background
+   * @throws Error if generation fails or returns no image
+   */
+  generate(request: BackgroundRequest): Promise<GeneratedBackground>;
+}
+
+const providers = new Map<string, BackgroundProvider>();
+
+/**
+ * Add a provider to the registry
+ * @throws Error if a provider with the same name is already registered
+ */
+export function registerBackgroundProvider(provider: BackgroundProvider): void {
+  if (providers.has(provider.name)) {
+    throw new Error(`Background provider already registered: ${provider.name}`);
+  }
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Remove a provider from the registry (no error if it isn't registered)
+ */
+export function unregisterBackgroundProvider(name: string): void {
+  providers.delete(name);
+}
+
+/**
+ * Names of registered providers, in registration order
+ */
+export function listBackgroundProviders(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Look up a provider
+ * @param name - Provider name (defaults to BACKGROUND_PROVIDER)
+ * @throws Error starting with "Unknown background provider" if none is registered under name
+ */
+export function getBackgroundProvider(name: string = config.backgrounds.provider): BackgroundProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(
+      `Unknown background provider: ${name} (available: ${listBackgroundProviders().join(', ') || 'none'})`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Generate a background, falling back to BACKGROUND_FALLBACK_PROVIDER if the provider fails
+ *
+ * A request with a referenceImage (a refinement) is only sent to providers
+ * that support it; a fallback that doesn't is not tried.
+ *
+ * @param provider - Requested provider
+ * @param request - Prompts and asset context
+ * @param fallbackName - Fallback provider name ('' for none)
+ * @returns Generated background; fallbackFrom is set if the fallback produced it
+ * @throws Error if the provider can't refine a referenceImage, or it fails and
+ *   there is no (suitable) fallback, or the fallback fails too
+ */
+export async function generateBackgroundWithFallback(
+  provider: BackgroundProvider,
+  request: BackgroundRequest,
+  fallbackName: string = config.backgrounds.fallbackProvider
+): Promise<GeneratedBackground> {
+  if (request.referenceImage && !provider.supportsReferenceImage) {
+    throw new Error(`Background provider ${provider.name} can't refine an image`);
+  }
+
+  try {
+    return await provider.generate(request);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const fallback = fallbackName && fallbackName !== provider.name ? providers.get(fallbackName) : undefined;
+    if (!fallback) throw error;
+    if (request.referenceImage && !fallback.supportsReferenceImage) {
+      throw new Error(`${message}; fallback ${fallback.name} can't refine an image`);
+    }
+
+    console.warn(`[Backgrounds] ${provider.name} failed, falling back to ${fallback.name}: ${message}`);
+    try {
+      const background = await fallback.generate(request);
+      return { ...background, fallbackFrom: { provider: provider.name, error: message } };
+    } catch (fallbackError) {
+      throw new Error(
+        `${message}; fallback ${fallback.name} also failed: ` +
+        (fallbackError instanceof Error ? fallbackError.message : String(fallbackError))
+      );
+    }
+  }
+}
+
+/**
+ * File extension for a generated image's MIME type
+ */
+export function backgroundExtension(contentType: string): string {
+  switch (contentType) {
+    case 'image/jpeg':
+      return 'jpg';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return 'png';
+  }
+}
+
+/**
+ * MIME type of a saved background, from its file extension (inverse of backgroundExtension)
+ */
+export function backgroundContentType(filePath: string): string {
+  switch (filePath.split('.').pop()?.toLowerCase()) {
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'webp':
+      return 'image/webp';
+    default:
+      return 'image/png';
+  }
+}
+
+registerBackgroundProvider(createOpenRouterProvider());
+registerBackgroundProvider(createProceduralProvider());
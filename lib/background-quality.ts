@@ -0,0 +1,228 @@
+/**
+ * Background Quality Gate
+ *
+ * Scores a generated background before it is saved. Image models sometimes
+ * return the wrong aspect ratio, draw text, or fill the area the asset will
+ * cover with detail; these are measured on a downscaled copy of the image:
+ *
+ * - aspect_ratio / resolution: native size against the 1080x1920 story
+ * - asset_zone_busyness / safe_zone_busyness: mean edge strength inside
+ *   config.instagram.assetZone and the top/bottom safe zones
+ * - text: share of the image covered by small blocks of dense, fine edges
+ *   (a heuristic for lettering, not OCR)
+ * - contrast: how far the asset zone's average color is from the asset's
+ *   dominant colors, so the asset doesn't blend into its background
+ *
+ * Each check scores 0-1. The score (0-100) is the weighted total of the
+ * content checks, scaled by the aspect ratio check and (half-weighted) by the
+ * resolution check: clean content can't make up for an image that doesn't
+ * fit the story.
+ */
+
+import sharp from 'sharp';
+import { config } from './config';
+import type { BackgroundQuality } from './types';
+
+/** Analysis runs at 1/ANALYSIS_SCALE of the story size (540x960) */
+const ANALYSIS_SCALE = 2;
+
+/** Side of the square blocks examined for text, in analysis pixels */
+const TEXT_BLOCK = 12;
+
+/** Edge strength (0-255) counted as a sharp edge */
+const STRONG_EDGE = 48;
+
+const STORY_RATIO = config.instagram.width / config.instagram.height;
+
+/** Weights of the content checks; the size checks scale their total instead */
+const WEIGHTS = {
+  asset_zone_busyness: 0.45,
+  safe_zone_busyness: 0.15,
+  text: 0.25,
+  contrast: 0.15
+};
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Linear score: 1 at or below good, 0 at or beyond bad
+ */
+function rampDown(value: number, good: number, bad: number): number {
+  return Math.min(1, Math.max(0, (bad - value) / (bad - good)));
+}
+
+function parseHex(color: string): [number, number, number] | null {
+  const match = color.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Scale a story-space region (1080x1920) to analysis pixels
+ */
+function toAnalysis(region: Region): Region {
+  return {
+    x: Math.floor(region.x / ANALYSIS_SCALE),
+    y: Math.floor(region.y / ANALYSIS_SCALE),
+    width: Math.max(1, Math.floor(region.width / ANALYSIS_SCALE)),
+    height: Math.max(1, Math.floor(region.height / ANALYSIS_SCALE))
+  };
+}
+
+/**
+ * Score a background image
+ *
+ * @param image - Encoded image (PNG, JPEG, WebP)
+ * @param dominantColors - Asset colors (hex); the contrast check is skipped without them
+ * @returns Score (0-100), per-check scores and human-readable issues
+ * @throws Error if the image can't be decoded
+ */
+export async function assessBackgroundQuality(
+  image: Buffer,
+  dominantColors: string[] = []
+): Promise<BackgroundQuality> {
+  const { width: nativeWidth = 0, height: nativeHeight = 0 } = await sharp(image).metadata();
+  if (!nativeWidth || !nativeHeight) {
+    throw new Error('Background image has no dimensions');
+  }
+
+  const { width: storyWidth, height: storyHeight, safeZones, assetZone } = config.instagram;
+  const width = Math.round(storyWidth / ANALYSIS_SCALE);
+  const height = Math.round(storyHeight / ANALYSIS_SCALE);
+  const rgb = await sharp(image)
+    .resize(width, height, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * rgb[i * 3] + 0.587 * rgb[i * 3 + 1] + 0.114 * rgb[i * 3 + 2];
+  }
+
+  // Edge strength: mean of the horizontal and vertical differences
+  const edges = new Float32Array(width * height);
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      edges[i] = (Math.abs(luma[i + 1] - luma[i]) + Math.abs(luma[i + width] - luma[i])) / 2;
+    }
+  }
+
+  const meanEdge = (region: Region): number => {
+    const r = toAnalysis(region);
+    let sum = 0;
+    for (let y = r.y; y < Math.min(height, r.y + r.height); y++) {
+      for (let x = r.x; x < Math.min(width, r.x + r.width); x++) {
+        sum += edges[y * width + x];
+      }
+    }
+    return sum / (r.width * r.height) / 255;
+  };
+
+  const zone: Region = { x: assetZone.xOffset, y: assetZone.yOffset, width: assetZone.width, height: assetZone.height };
+  const assetZoneBusyness = meanEdge(zone);
+  const topZone: Region = { x: 0, y: 0, width: storyWidth, height: safeZones.top };
+  const bottomZone: Region = { x: 0, y: storyHeight - safeZones.bottom, width: storyWidth, height: safeZones.bottom };
+  const safeZoneBusyness =
+    (meanEdge(topZone) * safeZones.top + meanEdge(bottomZone) * safeZones.bottom) / (safeZones.top + safeZones.bottom);
+
+  // Lettering shows up as small blocks full of sharp edges with frequent
+  // light/dark reversals; smooth gradients and large shapes have few of either
+  let textBlocks = 0;
+  let blocks = 0;
+  for (let by = 0; by + TEXT_BLOCK <= height; by += TEXT_BLOCK) {
+    for (let bx = 0; bx + TEXT_BLOCK <= width; bx += TEXT_BLOCK) {
+      blocks++;
+      let strong = 0;
+      let reversals = 0;
+      for (let y = by; y < by + TEXT_BLOCK; y++) {
+        let previous = 0;
+        for (let x = bx; x < bx + TEXT_BLOCK; x++) {
+          const i = y * width + x;
+          if (edges[i] >= STRONG_EDGE) strong++;
+          const step = x + 1 < width ? luma[i + 1] - luma[i] : 0;
+          if (Math.abs(step) >= STRONG_EDGE) {
+            if (previous && Math.sign(step) !== Math.sign(previous)) reversals++;
+            previous = step;
+          }
+        }
+      }
+      const area = TEXT_BLOCK * TEXT_BLOCK;
+      if (strong / area >= 0.15 && reversals >= TEXT_BLOCK / 2) textBlocks++;
+    }
+  }
+  const textArea = blocks ? textBlocks / blocks : 0;
+
+  // Distance (0-1) from the asset zone's mean color to the nearest asset color
+  const palette = dominantColors.map(parseHex).filter((c): c is [number, number, number] => !!c);
+  let colorDistance: number | null = null;
+  if (palette.length > 0) {
+    const r = toAnalysis(zone);
+    const mean = [0, 0, 0];
+    for (let y = r.y; y < r.y + r.height; y++) {
+      for (let x = r.x; x < r.x + r.width; x++) {
+        const i = (y * width + x) * 3;
+        for (let c = 0; c < 3; c++) mean[c] += rgb[i + c];
+      }
+    }
+    const count = r.width * r.height;
+    colorDistance = Math.min(...palette.map(color =>
+      Math.hypot(...color.map((v, c) => v - mean[c] / count)) / Math.hypot(255, 255, 255)
+    ));
+  }
+
+  const ratio = nativeWidth / nativeHeight;
+  const ratioError = Math.abs(ratio / STORY_RATIO - 1);
+  const scale = Math.min(nativeWidth / storyWidth, nativeHeight / storyHeight);
+
+  const checks: BackgroundQuality['checks'] = {
+    aspect_ratio: rampDown(ratioError, 0.02, 0.12),
+    resolution: Math.min(1, Math.max(0, scale)),
+    asset_zone_busyness: rampDown(assetZoneBusyness, 0.02, 0.08),
+    safe_zone_busyness: rampDown(safeZoneBusyness, 0.04, 0.08),
+    text: rampDown(textArea, 0.005, 0.05),
+    contrast: colorDistance === null ? 1 : Math.min(1, colorDistance / 0.2)
+  };
+
+  const issues: string[] = [];
+  if (checks.aspect_ratio < 1) {
+    issues.push(`Aspect ratio ${nativeWidth}x${nativeHeight} is not 9:16`);
+  }
+  if (scale < 0.9) {
+    issues.push(`Resolution ${nativeWidth}x${nativeHeight} is below ${storyWidth}x${storyHeight}`);
+  }
+  if (checks.asset_zone_busyness < 0.5) {
+    issues.push('Busy detail behind the asset');
+  }
+  if (checks.safe_zone_busyness < 0.5) {
+    issues.push('Busy detail in the safe zones');
+  }
+  if (checks.text < 0.5) {
+    issues.push('Possible text or lettering');
+  }
+  if (checks.contrast < 0.5) {
+    issues.push('Asset zone is close to the asset colors');
+  }
+
+  const content = (Object.keys(WEIGHTS) as Array<keyof typeof WEIGHTS>)
+    .reduce((sum, check) => sum + WEIGHTS[check] * checks[check], 0);
+  const total = content * checks.aspect_ratio * (0.5 + 0.5 * checks.resolution);
+
+  return {
+    score: Math.round(total * 100),
+    width: nativeWidth,
+    height: nativeHeight,
+    checks: Object.fromEntries(
+      Object.entries(checks).map(([check, value]) => [check, Math.round(value * 100) / 100])
+    ) as BackgroundQuality['checks'],
+    issues,
+    checked_at: new Date().toISOString()
+  };
+}
@@ -21,10 +21,11 @@ interface BlotatoResponse {
  * Schedule an Instagram story via Blotato v2 API
  *
  * This function:
- * 1. Converts filesystem path to public URL
+ * 1. Converts filesystem path to public URL (absolute http(s) URLs, e.g. from
+ *    S3 storage, are used as-is)
  * 2. Sends URL to Blotato (no upload step - Blotato fetches from public URL)
  *
- * @param imagePath - Absolute or relative path to the image file
+ * @param imagePath - Absolute or relative path to the image file, or its public URL
  * @param scheduledTime - When to publish the story (Date object)
  * @returns Promise resolving to the Blotato post ID
  * @throws Error if API key or account ID is missing
@@ -55,13 +56,18 @@ export async function scheduleStory(
     throw new Error('BLOTATO_ACCOUNT_ID is not configured');
   }
 
+  // Images already in remote storage are fetched by Blotato directly
+  const isRemoteUrl = /^https?:\/\//i.test(imagePath);
+
   // Verify image file exists
-  try {
-    await fs.access(imagePath);
-  } catch (error) {
-    const errorMessage = `Image file not found: ${imagePath}`;
-    console.error(`[Blotato Schedule] ${errorMessage}`, error);
-    throw new Error(errorMessage);
+  if (!isRemoteUrl) {
+    try {
+      await fs.access(imagePath);
+    } catch (error) {
+      const errorMessage = `Image file not found: ${imagePath}`;
+      console.error(`[Blotato Schedule] ${errorMessage}`, error);
+      throw new Error(errorMessage);
+    }
   }
 
   // Convert filesystem path to public URL
@@ -78,7 +84,7 @@ export async function scheduleStory(
   } else if (relativePath.startsWith('public/')) {
     relativePath = relativePath.replace(/^public/, '');
   }
-  const publicUrl = `${baseUrl}${relativePath}`;
+  const publicUrl = isRemoteUrl ? imagePath : `${baseUrl}${relativePath}`;
 
   console.error(`[Blotato Schedule] Converting filesystem path to public URL`);
   console.error(`[Blotato Schedule] - Filesystem path: ${imagePath}`);
@@ -0,0 +1,374 @@
+/**
+ * Brand Kits
+ *
+ * A brand kit holds a brand's palette (allowed and forbidden colors), text
+ * overlay font and color, logo, default CTA and tone guidelines. Kits are
+ * stored in brand-kits.json; each asset uses the kit named by its
+ * brand_kit_id, or the default kit. The kit fills the {{brand_*}} prompt
+ * variables, styles the text overlay and adds the logo when a story is
+ * composed, so several brands can share the tool.
+ *
+ * Until a kit is saved, the file holds only the built-in IconScout kit
+ * (DM Sans, white text, DEFAULT_TEXT_OVERLAY_CONTENT as the CTA).
+ *
+ * Logos are kept in storage under brand/, outside the storage GC prefix.
+ */
+
+import { existsSync } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from './config';
+import { readJsonStore, updateJsonStore, type JsonStoreFormat } from './json-store';
+import { storageKeyFromUrl } from './storage';
+import { MAX_TEXT_OVERLAY_LENGTH } from './uploads';
+import type { BrandKit, BrandKitFont, BrandKitsData, LogoPosition } from './types';
+
+export const BUILTIN_BRAND_KIT_ID = 'iconscout';
+
+export const LOGO_POSITIONS: readonly LogoPosition[] = ['top-left', 'top-right'];
+
+const FONT_EXTENSIONS = ['.woff2', '.woff', '.ttf', '.otf'];
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+
+/**
+ * IconScout brand style, formerly part of the built-in system prompt
+ */
+const BUILTIN_TONE = `- Modern, clean, vibrant yet professional
+- Abstract, gradient-based, or organic shapes
+- Bold colors that complement (not compete with) the main asset
+- Geometric patterns, smooth gradients, subtle textures`;
+
+/**
+ * Fields a client may set on a kit (the logo is uploaded separately)
+ */
+export interface BrandKitInput {
+  name: string;
+  allowed_colors?: string[];
+  forbidden_colors?: string[];
+  font?: Partial<BrandKitFont>;
+  text_color?: string;
+  logo_position?: LogoPosition;
+  default_cta?: string;
+  tone?: string;
+}
+
+/**
+ * The built-in kit, matching the text overlay configuration
+ */
+export function builtinBrandKit(): BrandKit {
+  const createdAt = new Date(0).toISOString();
+  return {
+    id: BUILTIN_BRAND_KIT_ID,
+    name: 'IconScout',
+    allowed_colors: [],
+    forbidden_colors: [],
+    font: { ...config.textOverlay.font },
+    text_color: '#FFFFFF',
+    logo_position: 'top-right',
+    default_cta: config.textOverlay.defaultContent,
+    tone: BUILTIN_TONE,
+    created_at: createdAt,
+    updated_at: createdAt
+  };
+}
+
+function builtinKits(): BrandKitsData {
+  return { default_kit_id: BUILTIN_BRAND_KIT_ID, kits: [builtinBrandKit()] };
+}
+
+/**
+ * Whether a value is a #RRGGBB color
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value);
+}
+
+function validateColors(field: string, value: unknown): void {
+  if (!Array.isArray(value) || !value.every(isHexColor)) {
+    throw new Error(`Invalid brand kit: ${field} must be an array of #RRGGBB colors`);
+  }
+}
+
+/**
+ * Check a kit's fields
+ *
+ * @param partial - Only check the fields present (for updates)
+ * @throws Error starting with "Invalid brand kit" if a field is missing or invalid,
+ *   or the font file doesn't exist
+ */
+export function validateBrandKitInput(input: Partial<BrandKitInput>, partial: boolean = false): void {
+  if ((input.name === undefined && !partial) ||
+      (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim()))) {
+    throw new Error('Invalid brand kit: name must be a non-empty string');
+  }
+  if (input.allowed_colors !== undefined) validateColors('allowed_colors', input.allowed_colors);
+  if (input.forbidden_colors !== undefined) validateColors('forbidden_colors', input.forbidden_colors);
+  if (input.allowed_colors && input.forbidden_colors) {
+    const forbidden = new Set(input.forbidden_colors.map(c => c.toUpperCase()));
+    const both = input.allowed_colors.find(c => forbidden.has(c.toUpperCase()));
+    if (both) {
+      throw new Error(`Invalid brand kit: ${both} is both allowed and forbidden`);
+    }
+  }
+
+  if (input.text_color !== undefined && !isHexColor(input.text_color)) {
+    throw new Error('Invalid brand kit: text_color must be a #RRGGBB color');
+  }
+  if (input.logo_position !== undefined && !LOGO_POSITIONS.includes(input.logo_position)) {
+    throw new Error(`Invalid brand kit: logo_position must be one of ${LOGO_POSITIONS.join(', ')}`);
+  }
+  const cta = input.default_cta;
+  if (cta !== undefined && (typeof cta !== 'string' || !cta.trim() || cta.length > MAX_TEXT_OVERLAY_LENGTH)) {
+    throw new Error(
+      `Invalid brand kit: default_cta must be a non-empty string of at most ${MAX_TEXT_OVERLAY_LENGTH} characters`
+    );
+  }
+  if (input.tone !== undefined && typeof input.tone !== 'string') {
+    throw new Error('Invalid brand kit: tone must be a string');
+  }
+
+  const font = input.font;
+  if (font === undefined) return;
+  if (typeof font !== 'object' || font === null) {
+    throw new Error('Invalid brand kit: font must be an object');
+  }
+  if (font.family !== undefined && (typeof font.family !== 'string' || !font.family.trim())) {
+    throw new Error('Invalid brand kit: font.family must be a non-empty string');
+  }
+  if (font.weight !== undefined && (typeof font.weight !== 'string' || !/^[1-9]00$/.test(font.weight))) {
+    throw new Error('Invalid brand kit: font.weight must be "100" to "900"');
+  }
+  if (font.size !== undefined && (typeof font.size !== 'number' || font.size < 12 || font.size > 120)) {
+    throw new Error('Invalid brand kit: font.size must be 12-120');
+  }
+  if (font.path !== undefined) {
+    if (typeof font.path !== 'string' || !FONT_EXTENSIONS.includes(path.extname(font.path).toLowerCase())) {
+      throw new Error(`Invalid brand kit: font.path must be a ${FONT_EXTENSIONS.join(', ')} file`);
+    }
+    if (!existsSync(path.resolve(process.cwd(), font.path))) {
+      throw new Error(`Invalid brand kit: font file ${font.path} not found`);
+    }
+  }
+}
+
+const KITS_FORMAT: JsonStoreFormat<BrandKitsData> = {
+  empty: builtinKits,
+  parse: data => ({
+    default_kit_id: data?.default_kit_id ?? BUILTIN_BRAND_KIT_ID,
+    kits: Array.isArray(data?.kits) ? data.kits : []
+  })
+};
+
+/**
+ * Read all kits and the default kit ID
+ * @throws Error if brand-kits.json is not valid JSON
+ */
+export async function readBrandKits(filePath: string = config.paths.brandKits): Promise<BrandKitsData> {
+  return readJsonStore(filePath, KITS_FORMAT);
+}
+
+/**
+ * Modify brand-kits.json under its lock
+ * @returns Whatever fn returns
+ */
+async function updateBrandKits<T>(
+  fn: (data: BrandKitsData) => T,
+  filePath: string = config.paths.brandKits
+): Promise<T> {
+  return updateJsonStore(filePath, KITS_FORMAT, fn);
+}
+
+function findKit(data: BrandKitsData, kitId: string): BrandKit {
+  const kit = data.kits.find(k => k.id === kitId);
+  if (!kit) {
+    throw new Error(`Brand kit ${kitId} not found`);
+  }
+  return kit;
+}
+
+/**
+ * Get a kit by ID
+ * @returns The kit, or null if it doesn't exist
+ */
+export async function getBrandKit(
+  kitId: string,
+  filePath: string = config.paths.brandKits
+): Promise<BrandKit | null> {
+  return (await readBrandKits(filePath)).kits.find(k => k.id === kitId) ?? null;
+}
+
+/**
+ * Create a kit; fields left out take the built-in kit's values
+ * @throws Error starting with "Invalid brand kit" if input is invalid
+ */
+export async function createBrandKit(
+  input: BrandKitInput,
+  filePath: string = config.paths.brandKits
+): Promise<BrandKit> {
+  validateBrandKitInput(input);
+
+  const defaults = builtinBrandKit();
+  const now = new Date().toISOString();
+  const kit: BrandKit = {
+    id: uuidv4(),
+    name: input.name.trim(),
+    allowed_colors: input.allowed_colors ?? [],
+    forbidden_colors: input.forbidden_colors ?? [],
+    font: { ...defaults.font, ...input.font },
+    text_color: input.text_color ?? defaults.text_color,
+    logo_position: input.logo_position ?? defaults.logo_position,
+    default_cta: input.default_cta ?? defaults.default_cta,
+    tone: input.tone ?? '',
+    created_at: now,
+    updated_at: now
+  };
+
+  await updateBrandKits((data) => {
+    data.kits.push(kit);
+  }, filePath);
+  return kit;
+}
+
+/**
+ * Edit a kit
+ * @throws Error starting with "Invalid brand kit" if changes are invalid
+ * @throws Error if the kit doesn't exist
+ */
+export async function updateBrandKit(
+  kitId: string,
+  changes: Partial<BrandKitInput>,
+  filePath: string = config.paths.brandKits
+): Promise<BrandKit> {
+  validateBrandKitInput(changes, true);
+
+  return updateBrandKits((data) => {
+    const kit = findKit(data, kitId);
+    // Colors are checked against each other after the merge
+    validateBrandKitInput({
+      allowed_colors: changes.allowed_colors ?? kit.allowed_colors,
+      forbidden_colors: changes.forbidden_colors ?? kit.forbidden_colors
+    }, true);
+
+    if (changes.name !== undefined) kit.name = changes.name.trim();
+    if (changes.allowed_colors !== undefined) kit.allowed_colors = changes.allowed_colors;
+    if (changes.forbidden_colors !== undefined) kit.forbidden_colors = changes.forbidden_colors;
+    if (changes.font !== undefined) kit.font = { ...kit.font, ...changes.font };
+    if (changes.text_color !== undefined) kit.text_color = changes.text_color;
+    if (changes.logo_position !== undefined) kit.logo_position = changes.logo_position;
+    if (changes.default_cta !== undefined) kit.default_cta = changes.default_cta;
+    if (changes.tone !== undefined) kit.tone = changes.tone;
+
+    kit.updated_at = new Date().toISOString();
+    return kit;
+  }, filePath);
+}
+
+/**
+ * Set or clear a kit's logo
+ *
+ * @param logoUrl - URL of the stored logo, or null to remove it
+ * @returns The kit and the logo URL it had before
+ * @throws Error if the kit doesn't exist
+ */
+export async function setBrandKitLogo(
+  kitId: string,
+  logoUrl: string | null,
+  filePath: string = config.paths.brandKits
+): Promise<{ kit: BrandKit; previous?: string }> {
+  return updateBrandKits((data) => {
+    const kit = findKit(data, kitId);
+    const previous = kit.logo_url;
+    if (logoUrl) {
+      kit.logo_url = logoUrl;
+    } else {
+      delete kit.logo_url;
+    }
+    kit.updated_at = new Date().toISOString();
+    return { kit, ...(previous ? { previous } : {}) };
+  }, filePath);
+}
+
+/**
+ * Delete a kit (assets that used it fall back to the default kit)
+ * @returns The deleted kit, or null if it doesn't exist
+ * @throws Error if it is the default kit
+ */
+export async function deleteBrandKit(
+  kitId: string,
+  filePath: string = config.paths.brandKits
+): Promise<BrandKit | null> {
+  return updateBrandKits((data) => {
+    const kit = data.kits.find(k => k.id === kitId);
+    if (!kit) return null;
+    if (data.default_kit_id === kitId) {
+      throw new Error('Cannot delete the default brand kit; choose another default first');
+    }
+    data.kits = data.kits.filter(k => k.id !== kitId);
+    return kit;
+  }, filePath);
+}
+
+/**
+ * Make a kit the default for assets without one
+ * @throws Error if the kit doesn't exist
+ */
+export async function setDefaultBrandKit(
+  kitId: string,
+  filePath: string = config.paths.brandKits
+): Promise<BrandKit> {
+  return updateBrandKits((data) => {
+    const kit = findKit(data, kitId);
+    data.default_kit_id = kitId;
+    return kit;
+  }, filePath);
+}
+
+/**
+ * Pick the kit for an asset
+ *
+ * An unknown or deleted kit falls back to the default kit, so assets keep
+ * rendering after their kit is removed.
+ *
+ * @param kitId - The asset's brand_kit_id
+ */
+export async function resolveBrandKit(
+  kitId?: string,
+  filePath: string = config.paths.brandKits
+): Promise<BrandKit> {
+  const data = await readBrandKits(filePath);
+  if (kitId) {
+    const kit = data.kits.find(k => k.id === kitId);
+    if (kit) return kit;
+    console.warn(`[BrandKits] Unknown brand kit ${kitId}, using the default`);
+  }
+  return data.kits.find(k => k.id === data.default_kit_id) ?? builtinBrandKit();
+}
+
+/**
+ * Palette for providers that render from colors: the kit's allowed colors,
+ * otherwise the asset's colors without the forbidden ones
+ */
+export function brandPalette(kit: BrandKit, dominantColors: string[] = []): string[] {
+  if (kit.allowed_colors.length > 0) {
+    return kit.allowed_colors;
+  }
+  const forbidden = new Set(kit.forbidden_colors.map(c => c.toUpperCase()));
+  return dominantColors.filter(c => !forbidden.has(c.toUpperCase()));
+}
+
+/**
+ * Storage key for a kit's logo
+ * @param extension - File extension without dot
+ */
+export function brandLogoKey(kitId: string, extension: string): string {
+  return `brand/${kitId}/logo-${Date.now()}.${extension}`;
+}
+
+/**
+ * Storage key of a kit's logo
+ * @returns The key, or null if the kit has no logo in storage
+ */
+export function brandLogoStorageKey(kit: BrandKit): string | null {
+  return kit.logo_url ? storageKeyFromUrl(kit.logo_url) : null;
+}
@@ -0,0 +1,242 @@
+/**
+ * Seasonal Campaigns
+ *
+ * A campaign covers a date range (inclusive) and carries prompt additions,
+ * overlay text and an optional palette. Assets whose story date falls in the
+ * range pick it up automatically: background jobs append the additions to the
+ * rendered prompt and render with the campaign palette, and composition uses
+ * the campaign's overlay text unless the asset has its own. When ranges
+ * overlap, the narrowest campaign wins (a holiday inside a season).
+ *
+ * Campaigns are stored in campaigns.json.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from './config';
+import { readJsonStore, updateJsonStore, type JsonStoreFormat } from './json-store';
+import { isHexColor } from './brand-kits';
+import { MAX_TEXT_OVERLAY_LENGTH } from './uploads';
+import type { Campaign, CampaignsData } from './types';
+
+/**
+ * Fields a client may set on a campaign
+ */
+export interface CampaignInput {
+  name: string;
+  start_date: string;
+  end_date: string;
+  prompt_additions?: string;
+  overlay_text?: string;
+  palette?: string[];
+}
+
+function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+/**
+ * Check a campaign's fields
+ *
+ * @param partial - Only check the fields present (for updates)
+ * @throws Error starting with "Invalid campaign" if a field is missing or invalid
+ */
+export function validateCampaignInput(input: Partial<CampaignInput>, partial: boolean = false): void {
+  if ((input.name === undefined && !partial) ||
+      (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim()))) {
+    throw new Error('Invalid campaign: name must be a non-empty string');
+  }
+  for (const field of ['start_date', 'end_date'] as const) {
+    const value = input[field];
+    if ((value === undefined && !partial) || (value !== undefined && !isValidDate(value))) {
+      throw new Error(`Invalid campaign: ${field} must be a YYYY-MM-DD date`);
+    }
+  }
+  if (input.start_date && input.end_date && input.end_date < input.start_date) {
+    throw new Error('Invalid campaign: end_date is before start_date');
+  }
+
+  if (input.prompt_additions !== undefined && typeof input.prompt_additions !== 'string') {
+    throw new Error('Invalid campaign: prompt_additions must be a string');
+  }
+  const text = input.overlay_text;
+  if (text !== undefined && (typeof text !== 'string' || text.length > MAX_TEXT_OVERLAY_LENGTH)) {
+    throw new Error(`Invalid campaign: overlay_text must be a string of at most ${MAX_TEXT_OVERLAY_LENGTH} characters`);
+  }
+  if (input.palette !== undefined && (!Array.isArray(input.palette) || !input.palette.every(isHexColor))) {
+    throw new Error('Invalid campaign: palette must be an array of #RRGGBB colors');
+  }
+}
+
+const CAMPAIGNS_FORMAT: JsonStoreFormat<CampaignsData> = {
+  empty: () => ({ campaigns: [] }),
+  parse: data => ({ campaigns: Array.isArray(data?.campaigns) ? data.campaigns : [] })
+};
+
+/**
+ * Read all campaigns
+ * @throws Error if campaigns.json is not valid JSON
+ */
+export async function readCampaigns(path: string = config.paths.campaigns): Promise<Campaign[]> {
+  return readJsonStore(path, CAMPAIGNS_FORMAT).campaigns;
+}
+
+/**
+ * Modify campaigns.json under its lock
+ * @returns Whatever fn returns
+ */
+async function updateCampaigns<T>(
+  fn: (data: CampaignsData) => T,
+  path: string = config.paths.campaigns
+): Promise<T> {
+  return updateJsonStore(path, CAMPAIGNS_FORMAT, fn);
+}
+
+/**
+ * Get a campaign by ID
+ * @returns The campaign, or null if it doesn't exist
+ */
+export async function getCampaign(
+  campaignId: string,
+  path: string = config.paths.campaigns
+): Promise<Campaign | null> {
+  return (await readCampaigns(path)).find(c => c.id === campaignId) ?? null;
+}
+
+/**
+ * Create a campaign
+ * @throws Error starting with "Invalid campaign" if input is invalid
+ */
+export async function createCampaign(
+  input: CampaignInput,
+  path: string = config.paths.campaigns
+): Promise<Campaign> {
+  validateCampaignInput(input);
+
+  const now = new Date().toISOString();
+  const campaign: Campaign = {
+    id: uuidv4(),
+    name: input.name.trim(),
+    start_date: input.start_date,
+    end_date: input.end_date,
+    prompt_additions: input.prompt_additions ?? '',
+    ...(input.overlay_text ? { overlay_text: input.overlay_text } : {}),
+    ...(input.palette && input.palette.length > 0 ? { palette: input.palette } : {}),
+    created_at: now,
+    updated_at: now
+  };
+
+  await updateCampaigns((data) => {
+    data.campaigns.push(campaign);
+  }, path);
+  return campaign;
+}
+
+/**
+ * Edit a campaign; an empty overlay_text or palette removes it
+ * @throws Error starting with "Invalid campaign" if changes are invalid
+ * @throws Error if the campaign doesn't exist
+ */
+export async function updateCampaign(
+  campaignId: string,
+  changes: Partial<CampaignInput>,
+  path: string = config.paths.campaigns
+): Promise<Campaign> {
+  validateCampaignInput(changes, true);
+
+  return updateCampaigns((data) => {
+    const campaign = data.campaigns.find(c => c.id === campaignId);
+    if (!campaign) {
+      throw new Error(`Campaign ${campaignId} not found`);
+    }
+    // The range is checked as a whole after the merge
+    validateCampaignInput({
+      start_date: changes.start_date ?? campaign.start_date,
+      end_date: changes.end_date ?? campaign.end_date
+    }, true);
+
+    if (changes.name !== undefined) campaign.name = changes.name.trim();
+    if (changes.start_date !== undefined) campaign.start_date = changes.start_date;
+    if (changes.end_date !== undefined) campaign.end_date = changes.end_date;
+    if (changes.prompt_additions !== undefined) campaign.prompt_additions = changes.prompt_additions;
+    if (changes.overlay_text !== undefined) {
+      if (changes.overlay_text) {
+        campaign.overlay_text = changes.overlay_text;
+      } else {
+        delete campaign.overlay_text;
+      }
+    }
+    if (changes.palette !== undefined) {
+      if (changes.palette.length > 0) {
+        campaign.palette = changes.palette;
+      } else {
+        delete campaign.palette;
+      }
+    }
+
+    campaign.updated_at = new Date().toISOString();
+    return campaign;
+  }, path);
+}
+
+/**
+ * Delete a campaign (versions generated under it keep its ID)
+ * @returns false if the campaign doesn't exist
+ */
+export async function deleteCampaign(
+  campaignId: string,
+  path: string = config.paths.campaigns
+): Promise<boolean> {
+  return updateCampaigns((data) => {
+    if (!data.campaigns.some(c => c.id === campaignId)) return false;
+    data.campaigns = data.campaigns.filter(c => c.id !== campaignId);
+    return true;
+  }, path);
+}
+
+function rangeDays(campaign: Campaign): number {
+  return Date.parse(campaign.end_date) - Date.parse(campaign.start_date);
+}
+
+/**
+ * Campaign a story date falls in
+ *
+ * @param date - Asset's story date (YYYY-MM-DD)
+ * @returns The narrowest matching campaign (the newest on a tie), or null
+ */
+export function campaignForDate(campaigns: Campaign[], date: string): Campaign | null {
+  let match: Campaign | null = null;
+  for (const campaign of campaigns) {
+    if (date < campaign.start_date || date > campaign.end_date) continue;
+    if (!match || rangeDays(campaign) <= rangeDays(match)) {
+      match = campaign;
+    }
+  }
+  return match;
+}
+
+/**
+ * Read campaigns and pick the one for a story date
+ * @returns The campaign, or null if the date is outside every campaign
+ */
+export async function resolveCampaign(
+  date: string,
+  path: string = config.paths.campaigns
+): Promise<Campaign | null> {
+  return campaignForDate(await readCampaigns(path), date);
+}
+
+/**
+ * Append a campaign's additions (and palette) to a rendered user prompt
+ */
+export function applyCampaignToPrompt(userPrompt: string, campaign: Campaign): string {
+  const lines = [`SEASONAL CAMPAIGN: ${campaign.name}`];
+  if (campaign.prompt_additions.trim()) {
+    lines.push(campaign.prompt_additions.trim());
+  }
+  if (campaign.palette && campaign.palette.length > 0) {
+    lines.push(`CAMPAIGN COLORS (use these instead of the brand colors): ${campaign.palette.join(', ')}`);
+  }
+  return `${userPrompt}\n\n${lines.join('\n')}`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Background Candidates
+ *
+ * A generation request with count > 1 saves several versions tagged with the
+ * same candidate_group (the job ID). A reviewer then picks one as the active
+ * version; the other candidates are either discarded (removed from history
+ * and storage) or kept as ordinary alternate versions.
+ */
+
+import { updateAsset } from './history';
+import { config } from './config';
+import { getStorage, storageKeyFromUrl, type StorageDriver } from './storage';
+import { collectReferencedKeys } from './storage-gc';
+import type { AssetMetadata, AssetVersion, AuditContext } from './types';
+
+/**
+ * Outcome of picking a candidate
+ */
+export interface CandidatePickResult {
+  asset: AssetMetadata;
+  /** Candidates removed from history */
+  discarded: number[];
+  /** Candidates kept as alternate versions */
+  kept: number[];
+  /** Storage keys of discarded candidates that could not be deleted */
+  errors: Array<{ key: string; error: string }>;
+}
+
+/**
+ * Make a candidate the active version and settle the rest of its group
+ *
+ * @param assetId - Asset ID
+ * @param winner - Version number of the chosen candidate
+ * @param options.keepAlternates - Keep the other candidates as versions instead of discarding them
+ * @param options.expectedRevision - Reject unless the asset is at this revision
+ * @param options.storage - Storage to delete discarded files from (default: getStorage())
+ * @throws Error if the asset or version doesn't exist, or the version isn't a pending candidate
+ * @throws Error containing "Revision conflict" if expectedRevision is stale
+ */
+export async function pickCandidate(
+  assetId: string,
+  winner: number,
+  options: {
+    keepAlternates?: boolean;
+    expectedRevision?: number;
+    audit?: AuditContext;
+    storage?: StorageDriver;
+  } = {}
+): Promise<CandidatePickResult> {
+  let discardedVersions: AssetVersion[] = [];
+  let kept: number[] = [];
+
+  const asset = await updateAsset(assetId, (current) => {
+    const chosen = current.versions.find(v => v.version === winner);
+    if (!chosen) {
+      throw new Error(`Version ${winner} not found`);
+    }
+    if (!chosen.candidate_group) {
+      throw new Error(`Version ${winner} is not a pending candidate`);
+    }
+
+    const group = chosen.candidate_group;
+    const others = current.versions.filter(v => v.candidate_group === group && v.version !== winner);
+    discardedVersions = options.keepAlternates ? [] : others;
+    kept = options.keepAlternates ? others.map(v => v.version) : [];
+
+    const settle = ({ candidate_group: _group, ...version }: AssetVersion): AssetVersion => version;
+    return {
+      ...current,
+      versions: current.versions
+        .filter(v => !discardedVersions.includes(v))
+        .map(v => v.candidate_group === group ? settle(v) : v),
+      active_version: winner,
+      updated_at: new Date().toISOString()
+    };
+  }, config.paths.history, {
+    expectedRevision: options.expectedRevision,
+    audit: { ...options.audit, action: 'candidate_picked' }
+  });
+
+  // Delete the discarded files unless something else still refers to them
+  const errors: CandidatePickResult['errors'] = [];
+  const referenced = collectReferencedKeys({ assets: [asset] });
+  const keys = discardedVersions
+    .flatMap(v => [v.file_path, v.preview_file_path])
+    .map(url => (url ? storageKeyFromUrl(url) : null))
+    .filter((key): key is string => !!key && !referenced.has(key));
+  for (const key of keys) {
+    try {
+      await (options.storage ?? getStorage()).delete(key);
+    } catch (error) {
+      errors.push({ key, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  if (errors.length > 0) {
+    console.warn(`[Candidates] Failed to delete ${errors.length} discarded file(s) for ${assetId}:`, errors);
+  }
+
+  return { asset, discarded: discardedVersions.map(v => v.version), kept, errors };
+}
@@ -13,7 +13,9 @@ import path from 'path';
 import { config } from './config';
 import { detectAssetBottomEdge, calculateTextTier } from './asset-detection';
 import { determineAdaptiveShadow } from './brightness-sampling';
-import { generateTextSVG, getDefaultTextConfig } from './text-overlay';
+import { generateTextSVG, getDefaultTextConfig, type TextOverlayOptions } from './text-overlay';
+import { placeAsset, resolveLayoutTemplate, textTierForY, type LayoutTemplate } from './layouts';
+import type { BrandKit, LogoPosition } from './types';
 
 /**
  * Options for story composition
@@ -23,6 +25,12 @@ export interface ComposeOptions {
   includeText?: boolean;
   /** Custom text content to override default */
   textOverride?: string;
+  /** Brand kit styling the text overlay (font, color, default CTA) */
+  brandKit?: BrandKit;
+  /** Local path of the brand kit's logo, composited below the top safe zone */
+  logoPath?: string;
+  /** Layout template placing the asset and text (default: the centered layout) */
+  layout?: LayoutTemplate;
 }
 
 /**
@@ -69,18 +77,66 @@ export interface ComposeResult {
   };
 }
 
+/**
+ * Text overlay settings at a given Y position in the layout's text region,
+ * styled by the brand kit if given
+ */
+function textOverlayConfig(
+  y: number,
+  layout: LayoutTemplate,
+  textOverride?: string,
+  brandKit?: BrandKit
+): Omit<TextOverlayOptions, 'shadowColor'> {
+  const { left, width } = layout.textRegion;
+  const textConfig: Omit<TextOverlayOptions, 'shadowColor'> = {
+    ...getDefaultTextConfig(),
+    x: left + Math.round(width / 2),
+    y,
+    maxWidth: width
+  };
+  if (brandKit) {
+    textConfig.text = brandKit.default_cta;
+    textConfig.fontSize = brandKit.font.size;
+    textConfig.fontWeight = brandKit.font.weight;
+    textConfig.fontFamily = brandKit.font.family;
+    textConfig.fontPath = brandKit.font.path;
+    textConfig.color = brandKit.text_color;
+  }
+  if (textOverride) {
+    textConfig.text = textOverride;
+  }
+  return textConfig;
+}
+
+/**
+ * Scale a logo into the logo box and place it in a top corner
+ */
+async function logoOverlay(logoPath: string, position: LogoPosition): Promise<sharp.OverlayOptions> {
+  const { maxWidth, maxHeight, marginX } = config.brandKits.logo;
+  const { data, info } = await sharp(logoPath)
+    .resize(maxWidth, maxHeight, { fit: 'inside' })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    input: data,
+    top: config.instagram.safeZones.top,
+    left: position === 'top-left' ? marginX : config.instagram.width - marginX - info.width
+  };
+}
+
 /**
  * Compose an Instagram Story by layering an asset onto a background
  *
  * Takes a background image and an asset image, resizes them according to
- * Instagram Story specifications, centers the asset within the safe zone,
- * and composites them together. Optionally adds text overlay with adaptive
- * positioning and shadow.
+ * Instagram Story specifications, places the asset as the layout template
+ * declares (by default centered in the asset zone), and composites them together. Optionally adds text overlay with adaptive
+ * positioning and shadow, and the brand kit's logo.
  *
  * @param backgroundPath - Path to background image (will be resized to 1080x1920)
- * @param assetPath - Path to asset image (will be resized to fit 756x1344)
+ * @param assetPath - Path to asset image (will be resized to fit the layout's asset box)
  * @param outputPath - Path for output file (PNG or JPEG)
- * @param options - Composition options (text overlay, custom text)
+ * @param options - Composition options (text overlay, custom text, brand kit, logo and layout)
  * @returns Promise resolving to composition result with analytics
  * @throws Error if files don't exist, formats are invalid, or processing fails
  *
@@ -103,7 +159,7 @@ export async function composeStory(
   options: ComposeOptions = {}
 ): Promise<ComposeResult> {
   const startTime = Date.now();
-  const { includeText = true, textOverride } = options;
+  const { includeText = true, textOverride, brandKit, logoPath, layout = resolveLayoutTemplate() } = options;
 
   const analytics: TextOverlayAnalytics = {
     enabled: includeText,
@@ -159,57 +215,48 @@ export async function composeStory(
       throw new Error('Unable to read asset dimensions');
     }
 
-    // 5. Calculate scaled dimensions to fit within asset zone (756x1344)
-    // maintaining aspect ratio
-    const assetZoneWidth = config.instagram.assetZone.width;
-    const assetZoneHeight = config.instagram.assetZone.height;
-
-    const assetAspectRatio = assetMetadata.width / assetMetadata.height;
-    const zoneAspectRatio = assetZoneWidth / assetZoneHeight;
-
-    let scaledWidth: number;
-    let scaledHeight: number;
-
-    if (assetAspectRatio > zoneAspectRatio) {
-      // Landscape: wider than zone aspect ratio, scale by width
-      scaledWidth = assetZoneWidth;
-      scaledHeight = Math.round(scaledWidth / assetAspectRatio);
-    } else {
-      // Portrait or square: scale by height
-      scaledHeight = assetZoneHeight;
-      scaledWidth = Math.round(scaledHeight * assetAspectRatio);
-
-      // Clamp width if it exceeds maximum
-      if (scaledWidth > assetZoneWidth) {
-        scaledWidth = assetZoneWidth;
-        scaledHeight = Math.round(scaledWidth / assetAspectRatio);
-      }
-    }
+    // 5. Fit the asset into the layout's asset box, keeping its aspect ratio
+    const placement = placeAsset(layout, assetMetadata.width, assetMetadata.height);
 
     // 6. Resize asset to calculated dimensions
-    const scaledAssetBuffer = await sharp(assetPath)
-      .resize(scaledWidth, scaledHeight, {
+    let assetBuffer = await sharp(assetPath)
+      .resize(placement.width, placement.height, {
         fit: 'contain',
         background: { r: 0, g: 0, b: 0, alpha: 0 }
       })
+      .png()
       .toBuffer();
 
-    // 7. Calculate centering offset within asset zone
-    const assetZoneX = config.instagram.assetZone.xOffset;
-    const assetZoneY = config.instagram.assetZone.yOffset;
+    // 7. Rotate around the asset's center (the canvas grows to the rotated
+    // bounds), keeping it on the story
+    let assetLeft = placement.left;
+    let assetTop = placement.top;
+    if (layout.rotation !== 0) {
+      const { data, info } = await sharp(assetBuffer)
+        .rotate(layout.rotation, { background: { r: 0, g: 0, b: 0, alpha: 0 } })
+        .png()
+        .toBuffer({ resolveWithObject: true });
+      assetBuffer = data;
+      const centerX = placement.left + placement.width / 2;
+      const centerY = placement.top + placement.height / 2;
+      assetLeft = Math.min(Math.max(0, Math.round(centerX - info.width / 2)), config.instagram.width - info.width);
+      assetTop = Math.min(Math.max(0, Math.round(centerY - info.height / 2)), config.instagram.height - info.height);
+    }
 
-    const centerX = assetZoneX + Math.round((assetZoneWidth - scaledWidth) / 2);
-    const centerY = assetZoneY + Math.round((assetZoneHeight - scaledHeight) / 2);
+    // 8. Composite asset (and logo) over background and save to temp file (for analysis)
+    const layers: sharp.OverlayOptions[] = [
+      {
+        input: assetBuffer,
+        top: assetTop,
+        left: assetLeft
+      }
+    ];
+    if (logoPath) {
+      layers.push(await logoOverlay(logoPath, brandKit?.logo_position ?? 'top-right'));
+    }
 
-    // 8. Composite asset over background and save to temp file (for analysis)
     await sharp(backgroundBuffer)
-      .composite([
-        {
-          input: scaledAssetBuffer,
-          top: centerY,
-          left: centerX
-        }
-      ])
+      .composite(layers)
       .png()
       .toFile(tempComposedPath);
 
@@ -219,11 +266,11 @@ export async function composeStory(
     if (includeText) {
       try {
         // Detect asset bottom edge
-        const assetBottomY = await detectAssetBottomEdge(tempComposedPath);
-        const textY = calculateTextTier(assetBottomY);
+        const assetBottomY = await detectAssetBottomEdge(tempComposedPath, layout);
+        const textY = calculateTextTier(assetBottomY, layout);
 
         // Calculate tier number (1, 2, or 3)
-        const tier: 1 | 2 | 3 = textY === 1560 ? 1 : textY === 1520 ? 2 : 3;
+        const tier = textTierForY(layout, textY);
 
         analytics.position_tier_used = tier;
         analytics.position_y = textY;
@@ -231,10 +278,10 @@ export async function composeStory(
         // Determine adaptive shadow based on brightness
         const shadowResult = await determineAdaptiveShadow(
           tempComposedPath,
-          90,    // X offset for text area
-          textY, // Y position
-          900,   // Width of text area
-          180    // Approximate height of text area
+          layout.textRegion.left,  // X offset for text area
+          textY,                   // Y position
+          layout.textRegion.width, // Width of text area
+          180                      // Approximate height of text area
         );
 
         analytics.shadow_type = shadowResult.shadowType;
@@ -242,11 +289,7 @@ export async function composeStory(
         analytics.brightness_samples = shadowResult.samples;
 
         // Generate text SVG
-        const textConfig = getDefaultTextConfig();
-        if (textOverride) {
-          textConfig.text = textOverride;
-        }
-        textConfig.y = textY;
+        const textConfig = textOverlayConfig(textY, layout, textOverride, brandKit);
 
         const textSVG = generateTextSVG({
           ...textConfig,
@@ -277,14 +320,11 @@ export async function composeStory(
 
         // Retry once with default values
         try {
-          const textConfig = getDefaultTextConfig();
-          if (textOverride) {
-            textConfig.text = textOverride;
-          }
-          const textY = 1520; // Default tier 2
-          textConfig.y = textY;
-
-          const shadowResult = await determineAdaptiveShadow(tempComposedPath, 90, textY, 900, 180);
+          const textY = layout.textRegion.tiers[1]; // Default tier 2
+          const textConfig = textOverlayConfig(textY, layout, textOverride, brandKit);
+
+          const { left, width } = layout.textRegion;
+          const shadowResult = await determineAdaptiveShadow(tempComposedPath, left, textY, width, 180);
 
           const textSVG = generateTextSVG({
             ...textConfig,
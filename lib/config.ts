@@ -13,11 +13,39 @@ export const config = {
   openrouter: {
     apiKey: process.env.OPENROUTER_API_KEY || '',
     baseUrl: 'https://openrouter.ai/api/v1/chat/completions',
-    model: 'google/gemini-2.5-flash-image',
+    model: process.env.OPENROUTER_MODEL || 'google/gemini-2.5-flash-image',
     maxCallsPerMinute: parseInt(process.env.OPENROUTER_MAX_CALLS_PER_MINUTE || '20', 10),
+    // 429/5xx responses are retried with jittered backoff, honoring Retry-After up to retryMaxDelayMs
+    maxRetries: parseInt(process.env.OPENROUTER_MAX_RETRIES || '3', 10),
+    retryBaseDelayMs: 1000,
+    retryMaxDelayMs: 60000,
     timeout: 60000, // Increased timeout for image generation
   },
 
+  /**
+   * Background image generation
+   * provider: registered BackgroundProvider used when a request doesn't name one
+   * fallbackProvider: tried when the provider fails ('' disables the fallback)
+   */
+  backgrounds: {
+    provider: process.env.BACKGROUND_PROVIDER || 'openrouter',
+    fallbackProvider: process.env.BACKGROUND_FALLBACK_PROVIDER ?? 'procedural',
+    // 'gradient', 'mesh', 'geometric', or 'auto' to vary the style per asset
+    proceduralStyle: (process.env.PROCEDURAL_BACKGROUND_STYLE || 'auto') as
+      'auto' | 'gradient' | 'mesh' | 'geometric',
+    // Most candidates one generation request may ask for
+    maxCandidates: parseInt(process.env.BACKGROUND_MAX_CANDIDATES || '4', 10),
+    // Automatic quality gate (lib/background-quality.ts)
+    quality: {
+      enabled: process.env.BACKGROUND_QUALITY_CHECK !== 'false',
+      // Score (0-100) below which a background is flagged
+      minScore: parseInt(process.env.BACKGROUND_QUALITY_MIN_SCORE || '60', 10),
+      // Regenerate flagged backgrounds (with a new seed), keeping the best-scoring attempt
+      autoRegenerate: process.env.BACKGROUND_QUALITY_AUTO_REGENERATE === 'true',
+      maxRegenerations: parseInt(process.env.BACKGROUND_QUALITY_MAX_REGENERATIONS || '2', 10),
+    },
+  },
+
   /**
    * Blotato API configuration for Instagram story scheduling
    */
@@ -36,6 +64,9 @@ export const config = {
     accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
     secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
     s3Bucket: process.env.AWS_S3_BUCKET || '',
+    // Custom endpoint for S3-compatible stores (e.g. MinIO or LocalStack in development)
+    s3Endpoint: process.env.AWS_S3_ENDPOINT || '',
+    s3ForcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
   },
 
   /**
@@ -78,6 +109,12 @@ export const config = {
     uploads: './public/uploads',
     temp: './public/temp',
     history: './history.json',
+    backupStatus: './backup-status.json',
+    jobs: './jobs.json',
+    promptTemplates: './prompt-templates.json',
+    analysisCache: './analysis-cache.json',
+    brandKits: './brand-kits.json',
+    campaigns: './campaigns.json',
     logs: './logs',
   },
 
@@ -123,6 +160,17 @@ export const config = {
     }
   },
 
+  /**
+   * Brand kit logo placement (kits themselves live in brand-kits.json, see lib/brand-kits.ts)
+   */
+  brandKits: {
+    logo: {
+      maxWidth: 220,
+      maxHeight: 110,
+      marginX: 90
+    }
+  },
+
   /**
    * Preview configuration
    */
@@ -131,6 +179,56 @@ export const config = {
     bulkApprovalLimit: parseInt(process.env.BULK_APPROVAL_LIMIT || '50', 10),
   },
 
+  /**
+   * Duplicate upload detection
+   * - exact: identical file content (SHA-256)
+   * - near: perceptual hashes within nearThreshold bits (re-exports, resized copies)
+   * Each is 'reject' (409 unless the upload sets allowDuplicate), 'warn' or 'off'
+   */
+  duplicates: {
+    exact: (process.env.DUPLICATE_EXACT_ACTION || 'reject') as 'reject' | 'warn' | 'off',
+    near: (process.env.DUPLICATE_NEAR_ACTION || 'warn') as 'reject' | 'warn' | 'off',
+    nearThreshold: parseInt(process.env.DUPLICATE_NEAR_THRESHOLD || '6', 10),
+  },
+
+  /**
+   * Storage garbage collection (orphaned files and expired previews)
+   */
+  storageGc: {
+    enabled: process.env.STORAGE_GC_ENABLED === 'true',
+    schedule: process.env.STORAGE_GC_SCHEDULE || '0 4 * * *',
+    // Unreferenced files younger than this are kept, so uploads in flight are never collected
+    orphanGraceMinutes: parseInt(process.env.STORAGE_GC_ORPHAN_GRACE_MINUTES || '60', 10),
+  },
+
+  /**
+   * Background jobs (background generation runs asynchronously)
+   */
+  jobs: {
+    concurrency: parseInt(process.env.JOBS_CONCURRENCY || '2', 10),
+    // Jobs interrupted by restarts are resumed until they have been started this many times
+    maxAttempts: parseInt(process.env.JOBS_MAX_ATTEMPTS || '3', 10),
+    // Finished jobs are kept this long for status queries
+    retentionDays: parseInt(process.env.JOBS_RETENTION_DAYS || '7', 10),
+  },
+
+  /**
+   * Vision / color analysis cache, keyed by asset file hash (lib/analysis-cache.ts)
+   */
+  analysisCache: {
+    enabled: process.env.ANALYSIS_CACHE !== 'false',
+    maxEntries: parseInt(process.env.ANALYSIS_CACHE_MAX_ENTRIES || '5000', 10),
+  },
+
+  /**
+   * Trash (soft-deleted assets)
+   */
+  trash: {
+    // Trashed assets are purged this many days after deletion; 0 keeps them until restored
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    purgeSchedule: process.env.TRASH_PURGE_SCHEDULE || '30 3 * * *',
+  },
+
   /**
    * S3 history backup configuration
    */
@@ -138,6 +236,8 @@ export const config = {
     historyBackupEnabled: process.env.S3_HISTORY_BACKUP_ENABLED === 'true',
     historyBackupSchedule: process.env.S3_HISTORY_BACKUP_SCHEDULE || '0 2 * * *',
     historyBackupRetentionDays: parseInt(process.env.S3_HISTORY_BACKUP_RETENTION_DAYS || '90', 10),
+    // 'app' runs backups inside the Next.js server, 'worker' leaves them to scripts/history-backup-worker.ts
+    historyBackupRunner: (process.env.S3_HISTORY_BACKUP_RUNNER || 'app') as 'app' | 'worker',
     uploadTimeoutMs: parseInt(process.env.S3_UPLOAD_TIMEOUT_MS || '30000', 10),
     uploadMaxRetries: parseInt(process.env.S3_UPLOAD_MAX_RETRIES || '3', 10),
   },
@@ -0,0 +1,222 @@
+/**
+ * Minimal cron expression support
+ *
+ * Parses standard 5-field expressions (minute hour day-of-month month day-of-week)
+ * with `*`, lists, ranges and steps, e.g. `0 2 * * *` or `0,30 9-17 * * 1-5`.
+ * Schedules are evaluated in UTC.
+ */
+
+/**
+ * Parsed cron expression: allowed values per field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True when day-of-month is restricted (not `*`) */
+  domRestricted: boolean;
+  /** True when day-of-week is restricted (not `*`) */
+  dowRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7]   // day of week (0 and 7 are Sunday)
+];
+
+/**
+ * Search limit for the next run (covers leap-day schedules)
+ */
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+/**
+ * Parse one cron field into its allowed values
+ */
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in "${field}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(Number);
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression
+ * @param expression - Cron expression
+ * @throws Error if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+      parseField(field, FIELD_RANGES[i])
+    );
+
+    // Treat 7 as Sunday
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.delete(7);
+      daysOfWeek.add(0);
+    }
+
+    return {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      domRestricted: fields[2] !== '*',
+      dowRestricted: fields[4] !== '*'
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Check whether a day matches the day-of-month / day-of-week fields
+ * (standard cron: if both are restricted, either may match)
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Compute the next time a cron expression fires, strictly after a given time
+ * @param expression - Cron expression (or parsed schedule)
+ * @param after - Reference time (default: now)
+ * @returns Next run time
+ * @throws Error if the expression is invalid or never fires
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date = new Date()): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  // Start at the next whole minute
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1) || !matchesDay(schedule, candidate)) {
+      // Skip to the start of the next day
+      candidate.setUTCHours(24, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error('Cron expression never fires');
+}
+
+/**
+ * Handle returned by scheduleCron
+ */
+export interface CronJob {
+  stop(): void;
+}
+
+/**
+ * Longest delay setTimeout supports (~24.8 days); longer waits are chained
+ */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Run a task on a cron schedule in the current process
+ *
+ * Runs never overlap: the next run is scheduled only after the current one
+ * finishes. The task is expected to handle its own errors.
+ *
+ * @param expression - Cron expression
+ * @param task - Task to run
+ * @param onScheduled - Called with the time of each upcoming run
+ * @returns Job handle
+ * @throws Error if the cron expression is invalid
+ */
+export function scheduleCron(
+  expression: string,
+  task: () => Promise<unknown>,
+  onScheduled?: (nextRun: Date) => void
+): CronJob {
+  const parsed = parseCron(expression);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const scheduleNext = () => {
+    if (stopped) return;
+
+    const nextRun = nextCronRun(parsed);
+    onScheduled?.(nextRun);
+
+    const wait = () => {
+      if (stopped) return;
+      const delay = nextRun.getTime() - Date.now();
+      if (delay > MAX_TIMEOUT_MS) {
+        timer = setTimeout(wait, MAX_TIMEOUT_MS);
+      } else {
+        timer = setTimeout(async () => {
+          await task();
+          scheduleNext();
+        }, Math.max(delay, 0));
+      }
+    };
+
+    wait();
+  };
+
+  scheduleNext();
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    }
+  };
+}
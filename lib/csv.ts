@@ -0,0 +1,178 @@
+/**
+ * CSV Parsing Utility
+ *
+ * Minimal RFC 4180 parser for bulk asset imports. Supports quoted fields,
+ * escaped quotes, embedded newlines, CRLF line endings and a UTF-8 BOM.
+ */
+
+/**
+ * A single bulk-import row mapped onto asset fields
+ */
+export interface AssetCsvRow {
+  /** 1-based row number in the CSV, counting the header row if present */
+  row: number;
+  /** Image URL (http/https) or path under public/ (e.g. /uploads/foo.png) */
+  image: string;
+  meta_description: string;
+  date: string;
+  text_overlay_content?: string;
+}
+
+/**
+ * Column order used when the CSV has no header row (SPEC.md 1.1)
+ */
+const POSITIONAL_COLUMNS = ['date', 'asset_url', 'meta_description', 'text_overlay_content'] as const;
+
+/**
+ * Accepted header names for each asset field
+ */
+const HEADER_ALIASES: Record<keyof Omit<AssetCsvRow, 'row'>, string[]> = {
+  image: ['asset_url', 'image_url', 'image_path', 'image', 'url', 'path'],
+  meta_description: ['meta_description', 'description'],
+  date: ['date'],
+  text_overlay_content: ['text_overlay_content', 'text_overlay', 'overlay_text']
+};
+
+/**
+ * Parse CSV text into rows of raw string fields
+ *
+ * @param text - CSV file contents
+ * @returns Array of rows, each an array of field values (blank lines skipped)
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          // Escaped quote inside quoted field
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat CRLF as a single line break
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Malformed CSV: unterminated quoted field');
+  }
+
+  // Flush last row if file doesn't end with a newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Normalize a header cell for alias matching
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Find the column index for a field given the header row
+ */
+function findColumn(headers: string[], field: keyof typeof HEADER_ALIASES): number {
+  return headers.findIndex(h => HEADER_ALIASES[field].includes(h));
+}
+
+/**
+ * Parse a bulk-import CSV into asset rows
+ *
+ * A header row is used when it names the image and description columns.
+ * Otherwise columns are read positionally as
+ * `date, asset_url, meta_description[, text_overlay_content]`.
+ * Field values are trimmed; validation is left to the caller.
+ *
+ * @param text - CSV file contents
+ * @returns Parsed asset rows
+ * @throws Error if the CSV is malformed or has no data rows
+ */
+export function parseAssetCsv(text: string): AssetCsvRow[] {
+  const rows = parseCsv(text);
+
+  if (rows.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const headers = rows[0].map(normalizeHeader);
+  const hasHeader = findColumn(headers, 'image') !== -1 && findColumn(headers, 'meta_description') !== -1;
+
+  const columns = hasHeader
+    ? {
+        image: findColumn(headers, 'image'),
+        meta_description: findColumn(headers, 'meta_description'),
+        date: findColumn(headers, 'date'),
+        text_overlay_content: findColumn(headers, 'text_overlay_content')
+      }
+    : {
+        image: POSITIONAL_COLUMNS.indexOf('asset_url'),
+        meta_description: POSITIONAL_COLUMNS.indexOf('meta_description'),
+        date: POSITIONAL_COLUMNS.indexOf('date'),
+        text_overlay_content: POSITIONAL_COLUMNS.indexOf('text_overlay_content')
+      };
+
+  if (!hasHeader && rows[0].length < 3) {
+    throw new Error(
+      'CSV must have a header row with asset_url and meta_description columns, ' +
+      'or at least 3 columns: date, asset_url, meta_description'
+    );
+  }
+
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const lineOffset = hasHeader ? 2 : 1;
+
+  if (dataRows.length === 0) {
+    throw new Error('CSV file has no data rows');
+  }
+
+  const cell = (values: string[], index: number): string =>
+    index === -1 ? '' : (values[index] ?? '').trim();
+
+  return dataRows.map((values, idx) => {
+    const textOverlay = cell(values, columns.text_overlay_content);
+    return {
+      row: idx + lineOffset,
+      image: cell(values, columns.image),
+      meta_description: cell(values, columns.meta_description),
+      date: cell(values, columns.date),
+      ...(textOverlay ? { text_overlay_content: textOverlay } : {})
+    };
+  });
+}
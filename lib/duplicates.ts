@@ -0,0 +1,189 @@
+/**
+ * Duplicate Upload Detection
+ *
+ * Uploads are fingerprinted with a SHA-256 of the file (exact duplicates)
+ * and a 64-bit difference hash of the image (near-duplicates: re-exports,
+ * resized or recompressed copies). Both hashes are stored on the asset so
+ * later uploads, and searches, can compare against them.
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { config } from './config';
+import { readHistory } from './history';
+import type { AssetMetadata, DuplicateMatch } from './types';
+
+/**
+ * Hashes stored on an asset
+ */
+export interface ImageHashes {
+  content_hash: string;
+  perceptual_hash: string;
+}
+
+/**
+ * Result of checking an upload against existing assets
+ */
+export interface DuplicateCheck {
+  /** Hashes of the upload (undefined if the image couldn't be decoded) */
+  hashes?: ImageHashes;
+  /** Matches to report, closest first ('off' kinds are left out) */
+  duplicates: DuplicateMatch[];
+  /** Matches configured to block the upload */
+  rejected: DuplicateMatch[];
+}
+
+/**
+ * SHA-256 of a file's contents (hex)
+ */
+export function computeContentHash(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * 64-bit difference hash (dHash) of an image (16 hex characters)
+ *
+ * The image is flattened onto white (so transparent icons hash by their
+ * visible shape), reduced to 9x8 greyscale, and each bit records whether a
+ * pixel is brighter than its right-hand neighbour.
+ *
+ * @throws Error if the image can't be decoded
+ */
+export async function computePerceptualHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+
+  return hash;
+}
+
+/**
+ * Compute both hashes of an image
+ * @throws Error if the image can't be decoded
+ */
+export async function computeImageHashes(buffer: Buffer): Promise<ImageHashes> {
+  return {
+    content_hash: computeContentHash(buffer),
+    perceptual_hash: await computePerceptualHash(buffer)
+  };
+}
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error(`Hash length mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
+
+/**
+ * Find existing assets an image duplicates, closest first
+ *
+ * Assets uploaded before hashing existed have no hashes and never match.
+ *
+ * @param assets - Existing assets
+ * @param hashes - Hashes of the new image
+ * @param nearThreshold - Max differing bits for a near-duplicate
+ */
+export function findDuplicateAssets(
+  assets: AssetMetadata[],
+  hashes: ImageHashes,
+  nearThreshold: number = config.duplicates.nearThreshold
+): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+
+  for (const asset of assets) {
+    let match: DuplicateMatch['match'] | null = null;
+    let distance = 64;
+
+    if (asset.perceptual_hash && asset.perceptual_hash.length === hashes.perceptual_hash.length) {
+      distance = hammingDistance(asset.perceptual_hash, hashes.perceptual_hash);
+      if (distance <= nearThreshold) match = 'near';
+    }
+    if (asset.content_hash && asset.content_hash === hashes.content_hash) {
+      match = 'exact';
+      distance = 0;
+    }
+    if (!match) continue;
+
+    matches.push({
+      asset_id: asset.id,
+      match,
+      distance,
+      asset_url: asset.asset_url,
+      meta_description: asset.meta_description,
+      date: asset.date,
+      status: asset.status
+    });
+  }
+
+  return matches.sort((a, b) =>
+    (a.match === b.match ? 0 : a.match === 'exact' ? -1 : 1) || a.distance - b.distance
+  );
+}
+
+/**
+ * Hash an upload and compare it against every existing asset
+ *
+ * Images that can't be decoded skip the check (they are stored without
+ * hashes) rather than failing the upload.
+ *
+ * @param buffer - Uploaded file
+ * @returns Hashes, reportable matches, and matches that block the upload
+ */
+export async function checkForDuplicates(buffer: Buffer): Promise<DuplicateCheck> {
+  let hashes: ImageHashes;
+  try {
+    hashes = await computeImageHashes(buffer);
+  } catch (error) {
+    console.warn('[Duplicates] Could not hash image, skipping duplicate check:', error);
+    return { duplicates: [], rejected: [] };
+  }
+
+  // Trashed assets don't count: re-uploading a deleted image is not a duplicate
+  const history = await readHistory();
+  const liveAssets = history.assets.filter(asset => !asset.deleted_at);
+  const duplicates = findDuplicateAssets(liveAssets, hashes)
+    .filter(match => config.duplicates[match.match] !== 'off');
+
+  return {
+    hashes,
+    duplicates,
+    rejected: duplicates.filter(match => config.duplicates[match.match] === 'reject')
+  };
+}
+
+/**
+ * Error message for an upload blocked as a duplicate
+ */
+export function duplicateErrorMessage(match: DuplicateMatch): string {
+  return match.match === 'exact'
+    ? `Duplicate of existing asset ${match.asset_id}`
+    : `Looks like existing asset ${match.asset_id} (${match.distance} of 64 bits differ)`;
+}
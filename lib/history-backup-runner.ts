@@ -0,0 +1,245 @@
+/**
+ * Scheduled History Backups
+ *
+ * Runs history backups to S3 on the S3_HISTORY_BACKUP_SCHEDULE cron schedule,
+ * prunes backups older than S3_HISTORY_BACKUP_RETENTION_DAYS, and records the
+ * last run in a status file so the health endpoint can report it from any
+ * process (Next.js server or standalone worker).
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { config } from './config';
+import { nextCronRun, scheduleCron } from './cron';
+import { readHistory } from './history';
+import {
+  backupHistoryToS3,
+  backupHistoryContentToS3,
+  listHistoryBackups,
+  deleteFromS3
+} from './s3';
+
+/**
+ * Outcome of the most recent scheduled backup
+ */
+export interface HistoryBackupStatus {
+  last_run_at?: string;
+  last_status?: 'success' | 'failed';
+  last_success_at?: string;
+  last_backup_key?: string;
+  last_error?: string;
+  last_duration_ms?: number;
+  pruned_count?: number;
+  next_run_at?: string;
+}
+
+/**
+ * Result of a single backup run
+ */
+export interface HistoryBackupRunResult {
+  success: boolean;
+  backup_key?: string;
+  pruned: string[];
+  error?: string;
+}
+
+/**
+ * Backup health as reported by the health endpoint
+ */
+export interface HistoryBackupHealth {
+  healthy: boolean;
+  enabled: boolean;
+  schedule: string;
+  retention_days: number;
+  status: HistoryBackupStatus;
+  reason?: string;
+}
+
+/**
+ * Handle returned by startHistoryBackupScheduler
+ */
+export interface HistoryBackupScheduler {
+  stop(): void;
+}
+
+/**
+ * How late a scheduled run may be before health reports it overdue
+ */
+const OVERDUE_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Read the last recorded backup status
+ * @param path - Status file path (defaults to config.paths.backupStatus)
+ */
+export function readBackupStatus(path: string = config.paths.backupStatus): HistoryBackupStatus {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    console.warn(`[Backup] Ignoring unreadable status file ${path}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Merge fields into the recorded backup status
+ */
+function writeBackupStatus(
+  update: HistoryBackupStatus,
+  path: string = config.paths.backupStatus
+): HistoryBackupStatus {
+  const status = { ...readBackupStatus(path), ...update };
+  writeFileSync(path, JSON.stringify(status, null, 2));
+  return status;
+}
+
+/**
+ * Delete backups older than the retention window
+ *
+ * The newest backup is always kept, even if it is past retention, so a
+ * stalled scheduler never leaves the bucket empty.
+ *
+ * @param retentionDays - Retention window in days
+ * @param now - Reference time
+ * @returns Deleted S3 keys
+ */
+export async function pruneHistoryBackups(
+  retentionDays: number = config.s3.historyBackupRetentionDays,
+  now: Date = new Date()
+): Promise<string[]> {
+  if (!Number.isFinite(retentionDays) || retentionDays <= 0) {
+    return [];
+  }
+
+  const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+  const [, ...olderBackups] = await listHistoryBackups();
+  const expired = olderBackups.filter(backup => new Date(backup.last_modified).getTime() < cutoff);
+
+  const deleted: string[] = [];
+  for (const backup of expired) {
+    await deleteFromS3(backup.key);
+    deleted.push(backup.key);
+  }
+
+  return deleted;
+}
+
+/**
+ * Back up the current history to S3, then prune expired backups
+ *
+ * With the database backend the history is serialized from Postgres;
+ * otherwise history.json is uploaded as-is. Never throws: failures are
+ * recorded in the status file and returned.
+ *
+ * @param statusPath - Status file path (defaults to config.paths.backupStatus)
+ * @returns Run result
+ */
+export async function runHistoryBackup(
+  statusPath: string = config.paths.backupStatus
+): Promise<HistoryBackupRunResult> {
+  const startedAt = new Date();
+
+  try {
+    const backupKey = config.database?.enabled
+      ? await backupHistoryContentToS3(
+          JSON.stringify(await readHistory(), null, 2),
+          { source: 'database' }
+        )
+      : await backupHistoryToS3(config.paths.history);
+
+    const pruned = await pruneHistoryBackups(config.s3.historyBackupRetentionDays, startedAt);
+
+    writeBackupStatus({
+      last_run_at: startedAt.toISOString(),
+      last_status: 'success',
+      last_success_at: startedAt.toISOString(),
+      last_backup_key: backupKey,
+      last_error: undefined,
+      last_duration_ms: Date.now() - startedAt.getTime(),
+      pruned_count: pruned.length
+    }, statusPath);
+
+    console.log(`[Backup] History backed up to ${backupKey}, pruned ${pruned.length} expired backup(s)`);
+
+    return { success: true, backup_key: backupKey, pruned };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    writeBackupStatus({
+      last_run_at: startedAt.toISOString(),
+      last_status: 'failed',
+      last_error: message,
+      last_duration_ms: Date.now() - startedAt.getTime()
+    }, statusPath);
+
+    console.error('[Backup] Scheduled history backup failed:', error);
+
+    return { success: false, pruned: [], error: message };
+  }
+}
+
+/**
+ * Run history backups on a cron schedule in the current process
+ *
+ * Runs never overlap: the next run is scheduled only after the current one
+ * finishes.
+ *
+ * @param schedule - Cron expression (defaults to S3_HISTORY_BACKUP_SCHEDULE)
+ * @param statusPath - Status file path (defaults to config.paths.backupStatus)
+ * @returns Scheduler handle
+ * @throws Error if the cron expression is invalid
+ */
+export function startHistoryBackupScheduler(
+  schedule: string = config.s3.historyBackupSchedule,
+  statusPath: string = config.paths.backupStatus
+): HistoryBackupScheduler {
+  const job = scheduleCron(
+    schedule,
+    () => runHistoryBackup(statusPath),
+    nextRun => writeBackupStatus({ next_run_at: nextRun.toISOString() }, statusPath)
+  );
+
+  console.log(`[Backup] History backup scheduler started (${schedule} UTC)`);
+
+  return job;
+}
+
+/**
+ * Summarize backup health for monitoring
+ *
+ * Healthy when backups are disabled, or when the last run succeeded and the
+ * next scheduled run after it is not overdue (one hour of grace).
+ *
+ * @param now - Reference time
+ */
+export function getBackupHealth(now: Date = new Date()): HistoryBackupHealth {
+  const enabled = config.s3.historyBackupEnabled;
+  const schedule = config.s3.historyBackupSchedule;
+  const status = readBackupStatus();
+  const base = { enabled, schedule, retention_days: config.s3.historyBackupRetentionDays, status };
+
+  if (!enabled) {
+    return { healthy: true, ...base };
+  }
+
+  if (status.last_status === 'failed') {
+    return { healthy: false, ...base, reason: `Last backup failed: ${status.last_error}` };
+  }
+
+  // Without a successful run yet, the first scheduled run is the deadline
+  const dueAt = status.last_success_at
+    ? nextCronRun(schedule, new Date(status.last_success_at))
+    : status.next_run_at && new Date(status.next_run_at);
+
+  if (!dueAt) {
+    return { healthy: true, ...base, reason: 'No backup has been scheduled yet' };
+  }
+
+  if (now.getTime() > dueAt.getTime() + OVERDUE_GRACE_MS) {
+    return { healthy: false, ...base, reason: `Backup overdue since ${dueAt.toISOString()}` };
+  }
+
+  return { healthy: true, ...base };
+}
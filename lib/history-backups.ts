@@ -0,0 +1,216 @@
+/**
+ * History Backup Management
+ *
+ * Lists, previews and restores the timestamped history backups written to S3
+ * by backupHistoryToS3.
+ */
+
+import { config } from './config';
+import { readHistory, updateHistory } from './history';
+import { migrateHistoryDocument, type HistoryDocument } from './history-schema';
+import {
+  listHistoryBackups,
+  readHistoryBackup,
+  backupHistoryContentToS3,
+  type HistoryBackupObject
+} from './s3';
+import type {
+  AssetMetadata,
+  HistoryData,
+  HistoryBackupInfo,
+  HistoryBackupDiff,
+  HistoryBackupPreview,
+  HistoryDiffEntry,
+  HistoryRestoreResult
+} from './types';
+
+/**
+ * Backups live under backups/; IDs are the remaining file name
+ */
+const BACKUP_KEY_DIR = 'backups/';
+
+/**
+ * Allowed backup ID format (e.g. history-2026-01-20-2026-01-20T02-00-00-000Z.json)
+ */
+const BACKUP_ID_PATTERN = /^history-[A-Za-z0-9-]+\.json$/;
+
+/**
+ * Check whether a string is a valid backup ID
+ */
+export function isValidBackupId(backupId: string): boolean {
+  return BACKUP_ID_PATTERN.test(backupId);
+}
+
+function toBackupInfo(object: HistoryBackupObject): HistoryBackupInfo {
+  return {
+    id: object.key.slice(BACKUP_KEY_DIR.length),
+    key: object.key,
+    size: object.size,
+    last_modified: object.last_modified
+  };
+}
+
+/**
+ * Parse and validate backup contents
+ * @throws Error if the backup is not valid history data
+ */
+export function parseHistoryBackup(content: string): HistoryData {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid backup: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray((data as HistoryData).assets)) {
+    throw new Error('Invalid backup: assets must be an array');
+  }
+
+  // Backups taken by older releases are upgraded to the current schema
+  let history: HistoryData;
+  try {
+    history = migrateHistoryDocument(data as HistoryDocument).document as HistoryData;
+  } catch (error) {
+    throw new Error(`Invalid backup: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const asset of history.assets) {
+    if (!asset || typeof asset.id !== 'string' || !Array.isArray(asset.versions)) {
+      throw new Error('Invalid backup: every asset needs an id and versions array');
+    }
+  }
+
+  return history;
+}
+
+function toDiffEntry(asset: AssetMetadata): HistoryDiffEntry {
+  return { id: asset.id, meta_description: asset.meta_description, status: asset.status };
+}
+
+/**
+ * Compare the current history against a backup
+ * @param current - Current history
+ * @param backup - Backup history
+ */
+export function diffHistory(current: HistoryData, backup: HistoryData): HistoryBackupDiff {
+  const currentById = new Map(current.assets.map(asset => [asset.id, asset]));
+  const backupIds = new Set(backup.assets.map(asset => asset.id));
+
+  const diff: HistoryBackupDiff = { added: [], removed: [], changed: [], unchanged_count: 0 };
+
+  for (const asset of backup.assets) {
+    const existing = currentById.get(asset.id);
+    if (!existing) {
+      diff.added.push(toDiffEntry(asset));
+    } else if (JSON.stringify(existing) !== JSON.stringify(asset)) {
+      diff.changed.push(toDiffEntry(asset));
+    } else {
+      diff.unchanged_count++;
+    }
+  }
+
+  for (const asset of current.assets) {
+    if (!backupIds.has(asset.id)) {
+      diff.removed.push(toDiffEntry(asset));
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * List history backups, newest first
+ */
+export async function listBackups(): Promise<HistoryBackupInfo[]> {
+  const objects = await listHistoryBackups();
+  return objects.map(toBackupInfo);
+}
+
+/**
+ * Load a backup by ID
+ * @returns Backup info and parsed data, or null if not found
+ * @throws Error if the ID is invalid or the backup is malformed
+ */
+async function loadBackup(
+  backupId: string
+): Promise<{ info: HistoryBackupInfo; history: HistoryData } | null> {
+  if (!isValidBackupId(backupId)) {
+    throw new Error(`Invalid backup id: ${backupId}`);
+  }
+
+  const object = await readHistoryBackup(`${BACKUP_KEY_DIR}${backupId}`);
+  if (!object) {
+    return null;
+  }
+
+  return {
+    info: toBackupInfo(object),
+    history: parseHistoryBackup(object.content)
+  };
+}
+
+/**
+ * Preview a backup against the current history
+ * @param backupId - Backup ID
+ * @returns Preview, or null if the backup doesn't exist
+ */
+export async function previewBackup(backupId: string): Promise<HistoryBackupPreview | null> {
+  const backup = await loadBackup(backupId);
+  if (!backup) {
+    return null;
+  }
+
+  const current = await readHistory();
+
+  return {
+    backup: backup.info,
+    asset_count: backup.history.assets.length,
+    version_count: backup.history.assets.reduce((sum, asset) => sum + asset.versions.length, 0),
+    current_asset_count: current.assets.length,
+    diff: diffHistory(current, backup.history)
+  };
+}
+
+/**
+ * Restore a backup as the current history
+ *
+ * Uploads a safety backup of the current history first, then swaps in the
+ * backup under the history lock. If history changes between the safety
+ * backup and the swap, the restore is aborted so nothing is lost unbacked.
+ *
+ * @param backupId - Backup ID
+ * @param actor - Caller recorded in the audit trail of every restored asset
+ * @returns Restore result, or null if the backup doesn't exist
+ */
+export async function restoreBackup(
+  backupId: string,
+  actor: string = 'system'
+): Promise<HistoryRestoreResult | null> {
+  const backup = await loadBackup(backupId);
+  if (!backup) {
+    return null;
+  }
+
+  const current = await readHistory();
+  const snapshot = JSON.stringify(current);
+
+  const safetyBackup = await backupHistoryContentToS3(
+    JSON.stringify(current, null, 2),
+    { 'restored-from': backup.info.key },
+    'pre-restore'
+  );
+
+  await updateHistory((history) => {
+    if (JSON.stringify(history) !== snapshot) {
+      throw new Error('History changed during restore; no changes were made, please retry');
+    }
+    return backup.history;
+  }, config.paths.history, { action: 'restored', actor, source: `restore ${backup.info.key}` });
+
+  return {
+    restored_from: backup.info.key,
+    safety_backup: safetyBackup,
+    asset_count: backup.history.assets.length,
+    diff: diffHistory(current, backup.history)
+  };
+}
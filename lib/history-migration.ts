@@ -0,0 +1,271 @@
+/**
+ * history.json → Postgres Migration
+ *
+ * Copies every asset and version from a history.json document into the Prisma
+ * Asset/Version tables, reporting row counts and field-level diffs.
+ *
+ * Re-runs are idempotent: assets already stored with identical data are left
+ * untouched, changed ones are upserted, and database rows that don't exist in
+ * history.json are reported but never deleted.
+ */
+
+import { Prisma } from '@prisma/client';
+import type { PrismaClient } from '@prisma/client';
+import {
+  assetToPrismaData,
+  versionToPrismaData,
+  prismaToAsset,
+  type PrismaAssetWithVersions
+} from './prisma-mapping';
+import { withHistoryLock, loadAssets, saveAsset } from './prisma-history-repository';
+import { ASSET_STATUSES } from './history-schema';
+import type { AssetMetadata, HistoryData } from './types';
+
+/**
+ * A single differing field between history.json and the database
+ */
+export interface FieldDiff {
+  /** Dotted path, e.g. `versions[1].prompt_used` */
+  path: string;
+  /** Value from history.json (undefined if absent) */
+  expected: unknown;
+  /** Value stored in the database (undefined if absent) */
+  actual: unknown;
+}
+
+/**
+ * Field-level differences for one asset
+ */
+export interface AssetDiff {
+  id: string;
+  diffs: FieldDiff[];
+}
+
+/**
+ * Row counts for one side of the migration
+ */
+export interface MigrationCounts {
+  assets: number;
+  versions: number;
+}
+
+/**
+ * Result of a migration (or dry run)
+ */
+export interface HistoryMigrationReport {
+  dryRun: boolean;
+  source: MigrationCounts;
+  /** Database counts before the migration */
+  database: MigrationCounts;
+  /** Assets not yet in the database */
+  created: string[];
+  /** Assets in the database whose data differs from history.json */
+  updated: AssetDiff[];
+  /** Assets already identical in the database */
+  unchanged: string[];
+  /** Assets only present in the database (left in place) */
+  extra: string[];
+  /** Source assets that could not be mapped */
+  invalid: Array<{ id: string; error: string }>;
+  /** Post-write comparison of history.json against the database (omitted on dry run) */
+  verification?: MigrationCounts & { mismatches: AssetDiff[] };
+}
+
+/**
+ * Options for migrateHistoryToDatabase
+ */
+export interface HistoryMigrationOptions {
+  /** Compute the report without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Replace Prisma.DbNull placeholders with the null the database returns
+ */
+function withNulls<T extends object>(data: T): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, value === Prisma.DbNull ? null : value])
+  );
+}
+
+/**
+ * Convert an asset to the exact form it reads back as from the database
+ * (applies column defaults, drops empty optionals, normalizes timestamps)
+ *
+ * @throws Error if the asset cannot be represented by the Prisma models
+ */
+export function toDatabaseShape(asset: AssetMetadata): AssetMetadata {
+  const row = {
+    ...withNulls(assetToPrismaData(asset)),
+    versions: asset.versions.map(version => withNulls(versionToPrismaData(asset.id, version)))
+  };
+  return prismaToAsset(row as unknown as PrismaAssetWithVersions);
+}
+
+/**
+ * Check that a history.json asset has the fields the database requires
+ * @returns Error message, or null if valid
+ */
+function validateSourceAsset(asset: AssetMetadata): string | null {
+  if (!asset || typeof asset !== 'object') return 'Asset must be an object';
+  if (!asset.id || typeof asset.id !== 'string') return 'Missing id';
+  if (!ASSET_STATUSES.includes(asset.status)) return `Invalid status: ${asset.status}`;
+  if (!asset.created_at || isNaN(Date.parse(asset.created_at))) return 'Invalid created_at';
+  if (!Array.isArray(asset.versions)) return 'versions must be an array';
+
+  const seen = new Set<number>();
+  for (const version of asset.versions) {
+    if (!Number.isInteger(version?.version)) return 'Version number must be an integer';
+    if (seen.has(version.version)) return `Duplicate version ${version.version}`;
+    seen.add(version.version);
+  }
+
+  return null;
+}
+
+/**
+ * Compare two JSON-like values and list differing leaf paths
+ * @param expected - Value from history.json
+ * @param actual - Value from the database
+ * @param path - Path prefix for nested values
+ */
+export function diffFields(expected: unknown, actual: unknown, path = ''): FieldDiff[] {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const diffs: FieldDiff[] = [];
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      diffs.push(...diffFields(expected[i], actual[i], `${path}[${i}]`));
+    }
+    return diffs;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    const diffs: FieldDiff[] = [];
+    for (const key of [...keys].sort()) {
+      diffs.push(...diffFields(expected[key], actual[key], path ? `${path}.${key}` : key));
+    }
+    return diffs;
+  }
+
+  return expected === actual ? [] : [{ path, expected, actual }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function countVersions(assets: AssetMetadata[]): number {
+  return assets.reduce((sum, asset) => sum + asset.versions.length, 0);
+}
+
+/**
+ * Migrate history.json data into the database
+ *
+ * Runs under the same advisory lock as app history updates, so the app can
+ * stay online. Writes happen in one transaction: a failure leaves the
+ * database unchanged.
+ *
+ * @param client - Prisma client
+ * @param history - Parsed history.json contents
+ * @param options - Migration options
+ * @returns Migration report
+ */
+export async function migrateHistoryToDatabase(
+  client: PrismaClient,
+  history: HistoryData,
+  options: HistoryMigrationOptions = {}
+): Promise<HistoryMigrationReport> {
+  const dryRun = options.dryRun ?? false;
+
+  return withHistoryLock(client, async (tx) => {
+    const existing = await loadAssets(tx);
+    const existingById = new Map(existing.map(asset => [asset.id, asset]));
+    const sourceIds = new Set<string>();
+
+    const report: HistoryMigrationReport = {
+      dryRun,
+      source: { assets: history.assets.length, versions: 0 },
+      database: { assets: existing.length, versions: countVersions(existing) },
+      created: [],
+      updated: [],
+      unchanged: [],
+      extra: [],
+      invalid: []
+    };
+
+    const expectedById = new Map<string, AssetMetadata>();
+
+    for (const asset of history.assets) {
+      const id = typeof asset?.id === 'string' ? asset.id : '(missing id)';
+      report.source.versions += Array.isArray(asset?.versions) ? asset.versions.length : 0;
+
+      const validationError = validateSourceAsset(asset);
+      if (validationError) {
+        report.invalid.push({ id, error: validationError });
+        continue;
+      }
+
+      if (sourceIds.has(asset.id)) {
+        report.invalid.push({ id, error: 'Duplicate asset id' });
+        continue;
+      }
+      sourceIds.add(asset.id);
+
+      let expected: AssetMetadata;
+      try {
+        expected = toDatabaseShape(asset);
+      } catch (error) {
+        report.invalid.push({ id, error: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+      expectedById.set(asset.id, expected);
+
+      const stored = existingById.get(asset.id);
+      if (!stored) {
+        report.created.push(asset.id);
+        continue;
+      }
+
+      const diffs = diffFields(expected, stored);
+      if (diffs.length === 0) {
+        report.unchanged.push(asset.id);
+      } else {
+        report.updated.push({ id: asset.id, diffs });
+      }
+    }
+
+    const allSourceIds = new Set(history.assets.map(asset => asset?.id));
+    report.extra = existing.filter(asset => !allSourceIds.has(asset.id)).map(asset => asset.id);
+
+    if (dryRun) {
+      return report;
+    }
+
+    for (const id of [...report.created, ...report.updated.map(u => u.id)]) {
+      await saveAsset(tx, expectedById.get(id)!, existingById.get(id));
+    }
+
+    // Verify by reading back everything that should now match history.json
+    const migrated = await loadAssets(tx);
+    const migratedById = new Map(migrated.map(asset => [asset.id, asset]));
+    const mismatches: AssetDiff[] = [];
+
+    for (const [id, expected] of expectedById) {
+      const stored = migratedById.get(id);
+      const diffs = stored
+        ? diffFields(expected, stored)
+        : [{ path: 'id', expected: id, actual: undefined }];
+      if (diffs.length > 0) {
+        mismatches.push({ id, diffs });
+      }
+    }
+
+    report.verification = {
+      assets: migrated.length,
+      versions: countVersions(migrated),
+      mismatches
+    };
+
+    return report;
+  });
+}
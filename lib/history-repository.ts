@@ -0,0 +1,291 @@
+/**
+ * History Repository
+ *
+ * Persistence backends behind lib/history.ts:
+ * - File: history.json guarded by proper-lockfile (default)
+ * - Prisma: Postgres Asset/Version tables, used when DATABASE_URL is set
+ *   (see prisma-history-repository.ts)
+ *
+ * Both expose the same whole-document read / read-modify-write contract so
+ * callers of readHistory/updateHistory don't need to know which is active.
+ * Every update also records audit events for the assets it changed, written
+ * under the same lock (file) or transaction (Prisma) as the history itself.
+ *
+ * history.json is upgraded to the current schema version under the lock the
+ * first time it is read (the original is kept as history.json.schema-v<n>.bak).
+ * Records that fail validation are left out of the history callers see,
+ * reported, and written back untouched on every update.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, copyFileSync } from 'fs';
+import { dirname } from 'path';
+import lockfile from 'proper-lockfile';
+import { config } from './config';
+import { LOCK_OPTIONS } from './json-store';
+import { buildAuditEvents, appendAuditLog, readAuditLog, getAuditLogPath } from './audit';
+import {
+  CURRENT_HISTORY_SCHEMA_VERSION,
+  migrateHistoryDocument,
+  validateHistoryRecords,
+  type HistoryDocument,
+  type HistoryMigrationResult
+} from './history-schema';
+import type { AuditContext, AuditEvent, HistoryData, HistoryRecordIssue } from './types';
+
+/**
+ * Storage backend for history data
+ */
+export interface HistoryRepository {
+  /** Read the full history */
+  read(): Promise<HistoryData>;
+  /** Atomically apply an update function to the full history and audit the changes */
+  update(updateFn: (history: HistoryData) => HistoryData, audit?: AuditContext): Promise<void>;
+  /** Read an asset's audit trail, oldest first */
+  readAudit(assetId: string): Promise<AuditEvent[]>;
+}
+
+/**
+ * Validate the value returned by an update function
+ */
+export function validateHistoryData(history: HistoryData): void {
+  if (!history || typeof history !== 'object') {
+    throw new Error('Invalid history data: data must be an object');
+  }
+
+  if (!Array.isArray(history.assets)) {
+    throw new Error('Invalid history data: assets must be an array');
+  }
+}
+
+/**
+ * Initialize history file if it doesn't exist
+ */
+function initializeHistoryFile(path: string): void {
+  if (!existsSync(path)) {
+    const dir = dirname(path);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(path, JSON.stringify({ schema_version: CURRENT_HISTORY_SCHEMA_VERSION, assets: [] }, null, 2));
+  }
+}
+
+/**
+ * history.json contents after upgrading and validation
+ */
+interface LoadedHistoryFile {
+  /** Valid assets, as callers see them */
+  history: HistoryData;
+  /** Records that failed validation, kept so updates can write them back */
+  rejected: unknown[];
+  issues: HistoryRecordIssue[];
+  /** Set when the stored document was on an older schema version */
+  upgrade: HistoryMigrationResult | null;
+}
+
+/**
+ * Internal read function without locking
+ * @param path - Path to history file
+ * @returns Upgraded, validated history
+ * @throws SyntaxError if the file isn't JSON; Error if it can't be upgraded
+ */
+function readHistoryFile(path: string): LoadedHistoryFile {
+  const content = readFileSync(path, 'utf8');
+  const empty = (): LoadedHistoryFile => ({
+    history: { schema_version: CURRENT_HISTORY_SCHEMA_VERSION, assets: [] },
+    rejected: [],
+    issues: [],
+    upgrade: null
+  });
+
+  if (!content || content.trim() === '') {
+    return empty();
+  }
+
+  const data = JSON.parse(content);
+
+  // Validate structure
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid history data structure');
+  }
+
+  // Ensure assets array exists
+  if (!Array.isArray(data.assets)) {
+    return empty();
+  }
+
+  const result = migrateHistoryDocument(data as HistoryDocument);
+  const { assets, issues } = validateHistoryRecords(result.document.assets);
+  const rejectedIndexes = new Set(issues.map(issue => issue.index));
+
+  return {
+    history: { ...(data as object), schema_version: result.to, assets },
+    rejected: result.document.assets.filter((_, index) => rejectedIndexes.has(index)),
+    issues,
+    upgrade: result.applied.length > 0 ? result : null
+  };
+}
+
+/**
+ * Keep a copy of a history file before it is rewritten on a new schema version
+ */
+function backUpBeforeUpgrade(path: string, upgrade: HistoryMigrationResult): void {
+  // Nothing worth keeping in an empty history
+  if (upgrade.document.assets.length === 0) return;
+
+  const backupPath = `${path}.schema-v${upgrade.from}.bak`;
+  if (!existsSync(backupPath)) {
+    copyFileSync(path, backupPath);
+  }
+  console.log(
+    `[History] Upgraded ${path} from schema v${upgrade.from} to v${upgrade.to} ` +
+    `(${upgrade.applied.map(m => m.description).join('; ')}); original kept at ${backupPath}`
+  );
+}
+
+/**
+ * Last issue report logged per history file, so polling reads don't repeat it
+ */
+const reportedIssues = new Map<string, string>();
+
+/**
+ * Log malformed records once per distinct set of issues
+ */
+function reportIssues(path: string, issues: HistoryRecordIssue[]): void {
+  const signature = JSON.stringify(issues);
+  if (reportedIssues.get(path) === signature) return;
+  reportedIssues.set(path, signature);
+
+  for (const issue of issues) {
+    console.warn(
+      `[History] Skipping malformed record #${issue.index}${issue.id ? ` (${issue.id})` : ''} in ${path}: ` +
+      issue.errors.join('; ')
+    );
+  }
+}
+
+/**
+ * Schema and validation status of a history.json file
+ */
+export interface HistoryFileReport {
+  path: string;
+  schema_version: number;
+  /** Version the file is stored with (lower until the next read upgrades it) */
+  stored_schema_version: number;
+  asset_count: number;
+  issues: HistoryRecordIssue[];
+}
+
+/**
+ * Inspect a history.json file without modifying it
+ * @param path - Path to history file
+ * @throws Error if the file can't be read, parsed or upgraded
+ */
+export async function inspectHistoryFile(path: string = config.paths.history): Promise<HistoryFileReport> {
+  initializeHistoryFile(path);
+
+  let release: (() => Promise<void>) | undefined;
+
+  try {
+    release = await lockfile.lock(path, LOCK_OPTIONS);
+    const loaded = readHistoryFile(path);
+    return {
+      path,
+      schema_version: CURRENT_HISTORY_SCHEMA_VERSION,
+      stored_schema_version: loaded.upgrade?.from ?? CURRENT_HISTORY_SCHEMA_VERSION,
+      asset_count: loaded.history.assets.length,
+      issues: loaded.issues
+    };
+  } finally {
+    if (release) await release();
+  }
+}
+
+/**
+ * Create a repository backed by a history.json file
+ *
+ * Audit events are appended to a JSON-lines journal beside the history file
+ * (history.json -> history.audit.jsonl).
+ *
+ * @param path - Path to history file
+ */
+export function createFileHistoryRepository(path: string): HistoryRepository {
+  return {
+    async read() {
+      initializeHistoryFile(path);
+
+      let release: (() => Promise<void>) | undefined;
+
+      try {
+        release = await lockfile.lock(path, LOCK_OPTIONS);
+        const loaded = readHistoryFile(path);
+        reportIssues(path, loaded.issues);
+
+        if (loaded.upgrade) {
+          backUpBeforeUpgrade(path, loaded.upgrade);
+          writeFileSync(path, JSON.stringify(loaded.upgrade.document, null, 2));
+        }
+
+        return loaded.history;
+      } finally {
+        if (release) await release();
+      }
+    },
+
+    async update(updateFn, audit) {
+      initializeHistoryFile(path);
+
+      let release: (() => Promise<void>) | undefined;
+
+      try {
+        release = await lockfile.lock(path, LOCK_OPTIONS);
+
+        // Parse twice: updateFn may mutate its copy in place
+        const before = readHistoryFile(path);
+        const newHistory = updateFn(readHistoryFile(path).history);
+        validateHistoryData(newHistory);
+
+        if (before.upgrade) {
+          backUpBeforeUpgrade(path, before.upgrade);
+        }
+
+        // Malformed records go back untouched so they can be fixed by hand
+        const stored = {
+          ...newHistory,
+          schema_version: CURRENT_HISTORY_SCHEMA_VERSION,
+          assets: [...newHistory.assets, ...before.rejected]
+        };
+        writeFileSync(path, JSON.stringify(stored, null, 2));
+        appendAuditLog(getAuditLogPath(path), buildAuditEvents(before.history, newHistory, audit));
+      } finally {
+        if (release) await release();
+      }
+    },
+
+    async readAudit(assetId) {
+      return readAuditLog(getAuditLogPath(path), assetId);
+    }
+  };
+}
+
+/**
+ * Select the repository for a history path
+ *
+ * Uses Postgres when DATABASE_URL is configured, otherwise the given file.
+ *
+ * @param path - Path to history file (file backend only)
+ * @throws Error if the database is enabled but the Prisma client is unavailable
+ */
+export async function getHistoryRepository(
+  path: string = config.paths.history
+): Promise<HistoryRepository> {
+  if (config.database?.enabled) {
+    // Loaded lazily so the file backend never requires a generated Prisma client
+    const { prisma } = await import('./prisma');
+    const { createPrismaHistoryRepository } = await import('./prisma-history-repository');
+    if (!prisma) {
+      throw new Error('DATABASE_URL is set but the Prisma client could not be initialized');
+    }
+    return createPrismaHistoryRepository(prisma);
+  }
+
+  return createFileHistoryRepository(path);
+}
@@ -0,0 +1,264 @@
+/**
+ * History Schema Versioning
+ *
+ * history.json records the schema_version it was written with. Documents
+ * from older releases are upgraded when read by running, in order, every
+ * migration in HISTORY_MIGRATIONS newer than the stored version. Records that
+ * still don't match AssetMetadata afterwards are reported by
+ * validateHistoryRecords instead of being handed to routes.
+ */
+
+import type { AssetMetadata, HistoryRecordIssue, Status } from './types';
+
+/**
+ * Statuses an asset record may have
+ */
+export const ASSET_STATUSES: Status[] = ['Draft', 'Ready', 'Scheduled', 'Published', 'Failed', 'Archived'];
+
+/**
+ * history.json contents as stored, before validation
+ */
+export interface HistoryDocument {
+  schema_version?: number;
+  assets: unknown[];
+}
+
+/**
+ * An upgrade step between two consecutive schema versions
+ */
+export interface HistoryMigration {
+  /** Schema version the migration produces (the previous one is version - 1) */
+  version: number;
+  description: string;
+  /** Upgrade a document in place */
+  migrate(document: HistoryDocument): void;
+}
+
+/**
+ * Result of upgrading a document
+ */
+export interface HistoryMigrationResult {
+  document: HistoryDocument;
+  /** Version the document was stored with (0 if it had none) */
+  from: number;
+  to: number;
+  /** Migrations that ran, oldest first */
+  applied: Array<Pick<HistoryMigration, 'version' | 'description'>>;
+}
+
+type RecordObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RecordObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse integers that older releases stored as strings ("2")
+ */
+function toInteger(value: unknown): unknown {
+  return typeof value === 'string' && /^\d+$/.test(value.trim()) ? parseInt(value, 10) : value;
+}
+
+/**
+ * Call fn for every asset record that is an object
+ */
+function eachRecord(document: HistoryDocument, fn: (record: RecordObject) => void): void {
+  for (const record of document.assets) {
+    if (isObject(record)) fn(record);
+  }
+}
+
+/**
+ * Ordered schema migrations; append new ones with the next version number
+ */
+export const HISTORY_MIGRATIONS: HistoryMigration[] = [
+  {
+    version: 1,
+    description: 'Normalize legacy field types (versions arrays, numeric version numbers, status casing)',
+    migrate(document) {
+      eachRecord(document, (record) => {
+        if (record.versions === undefined || record.versions === null) {
+          record.versions = [];
+        }
+        if (Array.isArray(record.versions)) {
+          for (const version of record.versions) {
+            if (isObject(version)) version.version = toInteger(version.version);
+          }
+        }
+
+        if (record.active_version === null) {
+          delete record.active_version;
+        } else if (record.active_version !== undefined) {
+          record.active_version = toInteger(record.active_version);
+        }
+
+        if (typeof record.status === 'string') {
+          const status = ASSET_STATUSES.find(s => s.toLowerCase() === (record.status as string).toLowerCase());
+          if (status) record.status = status;
+        }
+      });
+    }
+  },
+  {
+    version: 2,
+    description: 'Mark placeholder versions that never got a background file as missing_file',
+    migrate(document) {
+      // Early releases recorded a version before generation finished: empty
+      // file_path and the asset description as prompt_used. Nothing can render
+      // them, but they are kept (and stay active if they were) for review.
+      eachRecord(document, (record) => {
+        if (!Array.isArray(record.versions)) return;
+
+        for (const version of record.versions) {
+          if (isObject(version) && (typeof version.file_path !== 'string' || version.file_path.trim() === '')) {
+            version.file_path = '';
+            version.missing_file = true;
+          }
+        }
+      });
+    }
+  }
+];
+
+/**
+ * Schema version written by this release
+ */
+export const CURRENT_HISTORY_SCHEMA_VERSION = HISTORY_MIGRATIONS[HISTORY_MIGRATIONS.length - 1].version;
+
+/**
+ * Upgrade a parsed history document to the current schema version
+ *
+ * @param document - Parsed history.json (mutated in place)
+ * @param migrations - Migration registry (defaults to HISTORY_MIGRATIONS)
+ * @returns Upgraded document and the migrations that ran
+ * @throws Error if the document was written by a newer release or the registry is out of order
+ */
+export function migrateHistoryDocument(
+  document: HistoryDocument,
+  migrations: HistoryMigration[] = HISTORY_MIGRATIONS
+): HistoryMigrationResult {
+  const target = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  const from = Number.isInteger(document.schema_version) ? document.schema_version! : 0;
+
+  if (from > target) {
+    throw new Error(`history.json schema version ${from} is newer than supported version ${target}`);
+  }
+
+  const applied: HistoryMigrationResult['applied'] = [];
+  let current = from;
+  for (const migration of migrations) {
+    if (migration.version <= from) continue;
+    if (migration.version !== current + 1) {
+      throw new Error(`History migrations out of order: expected version ${current + 1}, got ${migration.version}`);
+    }
+
+    migration.migrate(document);
+    current = migration.version;
+    document.schema_version = current;
+    applied.push({ version: migration.version, description: migration.description });
+  }
+
+  document.schema_version = target;
+  return { document, from, to: target, applied };
+}
+
+/**
+ * List what's wrong with a stored asset record
+ * @returns Problems found (empty if the record is a valid AssetMetadata)
+ */
+export function validateAssetRecord(record: unknown): string[] {
+  if (!isObject(record)) {
+    return ['Record must be an object'];
+  }
+
+  const errors: string[] = [];
+  const requireString = (field: string, allowEmpty = false) => {
+    const value = record[field];
+    if (typeof value !== 'string' || (!allowEmpty && value.trim() === '')) {
+      errors.push(`${field} must be a${allowEmpty ? '' : ' non-empty'} string`);
+    }
+  };
+
+  requireString('id');
+  requireString('date');
+  requireString('asset_url');
+  requireString('meta_description', true);
+  requireString('created_at');
+
+  if (!ASSET_STATUSES.includes(record.status as Status)) {
+    errors.push(`Invalid status: ${JSON.stringify(record.status)}`);
+  }
+
+  if (record.active_version !== undefined && !Number.isInteger(record.active_version)) {
+    errors.push('active_version must be an integer');
+  }
+
+  if (!Array.isArray(record.versions)) {
+    errors.push('versions must be an array');
+    return errors;
+  }
+
+  const seen = new Set<number>();
+  record.versions.forEach((version: unknown, index: number) => {
+    if (!isObject(version)) {
+      errors.push(`versions[${index}] must be an object`);
+      return;
+    }
+    if (!Number.isInteger(version.version) || (version.version as number) < 1) {
+      errors.push(`versions[${index}].version must be a positive integer`);
+    } else if (seen.has(version.version as number)) {
+      errors.push(`versions[${index}]: duplicate version ${version.version}`);
+    } else {
+      seen.add(version.version as number);
+    }
+    if (typeof version.file_path !== 'string') {
+      errors.push(`versions[${index}].file_path must be a string`);
+    } else if (version.file_path.trim() === '' && version.missing_file !== true) {
+      errors.push(`versions[${index}].file_path must be a non-empty string unless missing_file is set`);
+    }
+    if (typeof version.prompt_used !== 'string') {
+      errors.push(`versions[${index}].prompt_used must be a string`);
+    }
+    if (typeof version.created_at !== 'string') {
+      errors.push(`versions[${index}].created_at must be a string`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Split stored records into valid assets and reported issues
+ *
+ * A record whose id repeats an earlier valid record is reported as a duplicate.
+ *
+ * @param records - Asset records as stored
+ * @returns Valid assets in stored order, and one issue per rejected record
+ */
+export function validateHistoryRecords(records: unknown[]): {
+  assets: AssetMetadata[];
+  issues: HistoryRecordIssue[];
+} {
+  const assets: AssetMetadata[] = [];
+  const issues: HistoryRecordIssue[] = [];
+  const ids = new Set<string>();
+
+  records.forEach((record, index) => {
+    const errors = validateAssetRecord(record);
+    const id = isObject(record) && typeof record.id === 'string' ? record.id : undefined;
+
+    if (errors.length === 0 && ids.has(id!)) {
+      errors.push('Duplicate asset id');
+    }
+
+    if (errors.length > 0) {
+      issues.push({ index, ...(id ? { id } : {}), errors });
+      return;
+    }
+
+    ids.add(id!);
+    assets.push(record as unknown as AssetMetadata);
+  });
+
+  return { assets, issues };
+}
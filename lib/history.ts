@@ -1,127 +1,59 @@
 /**
- * History management utility with file locking
- * Provides thread-safe operations for reading and writing history.json
+ * History management utility with locking
+ * Provides safe concurrent operations for reading and writing history, backed by
+ * history.json (file lock) or Postgres via Prisma when DATABASE_URL is set
  */
 
-import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { dirname } from 'path';
-import { mkdirSync } from 'fs';
-import lockfile from 'proper-lockfile';
 import { config } from './config';
-import type { HistoryData, AssetMetadata, Status } from './types';
+import { getHistoryRepository } from './history-repository';
+import { assertRevision, bumpRevisions, snapshotAssets } from './revision';
+import type { HistoryData, AssetMetadata, AuditContext, AuditEvent, Status } from './types';
 
 /**
- * Lock options for proper-lockfile
- */
-const LOCK_OPTIONS = {
-  retries: { retries: 10, minTimeout: 100, maxTimeout: 2000 },
-  stale: 10000
-};
-
-/**
- * Initialize history file if it doesn't exist
- */
-function initializeHistoryFile(path: string): void {
-  if (!existsSync(path)) {
-    const dir = dirname(path);
-    mkdirSync(dir, { recursive: true });
-    writeFileSync(path, JSON.stringify({ assets: [] }, null, 2));
-  }
-}
-
-/**
- * Internal read function without locking
- * @param path - Path to history file
- * @returns History data
- */
-function readHistoryInternal(path: string): HistoryData {
-  const content = readFileSync(path, 'utf8');
-
-  if (!content || content.trim() === '') {
-    return { assets: [] };
-  }
-
-  const data = JSON.parse(content);
-
-  // Validate structure
-  if (!data || typeof data !== 'object') {
-    throw new Error('Invalid history data structure');
-  }
-
-  // Ensure assets array exists
-  if (!Array.isArray(data.assets)) {
-    return { assets: [] };
-  }
-
-  return data;
-}
-
-/**
- * Read history.json with file locking
+ * Read history with locking
  * @param path - Path to history file (defaults to config.paths.history)
  * @returns Promise resolving to history data
- * @throws Error if file operation fails or lock cannot be acquired
+ * @throws Error if storage operation fails or lock cannot be acquired
  */
 export async function readHistory(path: string = config.paths.history): Promise<HistoryData> {
-  initializeHistoryFile(path);
-
-  let release: (() => Promise<void>) | undefined;
-
   try {
-    // Acquire lock
-    release = await lockfile.lock(path, LOCK_OPTIONS);
-
-    // Read file
-    return readHistoryInternal(path);
+    const repository = await getHistoryRepository(path);
+    return await repository.read();
   } catch (error) {
     if (error instanceof SyntaxError) {
       throw new Error(`Failed to parse history.json: ${error.message}`);
     }
     throw new Error(`Failed to read history: ${error instanceof Error ? error.message : String(error)}`);
-  } finally {
-    if (release) await release();
   }
 }
 
 /**
- * Update history.json with file locking using a callback function
+ * Update history with locking using a callback function
+ *
+ * Every asset the update changes gets its revision bumped and an audit event
+ * with before/after values of the changed fields.
+ *
  * @param updateFn - Function that takes current history and returns updated history
  * @param path - Path to history file (defaults to config.paths.history)
- * @throws Error if file operation fails or lock cannot be acquired
+ * @param audit - Actor and action recorded in the audit trail
+ * @throws Error if storage operation fails or lock cannot be acquired
  */
 export async function updateHistory(
   updateFn: (history: HistoryData) => HistoryData,
-  path: string = config.paths.history
+  path: string = config.paths.history,
+  audit?: AuditContext
 ): Promise<void> {
-  initializeHistoryFile(path);
-
-  let release: (() => Promise<void>) | undefined;
-
   try {
-    // Acquire lock
-    release = await lockfile.lock(path, LOCK_OPTIONS);
-
-    // Read current history
-    const currentHistory = readHistoryInternal(path);
-
-    // Apply update function
-    const newHistory = updateFn(currentHistory);
-
-    // Validate new data
-    if (!newHistory || typeof newHistory !== 'object') {
-      throw new Error('Invalid history data: data must be an object');
-    }
-
-    if (!Array.isArray(newHistory.assets)) {
-      throw new Error('Invalid history data: assets must be an array');
-    }
-
-    // Write atomically
-    writeFileSync(path, JSON.stringify(newHistory, null, 2));
+    const repository = await getHistoryRepository(path);
+    await repository.update((history) => {
+      // Snapshot first: updateFn may mutate history in place
+      const snapshots = snapshotAssets(history);
+      const newHistory = updateFn(history);
+      bumpRevisions(snapshots, newHistory);
+      return newHistory;
+    }, audit);
   } catch (error) {
     throw new Error(`Failed to update history: ${error instanceof Error ? error.message : String(error)}`);
-  } finally {
-    if (release) await release();
   }
 }
 
@@ -129,11 +61,13 @@ export async function updateHistory(
  * Add a new asset to history
  * @param asset - Asset metadata to add
  * @param path - Path to history file (defaults to config.paths.history)
+ * @param audit - Actor and action recorded in the audit trail
  * @throws Error if asset already exists or operation fails
  */
 export async function addAsset(
   asset: AssetMetadata,
-  path: string = config.paths.history
+  path: string = config.paths.history,
+  audit?: AuditContext
 ): Promise<void> {
   // Validate asset
   if (!asset || typeof asset !== 'object') {
@@ -164,7 +98,7 @@ export async function addAsset(
         ...history,
         assets: [...history.assets, asset]
       };
-    }, path);
+    }, path, audit);
   } catch (error) {
     if (error instanceof Error && error.message.includes('already exists')) {
       throw error;
@@ -178,12 +112,14 @@ export async function addAsset(
  * @param assetId - Asset ID
  * @param status - New status
  * @param path - Path to history file (defaults to config.paths.history)
+ * @param audit - Actor and action recorded in the audit trail
  * @throws Error if asset not found or operation fails
  */
 export async function updateAssetStatus(
   assetId: string,
   status: Status,
-  path: string = config.paths.history
+  path: string = config.paths.history,
+  audit?: AuditContext
 ): Promise<void> {
   // Validate inputs
   if (!assetId || typeof assetId !== 'string') {
@@ -214,7 +150,7 @@ export async function updateAssetStatus(
         ...history,
         assets: updatedAssets
       };
-    }, path);
+    }, path, audit);
   } catch (error) {
     if (error instanceof Error && error.message.includes('not found')) {
       throw error;
@@ -223,6 +159,56 @@ export async function updateAssetStatus(
   }
 }
 
+/**
+ * Options for updateAsset
+ */
+export interface UpdateAssetOptions {
+  /** Reject the update unless the asset is at this revision */
+  expectedRevision?: number;
+  /** Actor and action recorded in the audit trail */
+  audit?: AuditContext;
+}
+
+/**
+ * Update a single asset, optionally guarded by its revision
+ * @param assetId - Asset ID
+ * @param updateFn - Function that takes the current asset and returns the updated asset
+ * @param path - Path to history file (defaults to config.paths.history)
+ * @param options - Expected revision and audit context
+ * @returns Promise resolving to the saved asset (with its new revision)
+ * @throws Error if asset not found, on a revision conflict, or if operation fails
+ */
+export async function updateAsset(
+  assetId: string,
+  updateFn: (asset: AssetMetadata) => AssetMetadata,
+  path: string = config.paths.history,
+  options: UpdateAssetOptions = {}
+): Promise<AssetMetadata> {
+  let updated: AssetMetadata | undefined;
+
+  await updateHistory((history) => {
+    const assetIndex = history.assets.findIndex(a => a.id === assetId);
+    if (assetIndex === -1) {
+      throw new Error(`Asset with id ${assetId} not found`);
+    }
+
+    assertRevision(history.assets[assetIndex], options.expectedRevision);
+
+    // Revision is bumped on this object after updateFn returns
+    updated = updateFn(history.assets[assetIndex]);
+
+    const updatedAssets = [...history.assets];
+    updatedAssets[assetIndex] = updated;
+
+    return {
+      ...history,
+      assets: updatedAssets
+    };
+  }, path, options.audit);
+
+  return updated!;
+}
+
 /**
  * Get an asset by ID
  * @param assetId - Asset ID
@@ -251,14 +237,115 @@ export async function getAsset(
 }
 
 /**
- * Delete an asset by ID
+ * Apply a change to an asset's trash state under the history lock
+ */
+async function setTrashState(
+  assetId: string,
+  trashed: boolean,
+  path: string,
+  audit: AuditContext | undefined,
+  expectedRevision: number | undefined
+): Promise<AssetMetadata> {
+  // Validate input
+  if (!assetId || typeof assetId !== 'string') {
+    throw new Error('Invalid id: must be a non-empty string');
+  }
+
+  let updated: AssetMetadata | undefined;
+
+  await updateHistory((history) => {
+    const assetIndex = history.assets.findIndex(a => a.id === assetId);
+    if (assetIndex === -1) {
+      throw new Error(`Asset with id ${assetId} not found`);
+    }
+
+    const asset = history.assets[assetIndex];
+    assertRevision(asset, expectedRevision);
+
+    if (trashed && asset.deleted_at) {
+      throw new Error(`Asset with id ${assetId} is already in the trash`);
+    }
+    if (!trashed && !asset.deleted_at) {
+      throw new Error(`Asset with id ${assetId} is not in the trash`);
+    }
+
+    updated = { ...asset, updated_at: new Date().toISOString() };
+    if (trashed) {
+      updated.deleted_at = updated.updated_at;
+      updated.deleted_by = audit?.actor ?? 'system';
+    } else {
+      delete updated.deleted_at;
+      delete updated.deleted_by;
+    }
+
+    const updatedAssets = [...history.assets];
+    updatedAssets[assetIndex] = updated;
+
+    return {
+      ...history,
+      assets: updatedAssets
+    };
+  }, path, { ...audit, action: audit?.action ?? (trashed ? 'trashed' : 'restored_from_trash') });
+
+  return updated!;
+}
+
+/**
+ * Move an asset to the trash
+ *
+ * The asset keeps its files and versions and can be restored until it is
+ * purged (see lib/trash.ts).
+ *
  * @param assetId - Asset ID
  * @param path - Path to history file (defaults to config.paths.history)
- * @throws Error if asset not found or operation fails
+ * @param audit - Actor and action recorded in the audit trail
+ * @param expectedRevision - Reject the change unless the asset is at this revision
+ * @returns Promise resolving to the trashed asset
+ * @throws Error if asset not found or already trashed, on a revision conflict, or if operation fails
+ */
+export async function trashAsset(
+  assetId: string,
+  path: string = config.paths.history,
+  audit?: AuditContext,
+  expectedRevision?: number
+): Promise<AssetMetadata> {
+  return setTrashState(assetId, true, path, audit, expectedRevision);
+}
+
+/**
+ * Restore an asset from the trash
+ * @param assetId - Asset ID
+ * @param path - Path to history file (defaults to config.paths.history)
+ * @param audit - Actor and action recorded in the audit trail
+ * @param expectedRevision - Reject the change unless the asset is at this revision
+ * @returns Promise resolving to the restored asset
+ * @throws Error if asset not found or not trashed, on a revision conflict, or if operation fails
+ */
+export async function restoreAsset(
+  assetId: string,
+  path: string = config.paths.history,
+  audit?: AuditContext,
+  expectedRevision?: number
+): Promise<AssetMetadata> {
+  return setTrashState(assetId, false, path, audit, expectedRevision);
+}
+
+/**
+ * Permanently delete an asset by ID
+ *
+ * Only removes the record; callers are responsible for its files.
+ *
+ * @param assetId - Asset ID
+ * @param path - Path to history file (defaults to config.paths.history)
+ * @param audit - Actor and action recorded in the audit trail
+ * @param expectedRevision - Reject the delete unless the asset is at this revision
+ * @throws Error if asset not found, on a revision conflict, or if operation fails
  */
 export async function deleteAsset(
   assetId: string,
-  path: string = config.paths.history
+  path: string = config.paths.history,
+  audit?: AuditContext,
+  expectedRevision?: number
 ): Promise<void> {
   // Validate input
   if (!assetId || typeof assetId !== 'string') {
@@ -273,12 +360,14 @@ export async function deleteAsset(
         throw new Error(`Asset with id ${assetId} not found`);
       }
 
+      assertRevision(history.assets[assetIndex], expectedRevision);
+
       // Remove asset
       return {
         ...history,
         assets: history.assets.filter(a => a.id !== assetId)
       };
-    }, path);
+    }, path, audit);
   } catch (error) {
     if (error instanceof Error && error.message.includes('not found')) {
       throw error;
@@ -286,3 +375,31 @@ export async function deleteAsset(
     throw new Error(`Failed to delete asset: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
+
+/**
+ * Get an asset's audit trail
+ *
+ * Events are kept after the asset is deleted, so this can return events for
+ * an asset that no longer exists.
+ *
+ * @param assetId - Asset ID
+ * @param path - Path to history file (defaults to config.paths.history)
+ * @returns Promise resolving to audit events, oldest first
+ * @throws Error if operation fails
+ */
+export async function getAssetAuditTrail(
+  assetId: string,
+  path: string = config.paths.history
+): Promise<AuditEvent[]> {
+  // Validate input
+  if (!assetId || typeof assetId !== 'string') {
+    throw new Error('Invalid id: must be a non-empty string');
+  }
+
+  try {
+    const repository = await getHistoryRepository(path);
+    return await repository.readAudit(assetId);
+  } catch (error) {
+    throw new Error(`Failed to read audit trail: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
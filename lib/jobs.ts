@@ -0,0 +1,502 @@
+/**
+ * Background Jobs
+ *
+ * Long-running work (background generation) runs as jobs persisted in
+ * jobs.json, so HTTP requests return immediately and progress survives a
+ * restart. Each job records its stages; GET /api/jobs/[jobId] reports them.
+ *
+ * Jobs run in the server process, up to JOBS_CONCURRENCY at a time. A job is
+ * claimed under the jobs.json lock, so a job is never run twice. Jobs left
+ * running by a previous process are resumed on startup (stages whose results
+ * were saved are not redone) or failed once they have been attempted
+ * JOBS_MAX_ATTEMPTS times.
+ */
+
+import { existsSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from './config';
+import { readJsonStore, updateJsonStore, type JsonStoreFormat } from './json-store';
+import type { QueueTicket } from './rate-limiter';
+
+export type JobType = 'background';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobStageStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+/**
+ * One step of a job
+ */
+export interface JobStage {
+  name: string;
+  status: JobStageStatus;
+  started_at?: string;
+  finished_at?: string;
+  /** Why the stage failed or was skipped */
+  error?: string;
+}
+
+/**
+ * A persisted job
+ */
+export interface Job {
+  id: string;
+  type: JobType;
+  asset_id: string;
+  status: JobStatus;
+  stages: JobStage[];
+  /** Handler input */
+  params: Record<string, unknown>;
+  /** Handler output and checkpoints, saved as stages finish */
+  result?: Record<string, unknown>;
+  error?: string;
+  actor?: string;
+  /** Times the job has been started (restarts count) */
+  attempts: number;
+  /** Set while the job waits for a rate-limited API */
+  queue?: QueueTicket;
+  cancel_requested?: boolean;
+  /** Process running the job */
+  worker_id?: string;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  finished_at?: string;
+}
+
+/**
+ * jobs.json contents
+ */
+export interface JobsData {
+  jobs: Job[];
+}
+
+/**
+ * Thrown inside a handler when the job was cancelled between stages
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Helpers a handler uses to report progress
+ */
+export interface JobContext {
+  job: Job;
+  /**
+   * Run a stage, recording its status and timing
+   * @throws JobCancelledError if cancellation was requested before it started
+   * @throws The stage's error (after recording it) if fn fails
+   */
+  stage<T>(name: string, fn: () => Promise<T>): Promise<T>;
+  /** Mark a pending stage skipped (e.g. its result already exists) */
+  skip(name: string, reason?: string): Promise<void>;
+  /** Persist partial results, so a resumed job can pick up from them */
+  checkpoint(result: Record<string, unknown>): Promise<void>;
+  /**
+   * Record (or clear, with null) the job's place in a rate-limit queue
+   *
+   * Resolves once written; a failed write is logged, not thrown. Callers that
+   * can't await it (rate-limiter callbacks) needn't: the next stage update
+   * waits for it.
+   */
+  setQueue(ticket: QueueTicket | null): Promise<void>;
+}
+
+/**
+ * Runs one job type; returns the final result
+ */
+export type JobHandler = (context: JobContext) => Promise<Record<string, unknown>>;
+
+const TERMINAL_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+const JOBS_FORMAT: JsonStoreFormat<JobsData> = {
+  empty: () => ({ jobs: [] }),
+  parse: data => ({ jobs: Array.isArray(data?.jobs) ? data.jobs : [] })
+};
+
+/**
+ * Worker state, shared by every copy of this module the bundler creates
+ * (instrumentation and each route get their own), so the process has one
+ * worker ID, one handler registry and one concurrency count
+ */
+const globalJobs = globalThis as typeof globalThis & {
+  __isaJobs?: { workerId: string; handlers: Map<JobType, JobHandler>; running: Set<string> };
+};
+const jobState = (globalJobs.__isaJobs ??= { workerId: uuidv4(), handlers: new Map(), running: new Set() });
+const WORKER_ID = jobState.workerId;
+const handlers = jobState.handlers;
+const runningJobs = jobState.running;
+
+/**
+ * Register the handler for a job type
+ */
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Whether a job has finished (successfully or not)
+ */
+export function isTerminalJob(job: Job): boolean {
+  return TERMINAL_STATUSES.includes(job.status);
+}
+
+/**
+ * Read all jobs
+ *
+ * jobs.json is replaced atomically, so this never sees a half-written file.
+ *
+ * @throws Error if jobs.json is not valid JSON
+ */
+export async function readJobs(path: string = config.paths.jobs): Promise<JobsData> {
+  return readJsonStore(path, JOBS_FORMAT);
+}
+
+/**
+ * Modify jobs.json under its lock
+ *
+ * Finished jobs older than JOBS_RETENTION_DAYS are dropped on every write.
+ *
+ * @returns Whatever fn returns
+ */
+async function updateJobs<T>(fn: (data: JobsData) => T, path: string = config.paths.jobs): Promise<T> {
+  return updateJsonStore(path, JOBS_FORMAT, (data) => {
+    const result = fn(data);
+
+    const cutoff = Date.now() - config.jobs.retentionDays * 24 * 60 * 60 * 1000;
+    data.jobs = data.jobs.filter(job => !isTerminalJob(job) || Date.parse(job.updated_at) >= cutoff);
+    return result;
+  });
+}
+
+/**
+ * Get a job by ID
+ * @returns The job, or null if it doesn't exist (or was pruned)
+ */
+export async function getJob(jobId: string, path: string = config.paths.jobs): Promise<Job | null> {
+  return (await readJobs(path)).jobs.find(job => job.id === jobId) ?? null;
+}
+
+/**
+ * Jobs for an asset that haven't finished
+ */
+export async function getActiveJobs(assetId: string, path: string = config.paths.jobs): Promise<Job[]> {
+  return (await readJobs(path)).jobs.filter(job => job.asset_id === assetId && !isTerminalJob(job));
+}
+
+/**
+ * Apply a change to one job
+ * @throws Error if the job doesn't exist
+ */
+async function updateJob(
+  jobId: string,
+  fn: (job: Job) => void,
+  path: string = config.paths.jobs
+): Promise<Job> {
+  return updateJobs((data) => {
+    const job = data.jobs.find(j => j.id === jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    fn(job);
+    job.updated_at = new Date().toISOString();
+    return { ...job };
+  }, path);
+}
+
+/**
+ * Queue a job and start it if a worker slot is free
+ *
+ * @param type - Job type (must have a registered handler)
+ * @param assetId - Asset the job works on
+ * @param stages - Stage names, in the order they run
+ * @param params - Handler input
+ * @param actor - Who requested it
+ * @returns The queued job
+ * @throws Error if the asset already has a queued or running job
+ */
+export async function enqueueJob(
+  type: JobType,
+  assetId: string,
+  stages: string[],
+  params: Record<string, unknown>,
+  actor?: string,
+  path: string = config.paths.jobs
+): Promise<Job> {
+  const now = new Date().toISOString();
+  const job = await updateJobs((data) => {
+    const active = data.jobs.find(j => j.asset_id === assetId && !isTerminalJob(j));
+    if (active) {
+      throw new Error(`Asset ${assetId} already has an active job: ${active.id}`);
+    }
+
+    const created: Job = {
+      id: uuidv4(),
+      type,
+      asset_id: assetId,
+      status: 'queued',
+      stages: stages.map(name => ({ name, status: 'pending' as const })),
+      params,
+      ...(actor ? { actor } : {}),
+      attempts: 0,
+      created_at: now,
+      updated_at: now
+    };
+    data.jobs.push(created);
+    return created;
+  }, path);
+
+  kickJobs(path);
+  return job;
+}
+
+/**
+ * Cancel a job
+ *
+ * Queued jobs are cancelled at once; running jobs stop before their next stage.
+ *
+ * @returns The updated job, or null if it doesn't exist
+ * @throws Error if the job has already finished
+ */
+export async function cancelJob(jobId: string, path: string = config.paths.jobs): Promise<Job | null> {
+  return updateJobs((data) => {
+    const job = data.jobs.find(j => j.id === jobId);
+    if (!job) return null;
+
+    if (isTerminalJob(job)) {
+      throw new Error(`Job is already ${job.status}`);
+    }
+
+    const now = new Date().toISOString();
+    if (job.status === 'queued') {
+      job.status = 'cancelled';
+      job.finished_at = now;
+      for (const stage of job.stages) {
+        if (stage.status === 'pending') stage.status = 'skipped';
+      }
+    } else {
+      job.cancel_requested = true;
+    }
+    job.updated_at = now;
+    return { ...job };
+  }, path);
+}
+
+/**
+ * Claim the next queued job for this process, oldest first
+ */
+async function claimNextJob(path: string): Promise<Job | null> {
+  if (!existsSync(path)) return null;
+
+  return updateJobs((data) => {
+    const job = data.jobs.find(j => j.status === 'queued' && handlers.has(j.type));
+    if (!job) return null;
+
+    const now = new Date().toISOString();
+    job.status = 'running';
+    job.worker_id = WORKER_ID;
+    job.attempts += 1;
+    job.started_at ??= now;
+    job.updated_at = now;
+    return { ...job };
+  }, path);
+}
+
+/**
+ * Context for a handler, plus settle() to wait for its pending queue writes
+ */
+function createContext(job: Job, path: string): JobContext & { settle(): Promise<void> } {
+  // Queue position writes run in order, and stage updates wait for them
+  let queueWrite: Promise<void> = Promise.resolve();
+
+  const setStage = async (name: string, changes: Partial<JobStage>) => {
+    await queueWrite;
+    return updateJob(job.id, (j) => {
+      const stage = j.stages.find(s => s.name === name);
+      if (stage) Object.assign(stage, changes);
+    }, path);
+  };
+
+  return {
+    job,
+
+    async stage(name, fn) {
+      await queueWrite;
+      const current = await updateJob(job.id, (j) => {
+        const stage = j.stages.find(s => s.name === name);
+        if (!j.cancel_requested && stage) {
+          Object.assign(stage, { status: 'running', started_at: new Date().toISOString() });
+          delete stage.error;
+        }
+      }, path);
+      if (current.cancel_requested) {
+        throw new JobCancelledError();
+      }
+
+      try {
+        const result = await fn();
+        await setStage(name, { status: 'done', finished_at: new Date().toISOString() });
+        return result;
+      } catch (error) {
+        await setStage(name, {
+          status: 'failed',
+          finished_at: new Date().toISOString(),
+          error: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+      }
+    },
+
+    async skip(name, reason) {
+      await updateJob(job.id, (j) => {
+        const stage = j.stages.find(s => s.name === name);
+        if (stage?.status === 'pending') {
+          Object.assign(stage, { status: 'skipped', ...(reason ? { error: reason } : {}) });
+        }
+      }, path);
+    },
+
+    async checkpoint(result) {
+      const updated = await updateJob(job.id, (j) => {
+        j.result = { ...j.result, ...result };
+      }, path);
+      job.result = updated.result;
+    },
+
+    setQueue(ticket) {
+      queueWrite = queueWrite.then(() => updateJob(job.id, (j) => {
+        if (ticket) {
+          j.queue = ticket;
+        } else {
+          delete j.queue;
+        }
+      }, path)).then(
+        () => undefined,
+        error => console.error(`[Jobs] Failed to record queue position for ${job.id}:`, error)
+      );
+      return queueWrite;
+    },
+
+    settle() {
+      return queueWrite;
+    }
+  };
+}
+
+/**
+ * Run a claimed job to completion and record the outcome
+ */
+async function runJob(job: Job, path: string): Promise<void> {
+  const handler = handlers.get(job.type)!;
+  const context = createContext(job, path);
+
+  try {
+    const result = await handler(context);
+    await context.settle();
+    await updateJob(job.id, (j) => {
+      j.status = 'succeeded';
+      j.result = { ...j.result, ...result };
+      j.finished_at = new Date().toISOString();
+      delete j.queue;
+    }, path);
+  } catch (error) {
+    const cancelled = error instanceof JobCancelledError;
+    if (!cancelled) {
+      console.error(`[Jobs] ${job.type} job ${job.id} failed:`, error);
+    }
+    await context.settle();
+    await updateJob(job.id, (j) => {
+      j.status = cancelled ? 'cancelled' : 'failed';
+      if (!cancelled) j.error = error instanceof Error ? error.message : String(error);
+      j.finished_at = new Date().toISOString();
+      delete j.queue;
+      for (const stage of j.stages) {
+        if (stage.status === 'pending') stage.status = 'skipped';
+      }
+    }, path);
+  }
+}
+
+/**
+ * Start queued jobs while worker slots (JOBS_CONCURRENCY) are free
+ *
+ * Returns immediately; failures are logged, never thrown.
+ */
+export function kickJobs(path: string = config.paths.jobs): void {
+  void (async () => {
+    while (runningJobs.size < Math.max(1, config.jobs.concurrency)) {
+      const job = await claimNextJob(path);
+      if (!job) return;
+
+      runningJobs.add(job.id);
+      void runJob(job, path).finally(() => {
+        runningJobs.delete(job.id);
+        kickJobs(path);
+      });
+    }
+  })().catch(error => console.error('[Jobs] Failed to start queued jobs:', error));
+}
+
+/**
+ * Requeue or fail jobs a previous process left running
+ *
+ * Handlers see the job's saved result and skip stages already done.
+ *
+ * @returns IDs of requeued jobs, and of jobs failed or cancelled instead
+ */
+export async function recoverJobs(path: string = config.paths.jobs): Promise<{ requeued: string[]; stopped: string[] }> {
+  const recovered = { requeued: [] as string[], stopped: [] as string[] };
+
+  await updateJobs((data) => {
+    const now = new Date().toISOString();
+    for (const job of data.jobs) {
+      if (job.status !== 'running' || job.worker_id === WORKER_ID) continue;
+
+      for (const stage of job.stages) {
+        if (stage.status === 'running') {
+          stage.status = 'pending';
+          delete stage.started_at;
+        }
+      }
+      delete job.queue;
+      job.updated_at = now;
+
+      if (job.cancel_requested) {
+        job.status = 'cancelled';
+        job.finished_at = now;
+        recovered.stopped.push(job.id);
+      } else if (job.attempts >= config.jobs.maxAttempts) {
+        job.status = 'failed';
+        job.error = `Interrupted by a server restart ${job.attempts} time(s)`;
+        job.finished_at = now;
+        recovered.stopped.push(job.id);
+      } else {
+        job.status = 'queued';
+        recovered.requeued.push(job.id);
+      }
+    }
+  }, path);
+
+  return recovered;
+}
+
+/**
+ * Recover interrupted jobs and start queued ones; call once at server startup
+ *
+ * Failures are logged, never thrown.
+ */
+export async function startJobWorker(path: string = config.paths.jobs): Promise<void> {
+  try {
+    const { requeued, stopped } = await recoverJobs(path);
+    if (requeued.length || stopped.length) {
+      console.log(`[Jobs] Recovered interrupted jobs: ${requeued.length} resumed, ${stopped.length} stopped`);
+    }
+  } catch (error) {
+    console.error('[Jobs] Failed to recover jobs:', error);
+  }
+  kickJobs(path);
+}
@@ -0,0 +1,92 @@
+/**
+ * JSON Stores
+ *
+ * Small JSON documents (jobs.json, prompt-templates.json, brand-kits.json,
+ * campaigns.json, analysis-cache.json) share one storage scheme:
+ *
+ * - Changes are read-modify-write under a proper-lockfile lock, the same
+ *   lock history.json uses, so concurrent updates never overwrite each other
+ * - Writes go to a temp file in the same directory that is then renamed over
+ *   the document, so a reader sees either the old or the new contents, never
+ *   a truncated file. Reads therefore don't need the lock.
+ */
+
+import { readFileSync, writeFileSync, renameSync, unlinkSync, existsSync, mkdirSync } from 'fs';
+import { dirname, basename, join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import lockfile from 'proper-lockfile';
+
+export const LOCK_OPTIONS = {
+  retries: { retries: 10, minTimeout: 100, maxTimeout: 2000 },
+  stale: 10000
+};
+
+/**
+ * How a store's document is created and read
+ */
+export interface JsonStoreFormat<T> {
+  /** Contents of a missing or empty file */
+  empty: () => T;
+  /** Normalize parsed JSON (fill missing fields) */
+  parse: (data: any) => T;
+}
+
+/**
+ * Replace a file's contents atomically (write a temp file, then rename it)
+ */
+export function writeJsonFileAtomic(path: string, data: unknown): void {
+  const tempPath = join(dirname(path), `.${basename(path)}.${uuidv4()}.tmp`);
+  try {
+    writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    renameSync(tempPath, path);
+  } catch (error) {
+    if (existsSync(tempPath)) unlinkSync(tempPath);
+    throw error;
+  }
+}
+
+/**
+ * Read a store
+ * @returns The parsed document, or format.empty() if the file is missing or empty
+ * @throws Error if the file is not valid JSON
+ */
+export function readJsonStore<T>(path: string, format: JsonStoreFormat<T>): T {
+  if (!existsSync(path)) {
+    return format.empty();
+  }
+  const content = readFileSync(path, 'utf8');
+  if (!content.trim()) {
+    return format.empty();
+  }
+  return format.parse(JSON.parse(content));
+}
+
+/**
+ * Modify a store under its lock
+ *
+ * fn may mutate the document; it is written back (atomically) unless fn throws.
+ * The file is created with format.empty() if it doesn't exist.
+ *
+ * @returns Whatever fn returns
+ */
+export async function updateJsonStore<T, R>(
+  path: string,
+  format: JsonStoreFormat<T>,
+  fn: (data: T) => R
+): Promise<R> {
+  if (!existsSync(path)) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeJsonFileAtomic(path, format.empty());
+  }
+
+  let release: (() => Promise<void>) | undefined;
+  try {
+    release = await lockfile.lock(path, LOCK_OPTIONS);
+    const data = readJsonStore(path, format);
+    const result = fn(data);
+    writeJsonFileAtomic(path, data);
+    return result;
+  } finally {
+    if (release) await release();
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Layout Templates
+ *
+ * A layout template declares where a story's asset goes: the box it is fitted
+ * into, where it sits in that box (anchor), how much of the box it may fill
+ * (scale) and its rotation, plus the text region and its three tiers.
+ * composeStory places the asset from the template, and asset detection
+ * (lib/asset-detection.ts) scans the template's box and picks the text tier
+ * from its text region.
+ *
+ * An asset's layout_id selects the template for its previews and scheduled
+ * story (default: DEFAULT_LAYOUT_ID, the original centered asset zone). Each
+ * version records the layout its preview was composed with.
+ *
+ * Templates are built in; more can be added with registerLayoutTemplate.
+ */
+
+import { config } from './config';
+
+/**
+ * Where the scaled asset sits inside its box
+ */
+export type LayoutAnchor =
+  | 'center'
+  | 'top'
+  | 'bottom'
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+export const LAYOUT_ANCHORS: LayoutAnchor[] = [
+  'center', 'top', 'bottom', 'left', 'right', 'top-left', 'top-right', 'bottom-left', 'bottom-right'
+];
+
+/** Layout used when an asset doesn't pick one */
+export const DEFAULT_LAYOUT_ID = 'centered';
+
+/** Largest rotation (either direction) a template may declare, in degrees */
+const MAX_ROTATION = 45;
+
+/**
+ * Rectangle on the 1080x1920 story
+ */
+export interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where the text overlay goes
+ */
+export interface LayoutTextRegion {
+  /** Left edge and width of the text block (lines are centered in it) */
+  left: number;
+  width: number;
+  /** Text Y for tiers 1, 2 and 3 */
+  tiers: [number, number, number];
+  /** Asset bottom edges beyond which the text moves up to tier 2 and tier 3 */
+  breakpoints: [number, number];
+}
+
+/**
+ * Declarative story layout
+ */
+export interface LayoutTemplate {
+  id: string;
+  name: string;
+  description: string;
+  /** Box the asset is fitted into */
+  assetBox: LayoutBox;
+  anchor: LayoutAnchor;
+  /** Fraction of the box the asset may fill, greater than 0 and at most 1 */
+  scale: number;
+  /** Clockwise rotation in degrees, -45 to 45 */
+  rotation: number;
+  textRegion: LayoutTextRegion;
+}
+
+/**
+ * Size and position of the asset before rotation (rotation keeps its center)
+ */
+export interface AssetPlacement {
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+}
+
+/**
+ * Built-in templates; the first is the original fixed layout
+ */
+function builtinLayoutTemplates(): LayoutTemplate[] {
+  const { assetZone } = config.instagram;
+  const { marginX, maxWidth, tier1Y, tier2Y, tier3Y } = config.textOverlay.positioning;
+  const zone: LayoutBox = { x: assetZone.xOffset, y: assetZone.yOffset, width: assetZone.width, height: assetZone.height };
+  const textRegion: LayoutTextRegion = {
+    left: marginX,
+    width: maxWidth,
+    tiers: [tier1Y, tier2Y, tier3Y],
+    breakpoints: [900, 1100]
+  };
+
+  return [
+    {
+      id: DEFAULT_LAYOUT_ID,
+      name: 'Centered',
+      description: 'Asset centered in the full asset zone',
+      assetBox: zone,
+      anchor: 'center',
+      scale: 1,
+      rotation: 0,
+      textRegion
+    },
+    {
+      id: 'top-aligned',
+      name: 'Top aligned',
+      description: 'Asset at the top of the asset zone, leaving space above the text',
+      assetBox: zone,
+      anchor: 'top',
+      scale: 1,
+      rotation: 0,
+      textRegion
+    },
+    {
+      id: 'compact',
+      name: 'Compact',
+      description: 'Smaller centered asset with more breathing room',
+      assetBox: zone,
+      anchor: 'center',
+      scale: 0.7,
+      rotation: 0,
+      textRegion
+    },
+    {
+      id: 'offset-left',
+      name: 'Offset left',
+      description: 'Asset offset toward the upper left',
+      assetBox: { x: marginX, y: assetZone.yOffset + 40, width: 640, height: 1100 },
+      anchor: 'top-left',
+      scale: 1,
+      rotation: 0,
+      textRegion
+    },
+    {
+      id: 'tilted',
+      name: 'Tilted',
+      description: 'Slightly rotated, smaller asset',
+      assetBox: zone,
+      anchor: 'center',
+      scale: 0.85,
+      rotation: -6,
+      textRegion
+    }
+  ];
+}
+
+/**
+ * Check a template's geometry
+ * @throws Error starting with "Invalid layout template" if a field is missing or out of range
+ */
+export function validateLayoutTemplate(template: LayoutTemplate): void {
+  const { width: storyWidth, height: storyHeight } = config.instagram;
+
+  if (typeof template.id !== 'string' || !/^[a-z0-9-]+$/.test(template.id)) {
+    throw new Error('Invalid layout template: id must be lowercase letters, digits and dashes');
+  }
+  if (typeof template.name !== 'string' || !template.name.trim()) {
+    throw new Error('Invalid layout template: name must be a non-empty string');
+  }
+
+  const box = template.assetBox;
+  if (!box || ![box.x, box.y, box.width, box.height].every(Number.isInteger) ||
+      box.x < 0 || box.y < 0 || box.width < 1 || box.height < 1 ||
+      box.x + box.width > storyWidth || box.y + box.height > storyHeight) {
+    throw new Error(`Invalid layout template: assetBox must be a whole-pixel box inside ${storyWidth}x${storyHeight}`);
+  }
+  if (!LAYOUT_ANCHORS.includes(template.anchor)) {
+    throw new Error(`Invalid layout template: anchor must be one of ${LAYOUT_ANCHORS.join(', ')}`);
+  }
+  if (typeof template.scale !== 'number' || !(template.scale > 0 && template.scale <= 1)) {
+    throw new Error('Invalid layout template: scale must be greater than 0 and at most 1');
+  }
+  if (typeof template.rotation !== 'number' || Math.abs(template.rotation) > MAX_ROTATION) {
+    throw new Error(`Invalid layout template: rotation must be from -${MAX_ROTATION} to ${MAX_ROTATION} degrees`);
+  }
+
+  const text = template.textRegion;
+  if (!text || text.left < 0 || text.width < 1 || text.left + text.width > storyWidth) {
+    throw new Error('Invalid layout template: textRegion must be inside the story width');
+  }
+  if (!Array.isArray(text.tiers) || text.tiers.length !== 3 || !text.tiers.every(y => y >= 0 && y < storyHeight)) {
+    throw new Error('Invalid layout template: textRegion.tiers must be three Y positions inside the story');
+  }
+  if (!Array.isArray(text.breakpoints) || text.breakpoints.length !== 2 || text.breakpoints[0] > text.breakpoints[1]) {
+    throw new Error('Invalid layout template: textRegion.breakpoints must be two ascending Y positions');
+  }
+}
+
+let templates: Map<string, LayoutTemplate> | null = null;
+
+function registry(): Map<string, LayoutTemplate> {
+  templates ??= new Map(builtinLayoutTemplates().map(t => [t.id, t]));
+  return templates;
+}
+
+/**
+ * Add a template
+ * @throws Error starting with "Invalid layout template" if it is invalid or its id is taken
+ */
+export function registerLayoutTemplate(template: LayoutTemplate): void {
+  validateLayoutTemplate(template);
+  if (registry().has(template.id)) {
+    throw new Error(`Invalid layout template: ${template.id} is already registered`);
+  }
+  registry().set(template.id, template);
+}
+
+/**
+ * Remove a template (no error if it isn't registered; the default can't be removed)
+ */
+export function unregisterLayoutTemplate(id: string): void {
+  if (id !== DEFAULT_LAYOUT_ID) {
+    registry().delete(id);
+  }
+}
+
+/**
+ * All templates, built-in ones first
+ */
+export function listLayoutTemplates(): LayoutTemplate[] {
+  return [...registry().values()];
+}
+
+/**
+ * Get a template by ID
+ * @returns The template, or null if none is registered under id
+ */
+export function getLayoutTemplate(id: string): LayoutTemplate | null {
+  return registry().get(id) ?? null;
+}
+
+/**
+ * Template for an asset or version, falling back to the default if its
+ * layout is unset or no longer registered
+ */
+export function resolveLayoutTemplate(id?: string): LayoutTemplate {
+  const template = id ? getLayoutTemplate(id) : null;
+  if (id && !template) {
+    console.warn(`[Layouts] Unknown layout ${id}, using ${DEFAULT_LAYOUT_ID}`);
+  }
+  return template ?? registry().get(DEFAULT_LAYOUT_ID)!;
+}
+
+/**
+ * Fit an asset into a template's box (keeping its aspect ratio) and anchor it
+ *
+ * @param assetWidth - Asset's natural width
+ * @param assetHeight - Asset's natural height
+ * @returns Scaled size and top-left position on the story, before rotation
+ */
+export function placeAsset(template: LayoutTemplate, assetWidth: number, assetHeight: number): AssetPlacement {
+  const { assetBox: box, anchor, scale } = template;
+  const ratio = Math.min((box.width * scale) / assetWidth, (box.height * scale) / assetHeight);
+  const width = Math.max(1, Math.round(assetWidth * ratio));
+  const height = Math.max(1, Math.round(assetHeight * ratio));
+
+  const left = anchor.endsWith('left')
+    ? box.x
+    : anchor.endsWith('right')
+      ? box.x + box.width - width
+      : box.x + Math.round((box.width - width) / 2);
+  const top = anchor.startsWith('top')
+    ? box.y
+    : anchor.startsWith('bottom')
+      ? box.y + box.height - height
+      : box.y + Math.round((box.height - height) / 2);
+
+  return { width, height, left, top };
+}
+
+/**
+ * Tier number (1-3) of a text Y position in a template
+ * @returns The tier, or 2 if y isn't one of the template's tiers
+ */
+export function textTierForY(template: LayoutTemplate, y: number): 1 | 2 | 3 {
+  const index = template.textRegion.tiers.indexOf(y);
+  return index === -1 ? 2 : (index + 1) as 1 | 2 | 3;
+}
@@ -0,0 +1,140 @@
+/**
+ * LLM Usage Reporting
+ *
+ * Background jobs append every OpenRouter call (model, tokens, latency and,
+ * where the response reports it, cost) to the asset's llm_usage. This module
+ * totals those records by day, month, model and operation. Trashed assets
+ * still count; purged assets take their records with them.
+ */
+
+import type { AssetMetadata, LlmUsage } from './types';
+
+/**
+ * Totals over a set of calls
+ */
+export interface LlmUsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  /** Calls whose response didn't report a cost (not included in cost_usd) */
+  unpriced_calls: number;
+  avg_latency_ms: number;
+}
+
+/**
+ * Usage report
+ */
+export interface LlmUsageSummary {
+  /** All recorded calls */
+  total: LlmUsageTotals;
+  /** One entry per UTC day, oldest first, including days without calls */
+  daily: Array<{ date: string } & LlmUsageTotals>;
+  /** One entry per UTC month (YYYY-MM), oldest first, including months without calls */
+  monthly: Array<{ month: string } & LlmUsageTotals>;
+  by_model: Record<string, LlmUsageTotals>;
+  by_operation: Record<string, LlmUsageTotals>;
+  /** The assets with the highest recorded cost */
+  top_assets: Array<{ asset_id: string; meta_description: string } & LlmUsageTotals>;
+}
+
+/**
+ * Sum a set of calls
+ */
+export function totalLlmUsage(records: LlmUsage[]): LlmUsageTotals {
+  const totals: LlmUsageTotals = {
+    calls: records.length,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    cost_usd: 0,
+    unpriced_calls: 0,
+    avg_latency_ms: 0
+  };
+
+  let latency = 0;
+  for (const record of records) {
+    totals.prompt_tokens += record.prompt_tokens ?? 0;
+    totals.completion_tokens += record.completion_tokens ?? 0;
+    totals.total_tokens += record.total_tokens ?? (record.prompt_tokens ?? 0) + (record.completion_tokens ?? 0);
+    if (record.cost_usd === undefined) {
+      totals.unpriced_calls++;
+    } else {
+      totals.cost_usd += record.cost_usd;
+    }
+    latency += record.latency_ms;
+  }
+
+  // Costs are fractions of a cent; round away float noise
+  totals.cost_usd = Math.round(totals.cost_usd * 1e6) / 1e6;
+  totals.avg_latency_ms = records.length > 0 ? Math.round(latency / records.length) : 0;
+  return totals;
+}
+
+function groupBy<K extends string>(records: LlmUsage[], key: (record: LlmUsage) => K): Map<K, LlmUsage[]> {
+  const groups = new Map<K, LlmUsage[]>();
+  for (const record of records) {
+    const k = key(record);
+    const group = groups.get(k);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(k, [record]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Summarize the LLM usage recorded on assets
+ *
+ * @param assets - Assets to include (trashed ones too, for a complete spend)
+ * @param options.days - Days in the daily series, ending today (default 30)
+ * @param options.months - Months in the monthly series, ending this month (default 12)
+ * @param options.topAssets - Entries in top_assets (default 5)
+ * @param options.now - Current time (for tests)
+ */
+export function summarizeLlmUsage(
+  assets: AssetMetadata[],
+  options: { days?: number; months?: number; topAssets?: number; now?: Date } = {}
+): LlmUsageSummary {
+  const { days = 30, months = 12, topAssets = 5, now = new Date() } = options;
+  const records = assets.flatMap(asset => asset.llm_usage ?? []);
+
+  const byDay = groupBy(records, r => r.created_at.slice(0, 10));
+  const daily = Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1 - i)))
+      .toISOString()
+      .slice(0, 10);
+    return { date, ...totalLlmUsage(byDay.get(date) ?? []) };
+  });
+
+  const byMonth = groupBy(records, r => r.created_at.slice(0, 7));
+  const monthly = Array.from({ length: months }, (_, i) => {
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1 - i), 1))
+      .toISOString()
+      .slice(0, 7);
+    return { month, ...totalLlmUsage(byMonth.get(month) ?? []) };
+  });
+
+  const totalsOf = (groups: Map<string, LlmUsage[]>) =>
+    Object.fromEntries([...groups].map(([key, group]) => [key, totalLlmUsage(group)]));
+
+  return {
+    total: totalLlmUsage(records),
+    daily,
+    monthly,
+    by_model: totalsOf(groupBy(records, r => r.model)),
+    by_operation: totalsOf(groupBy(records, r => r.operation)),
+    top_assets: assets
+      .filter(asset => asset.llm_usage && asset.llm_usage.length > 0)
+      .map(asset => ({
+        asset_id: asset.id,
+        meta_description: asset.meta_description,
+        ...totalLlmUsage(asset.llm_usage!)
+      }))
+      .sort((a, b) => b.cost_usd - a.cost_usd || b.calls - a.calls)
+      .slice(0, topAssets)
+  };
+}
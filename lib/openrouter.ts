@@ -1,54 +1,205 @@
 /**
  * OpenRouter API client for generating Instagram Story backgrounds
  * Uses Google Gemini image generation models via OpenRouter
+ *
+ * Routes use it through the 'openrouter' BackgroundProvider. Every call
+ * (including vision analysis) shares one OPENROUTER_MAX_CALLS_PER_MINUTE
+ * rate limiter. Requests ask OpenRouter to include usage (tokens and cost),
+ * which callers receive through onUsage.
  */
 
 import { config } from './config';
+import {
+  backoffDelay,
+  createRateLimiter,
+  isRetryableStatus,
+  parseRetryAfter,
+  type QueueTicket,
+  type RateLimiter
+} from './rate-limiter';
+import type { BackgroundProvider, GeneratedBackground } from './background-providers';
+import type { LlmUsage } from './types';
+
+/**
+ * Options for a rate-limited OpenRouter call
+ */
+export interface OpenRouterCallOptions {
+  /** X-Title header, to tell calls apart in OpenRouter's dashboard */
+  title?: string;
+  /** Called if the call has to wait for the rate limiter */
+  onQueued?: (ticket: QueueTicket) => void;
+  /** Called with the final attempt's request time, excluding queue waits and backoff */
+  onLatency?: (ms: number) => void;
+  /** Called with the usage of a completed call (generateBackground, analyzeAsset) */
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+/**
+ * The limiter lives on globalThis like the job worker state (lib/jobs.ts):
+ * instrumentation and each route get their own copy of this module, and jobs
+ * started from either must draw from the same token bucket
+ */
+const globalLimiter = globalThis as typeof globalThis & {
+  __isaOpenRouterLimiter?: RateLimiter;
+};
+
+/**
+ * Limiter shared by every OpenRouter call in this process
+ * (recreated if OPENROUTER_MAX_CALLS_PER_MINUTE changes)
+ */
+export function getOpenRouterLimiter(): RateLimiter {
+  const callsPerMinute = Math.max(1, config.openrouter.maxCallsPerMinute || 1);
+  const limiter = globalLimiter.__isaOpenRouterLimiter;
+  if (!limiter || limiter.callsPerMinute !== callsPerMinute) {
+    return (globalLimiter.__isaOpenRouterLimiter = createRateLimiter(callsPerMinute));
+  }
+  return limiter;
+}
+
+/**
+ * POST a chat completion request to OpenRouter through the shared rate limiter
+ *
+ * 429 and 5xx responses are retried up to OPENROUTER_MAX_RETRIES times with
+ * jittered exponential backoff, waiting at least as long as Retry-After asks.
+ * Each attempt takes its own rate-limit token and timeout.
+ *
+ * @param body - Request body (model, messages, ...)
+ * @param options - Title and queue callback
+ * @returns The final response (possibly a non-OK one once retries run out)
+ * @throws Error from fetch (AbortError on timeout, TypeError on network failure)
+ */
+export async function callOpenRouter(body: object, options: OpenRouterCallOptions = {}): Promise<Response> {
+  const { maxRetries, retryBaseDelayMs, retryMaxDelayMs, timeout } = config.openrouter;
+  let notifiedQueue = false;
+
+  for (let attempt = 0; ; attempt++) {
+    let startedAt = 0;
+    const response = await getOpenRouterLimiter().schedule(async () => {
+      // Timeout covers the request only, not time spent queued
+      startedAt = Date.now();
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      try {
+        return await fetch(config.openrouter.baseUrl, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${config.openrouter.apiKey}`,
+            'Content-Type': 'application/json',
+            'HTTP-Referer': 'https://iconscout.com',
+            'X-Title': options.title ?? 'IconScout Story Automator'
+          },
+          body: JSON.stringify(body),
+          signal: controller.signal
+        });
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }, ticket => {
+      // Report the first wait only; retries re-queue at the back
+      if (!notifiedQueue) options.onQueued?.(ticket);
+      notifiedQueue = true;
+    });
+
+    options.onLatency?.(Date.now() - startedAt);
+    if (response.ok || !isRetryableStatus(response.status) || attempt >= maxRetries) {
+      return response;
+    }
+
+    const delay = backoffDelay(attempt, {
+      baseMs: retryBaseDelayMs,
+      maxMs: retryMaxDelayMs,
+      retryAfterMs: parseRetryAfter(response.headers?.get('retry-after') ?? null)
+    });
+    if (delay === null) {
+      return response;
+    }
+
+    console.warn(
+      `[OpenRouter] ${response.status} response (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${delay}ms`
+    );
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Usage of a chat completion, from its response body
+ *
+ * Fields the response doesn't report are left out.
+ *
+ * @param data - Parsed response body
+ * @param operation - What the call was for
+ * @param model - Requested model (used if the response doesn't name one)
+ * @param latencyMs - Request time
+ */
+export function parseOpenRouterUsage(
+  data: any,
+  operation: LlmUsage['operation'],
+  model: string,
+  latencyMs: number
+): LlmUsage {
+  const usage = data?.usage ?? {};
+  const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+  const fields = {
+    generation_id: typeof data?.id === 'string' ? data.id : undefined,
+    prompt_tokens: number(usage.prompt_tokens),
+    completion_tokens: number(usage.completion_tokens),
+    total_tokens: number(usage.total_tokens),
+    cost_usd: number(usage.cost)
+  };
+
+  return {
+    operation,
+    model: typeof data?.model === 'string' && data.model ? data.model : model,
+    ...Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+    latency_ms: latencyMs,
+    created_at: new Date().toISOString()
+  };
+}
 
 /**
  * Generate background image using OpenRouter API
  *
  * @param systemPrompt - System prompt for background generation context
  * @param userPrompt - User prompt with specific background requirements
+ * @param model - OpenRouter model ID (defaults to OPENROUTER_MODEL)
+ * @param options - onQueued is called if the call waits for the rate limiter;
+ *   onUsage with the call's usage once the response is parsed; referenceImage
+ *   (a base64 data URL) is sent with the user prompt as the image to edit
  * @returns Promise<string> - Generated image as base64 data URL or image URL
  * @throws Error if API key is missing, network fails, timeout occurs, or response is invalid
  */
 export async function generateBackground(
   systemPrompt: string,
-  userPrompt: string
+  userPrompt: string,
+  model: string = config.openrouter.model,
+  options: Pick<OpenRouterCallOptions, 'onQueued' | 'onUsage'> & { referenceImage?: string } = {}
 ): Promise<string> {
   // Validate API key exists
   if (!config.openrouter.apiKey) {
     throw new Error('OPENROUTER_API_KEY environment variable is required');
   }
 
-  // Create abort controller for timeout handling
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), config.openrouter.timeout);
-
   try {
-    // Make request to OpenRouter API
-    const response = await fetch(config.openrouter.baseUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${config.openrouter.apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://iconscout.com',
-        'X-Title': 'IconScout Story Automator'
-      },
-      body: JSON.stringify({
-        model: config.openrouter.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.7
-      }),
-      signal: controller.signal
-    });
-
-    // Clear timeout since request completed
-    clearTimeout(timeoutId);
+    // Make request to OpenRouter API (rate limited, retried on 429/5xx)
+    let latencyMs = 0;
+    const response = await callOpenRouter({
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        {
+          role: 'user',
+          // Image-to-image: the reference goes first, like analyzeAsset's multimodal message
+          content: options.referenceImage
+            ? [
+                { type: 'image_url', image_url: { url: options.referenceImage } },
+                { type: 'text', text: userPrompt }
+              ]
+            : userPrompt
+        }
+      ],
+      temperature: 0.7,
+      usage: { include: true }
+    }, { onQueued: options.onQueued, onLatency: ms => { latencyMs = ms; } });
 
     // Handle non-200 responses
     if (!response.ok) {
@@ -62,6 +213,9 @@ export async function generateBackground(
     // Log response for debugging
     console.log('OpenRouter API Response:', JSON.stringify(data, null, 2));
 
+    // The call is billed whether or not it returned an image
+    options.onUsage?.(parseOpenRouterUsage(data, 'background', model, latencyMs));
+
     // Validate response format
     if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
       throw new Error(`Invalid response format: missing choices array. Response: ${JSON.stringify(data)}`);
@@ -103,9 +257,6 @@ export async function generateBackground(
 
     throw new Error(`Invalid response format: no content found. Response: ${JSON.stringify(choice)}`);
   } catch (error) {
-    // Clear timeout in case of error
-    clearTimeout(timeoutId);
-
     // Handle abort error (timeout)
     if (error instanceof Error && error.name === 'AbortError') {
       throw new Error(`Request timeout after ${config.openrouter.timeout}ms`);
@@ -121,6 +272,92 @@ export async function generateBackground(
   }
 }
 
+/**
+ * Decode a base64 image data URL into a buffer
+ *
+ * @param base64Data - Base64 data URL (e.g., "data:image/png;base64,...")
+ * @returns Image bytes
+ * @throws Error if data URL format is invalid
+ */
+export function decodeBase64Image(base64Data: string): Buffer {
+  // Parse base64 data URL format: data:image/png;base64,<data>
+  const matches = base64Data.match(/^data:image\/([a-zA-Z]+);base64,(.+)$/);
+
+  if (!matches || matches.length !== 3) {
+    throw new Error('Invalid base64 data URL format. Expected: data:image/<type>;base64,<data>');
+  }
+
+  // Convert base64 to buffer
+  return Buffer.from(matches[2], 'base64');
+}
+
+/**
+ * Download an image OpenRouter returned by URL
+ * @throws Error on timeout, a non-200 response or a non-image body
+ */
+async function downloadImage(url: string): Promise<{ image: Buffer; contentType: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.openrouter.timeout);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to download generated image: ${response.status}`);
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim();
+    if (!contentType.startsWith('image/')) {
+      throw new Error(`Generated image URL returned ${contentType || 'no content type'}`);
+    }
+
+    return { image: Buffer.from(await response.arrayBuffer()), contentType };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Create the OpenRouter background provider
+ *
+ * generateBackground returns whatever the model answered with; the provider
+ * accepts a base64 data URL or an http(s) image URL and rejects anything
+ * else (e.g. a text description of an image).
+ *
+ * @param model - OpenRouter model ID (defaults to OPENROUTER_MODEL)
+ */
+export function createOpenRouterProvider(model: string = config.openrouter.model): BackgroundProvider {
+  return {
+    name: 'openrouter',
+    supportsReferenceImage: true,
+
+    async generate({ systemPrompt, userPrompt, referenceImage, onQueued, onUsage }): Promise<GeneratedBackground> {
+      let usage: LlmUsage | undefined;
+      const result = (await generateBackground(systemPrompt, userPrompt, model, {
+        ...(referenceImage
+          ? { referenceImage: `data:${referenceImage.contentType};base64,${referenceImage.image.toString('base64')}` }
+          : {}),
+        onQueued,
+        onUsage: (callUsage) => {
+          usage = callUsage;
+          onUsage?.(callUsage);
+        }
+      })).trim();
+      const generated = { provider: 'openrouter', model, ...(usage ? { usage } : {}) };
+
+      if (result.startsWith('data:image/')) {
+        const contentType = result.slice('data:'.length, result.indexOf(';'));
+        return { image: decodeBase64Image(result), contentType, ...generated };
+      }
+
+      if (/^https?:\/\//.test(result)) {
+        return { ...(await downloadImage(result)), ...generated };
+      }
+
+      throw new Error(`OpenRouter returned no image: ${result.slice(0, 200)}`);
+    }
+  };
+}
+
 /**
  * Save a base64-encoded image to the filesystem
  *
@@ -134,17 +371,7 @@ export async function saveBase64Image(
   outputPath: string
 ): Promise<void> {
   try {
-    // Parse base64 data URL format: data:image/png;base64,<data>
-    const matches = base64Data.match(/^data:image\/([a-zA-Z]+);base64,(.+)$/);
-
-    if (!matches || matches.length !== 3) {
-      throw new Error('Invalid base64 data URL format. Expected: data:image/<type>;base64,<data>');
-    }
-
-    const base64Content = matches[2];
-
-    // Convert base64 to buffer
-    const buffer = Buffer.from(base64Content, 'base64');
+    const buffer = decodeBase64Image(base64Data);
 
     // Ensure directory exists
     const { promises: fs } = await import('fs');
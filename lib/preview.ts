@@ -1,21 +1,16 @@
-import path from 'path';
 import fs from 'fs/promises';
 import { composeStory } from './composition';
+import { brandLogoStorageKey, resolveBrandKit } from './brand-kits';
+import { resolveLayoutTemplate } from './layouts';
 import type { AssetVersion } from './types';
-import { readHistory, updateHistory } from './history';
-import { config } from './config';
-import { uploadToS3, localPathToS3Key } from './s3';
+import { updateHistory } from './history';
+import { getStorage, storageKeyFromUrl, tempOutputPath, withLocalFiles } from './storage';
 
 /**
- * Get the file path for a preview image
+ * Get the storage key for a preview image
  */
-export function getPreviewPath(assetId: string, version: number): string {
-  return path.join(
-    process.cwd(),
-    'public/uploads',
-    assetId,
-    `preview-v${version}.png`
-  );
+export function getPreviewKey(assetId: string, version: number): string {
+  return `uploads/${assetId}/preview-v${version}.png`;
 }
 
 /**
@@ -55,8 +50,8 @@ export interface PreviewResult {
  *
  * This function:
  * 1. Reads the asset and version data from history
- * 2. Calls composeStory with includeText: false
- * 3. Updates metadata with preview info
+ * 2. Calls composeStory with includeText: false, using the asset's layout, and stores the result
+ * 3. Updates metadata with preview info (and the layout used)
  * 4. Retries once on failure
  *
  * @param assetId - Asset ID
@@ -98,10 +93,12 @@ export async function generatePreview(
   };
 
   try {
-    // 1. Get paths inside updateHistory for atomic read (Issue #2 fix)
-    // Store paths outside callback, validate inside
-    let backgroundPath: string | undefined;
-    let assetPath: string | undefined;
+    // 1. Get storage keys inside updateHistory for atomic read (Issue #2 fix)
+    // Store keys outside callback, validate inside
+    let backgroundKey: string | undefined;
+    let assetKey: string | undefined;
+    let brandKitId: string | undefined;
+    let layoutId: string | undefined;
 
     // This updateHistory call does validation and path extraction atomically
     // It doesn't modify history (returns unchanged), but ensures consistent read
@@ -116,64 +113,54 @@ export async function generatePreview(
         throw new Error(`Version ${version} not found for asset ${assetId}`);
       }
 
-      // Store paths for use outside callback
-      // Convert web-relative paths to absolute filesystem paths
-      backgroundPath = versionData.file_path
-        ? path.join(process.cwd(), 'public', versionData.file_path.replace(/^\//, ''))
-        : undefined;
-      assetPath = path.join(process.cwd(), 'public', asset.asset_url.replace(/^\//, ''));
+      // Store keys for use outside callback
+      // Convert recorded URLs (local or S3) to storage keys
+      backgroundKey = storageKeyFromUrl(versionData.file_path) ?? undefined;
+      assetKey = storageKeyFromUrl(asset.asset_url) ?? undefined;
+      brandKitId = asset.brand_kit_id;
+      layoutId = asset.layout_id;
 
       // No changes - return history unchanged
       return hist;
     });
 
-    // Validate paths are set
-    if (!backgroundPath) {
+    // Validate keys are set
+    if (!backgroundKey) {
       return await markAsFailed('Background file path not found in version data');
     }
+    if (!assetKey) {
+      return await markAsFailed('Asset file is not in storage');
+    }
 
-    const previewPath = getPreviewPath(assetId, version);
-
-    // 2. Ensure preview directory exists
-    const previewDir = path.dirname(previewPath);
-    await fs.mkdir(previewDir, { recursive: true });
+    // Previews show the brand logo, but not the text overlay
+    const brandKit = await resolveBrandKit(brandKitId);
+    const layout = resolveLayoutTemplate(layoutId);
+    const logoKey = brandLogoStorageKey(brandKit);
+    const sourceKeys = logoKey ? [backgroundKey, assetKey, logoKey] : [backgroundKey, assetKey];
+    const previewKey = getPreviewKey(assetId, version);
 
-    // 3. Attempt composition with retry logic
+    // 2. Attempt composition with retry logic
     let lastError: Error | null = null;
     const maxAttempts = 2;
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Compose into a temp file, then store it (S3 URL in s3/hybrid mode)
+      const previewPath = tempOutputPath('.png');
+
       try {
         // Call composeStory with includeText: false
-        const result = await composeStory(
-          backgroundPath!,
-          assetPath!,
-          previewPath,
-          { includeText: false }
+        const result = await withLocalFiles(sourceKeys, ([backgroundPath, assetPath, logoPath]) =>
+          composeStory(backgroundPath, assetPath, previewPath, { includeText: false, brandKit, logoPath, layout })
         );
 
         if (!result.success) {
           throw new Error(result.analytics?.text_overlay?.error || 'Composition failed');
         }
 
-        // Upload to S3 if storage mode is hybrid or s3
-        let finalPreviewUrl = getPreviewUrl(assetId, version);
-        if (config.storage?.mode === 'hybrid' || config.storage?.mode === 's3') {
-          try {
-            const s3Key = localPathToS3Key(finalPreviewUrl);
-            const s3Url = await uploadToS3(previewPath, s3Key, 'image/png');
-            finalPreviewUrl = s3Url;
-            console.log(`[Preview] Uploaded to S3: ${s3Url}`);
-          } catch (s3Error) {
-            console.error('[Preview] S3 upload failed:', s3Error);
-            if (config.storage?.mode === 's3') {
-              throw new Error(`S3 upload failed: ${s3Error instanceof Error ? s3Error.message : 'Unknown error'}`);
-            }
-            // In hybrid mode, fall back to local URL
-          }
-        }
+        const finalPreviewUrl = await getStorage().put(previewKey, await fs.readFile(previewPath), 'image/png');
+        await fs.unlink(previewPath).catch(() => {});
 
-        // 4. Update metadata on success
+        // 3. Update metadata on success
         // Validation happens inside callback for atomic operation (Issue #2 fix)
         const processingTime = Date.now() - startTime;
         const generatedAt = new Date().toISOString();
@@ -189,10 +176,11 @@ export async function generatePreview(
           // Update version metadata
           hist.assets[assetIndex].versions[versionIndex] = {
             ...hist.assets[assetIndex].versions[versionIndex],
-            preview_file_path: finalPreviewUrl, // Use S3 URL if uploaded, otherwise local
+            preview_file_path: finalPreviewUrl, // S3 URL in s3/hybrid mode, otherwise local
             preview_generated_at: generatedAt,
             preview_generation_time_ms: processingTime,
-            preview_generation_failed: false
+            preview_generation_failed: false,
+            layout_id: layout.id
           };
 
           return hist;
@@ -206,6 +194,7 @@ export async function generatePreview(
         };
 
       } catch (error) {
+        await fs.unlink(previewPath).catch(() => {});
         lastError = error instanceof Error ? error : new Error(String(error));
         console.warn(`Preview generation attempt ${attempt} failed:`, lastError.message);
 
@@ -216,11 +205,11 @@ export async function generatePreview(
       }
     }
 
-    // 5. Mark as failed after all retries exhausted (Issue #1 fix - consistent metadata update)
+    // 4. Mark as failed after all retries exhausted (Issue #1 fix - consistent metadata update)
     return await markAsFailed(lastError?.message || 'Unknown error');
 
   } catch (error) {
-    // 6. Mark as failed for early failures (Issue #1 fix - consistent metadata update)
+    // 5. Mark as failed for early failures (Issue #1 fix - consistent metadata update)
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('Preview generation failed:', errorMessage);
     return await markAsFailed(errorMessage);
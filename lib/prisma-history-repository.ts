@@ -0,0 +1,151 @@
+/**
+ * Prisma History Repository
+ *
+ * Stores history in the Postgres Asset/Version tables (see prisma/schema.prisma)
+ * behind the same HistoryRepository contract as the history.json backend, with
+ * audit events in the AuditEvent table.
+ */
+
+import type { PrismaClient, Prisma } from '@prisma/client';
+import {
+  assetToPrismaData,
+  versionToPrismaData,
+  prismaToAsset,
+  auditEventToPrismaData,
+  prismaToAuditEvent,
+  type PrismaAssetWithVersions
+} from './prisma-mapping';
+import { validateHistoryData, type HistoryRepository } from './history-repository';
+import { buildAuditEvents } from './audit';
+import type { AssetMetadata } from './types';
+
+/**
+ * Advisory lock key serializing history updates across app instances
+ * (the database equivalent of the history.json lockfile)
+ */
+const HISTORY_LOCK_KEY = 7_411_001;
+
+/**
+ * Run a function in a transaction holding the history advisory lock
+ * @param client - Prisma client
+ * @param fn - Work to run with the transaction client
+ */
+export async function withHistoryLock<T>(
+  client: PrismaClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return client.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${HISTORY_LOCK_KEY})`;
+    return fn(tx);
+  });
+}
+
+/**
+ * Load all assets with versions in history order
+ */
+export async function loadAssets(client: PrismaClient | Prisma.TransactionClient): Promise<AssetMetadata[]> {
+  const rows = await client.asset.findMany({
+    include: { versions: true },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  });
+  return (rows as PrismaAssetWithVersions[]).map(prismaToAsset);
+}
+
+/**
+ * Write a changed asset and sync its versions
+ * @param tx - Transaction client
+ * @param asset - Asset to write
+ * @param previous - Currently stored copy (undefined for new assets)
+ */
+export async function saveAsset(
+  tx: Prisma.TransactionClient,
+  asset: AssetMetadata,
+  previous: AssetMetadata | undefined
+): Promise<void> {
+  const data = assetToPrismaData(asset);
+  await tx.asset.upsert({
+    where: { id: asset.id },
+    create: data,
+    update: data
+  });
+
+  const versionNumbers = asset.versions.map(v => v.version);
+  if (previous && previous.versions.some(v => !versionNumbers.includes(v.version))) {
+    await tx.version.deleteMany({
+      where: { assetId: asset.id, version: { notIn: versionNumbers } }
+    });
+  }
+
+  for (const version of asset.versions) {
+    const before = previous?.versions.find(v => v.version === version.version);
+    if (before && JSON.stringify(before) === JSON.stringify(version)) {
+      continue;
+    }
+
+    const versionData = versionToPrismaData(asset.id, version);
+    await tx.version.upsert({
+      where: { assetId_version: { assetId: asset.id, version: version.version } },
+      create: versionData,
+      update: versionData
+    });
+  }
+}
+
+/**
+ * Create a repository backed by the Prisma Asset/Version tables
+ *
+ * Updates run in a transaction holding a Postgres advisory lock, so
+ * concurrent read-modify-write cycles are serialized like the file lock.
+ * Only assets whose serialized form changed are written.
+ *
+ * @param client - Prisma client
+ */
+export function createPrismaHistoryRepository(client: PrismaClient): HistoryRepository {
+  return {
+    async read() {
+      return { assets: await loadAssets(client) };
+    },
+
+    async update(updateFn, audit) {
+      await withHistoryLock(client, async (tx) => {
+        const assets = await loadAssets(tx);
+
+        // Snapshot before calling updateFn, which may mutate in place
+        const snapshots = new Map(assets.map(a => [a.id, JSON.stringify(a)]));
+        const previous = new Map(
+          assets.map(a => [a.id, JSON.parse(snapshots.get(a.id)!) as AssetMetadata])
+        );
+
+        const newHistory = updateFn({ assets });
+        validateHistoryData(newHistory);
+
+        const nextIds = new Set(newHistory.assets.map(a => a.id));
+        const removedIds = [...previous.keys()].filter(id => !nextIds.has(id));
+        if (removedIds.length > 0) {
+          await tx.asset.deleteMany({ where: { id: { in: removedIds } } });
+        }
+
+        for (const asset of newHistory.assets) {
+          if (snapshots.get(asset.id) === JSON.stringify(asset)) {
+            continue;
+          }
+          await saveAsset(tx, asset, previous.get(asset.id));
+        }
+
+        const events = buildAuditEvents({ assets: [...previous.values()] }, newHistory, audit);
+        if (events.length > 0) {
+          await tx.auditEvent.createMany({ data: events.map(auditEventToPrismaData) });
+        }
+      });
+    },
+
+    async readAudit(assetId) {
+      const rows = await client.auditEvent.findMany({
+        where: { assetId },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+      });
+      return rows.map(prismaToAuditEvent);
+    }
+  };
+}
+
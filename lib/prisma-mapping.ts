@@ -0,0 +1,233 @@
+/**
+ * Prisma Record Mapping
+ *
+ * Converts between the history.json shapes (AssetMetadata / AssetVersion /
+ * AuditEvent, snake_case with ISO date strings) and the Prisma Asset /
+ * Version / AuditEvent models (camelCase with Date columns).
+ */
+
+import { Prisma } from '@prisma/client';
+import type {
+  Asset as PrismaAsset,
+  Version as PrismaVersion,
+  AuditEvent as PrismaAuditEvent
+} from '@prisma/client';
+import type { AssetMetadata, AssetVersion, AuditAction, AuditEvent, Status } from './types';
+
+/**
+ * Prisma Asset row with its versions loaded
+ */
+export type PrismaAssetWithVersions = PrismaAsset & { versions: PrismaVersion[] };
+
+/**
+ * Convert an optional ISO string to a Date (null if absent)
+ */
+function toDate(value: string | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Convert an optional JSON value for a nullable Json column
+ */
+function toJson<T>(value: T | undefined): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value === undefined || value === null
+    ? Prisma.DbNull
+    : (value as unknown as Prisma.InputJsonValue);
+}
+
+/**
+ * Copy defined values onto a target, skipping null/undefined
+ * (keeps mapped records in the same shape as history.json)
+ */
+function assignDefined<T extends object>(target: T, values: Partial<Record<keyof T, unknown>>): T {
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== null && value !== undefined) {
+      (target as Record<string, unknown>)[key] = value;
+    }
+  }
+  return target;
+}
+
+/**
+ * Map an AssetMetadata record to Prisma Asset column data (without versions)
+ */
+export function assetToPrismaData(asset: AssetMetadata) {
+  return {
+    id: asset.id,
+    date: asset.date,
+    assetUrl: asset.asset_url,
+    metaDescription: asset.meta_description,
+    status: asset.status,
+    createdAt: new Date(asset.created_at),
+    updatedAt: toDate(asset.updated_at),
+    revision: asset.revision ?? 0,
+    contentHash: asset.content_hash ?? null,
+    perceptualHash: asset.perceptual_hash ?? null,
+    deletedAt: toDate(asset.deleted_at),
+    deletedBy: asset.deleted_by ?? null,
+    assetVisionDescription: asset.asset_vision_description ?? null,
+    dominantColors: asset.dominant_colors ?? [],
+    brandKitId: asset.brand_kit_id ?? null,
+    layoutId: asset.layout_id ?? null,
+    llmUsage: toJson(asset.llm_usage),
+    activeVersion: asset.active_version ?? null,
+    blotatoPostId: asset.blotato_post_id ?? null,
+    scheduledTime: toDate(asset.scheduled_time),
+    scheduledAt: toDate(asset.scheduled_at),
+    publishedAt: toDate(asset.published_at),
+    verifiedAt: toDate(asset.verified_at),
+    textOverlayContent: asset.text_overlay_content ?? null,
+    textOverlayEnabled: asset.text_overlay_enabled ?? true,
+    textOverlayAnalytics: toJson(asset.text_overlay_analytics),
+    error: toJson(asset.error)
+  };
+}
+
+/**
+ * Map an AssetVersion record to Prisma Version column data
+ */
+export function versionToPrismaData(assetId: string, version: AssetVersion) {
+  return {
+    assetId,
+    version: version.version,
+    createdAt: new Date(version.created_at),
+    promptUsed: version.prompt_used ?? '',
+    refinementPrompt: version.refinement_prompt ?? null,
+    parentVersion: version.parent_version ?? null,
+    filePath: version.file_path ?? '',
+    missingFile: version.missing_file ?? null,
+    provider: version.provider ?? null,
+    model: version.model ?? null,
+    templateId: version.template_id ?? null,
+    templateVersion: version.template_version ?? null,
+    campaignId: version.campaign_id ?? null,
+    layoutId: version.layout_id ?? null,
+    candidateGroup: version.candidate_group ?? null,
+    quality: toJson(version.quality),
+    usage: toJson(version.usage),
+    textOverlayApplied: version.text_overlay_applied ?? null,
+    textOverlayContent: version.text_overlay_content ?? null,
+    textOverlayPosition: toJson(version.text_overlay_position),
+    textOverlayFailed: version.text_overlay_failed ?? null,
+    textOverlayError: version.text_overlay_error ?? null,
+    textOverlayFallbackApplied: version.text_overlay_fallback_applied ?? null,
+    previewFilePath: version.preview_file_path ?? null,
+    previewGeneratedAt: toDate(version.preview_generated_at),
+    previewGenerationTimeMs: version.preview_generation_time_ms ?? null,
+    previewGenerationFailed: version.preview_generation_failed ?? null
+  };
+}
+
+/**
+ * Map a Prisma Version row back to an AssetVersion
+ */
+export function prismaToVersion(row: PrismaVersion): AssetVersion {
+  return assignDefined<AssetVersion>(
+    {
+      version: row.version,
+      created_at: row.createdAt.toISOString(),
+      prompt_used: row.promptUsed,
+      file_path: row.filePath
+    },
+    {
+      refinement_prompt: row.refinementPrompt,
+      parent_version: row.parentVersion,
+      missing_file: row.missingFile,
+      provider: row.provider,
+      model: row.model,
+      template_id: row.templateId,
+      template_version: row.templateVersion,
+      campaign_id: row.campaignId,
+      layout_id: row.layoutId,
+      candidate_group: row.candidateGroup,
+      quality: row.quality as AssetVersion['quality'] | null,
+      usage: row.usage as AssetVersion['usage'] | null,
+      text_overlay_applied: row.textOverlayApplied,
+      text_overlay_content: row.textOverlayContent,
+      text_overlay_position: row.textOverlayPosition as AssetVersion['text_overlay_position'] | null,
+      text_overlay_failed: row.textOverlayFailed,
+      text_overlay_error: row.textOverlayError,
+      text_overlay_fallback_applied: row.textOverlayFallbackApplied,
+      preview_file_path: row.previewFilePath,
+      preview_generated_at: row.previewGeneratedAt?.toISOString(),
+      preview_generation_time_ms: row.previewGenerationTimeMs,
+      preview_generation_failed: row.previewGenerationFailed
+    }
+  );
+}
+
+/**
+ * Map a Prisma Asset row (with versions) back to AssetMetadata
+ */
+export function prismaToAsset(row: PrismaAssetWithVersions): AssetMetadata {
+  const versions = [...row.versions]
+    .sort((a, b) => a.version - b.version)
+    .map(prismaToVersion);
+
+  return assignDefined<AssetMetadata>(
+    {
+      id: row.id,
+      date: row.date,
+      asset_url: row.assetUrl,
+      meta_description: row.metaDescription,
+      status: row.status as Status,
+      created_at: row.createdAt.toISOString(),
+      versions
+    },
+    {
+      updated_at: row.updatedAt?.toISOString(),
+      revision: row.revision > 0 ? row.revision : undefined,
+      content_hash: row.contentHash,
+      perceptual_hash: row.perceptualHash,
+      deleted_at: row.deletedAt?.toISOString(),
+      deleted_by: row.deletedBy,
+      asset_vision_description: row.assetVisionDescription,
+      dominant_colors: row.dominantColors.length > 0 ? row.dominantColors : undefined,
+      brand_kit_id: row.brandKitId,
+      layout_id: row.layoutId,
+      llm_usage: row.llmUsage as AssetMetadata['llm_usage'] | null,
+      active_version: row.activeVersion,
+      blotato_post_id: row.blotatoPostId,
+      scheduled_time: row.scheduledTime?.toISOString(),
+      scheduled_at: row.scheduledAt?.toISOString(),
+      published_at: row.publishedAt?.toISOString(),
+      verified_at: row.verifiedAt?.toISOString(),
+      error: row.error as AssetMetadata['error'] | null,
+      text_overlay_content: row.textOverlayContent,
+      text_overlay_enabled: row.textOverlayEnabled,
+      text_overlay_analytics: row.textOverlayAnalytics as AssetMetadata['text_overlay_analytics'] | null
+    }
+  );
+}
+
+/**
+ * Map an AuditEvent to Prisma AuditEvent column data
+ */
+export function auditEventToPrismaData(event: AuditEvent) {
+  return {
+    id: event.id,
+    assetId: event.asset_id,
+    action: event.action,
+    actor: event.actor,
+    source: event.source ?? null,
+    createdAt: new Date(event.at),
+    changes: event.changes as unknown as Prisma.InputJsonValue
+  };
+}
+
+/**
+ * Map a Prisma AuditEvent row back to an AuditEvent
+ */
+export function prismaToAuditEvent(row: PrismaAuditEvent): AuditEvent {
+  return assignDefined<AuditEvent>(
+    {
+      id: row.id,
+      asset_id: row.assetId,
+      action: row.action as AuditAction,
+      actor: row.actor,
+      at: row.createdAt.toISOString(),
+      changes: row.changes as unknown as AuditEvent['changes']
+    },
+    { source: row.source }
+  );
+}
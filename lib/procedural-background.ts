@@ -0,0 +1,224 @@
+/**
+ * Procedural Backgrounds
+ *
+ * Renders 1080x1920 story backgrounds from an asset's dominant colors with
+ * SVG and sharp, without calling any AI service. Output depends only on the
+ * colors, style and seed, so the same asset version always gets the same
+ * background.
+ *
+ * Decoration stays in the side margins between the Instagram safe zones; the
+ * asset zone gets a soft veil so the overlaid asset remains the focal point.
+ */
+
+import sharp from 'sharp';
+import { config } from './config';
+import type { BackgroundProvider, GeneratedBackground } from './background-providers';
+
+/**
+ * Procedural background styles
+ */
+export type ProceduralStyle = 'gradient' | 'mesh' | 'geometric';
+
+export const PROCEDURAL_STYLES: ProceduralStyle[] = ['gradient', 'mesh', 'geometric'];
+
+/**
+ * Options for a procedural background
+ */
+export interface ProceduralBackgroundOptions {
+  /** Hex colors, most prominent first (falls back to DEFAULT_PALETTE) */
+  colors?: string[];
+  /** Seed for layout randomness (default: the colors) */
+  seed?: string;
+  /** Style (default: picked from the seed) */
+  style?: ProceduralStyle;
+}
+
+/**
+ * Palette used when an asset has fewer than two usable colors
+ */
+export const DEFAULT_PALETTE = ['#4F46E5', '#06B6D4', '#F472B6'];
+
+type Rgb = [number, number, number];
+
+function parseHex(color: string): Rgb | null {
+  const match = color.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+}
+
+function toHex(rgb: Rgb): string {
+  return '#' + rgb.map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Blend two colors (t = 0 gives a, t = 1 gives b)
+ */
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return [0, 1, 2].map(i => a[i] + (b[i] - a[i]) * t) as Rgb;
+}
+
+function luminance([r, g, b]: Rgb): number {
+  return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) seeded from a string (FNV-1a)
+ */
+function createRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Usable palette: valid colors, darkest first as the base
+ */
+function resolvePalette(colors: string[] = []): Rgb[] {
+  const parsed = colors.map(parseHex).filter((c): c is Rgb => c !== null);
+  const palette = parsed.length >= 2 ? parsed : [...parsed, ...DEFAULT_PALETTE.map(c => parseHex(c)!)];
+  return [...palette.slice(0, 5)].sort((a, b) => luminance(a) - luminance(b));
+}
+
+/**
+ * Build the SVG for a procedural background
+ * @returns SVG document sized to the Instagram story canvas, and the style used
+ */
+export function buildProceduralSvg(
+  options: ProceduralBackgroundOptions = {}
+): { svg: string; style: ProceduralStyle } {
+  const { width, height, safeZones, assetZone } = config.instagram;
+  const palette = resolvePalette(options.colors);
+  const random = createRandom(options.seed ?? palette.map(toHex).join(','));
+  const style = options.style ?? PROCEDURAL_STYLES[Math.floor(random() * PROCEDURAL_STYLES.length)];
+  const pick = () => palette[Math.floor(random() * palette.length)];
+  const between = (min: number, max: number) => min + random() * (max - min);
+
+  // Base leans on the darkest color so light accents stay readable behind the asset
+  const base = mix(mix(palette[0], palette[1], 0.35), [0, 0, 0], 0.15);
+  const accent = palette[palette.length - 1];
+
+  // Decoration goes in the side margins, between the safe zones
+  const decorationPoint = (): [number, number] => {
+    const margin = assetZone.xOffset;
+    const x = random() < 0.5 ? between(-margin * 0.5, margin) : between(width - margin, width + margin * 0.5);
+    return [x, between(safeZones.top, height - safeZones.bottom)];
+  };
+
+  const defs: string[] = [];
+  const layers: string[] = [];
+  const angle = Math.round(between(0, 360));
+
+  defs.push(
+    `<linearGradient id="base" gradientTransform="rotate(${angle} 0.5 0.5)">` +
+    `<stop offset="0" stop-color="${toHex(base)}"/>` +
+    `<stop offset="0.55" stop-color="${toHex(mix(base, pick(), 0.55))}"/>` +
+    `<stop offset="1" stop-color="${toHex(mix(base, accent, 0.45))}"/>` +
+    `</linearGradient>`,
+    `<filter id="soft" x="-50%" y="-50%" width="200%" height="200%"><feGaussianBlur stdDeviation="90"/></filter>`,
+    `<filter id="veil" x="-20%" y="-20%" width="140%" height="140%"><feGaussianBlur stdDeviation="60"/></filter>`
+  );
+  layers.push(`<rect width="${width}" height="${height}" fill="url(#base)"/>`);
+
+  if (style === 'gradient') {
+    for (let i = 0; i < 2; i++) {
+      const [cx, cy] = decorationPoint();
+      layers.push(
+        `<circle cx="${cx.toFixed(0)}" cy="${cy.toFixed(0)}" r="${between(260, 420).toFixed(0)}" ` +
+        `fill="${toHex(pick())}" opacity="${between(0.35, 0.55).toFixed(2)}" filter="url(#soft)"/>`
+      );
+    }
+  } else if (style === 'mesh') {
+    // Heavily blurred blobs over the whole canvas carry no detail into the safe zones
+    for (let i = 0; i < 5; i++) {
+      const cx = between(0, width);
+      const cy = between(0, height);
+      layers.push(
+        `<ellipse cx="${cx.toFixed(0)}" cy="${cy.toFixed(0)}" rx="${between(300, 520).toFixed(0)}" ` +
+        `ry="${between(380, 700).toFixed(0)}" fill="${toHex(pick())}" opacity="${between(0.4, 0.7).toFixed(2)}" ` +
+        `filter="url(#soft)"/>`
+      );
+    }
+  } else {
+    for (let i = 0; i < 9; i++) {
+      const [cx, cy] = decorationPoint();
+      const size = between(70, 240);
+      const fill = toHex(pick());
+      const opacity = between(0.25, 0.6).toFixed(2);
+      const rotate = Math.round(between(0, 90));
+      const shape = Math.floor(random() * 3);
+      if (shape === 0) {
+        layers.push(`<circle cx="${cx.toFixed(0)}" cy="${cy.toFixed(0)}" r="${(size / 2).toFixed(0)}" fill="${fill}" opacity="${opacity}"/>`);
+      } else if (shape === 1) {
+        layers.push(
+          `<rect x="${(cx - size / 2).toFixed(0)}" y="${(cy - size / 2).toFixed(0)}" width="${size.toFixed(0)}" ` +
+          `height="${size.toFixed(0)}" rx="${(size / 8).toFixed(0)}" fill="${fill}" opacity="${opacity}" ` +
+          `transform="rotate(${rotate} ${cx.toFixed(0)} ${cy.toFixed(0)})"/>`
+        );
+      } else {
+        const r = size / 2;
+        const points = [0, 120, 240]
+          .map(deg => ((deg + rotate) * Math.PI) / 180)
+          .map(rad => `${(cx + r * Math.cos(rad)).toFixed(0)},${(cy + r * Math.sin(rad)).toFixed(0)}`)
+          .join(' ');
+        layers.push(`<polygon points="${points}" fill="none" stroke="${fill}" stroke-width="10" opacity="${opacity}"/>`);
+      }
+    }
+  }
+
+  // Calm the asset zone so the asset stays the focal point
+  layers.push(
+    `<rect x="${assetZone.xOffset}" y="${assetZone.yOffset}" width="${assetZone.width}" height="${assetZone.height}" ` +
+    `rx="120" fill="${toHex(mix(base, accent, 0.2))}" opacity="0.45" filter="url(#veil)"/>`
+  );
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs>${defs.join('')}</defs>${layers.join('')}</svg>`;
+
+  return { svg, style };
+}
+
+/**
+ * Render a procedural background
+ * @returns PNG sized to the Instagram story canvas, and the style used
+ * @throws Error if sharp cannot render the SVG
+ */
+export async function renderProceduralBackground(
+  options: ProceduralBackgroundOptions = {}
+): Promise<{ image: Buffer; style: ProceduralStyle }> {
+  const { svg, style } = buildProceduralSvg(options);
+  return { image: await sharp(Buffer.from(svg)).png().toBuffer(), style };
+}
+
+/**
+ * Create the 'procedural' background provider
+ *
+ * Uses the request's brand palette (or dominant colors) and seed; prompts are ignored.
+ *
+ * @param style - Fixed style, or 'auto' to pick one per seed (default: PROCEDURAL_BACKGROUND_STYLE)
+ */
+export function createProceduralProvider(
+  style: ProceduralStyle | 'auto' = config.backgrounds.proceduralStyle
+): BackgroundProvider {
+  return {
+    name: 'procedural',
+
+    async generate({ dominantColors, palette, seed }): Promise<GeneratedBackground> {
+      const rendered = await renderProceduralBackground({
+        colors: palette && palette.length > 0 ? palette : dominantColors,
+        seed,
+        style: style === 'auto' ? undefined : style
+      });
+
+      return { image: rendered.image, contentType: 'image/png', provider: 'procedural', model: rendered.style };
+    }
+  };
+}
@@ -0,0 +1,376 @@
+/**
+ * Prompt Templates
+ *
+ * Background prompts are rendered from named templates stored in
+ * prompt-templates.json, so the brand voice can change without a deploy.
+ * Templates use {{variables}} filled from the asset (PROMPT_TEMPLATE_VARIABLES).
+ * Editing a template's text adds a version; generated versions record the
+ * template ID and version they used. One template is the workspace default.
+ *
+ * Until a template is saved, the file holds only the built-in IconScout brand
+ * template, which takes its style and palette from the asset's brand kit.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from './config';
+import { readJsonStore, updateJsonStore, type JsonStoreFormat } from './json-store';
+import { builtinBrandKit } from './brand-kits';
+import type { AssetMetadata, BrandKit, PromptTemplate, PromptTemplatesData, PromptTemplateVersion } from './types';
+
+/**
+ * Variables a template may use
+ * - meta_description: Asset description from upload
+ * - vision_description: Vision analysis (meta_description if there is none)
+ * - colors: Dominant colors, comma-separated ("vibrant and bold colors" if unknown)
+ * - date: Asset's story date (YYYY-MM-DD)
+ * - brand_name, brand_tone: From the asset's brand kit
+ * - brand_colors: Kit's allowed colors ("no fixed palette" if none)
+ * - forbidden_colors: Kit's forbidden colors ("none" if none)
+ */
+export const PROMPT_TEMPLATE_VARIABLES = [
+  'meta_description',
+  'vision_description',
+  'colors',
+  'date',
+  'brand_name',
+  'brand_tone',
+  'brand_colors',
+  'forbidden_colors'
+] as const;
+
+export type PromptTemplateVariable = typeof PROMPT_TEMPLATE_VARIABLES[number];
+
+export type PromptVariables = Record<PromptTemplateVariable, string>;
+
+export const BUILTIN_PROMPT_TEMPLATE_ID = 'iconscout-brand';
+
+/**
+ * Default system prompt for background generation
+ * From iconscout-brand skill
+ */
+const BUILTIN_SYSTEM_PROMPT = `You are an expert background designer for Instagram Stories specializing in the {{brand_name}} brand aesthetic.
+
+BRAND STYLE:
+{{brand_tone}}
+
+CRITICAL RULES:
+- Generate ONLY the background - DO NOT draw the asset, logo, or text
+- Respect Instagram Story safe zones: top 250px and bottom 180px should avoid critical visual elements
+- The center 70% of the canvas (756x1344 pixels out of 1080x1920) is reserved for the asset overlay
+- Design the background to enhance, not compete with, the asset that will be placed on top
+- Output resolution: 1080x1920 pixels (9:16 aspect ratio)
+
+VISUAL APPROACH:
+- Use abstract shapes and gradients rather than literal objects
+- Create depth with layered shapes or gradient transitions
+- Balance vibrant colors with clean, uncluttered composition
+- Ensure the center area has visual interest but remains suitable for overlay`;
+
+/**
+ * Default user prompt, built from asset description, vision analysis, and colors
+ */
+const BUILTIN_USER_PROMPT = `Create an Instagram Story background with the following characteristics:
+
+ASSET DESCRIPTION: {{vision_description}}
+META DESCRIPTION: {{meta_description}}
+SUGGESTED COLOR PALETTE (use as guidance, not strict requirement): {{colors}}
+BRAND COLORS: {{brand_colors}}
+NEVER USE THESE COLORS: {{forbidden_colors}}
+
+Design a complementary background that enhances this asset while allowing it to remain the focal point.
+
+STYLE REQUIREMENTS:
+- Abstract and gradient-based design
+- Vibrant colors that enhance without competing
+- Clean center area for asset overlay
+
+CONSTRAINTS:
+- 1080x1920 pixels (9:16 aspect ratio)
+- Keep center 70% relatively clean for asset overlay
+- Avoid critical elements in top 250px and bottom 180px`;
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/**
+ * Fields a client may set on a template
+ */
+export interface PromptTemplateInput {
+  name: string;
+  description?: string;
+  system_prompt: string;
+  user_prompt: string;
+}
+
+function builtinTemplates(): PromptTemplatesData {
+  const createdAt = new Date(0).toISOString();
+  return {
+    default_template_id: BUILTIN_PROMPT_TEMPLATE_ID,
+    templates: [
+      {
+        id: BUILTIN_PROMPT_TEMPLATE_ID,
+        name: 'IconScout brand',
+        description: 'Abstract, gradient-based backgrounds in the IconScout brand style',
+        versions: [
+          { version: 1, system_prompt: BUILTIN_SYSTEM_PROMPT, user_prompt: BUILTIN_USER_PROMPT, created_at: createdAt }
+        ],
+        created_at: createdAt,
+        updated_at: createdAt
+      }
+    ]
+  };
+}
+
+/**
+ * Current (latest) version of a template
+ */
+export function currentTemplateVersion(template: PromptTemplate): PromptTemplateVersion {
+  return template.versions[template.versions.length - 1];
+}
+
+/**
+ * Variables for rendering a template against an asset
+ *
+ * @param brandKit - The asset's brand kit (default: the built-in kit)
+ */
+export function promptVariablesForAsset(
+  asset: Pick<AssetMetadata, 'meta_description' | 'asset_vision_description' | 'dominant_colors' | 'date'>,
+  brandKit: BrandKit = builtinBrandKit()
+): PromptVariables {
+  return {
+    meta_description: asset.meta_description,
+    vision_description: asset.asset_vision_description || asset.meta_description,
+    colors: asset.dominant_colors && asset.dominant_colors.length > 0
+      ? asset.dominant_colors.join(', ')
+      : 'vibrant and bold colors',
+    date: asset.date,
+    brand_name: brandKit.name,
+    brand_tone: brandKit.tone,
+    brand_colors: brandKit.allowed_colors.length > 0 ? brandKit.allowed_colors.join(', ') : 'no fixed palette',
+    forbidden_colors: brandKit.forbidden_colors.length > 0 ? brandKit.forbidden_colors.join(', ') : 'none'
+  };
+}
+
+/**
+ * Fill a template's {{variables}}
+ */
+export function renderPromptTemplate(text: string, variables: PromptVariables): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name as PromptTemplateVariable] : match
+  );
+}
+
+/**
+ * Check a template's fields
+ *
+ * @param partial - Only check the fields present (for updates)
+ * @throws Error starting with "Invalid template" if a field is missing or empty,
+ *   or a prompt uses an unknown variable
+ */
+export function validatePromptTemplateInput(input: Partial<PromptTemplateInput>, partial: boolean = false): void {
+  const required: Array<keyof PromptTemplateInput> = ['name', 'system_prompt', 'user_prompt'];
+  for (const field of required) {
+    const value = input[field];
+    if ((value === undefined && !partial) || (value !== undefined && (typeof value !== 'string' || !value.trim()))) {
+      throw new Error(`Invalid template: ${field} must be a non-empty string`);
+    }
+  }
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    throw new Error('Invalid template: description must be a string');
+  }
+
+  for (const field of ['system_prompt', 'user_prompt'] as const) {
+    const text = input[field];
+    if (text === undefined) continue;
+    for (const [, name] of text.matchAll(VARIABLE_PATTERN)) {
+      if (!(PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+        throw new Error(
+          `Invalid template: unknown variable {{${name}}} in ${field} (available: ${PROMPT_TEMPLATE_VARIABLES.join(', ')})`
+        );
+      }
+    }
+  }
+}
+
+const TEMPLATES_FORMAT: JsonStoreFormat<PromptTemplatesData> = {
+  empty: builtinTemplates,
+  parse: data => ({
+    default_template_id: data?.default_template_id ?? BUILTIN_PROMPT_TEMPLATE_ID,
+    templates: Array.isArray(data?.templates) ? data.templates : []
+  })
+};
+
+/**
+ * Read all templates and the default template ID
+ * @throws Error if prompt-templates.json is not valid JSON
+ */
+export async function readPromptTemplates(path: string = config.paths.promptTemplates): Promise<PromptTemplatesData> {
+  return readJsonStore(path, TEMPLATES_FORMAT);
+}
+
+/**
+ * Modify prompt-templates.json under its lock
+ * @returns Whatever fn returns
+ */
+async function updatePromptTemplates<T>(
+  fn: (data: PromptTemplatesData) => T,
+  path: string = config.paths.promptTemplates
+): Promise<T> {
+  return updateJsonStore(path, TEMPLATES_FORMAT, fn);
+}
+
+function findTemplate(data: PromptTemplatesData, templateId: string): PromptTemplate {
+  const template = data.templates.find(t => t.id === templateId);
+  if (!template) {
+    throw new Error(`Prompt template ${templateId} not found`);
+  }
+  return template;
+}
+
+/**
+ * Get a template by ID
+ * @returns The template, or null if it doesn't exist
+ */
+export async function getPromptTemplate(
+  templateId: string,
+  path: string = config.paths.promptTemplates
+): Promise<PromptTemplate | null> {
+  return (await readPromptTemplates(path)).templates.find(t => t.id === templateId) ?? null;
+}
+
+/**
+ * Create a template (version 1)
+ * @throws Error starting with "Invalid template" if input is invalid
+ */
+export async function createPromptTemplate(
+  input: PromptTemplateInput,
+  actor?: string,
+  path: string = config.paths.promptTemplates
+): Promise<PromptTemplate> {
+  validatePromptTemplateInput(input);
+
+  const now = new Date().toISOString();
+  const template: PromptTemplate = {
+    id: uuidv4(),
+    name: input.name.trim(),
+    ...(input.description ? { description: input.description } : {}),
+    versions: [
+      {
+        version: 1,
+        system_prompt: input.system_prompt,
+        user_prompt: input.user_prompt,
+        created_at: now,
+        ...(actor ? { created_by: actor } : {})
+      }
+    ],
+    created_at: now,
+    updated_at: now
+  };
+
+  await updatePromptTemplates((data) => {
+    data.templates.push(template);
+  }, path);
+  return template;
+}
+
+/**
+ * Edit a template
+ *
+ * Name and description change in place; changing either prompt adds a version.
+ *
+ * @throws Error starting with "Invalid template" if changes are invalid
+ * @throws Error if the template doesn't exist
+ */
+export async function updatePromptTemplate(
+  templateId: string,
+  changes: Partial<PromptTemplateInput>,
+  actor?: string,
+  path: string = config.paths.promptTemplates
+): Promise<PromptTemplate> {
+  validatePromptTemplateInput(changes, true);
+
+  return updatePromptTemplates((data) => {
+    const template = findTemplate(data, templateId);
+    const current = currentTemplateVersion(template);
+    const now = new Date().toISOString();
+
+    if (changes.name !== undefined) template.name = changes.name.trim();
+    if (changes.description !== undefined) template.description = changes.description;
+
+    const systemPrompt = changes.system_prompt ?? current.system_prompt;
+    const userPrompt = changes.user_prompt ?? current.user_prompt;
+    if (systemPrompt !== current.system_prompt || userPrompt !== current.user_prompt) {
+      template.versions.push({
+        version: current.version + 1,
+        system_prompt: systemPrompt,
+        user_prompt: userPrompt,
+        created_at: now,
+        ...(actor ? { created_by: actor } : {})
+      });
+    }
+
+    template.updated_at = now;
+    return template;
+  }, path);
+}
+
+/**
+ * Delete a template (versions that used it keep its ID and version number)
+ * @returns false if the template doesn't exist
+ * @throws Error if it is the default template
+ */
+export async function deletePromptTemplate(
+  templateId: string,
+  path: string = config.paths.promptTemplates
+): Promise<boolean> {
+  return updatePromptTemplates((data) => {
+    if (!data.templates.some(t => t.id === templateId)) return false;
+    if (data.default_template_id === templateId) {
+      throw new Error('Cannot delete the default prompt template; choose another default first');
+    }
+    data.templates = data.templates.filter(t => t.id !== templateId);
+    return true;
+  }, path);
+}
+
+/**
+ * Make a template the workspace default
+ * @throws Error if the template doesn't exist
+ */
+export async function setDefaultPromptTemplate(
+  templateId: string,
+  path: string = config.paths.promptTemplates
+): Promise<PromptTemplate> {
+  return updatePromptTemplates((data) => {
+    const template = findTemplate(data, templateId);
+    data.default_template_id = templateId;
+    return template;
+  }, path);
+}
+
+/**
+ * Pick the template version to render
+ *
+ * @param templateId - Template (default: the workspace default)
+ * @param version - Version (default: current)
+ * @throws Error starting with "Unknown prompt template" if either doesn't exist
+ */
+export async function resolvePromptTemplate(
+  templateId?: string,
+  version?: number,
+  path: string = config.paths.promptTemplates
+): Promise<{ template: PromptTemplate; version: PromptTemplateVersion }> {
+  const data = await readPromptTemplates(path);
+  const id = templateId || data.default_template_id;
+  const template = data.templates.find(t => t.id === id);
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${id}`);
+  }
+
+  const selected = version === undefined
+    ? currentTemplateVersion(template)
+    : template.versions.find(v => v.version === version);
+  if (!selected) {
+    throw new Error(`Unknown prompt template version: ${template.name} v${version}`);
+  }
+  return { template, version: selected };
+}
@@ -0,0 +1,163 @@
+/**
+ * Rate Limiting
+ *
+ * Token-bucket limiter with a FIFO queue: calls run immediately while tokens
+ * remain (up to a minute's worth in a burst), then wait in order until the
+ * bucket refills. Callers that end up waiting are told their queue position
+ * and an estimated wait.
+ *
+ * Also provides the jittered backoff used to retry rate-limited (429) and
+ * server-error (5xx) responses.
+ */
+
+/**
+ * Where a queued call stands
+ */
+export interface QueueTicket {
+  /** 1 = next to run */
+  position: number;
+  /** Estimated wait before it runs */
+  eta_ms: number;
+}
+
+/**
+ * Limiter state, e.g. for a status endpoint
+ */
+export interface RateLimiterStatus {
+  calls_per_minute: number;
+  available_tokens: number;
+  queued: number;
+  /** Estimated wait for a call made now */
+  eta_ms: number;
+}
+
+/**
+ * Token-bucket limiter shared by every caller of one API
+ */
+export interface RateLimiter {
+  readonly callsPerMinute: number;
+  /**
+   * Run a task once a token is available
+   * @param task - Work that makes one API call
+   * @param onQueued - Called once if the task has to wait, with its position and ETA
+   * @returns The task's result
+   */
+  schedule<T>(task: () => Promise<T>, onQueued?: (ticket: QueueTicket) => void): Promise<T>;
+  status(): RateLimiterStatus;
+}
+
+/**
+ * Create a token-bucket limiter
+ * @param callsPerMinute - Sustained rate and burst size (minimum 1)
+ */
+export function createRateLimiter(callsPerMinute: number): RateLimiter {
+  const capacity = Math.max(1, Math.floor(callsPerMinute) || 1);
+  const tokensPerMs = capacity / 60000;
+  const queue: Array<() => void> = [];
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - refilledAt) * tokensPerMs);
+    refilledAt = now;
+  };
+
+  // Time until the call at this (1-based) queue position gets a token
+  const etaFor = (position: number) => {
+    refill();
+    const missing = position - tokens;
+    return missing <= 0 ? 0 : Math.ceil(missing / tokensPerMs);
+  };
+
+  const drain = () => {
+    timer = null;
+    refill();
+    while (queue.length > 0 && tokens >= 1) {
+      tokens -= 1;
+      queue.shift()!();
+    }
+    if (queue.length > 0) {
+      timer = setTimeout(drain, Math.ceil((1 - tokens) / tokensPerMs));
+      // Don't keep the process alive just to drain an abandoned queue
+      timer.unref?.();
+    }
+  };
+
+  return {
+    callsPerMinute: capacity,
+
+    schedule(task, onQueued) {
+      return new Promise((resolve, reject) => {
+        const start = () => {
+          task().then(resolve, reject);
+        };
+        queue.push(start);
+        if (!timer) drain();
+
+        const position = queue.indexOf(start) + 1;
+        if (position > 0) {
+          onQueued?.({ position, eta_ms: etaFor(position) });
+        }
+      });
+    },
+
+    status() {
+      refill();
+      return {
+        calls_per_minute: capacity,
+        available_tokens: Math.floor(tokens),
+        queued: queue.length,
+        eta_ms: etaFor(queue.length + 1)
+      };
+    }
+  };
+}
+
+/**
+ * Whether an HTTP status is worth retrying (rate limited or server error)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ * @returns Delay in ms, or null if absent or invalid
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry attempt n (0-based)
+ *
+ * Without Retry-After: "full jitter" exponential backoff, a random delay up
+ * to baseMs * 2^attempt (capped at maxMs). With Retry-After: that delay plus
+ * up to baseMs of jitter, so callers that were throttled together don't all
+ * come back at the same instant.
+ *
+ * @returns Delay in ms, or null if Retry-After asks for longer than maxMs
+ */
+export function backoffDelay(
+  attempt: number,
+  options: { baseMs: number; maxMs: number; retryAfterMs?: number | null },
+  random: () => number = Math.random
+): number | null {
+  const { baseMs, maxMs, retryAfterMs } = options;
+
+  if (retryAfterMs !== undefined && retryAfterMs !== null) {
+    return retryAfterMs > maxMs ? null : retryAfterMs + Math.floor(random() * baseMs);
+  }
+
+  return Math.floor(random() * Math.min(maxMs, baseMs * Math.pow(2, attempt)));
+}
@@ -0,0 +1,103 @@
+/**
+ * Asset Revisions
+ *
+ * Every asset carries a revision that increases by one on each write that
+ * changes it. Clients send the revision they last saw (If-Match / ETag) and
+ * mutating routes reject the write with 409 if the asset moved on since, so
+ * concurrent edits are surfaced instead of silently overwritten.
+ */
+
+import { NextResponse } from 'next/server';
+import type { AssetMetadata, HistoryData } from './types';
+
+/**
+ * Current revision of an asset (0 for assets written before revisions existed)
+ */
+export function getRevision(asset: AssetMetadata): number {
+  return asset.revision ?? 0;
+}
+
+/**
+ * Format an asset's revision as a strong ETag, e.g. "3"
+ */
+export function formatEtag(asset: AssetMetadata): string {
+  return `"${getRevision(asset)}"`;
+}
+
+/**
+ * 409 response carrying the current record so the client can reconcile
+ */
+export function conflictResponse(asset: AssetMetadata) {
+  return NextResponse.json(
+    { success: false, error: 'Asset was modified by someone else', asset },
+    { status: 409, headers: { ETag: formatEtag(asset) } }
+  );
+}
+
+/**
+ * Parse an If-Match header into the expected revision
+ *
+ * Accepts "3", W/"3" and 3. If several ETags are listed only the first is used.
+ *
+ * @param header - If-Match header value
+ * @returns Expected revision, undefined if absent or `*`, null if malformed
+ */
+export function parseIfMatch(header: string | null): number | undefined | null {
+  if (header === null || header.trim() === '' || header.trim() === '*') {
+    return undefined;
+  }
+
+  const match = header.split(',')[0].trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Throw if an asset is not at the expected revision
+ * @param asset - Current asset
+ * @param expectedRevision - Revision the caller last saw (undefined skips the check)
+ * @throws Error starting with "Revision conflict" on mismatch
+ */
+export function assertRevision(asset: AssetMetadata, expectedRevision: number | undefined): void {
+  if (expectedRevision !== undefined && getRevision(asset) !== expectedRevision) {
+    throw new Error(
+      `Revision conflict: asset ${asset.id} is at revision ${getRevision(asset)}, expected ${expectedRevision}`
+    );
+  }
+}
+
+/**
+ * Check whether an error was caused by a revision mismatch
+ */
+export function isRevisionConflict(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('Revision conflict');
+}
+
+/**
+ * Snapshot assets so changes can be detected after an in-place update
+ */
+export function snapshotAssets(history: HistoryData): Map<string, string> {
+  return new Map(history.assets.map(asset => [asset.id, JSON.stringify(asset)]));
+}
+
+/**
+ * Bump the revision of every asset that changed since the snapshot
+ *
+ * New assets start at 1. A revision set by the update (e.g. a restored
+ * backup) never moves an asset's revision backwards.
+ *
+ * @param snapshots - Snapshot taken before the update
+ * @param history - Updated history (modified in place)
+ */
+export function bumpRevisions(snapshots: Map<string, string>, history: HistoryData): void {
+  if (!history || !Array.isArray(history.assets)) {
+    return;
+  }
+
+  for (const asset of history.assets) {
+    const snapshot = snapshots.get(asset.id);
+    if (snapshot === JSON.stringify(asset)) continue;
+
+    const previous = snapshot ? getRevision(JSON.parse(snapshot)) : 0;
+    asset.revision = Math.max(previous, getRevision(asset)) + 1;
+  }
+}
@@ -11,6 +11,7 @@ import {
   GetObjectCommand,
   DeleteObjectCommand,
   HeadObjectCommand,
+  ListObjectsV2Command,
 } from '@aws-sdk/client-s3';
 import { promises as fs } from 'fs';
 import path from 'path';
@@ -20,6 +21,20 @@ import { Readable } from 'stream';
 // Storage mode type
 export type StorageMode = 'local' | 's3' | 'hybrid';
 
+/**
+ * S3 key prefix for history backups
+ */
+export const HISTORY_BACKUP_PREFIX = 'backups/history-';
+
+/**
+ * History backup object stored in S3
+ */
+export interface HistoryBackupObject {
+  key: string;
+  size: number;
+  last_modified: string;
+}
+
 /**
  * Lazily initialize S3 client only when needed
  */
@@ -37,6 +52,8 @@ function getS3Client(): S3Client {
         accessKeyId: config.aws.accessKeyId,
         secretAccessKey: config.aws.secretAccessKey,
       },
+      ...(config.aws.s3Endpoint && { endpoint: config.aws.s3Endpoint }),
+      forcePathStyle: config.aws.s3ForcePathStyle,
     });
   }
 
@@ -44,7 +61,14 @@ function getS3Client(): S3Client {
 }
 
 /**
- * Retry utility for S3 operations
+ * Check whether an S3 error means the object doesn't exist
+ */
+export function isS3NotFound(error: any): boolean {
+  return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+}
+
+/**
+ * Retry utility for S3 operations (missing objects are not retried)
  */
 async function retryOperation<T>(
   operation: () => Promise<T>,
@@ -59,6 +83,10 @@ async function retryOperation<T>(
     } catch (error) {
       lastError = error as Error;
 
+      if (isS3NotFound(error)) {
+        throw error;
+      }
+
       if (attempt < maxRetries) {
         // Exponential backoff: 1s, 2s, 4s
         const delay = baseDelay * Math.pow(2, attempt);
@@ -127,6 +155,31 @@ function getMimeType(filePath: string): string {
   return mimeTypes[ext] || 'application/octet-stream';
 }
 
+/**
+ * Convert a GetObject response body to a buffer
+ * Handles both Node.js streams and Web streams
+ */
+async function bodyToBuffer(
+  body: { transformToByteArray(): Promise<Uint8Array> } | undefined,
+  s3Key: string
+): Promise<Buffer> {
+  if (!body) {
+    throw new Error(`Empty response body for S3 key: ${s3Key}`);
+  }
+
+  if (body instanceof Readable) {
+    // Node.js stream
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  // Web stream or other
+  return Buffer.from(await body.transformToByteArray());
+}
+
 /**
  * Get public URL for S3 object
  * @param s3Key - S3 key (without bucket name)
@@ -159,15 +212,24 @@ export function getPublicUrl(s3Key: string, useCloudFront = true): string {
 }
 
 /**
- * Upload file to S3
- * @param localPath - Local filesystem path to upload
+ * Metadata of an S3 object
+ */
+export interface S3ObjectInfo {
+  size: number;
+  last_modified: string;
+  content_type?: string;
+}
+
+/**
+ * Upload a buffer to S3
  * @param s3Key - S3 key (path within bucket)
- * @param contentType - MIME type (default: auto-detect from extension)
+ * @param body - Object contents
+ * @param contentType - MIME type (default: auto-detect from key extension)
  * @returns Public URL (CloudFront or S3)
  */
-export async function uploadToS3(
-  localPath: string,
+export async function putObjectToS3(
   s3Key: string,
+  body: Buffer,
   contentType?: string
 ): Promise<string> {
   const client = getS3Client();
@@ -180,39 +242,28 @@ export async function uploadToS3(
   // Normalize S3 key
   const normalizedKey = localPathToS3Key(s3Key);
 
-  // Read file
-  const fileBuffer = await fs.readFile(localPath);
-
-  // Auto-detect content type if not provided
-  const finalContentType = contentType || getMimeType(localPath);
-
   // Upload with retry logic
   await retryOperation(async () => {
     const command = new PutObjectCommand({
       Bucket: bucket,
       Key: normalizedKey,
-      Body: fileBuffer,
-      ContentType: finalContentType,
+      Body: body,
+      ContentType: contentType || getMimeType(normalizedKey),
     });
 
     await client.send(command);
   });
 
-  console.log(`[S3] Uploaded: ${localPath} → s3://${bucket}/${normalizedKey}`);
-
   return getPublicUrl(normalizedKey);
 }
 
 /**
- * Download file from S3 to local filesystem
- * @param s3Key - S3 key to download
- * @param localPath - Destination path on local filesystem
- * @returns Local path where file was saved
+ * Read an S3 object into a buffer
+ * @param s3Key - S3 key to read
+ * @returns Object contents
+ * @throws Error if the object doesn't exist
  */
-export async function downloadFromS3(
-  s3Key: string,
-  localPath: string
-): Promise<string> {
+export async function getObjectFromS3(s3Key: string): Promise<Buffer> {
   const client = getS3Client();
   const bucket = config.aws?.s3Bucket;
 
@@ -223,11 +274,6 @@ export async function downloadFromS3(
   // Normalize S3 key
   const normalizedKey = localPathToS3Key(s3Key);
 
-  // Ensure destination directory exists
-  const dir = path.dirname(localPath);
-  await fs.mkdir(dir, { recursive: true });
-
-  // Download with retry logic
   const response = await retryOperation(async () => {
     const command = new GetObjectCommand({
       Bucket: bucket,
@@ -237,28 +283,93 @@ export async function downloadFromS3(
     return await client.send(command);
   });
 
-  // Convert Body stream to buffer
-  const body = response.Body;
-  if (!body) {
-    throw new Error(`Empty response body for S3 key: ${normalizedKey}`);
+  return bodyToBuffer(response.Body, normalizedKey);
+}
+
+/**
+ * Read S3 object metadata without downloading it
+ * @param s3Key - S3 key to check
+ * @returns Object metadata, or null if the object doesn't exist
+ */
+export async function headS3Object(s3Key: string): Promise<S3ObjectInfo | null> {
+  const client = getS3Client();
+  const bucket = config.aws?.s3Bucket;
+
+  if (!bucket) {
+    throw new Error('S3 bucket not configured');
   }
 
-  // Handle both Node.js streams and Web streams
-  let buffer: Buffer;
+  // Normalize S3 key
+  const normalizedKey = localPathToS3Key(s3Key);
 
-  if (body instanceof Readable) {
-    // Node.js stream
-    const chunks: Buffer[] = [];
-    for await (const chunk of body) {
-      chunks.push(Buffer.from(chunk));
+  try {
+    const command = new HeadObjectCommand({
+      Bucket: bucket,
+      Key: normalizedKey,
+    });
+
+    const response = await client.send(command);
+    return {
+      size: response.ContentLength ?? 0,
+      last_modified: (response.LastModified ?? new Date(0)).toISOString(),
+      ...(response.ContentType ? { content_type: response.ContentType } : {}),
+    };
+  } catch (error) {
+    if (isS3NotFound(error)) {
+      return null;
     }
-    buffer = Buffer.concat(chunks);
-  } else {
-    // Web stream or other
-    const arrayBuffer = await body.transformToByteArray();
-    buffer = Buffer.from(arrayBuffer);
+    throw error;
+  }
+}
+
+/**
+ * Upload file to S3
+ * @param localPath - Local filesystem path to upload
+ * @param s3Key - S3 key (path within bucket)
+ * @param contentType - MIME type (default: auto-detect from extension)
+ * @returns Public URL (CloudFront or S3)
+ */
+export async function uploadToS3(
+  localPath: string,
+  s3Key: string,
+  contentType?: string
+): Promise<string> {
+  // Read file
+  const fileBuffer = await fs.readFile(localPath);
+
+  // Auto-detect content type if not provided
+  const publicUrl = await putObjectToS3(s3Key, fileBuffer, contentType || getMimeType(localPath));
+
+  console.log(`[S3] Uploaded: ${localPath} → s3://${config.aws?.s3Bucket}/${localPathToS3Key(s3Key)}`);
+
+  return publicUrl;
+}
+
+/**
+ * Download file from S3 to local filesystem
+ * @param s3Key - S3 key to download
+ * @param localPath - Destination path on local filesystem
+ * @returns Local path where file was saved
+ */
+export async function downloadFromS3(
+  s3Key: string,
+  localPath: string
+): Promise<string> {
+  const bucket = config.aws?.s3Bucket;
+
+  if (!bucket) {
+    throw new Error('S3 bucket not configured');
   }
 
+  // Normalize S3 key
+  const normalizedKey = localPathToS3Key(s3Key);
+
+  const buffer = await getObjectFromS3(normalizedKey);
+
+  // Ensure destination directory exists
+  const dir = path.dirname(localPath);
+  await fs.mkdir(dir, { recursive: true });
+
   // Write to local file
   await fs.writeFile(localPath, buffer);
 
@@ -300,30 +411,7 @@ export async function deleteFromS3(s3Key: string): Promise<void> {
  * @returns True if file exists
  */
 export async function existsInS3(s3Key: string): Promise<boolean> {
-  const client = getS3Client();
-  const bucket = config.aws?.s3Bucket;
-
-  if (!bucket) {
-    throw new Error('S3 bucket not configured');
-  }
-
-  // Normalize S3 key
-  const normalizedKey = localPathToS3Key(s3Key);
-
-  try {
-    const command = new HeadObjectCommand({
-      Bucket: bucket,
-      Key: normalizedKey,
-    });
-
-    await client.send(command);
-    return true;
-  } catch (error: any) {
-    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
-      return false;
-    }
-    throw error;
-  }
+  return (await headS3Object(s3Key)) !== null;
 }
 
 /**
@@ -332,6 +420,24 @@ export async function existsInS3(s3Key: string): Promise<boolean> {
  * @returns S3 key of backup
  */
 export async function backupHistoryToS3(historyPath: string): Promise<string> {
+  // Read history file
+  const historyContent = await fs.readFile(historyPath, 'utf8');
+
+  return backupHistoryContentToS3(historyContent, { 'original-path': historyPath });
+}
+
+/**
+ * Backup serialized history data to S3 with timestamp
+ * @param historyContent - history.json contents
+ * @param metadata - Extra S3 object metadata
+ * @param label - Optional key suffix (e.g. 'pre-restore')
+ * @returns S3 key of backup
+ */
+export async function backupHistoryContentToS3(
+  historyContent: string,
+  metadata: Record<string, string> = {},
+  label?: string
+): Promise<string> {
   const client = getS3Client();
   const bucket = config.aws?.s3Bucket;
 
@@ -342,10 +448,7 @@ export async function backupHistoryToS3(historyPath: string): Promise<string> {
   // Generate timestamped key
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
   const date = new Date().toISOString().split('T')[0];
-  const s3Key = `backups/history-${date}-${timestamp}.json`;
-
-  // Read history file
-  const historyContent = await fs.readFile(historyPath, 'utf8');
+  const s3Key = `${HISTORY_BACKUP_PREFIX}${date}-${timestamp}${label ? `-${label}` : ''}.json`;
 
   // Upload with retry logic
   await retryOperation(async () => {
@@ -355,7 +458,7 @@ export async function backupHistoryToS3(historyPath: string): Promise<string> {
       Body: historyContent,
       ContentType: 'application/json',
       Metadata: {
-        'original-path': historyPath,
+        ...metadata,
         'backup-timestamp': timestamp,
       },
     });
@@ -368,6 +471,99 @@ export async function backupHistoryToS3(historyPath: string): Promise<string> {
   return s3Key;
 }
 
+/**
+ * List objects under a key prefix (all pages)
+ * @param prefix - Key prefix, e.g. 'uploads/'
+ * @returns Objects in key order
+ */
+export async function listS3Objects(prefix: string): Promise<Array<S3ObjectInfo & { key: string }>> {
+  const client = getS3Client();
+  const bucket = config.aws?.s3Bucket;
+
+  if (!bucket) {
+    throw new Error('S3 bucket not configured');
+  }
+
+  const objects: Array<S3ObjectInfo & { key: string }> = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const response = await retryOperation(async () => {
+      const command = new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      });
+
+      return await client.send(command);
+    });
+
+    for (const object of response.Contents ?? []) {
+      if (!object.Key) continue;
+      objects.push({
+        key: object.Key,
+        size: object.Size ?? 0,
+        last_modified: (object.LastModified ?? new Date(0)).toISOString(),
+      });
+    }
+
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return objects;
+}
+
+/**
+ * List history backups in S3, newest first
+ * @returns Backup objects
+ */
+export async function listHistoryBackups(): Promise<HistoryBackupObject[]> {
+  const backups = await listS3Objects(HISTORY_BACKUP_PREFIX);
+
+  return backups.sort((a, b) => b.last_modified.localeCompare(a.last_modified) || b.key.localeCompare(a.key));
+}
+
+/**
+ * Read a history backup from S3
+ * @param s3Key - Backup S3 key (must be under HISTORY_BACKUP_PREFIX)
+ * @returns Backup object with contents, or null if the backup doesn't exist
+ */
+export async function readHistoryBackup(
+  s3Key: string
+): Promise<(HistoryBackupObject & { content: string }) | null> {
+  const client = getS3Client();
+  const bucket = config.aws?.s3Bucket;
+
+  if (!bucket) {
+    throw new Error('S3 bucket not configured');
+  }
+
+  if (!s3Key.startsWith(HISTORY_BACKUP_PREFIX)) {
+    throw new Error(`Not a history backup key: ${s3Key}`);
+  }
+
+  try {
+    const command = new GetObjectCommand({
+      Bucket: bucket,
+      Key: s3Key,
+    });
+
+    const response = await client.send(command);
+    const buffer = await bodyToBuffer(response.Body, s3Key);
+    return {
+      key: s3Key,
+      size: buffer.length,
+      last_modified: (response.LastModified ?? new Date(0)).toISOString(),
+      content: buffer.toString('utf8'),
+    };
+  } catch (error: any) {
+    if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Hybrid storage: Upload to S3 and optionally keep local copy
  * @param localPath - Source file path
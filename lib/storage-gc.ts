@@ -0,0 +1,268 @@
+/**
+ * Storage Garbage Collection
+ *
+ * Cross-references every stored file under uploads/ against history
+ * (asset_url, file_path, preview_file_path) and reports files nothing points
+ * to, plus previews of inactive versions older than PREVIEW_RETENTION_DAYS.
+ * Runs are dry runs unless explicitly applied; applying deletes the reported
+ * files and clears metadata of the expired previews.
+ */
+
+import { config } from './config';
+import { scheduleCron, type CronJob } from './cron';
+import { readHistory, updateHistory } from './history';
+import { getStorage, storageKeyFromUrl, type StorageDriver } from './storage';
+import type { HistoryData } from './types';
+
+/**
+ * Storage prefix scanned for garbage
+ */
+export const STORAGE_GC_PREFIX = 'uploads/';
+
+/**
+ * A file the collector would delete
+ */
+export interface StorageGcItem {
+  key: string;
+  size: number;
+  last_modified: string;
+  reason: 'orphan' | 'expired_preview';
+  asset_id?: string;
+  version?: number;
+}
+
+/**
+ * Result of a collection run
+ */
+export interface StorageGcReport {
+  dry_run: boolean;
+  generated_at: string;
+  retention_days: number;
+  scanned_files: number;
+  scanned_bytes: number;
+  orphans: StorageGcItem[];
+  expired_previews: StorageGcItem[];
+  /** Bytes the reported items occupy */
+  reclaimable_bytes: number;
+  /** Keys deleted (empty for dry runs) */
+  deleted: string[];
+  deleted_bytes: number;
+  errors: Array<{ key: string; error: string }>;
+}
+
+/**
+ * Options for a collection run
+ */
+export interface StorageGcOptions {
+  /** Report only (default: true) */
+  dryRun?: boolean;
+  /** Only delete these keys, e.g. the ones reviewed in a dry-run report */
+  keys?: string[];
+  /** Preview retention in days (default: PREVIEW_RETENTION_DAYS; 0 disables) */
+  retentionDays?: number;
+  /** Unreferenced files younger than this are kept (default: STORAGE_GC_ORPHAN_GRACE_MINUTES) */
+  orphanGraceMinutes?: number;
+  /** Actor recorded in the audit trail when preview metadata is cleared */
+  actor?: string;
+  now?: Date;
+  storage?: StorageDriver;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Collect the storage keys history refers to
+ * @param history - Current history
+ * @returns Referenced storage keys
+ */
+export function collectReferencedKeys(history: HistoryData): Set<string> {
+  const keys = new Set<string>();
+  const add = (url: string | undefined) => {
+    const key = url ? storageKeyFromUrl(url) : null;
+    if (key) keys.add(key);
+  };
+
+  for (const asset of history.assets) {
+    add(asset.asset_url);
+    for (const version of asset.versions) {
+      add(version.file_path);
+      add(version.preview_file_path);
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Find previews of inactive versions generated before the retention cutoff
+ */
+function findExpiredPreviews(
+  history: HistoryData,
+  retentionDays: number,
+  now: Date
+): Array<{ key: string; asset_id: string; version: number }> {
+  if (!Number.isFinite(retentionDays) || retentionDays <= 0) {
+    return [];
+  }
+
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  const expired: Array<{ key: string; asset_id: string; version: number }> = [];
+
+  for (const asset of history.assets) {
+    for (const version of asset.versions) {
+      if (version.version === asset.active_version || !version.preview_file_path) continue;
+      if (!version.preview_generated_at || new Date(version.preview_generated_at).getTime() >= cutoff) continue;
+
+      const key = storageKeyFromUrl(version.preview_file_path);
+      if (key) expired.push({ key, asset_id: asset.id, version: version.version });
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Clear preview metadata of versions whose preview file is about to be deleted
+ *
+ * Versions whose preview changed since the scan are left alone.
+ */
+async function clearExpiredPreviewMetadata(items: StorageGcItem[], actor: string): Promise<void> {
+  if (items.length === 0) return;
+
+  await updateHistory((history) => {
+    for (const item of items) {
+      const asset = history.assets.find(a => a.id === item.asset_id);
+      const index = asset?.versions.findIndex(v => v.version === item.version) ?? -1;
+      if (!asset || index === -1) continue;
+
+      const version = asset.versions[index];
+      if (!version.preview_file_path || storageKeyFromUrl(version.preview_file_path) !== item.key) continue;
+
+      const cleared = { ...version };
+      delete cleared.preview_file_path;
+      delete cleared.preview_generated_at;
+      delete cleared.preview_generation_time_ms;
+      delete cleared.preview_generation_failed;
+      asset.versions[index] = cleared;
+    }
+    return history;
+  }, config.paths.history, { actor, source: 'storage GC' });
+}
+
+/**
+ * Scan storage for orphaned files and expired previews, and delete them
+ * unless this is a dry run
+ *
+ * @param options - Run options
+ * @returns Report with byte totals
+ * @throws Error if history or the storage listing cannot be read
+ */
+export async function runStorageGc(options: StorageGcOptions = {}): Promise<StorageGcReport> {
+  const {
+    dryRun = true,
+    keys,
+    retentionDays = config.preview.retentionDays,
+    orphanGraceMinutes = config.storageGc.orphanGraceMinutes,
+    actor = 'system',
+    now = new Date(),
+    storage = getStorage()
+  } = options;
+
+  const history = await readHistory();
+  const objects = await storage.list(STORAGE_GC_PREFIX);
+  const objectsByKey = new Map(objects.map(object => [object.key, object]));
+  const referenced = collectReferencedKeys(history);
+  const graceCutoff = now.getTime() - orphanGraceMinutes * 60 * 1000;
+
+  const orphans: StorageGcItem[] = objects
+    .filter(object => !referenced.has(object.key) && new Date(object.last_modified).getTime() < graceCutoff)
+    .map(object => ({
+      key: object.key,
+      size: object.size,
+      last_modified: object.last_modified,
+      reason: 'orphan'
+    }));
+
+  const expiredPreviews: StorageGcItem[] = [];
+  for (const preview of findExpiredPreviews(history, retentionDays, now)) {
+    const object = objectsByKey.get(preview.key);
+    if (!object) continue;
+    expiredPreviews.push({
+      key: object.key,
+      size: object.size,
+      last_modified: object.last_modified,
+      reason: 'expired_preview',
+      asset_id: preview.asset_id,
+      version: preview.version
+    });
+  }
+
+  const report: StorageGcReport = {
+    dry_run: dryRun,
+    generated_at: now.toISOString(),
+    retention_days: retentionDays,
+    scanned_files: objects.length,
+    scanned_bytes: objects.reduce((total, object) => total + object.size, 0),
+    orphans,
+    expired_previews: expiredPreviews,
+    reclaimable_bytes: [...orphans, ...expiredPreviews].reduce((total, item) => total + item.size, 0),
+    deleted: [],
+    deleted_bytes: 0,
+    errors: []
+  };
+
+  if (dryRun) {
+    return report;
+  }
+
+  const selected = keys ? new Set(keys) : null;
+  const isSelected = (item: StorageGcItem) => !selected || selected.has(item.key);
+
+  // Drop history references first so a failed delete leaves an orphan, never a dangling URL
+  const previewsToDelete = expiredPreviews.filter(isSelected);
+  await clearExpiredPreviewMetadata(previewsToDelete, actor);
+
+  // Re-check orphans against fresh history in case something started using them
+  const stillReferenced = collectReferencedKeys(await readHistory());
+  const orphansToDelete = orphans.filter(item => isSelected(item) && !stillReferenced.has(item.key));
+
+  for (const item of [...orphansToDelete, ...previewsToDelete]) {
+    try {
+      await storage.delete(item.key);
+      report.deleted.push(item.key);
+      report.deleted_bytes += item.size;
+    } catch (error) {
+      report.errors.push({ key: item.key, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  console.log(
+    `[Storage GC] Deleted ${report.deleted.length} file(s), ${report.deleted_bytes} bytes` +
+    (report.errors.length ? `; ${report.errors.length} failed` : '')
+  );
+
+  return report;
+}
+
+/**
+ * Run storage GC on the STORAGE_GC_SCHEDULE cron schedule in the current process
+ *
+ * Each run deletes what it finds; failures are logged, never thrown.
+ *
+ * @param schedule - Cron expression
+ * @returns Job handle
+ * @throws Error if the cron expression is invalid
+ */
+export function startStorageGcScheduler(schedule: string = config.storageGc.schedule): CronJob {
+  const job = scheduleCron(schedule, async () => {
+    try {
+      await runStorageGc({ dryRun: false });
+    } catch (error) {
+      console.error('[Storage GC] Scheduled run failed:', error);
+    }
+  });
+
+  console.log(`[Storage GC] Scheduler started (${schedule} UTC)`);
+
+  return job;
+}
@@ -0,0 +1,423 @@
+/**
+ * Storage Drivers
+ *
+ * Every read and write of uploaded assets, generated backgrounds, previews
+ * and composed stories goes through a StorageDriver selected by STORAGE_MODE:
+ * - local: files under public/ (served by Next.js as /uploads/...)
+ * - s3: objects in the S3 bucket only, so the app runs on an ephemeral disk
+ * - hybrid: written to both, read from S3 first with local fallback
+ *
+ * Keys are bucket-relative paths such as `uploads/<assetId>/background_v1.png`;
+ * the same key maps to public/<key> on disk and <key> in the bucket.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from './config';
+import {
+  putObjectToS3,
+  getObjectFromS3,
+  headS3Object,
+  deleteFromS3,
+  listS3Objects,
+  getPublicUrl,
+  isS3NotFound,
+  type StorageMode
+} from './s3';
+
+/**
+ * Metadata of a stored object
+ */
+export interface StorageObjectInfo {
+  key: string;
+  size: number;
+  last_modified: string;
+  content_type?: string;
+}
+
+/**
+ * Backend for stored files
+ */
+export interface StorageDriver {
+  readonly mode: StorageMode;
+  /**
+   * Store an object
+   * @returns Public URL of the object
+   */
+  put(key: string, body: Buffer, contentType?: string): Promise<string>;
+  /**
+   * Read an object
+   * @throws Error starting with "Stored file not found" if it doesn't exist
+   */
+  get(key: string): Promise<Buffer>;
+  /**
+   * Read object metadata, or null if it doesn't exist
+   */
+  stat(key: string): Promise<StorageObjectInfo | null>;
+  /**
+   * List objects whose key starts with a prefix, in key order
+   */
+  list(prefix: string): Promise<StorageObjectInfo[]>;
+  /**
+   * Delete an object (no error if it doesn't exist)
+   */
+  delete(key: string): Promise<void>;
+  /**
+   * Public URL an object is served from
+   */
+  publicUrl(key: string): string;
+  /**
+   * Path of the object on local disk, or null if it only exists remotely
+   */
+  localPath(key: string): Promise<string | null>;
+}
+
+/**
+ * Normalize and validate a storage key
+ * @throws Error if the key is empty or escapes the storage root
+ */
+export function normalizeStorageKey(key: string): string {
+  const normalized = key.replace(/\\/g, '/').replace(/^\/+/, '').replace(/^public\//, '');
+  const segments = normalized.split('/');
+
+  if (!normalized || segments.some(segment => segment === '..' || segment === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Map a URL recorded in history (asset_url, file_path, preview_file_path)
+ * back to its storage key
+ *
+ * Understands local paths (/uploads/...), CloudFront URLs and S3 URLs for the
+ * configured bucket.
+ *
+ * @param url - Recorded URL or path
+ * @returns Storage key, or null for URLs outside our storage
+ */
+export function storageKeyFromUrl(url: string): string | null {
+  if (!url) {
+    return null;
+  }
+
+  let keyPath: string | null = null;
+
+  if (!/^https?:\/\//i.test(url)) {
+    keyPath = url;
+  } else {
+    const cloudFrontUrl = config.cloudFront?.url?.replace(/\/+$/, '');
+    if (cloudFrontUrl && url.startsWith(cloudFrontUrl + '/')) {
+      keyPath = url.slice(cloudFrontUrl.length + 1);
+    } else {
+      const bucket = config.aws?.s3Bucket;
+      const parsed = new URL(url);
+      if (bucket && parsed.hostname.startsWith(`${bucket}.s3.`) && parsed.hostname.endsWith('.amazonaws.com')) {
+        keyPath = decodeURIComponent(parsed.pathname);
+      }
+    }
+  }
+
+  if (keyPath === null) {
+    return null;
+  }
+
+  try {
+    return normalizeStorageKey(keyPath.split(/[?#]/)[0]);
+  } catch {
+    return null;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+function notFoundError(key: string): Error {
+  return new Error(`Stored file not found: ${key}`);
+}
+
+/**
+ * Driver storing files under a local directory (public/ by default)
+ * @param rootDir - Directory keys are resolved against
+ */
+export function createLocalStorageDriver(
+  rootDir: string = path.join(process.cwd(), 'public')
+): StorageDriver {
+  const root = path.resolve(rootDir);
+
+  const resolve = (key: string): string => path.join(root, normalizeStorageKey(key));
+
+  const driver: StorageDriver = {
+    mode: 'local',
+
+    async put(key, body) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+      return driver.publicUrl(key);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if (isNotFound(error)) throw notFoundError(key);
+        throw error;
+      }
+    },
+
+    async stat(key) {
+      try {
+        const stats = await fs.stat(resolve(key));
+        if (!stats.isFile()) return null;
+        return {
+          key: normalizeStorageKey(key),
+          size: stats.size,
+          last_modified: stats.mtime.toISOString()
+        };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async list(prefix) {
+      const objects: StorageObjectInfo[] = [];
+
+      const walk = async (dir: string): Promise<void> => {
+        let entries;
+        try {
+          entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+          if (isNotFound(error)) return;
+          throw error;
+        }
+
+        for (const entry of entries) {
+          const entryPath = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            await walk(entryPath);
+          } else if (entry.isFile()) {
+            const key = path.relative(root, entryPath).split(path.sep).join('/');
+            if (!key.startsWith(prefix)) continue;
+            const stats = await fs.stat(entryPath);
+            objects.push({ key, size: stats.size, last_modified: stats.mtime.toISOString() });
+          }
+        }
+      };
+
+      // Walk from the deepest directory the prefix names
+      const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+      await walk(prefixDir ? path.join(root, normalizeStorageKey(prefixDir)) : root);
+      return objects.sort((a, b) => a.key.localeCompare(b.key));
+    },
+
+    async delete(key) {
+      try {
+        await fs.unlink(resolve(key));
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+
+    publicUrl(key) {
+      return `/${normalizeStorageKey(key)}`;
+    },
+
+    async localPath(key) {
+      return (await driver.stat(key)) ? resolve(key) : null;
+    }
+  };
+
+  return driver;
+}
+
+/**
+ * Driver storing files in the configured S3 bucket only
+ */
+export function createS3StorageDriver(): StorageDriver {
+  return {
+    mode: 's3',
+
+    async put(key, body, contentType) {
+      return putObjectToS3(normalizeStorageKey(key), body, contentType);
+    },
+
+    async get(key) {
+      try {
+        return await getObjectFromS3(normalizeStorageKey(key));
+      } catch (error) {
+        if (isS3NotFound(error)) {
+          throw notFoundError(key);
+        }
+        throw error;
+      }
+    },
+
+    async stat(key) {
+      const normalizedKey = normalizeStorageKey(key);
+      const info = await headS3Object(normalizedKey);
+      return info ? { key: normalizedKey, ...info } : null;
+    },
+
+    async list(prefix) {
+      const objects = await listS3Objects(prefix);
+      return objects.sort((a, b) => a.key.localeCompare(b.key));
+    },
+
+    async delete(key) {
+      await deleteFromS3(normalizeStorageKey(key));
+    },
+
+    publicUrl(key) {
+      return getPublicUrl(normalizeStorageKey(key));
+    },
+
+    async localPath() {
+      return null;
+    }
+  };
+}
+
+/**
+ * Driver writing to both local disk and S3
+ *
+ * Writes always land locally; an S3 failure is logged and the local URL is
+ * returned so uploads keep working during an S3 outage. Reads prefer S3 and
+ * fall back to the local copy.
+ *
+ * @param local - Local driver
+ * @param s3 - S3 driver
+ */
+export function createHybridStorageDriver(
+  local: StorageDriver = createLocalStorageDriver(),
+  s3: StorageDriver = createS3StorageDriver()
+): StorageDriver {
+  return {
+    mode: 'hybrid',
+
+    async put(key, body, contentType) {
+      const localUrl = await local.put(key, body, contentType);
+      try {
+        return await s3.put(key, body, contentType);
+      } catch (error) {
+        console.error(`[Storage] S3 write failed for ${key}, using local copy:`, error);
+        return localUrl;
+      }
+    },
+
+    async get(key) {
+      try {
+        return await s3.get(key);
+      } catch (error) {
+        if (!(error instanceof Error && error.message.startsWith('Stored file not found'))) {
+          console.warn(`[Storage] S3 read failed for ${key}, trying local copy:`, error);
+        }
+        return local.get(key);
+      }
+    },
+
+    async stat(key) {
+      try {
+        const info = await s3.stat(key);
+        if (info) return info;
+      } catch (error) {
+        console.warn(`[Storage] S3 stat failed for ${key}, trying local copy:`, error);
+      }
+      return local.stat(key);
+    },
+
+    async list(prefix) {
+      // Union of both copies; the S3 entry wins when a key exists in both
+      const objects = new Map<string, StorageObjectInfo>();
+      for (const object of await local.list(prefix)) objects.set(object.key, object);
+      for (const object of await s3.list(prefix)) objects.set(object.key, object);
+      return [...objects.values()].sort((a, b) => a.key.localeCompare(b.key));
+    },
+
+    async delete(key) {
+      await Promise.all([local.delete(key), s3.delete(key)]);
+    },
+
+    publicUrl(key) {
+      return s3.publicUrl(key);
+    },
+
+    async localPath(key) {
+      return local.localPath(key);
+    }
+  };
+}
+
+let storageInstance: StorageDriver | null = null;
+
+/**
+ * Get the storage driver for the configured STORAGE_MODE (singleton)
+ */
+export function getStorage(): StorageDriver {
+  if (!storageInstance || storageInstance.mode !== config.storage.mode) {
+    switch (config.storage.mode) {
+      case 's3':
+        storageInstance = createS3StorageDriver();
+        break;
+      case 'hybrid':
+        storageInstance = createHybridStorageDriver();
+        break;
+      default:
+        storageInstance = createLocalStorageDriver();
+    }
+  }
+
+  return storageInstance;
+}
+
+/**
+ * Make stored objects available as local files for path-based tools
+ * (sharp compositions, vision, color extraction)
+ *
+ * Objects already on local disk are used in place; others are downloaded
+ * to the temp directory and removed once `fn` settles.
+ *
+ * @param keys - Storage keys to materialize
+ * @param fn - Callback receiving local paths in the same order as keys
+ * @param storage - Driver to read from (default: configured driver)
+ */
+export async function withLocalFiles<T>(
+  keys: string[],
+  fn: (paths: string[]) => Promise<T>,
+  storage: StorageDriver = getStorage()
+): Promise<T> {
+  const tempFiles: string[] = [];
+
+  try {
+    const paths: string[] = [];
+    for (const key of keys) {
+      const existing = await storage.localPath(key);
+      if (existing) {
+        paths.push(existing);
+        continue;
+      }
+
+      const tempPath = path.join(config.tempDir, `${uuidv4()}${path.extname(key)}`);
+      await fs.mkdir(config.tempDir, { recursive: true });
+      await fs.writeFile(tempPath, await storage.get(key));
+      tempFiles.push(tempPath);
+      paths.push(tempPath);
+    }
+
+    return await fn(paths);
+  } finally {
+    await Promise.all(tempFiles.map(file => fs.unlink(file).catch(() => {})));
+  }
+}
+
+/**
+ * Create a temp file path for output that will be stored afterwards
+ * @param extension - File extension including dot
+ */
+export function tempOutputPath(extension: string): string {
+  return path.join(config.tempDir, `${uuidv4()}${extension}`);
+}
@@ -12,8 +12,25 @@ export interface TextOverlayOptions {
   color: string;
   shadowColor: string;
   maxWidth?: number;
+  /** Font family (default: DM Sans) */
+  fontFamily?: string;
+  /** Font file relative to the project root (default: the DM Sans variable font) */
+  fontPath?: string;
 }
 
+const DEFAULT_FONT_FAMILY = 'DM Sans';
+const DEFAULT_FONT_PATH = path.join('public', 'fonts', 'DMSans-Variable.woff2');
+
+/**
+ * CSS font formats by file extension; woff2 files are declared as variable fonts
+ */
+const FONT_FORMATS: Record<string, string> = {
+  '.woff2': 'woff2-variations',
+  '.woff': 'woff',
+  '.ttf': 'truetype',
+  '.otf': 'opentype'
+};
+
 /**
  * Escapes XML entities in text for safe SVG inclusion
  */
@@ -132,7 +149,7 @@ export function wrapTextWithHyphens(text: string, maxCharsPerLine: number = 28):
 }
 
 /**
- * Generates SVG markup for text overlay with DM Sans font
+ * Generates SVG markup for text overlay (DM Sans unless a brand font is given)
  *
  * @param options - Text overlay configuration
  * @returns SVG markup as string
@@ -146,7 +163,9 @@ export function generateTextSVG(options: TextOverlayOptions): string {
     fontWeight,
     color,
     shadowColor,
-    maxWidth = 900
+    maxWidth = 900,
+    fontFamily = DEFAULT_FONT_FAMILY,
+    fontPath = DEFAULT_FONT_PATH
   } = options;
 
   // Calculate characters per line based on font size and max width
@@ -163,15 +182,16 @@ export function generateTextSVG(options: TextOverlayOptions): string {
   const totalHeight = lines.length * lineHeight;
 
   // Get absolute path to font file
-  const fontPath = path.join(process.cwd(), 'public', 'fonts', 'DMSans-Variable.woff2');
-  const fontUrl = `file://${fontPath}`;
+  const fontUrl = `file://${path.resolve(process.cwd(), fontPath)}`;
+  const fontFormat = FONT_FORMATS[path.extname(fontPath).toLowerCase()] ?? 'woff2-variations';
+  const family = escapeXml(fontFamily);
 
   // Generate font-face declaration
   const fontFaceDeclaration = `
     <style type="text/css">
       @font-face {
-        font-family: 'DM Sans';
-        src: url('${fontUrl}') format('woff2-variations');
+        font-family: '${family}';
+        src: url('${escapeXml(fontUrl)}') format('${fontFormat}');
         font-weight: 100 1000;
       }
     </style>`;
@@ -198,7 +218,7 @@ export function generateTextSVG(options: TextOverlayOptions): string {
   <text
     x="${x}"
     y="${y}"
-    font-family="DM Sans"
+    font-family="${family}"
     font-size="${fontSize}"
     font-weight="${fontWeight}"
     fill="${color}"
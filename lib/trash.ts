@@ -0,0 +1,163 @@
+/**
+ * Trash Purging
+ *
+ * DELETE /api/assets/[assetId] only moves an asset to the trash (deleted_at),
+ * so accidental deletes can be restored. Assets trashed longer than
+ * TRASH_RETENTION_DAYS are purged: removed from history, then their uploaded
+ * file, backgrounds and previews are deleted from storage.
+ */
+
+import { config } from './config';
+import { scheduleCron, type CronJob } from './cron';
+import { readHistory, updateHistory } from './history';
+import { getStorage, type StorageDriver } from './storage';
+import { collectReferencedKeys } from './storage-gc';
+import type { AssetMetadata } from './types';
+
+/**
+ * A purged (or, on a dry run, purgeable) asset
+ */
+export interface PurgedAsset {
+  asset_id: string;
+  meta_description: string;
+  deleted_at: string;
+  /** Storage keys of the asset's files */
+  files: string[];
+}
+
+/**
+ * Result of a purge run
+ */
+export interface TrashPurgeReport {
+  dry_run: boolean;
+  generated_at: string;
+  retention_days: number;
+  purged: PurgedAsset[];
+  /** Keys deleted (empty for dry runs) */
+  deleted_files: string[];
+  errors: Array<{ key: string; error: string }>;
+}
+
+/**
+ * Options for a purge run
+ */
+export interface TrashPurgeOptions {
+  /** Report only (default: false) */
+  dryRun?: boolean;
+  /** Days an asset stays in the trash (default: TRASH_RETENTION_DAYS; 0 disables purging) */
+  retentionDays?: number;
+  /** Actor recorded in the audit trail */
+  actor?: string;
+  now?: Date;
+  storage?: StorageDriver;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a trashed asset has been in the trash longer than the retention window
+ */
+function isPurgeable(asset: AssetMetadata, cutoff: number): boolean {
+  return !!asset.deleted_at && new Date(asset.deleted_at).getTime() < cutoff;
+}
+
+/**
+ * Permanently remove assets trashed longer than the retention window
+ *
+ * Assets are removed from history first (re-checked under the lock, so one
+ * restored in the meantime is kept), then their files are deleted. Files
+ * another asset still refers to are left alone.
+ *
+ * @param options - Run options
+ * @returns Report of purged assets and deleted files
+ * @throws Error if history cannot be read or updated
+ */
+export async function purgeTrash(options: TrashPurgeOptions = {}): Promise<TrashPurgeReport> {
+  const {
+    dryRun = false,
+    retentionDays = config.trash.retentionDays,
+    actor = 'system',
+    now = new Date(),
+    storage = getStorage()
+  } = options;
+
+  const report: TrashPurgeReport = {
+    dry_run: dryRun,
+    generated_at: now.toISOString(),
+    retention_days: retentionDays,
+    purged: [],
+    deleted_files: [],
+    errors: []
+  };
+
+  if (!Number.isFinite(retentionDays) || retentionDays <= 0) {
+    return report;
+  }
+
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  const toPurgedAsset = (asset: AssetMetadata): PurgedAsset => ({
+    asset_id: asset.id,
+    meta_description: asset.meta_description,
+    deleted_at: asset.deleted_at!,
+    files: [...collectReferencedKeys({ assets: [asset] })]
+  });
+
+  if (dryRun) {
+    const history = await readHistory();
+    report.purged = history.assets.filter(asset => isPurgeable(asset, cutoff)).map(toPurgedAsset);
+    return report;
+  }
+
+  let remainingKeys = new Set<string>();
+  await updateHistory((history) => {
+    const purged = history.assets.filter(asset => isPurgeable(asset, cutoff));
+    const remaining = history.assets.filter(asset => !isPurgeable(asset, cutoff));
+
+    report.purged = purged.map(toPurgedAsset);
+    remainingKeys = collectReferencedKeys({ assets: remaining });
+
+    return { ...history, assets: remaining };
+  }, config.paths.history, { action: 'purged', actor, source: 'trash purge' });
+
+  for (const key of report.purged.flatMap(asset => asset.files)) {
+    if (remainingKeys.has(key)) continue;
+    try {
+      await storage.delete(key);
+      report.deleted_files.push(key);
+    } catch (error) {
+      report.errors.push({ key, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (report.purged.length > 0) {
+    console.log(
+      `[Trash] Purged ${report.purged.length} asset(s), deleted ${report.deleted_files.length} file(s)` +
+      (report.errors.length ? `; ${report.errors.length} failed` : '')
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Purge the trash on the TRASH_PURGE_SCHEDULE cron schedule in the current process
+ *
+ * Failures are logged, never thrown.
+ *
+ * @param schedule - Cron expression
+ * @returns Job handle
+ * @throws Error if the cron expression is invalid
+ */
+export function startTrashPurgeScheduler(schedule: string = config.trash.purgeSchedule): CronJob {
+  const job = scheduleCron(schedule, async () => {
+    try {
+      await purgeTrash();
+    } catch (error) {
+      console.error('[Trash] Scheduled purge failed:', error);
+    }
+  });
+
+  console.log(`[Trash] Purge scheduler started (${schedule} UTC)`);
+
+  return job;
+}
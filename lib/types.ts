@@ -15,7 +15,27 @@ export interface AssetVersion {
   created_at: string;
   prompt_used: string;
   refinement_prompt?: string;
+  // Version that was sent as the reference image when refining (the refinement tree's parent)
+  parent_version?: number;
   file_path: string;
+  // Placeholder from an early release that never got a background file (file_path is empty)
+  missing_file?: boolean;
+  // Background provider and model that generated the file
+  provider?: string;
+  model?: string;
+  // Prompt template (and its version) the prompts were rendered from
+  template_id?: string;
+  template_version?: number;
+  // Seasonal campaign applied when the version was generated
+  campaign_id?: string;
+  // Layout template the preview was composed with (see lib/layouts.ts)
+  layout_id?: string;
+  // Set while this version is one of several candidates awaiting a pick (ID of the job that generated them)
+  candidate_group?: string;
+  // Automatic quality gate result for the generated background
+  quality?: BackgroundQuality;
+  // LLM call that generated the file (also counted in the asset's llm_usage)
+  usage?: LlmUsage;
   text_overlay_applied?: boolean;
   text_overlay_content?: string;
   text_overlay_position?: {
@@ -32,6 +52,48 @@ export interface AssetVersion {
   preview_generation_failed?: boolean;
 }
 
+/**
+ * One LLM call, with whatever usage and cost the OpenRouter response reported
+ */
+export interface LlmUsage {
+  operation: 'background' | 'vision';
+  model: string;
+  // OpenRouter generation ID
+  generation_id?: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  // USD, when the response includes it
+  cost_usd?: number;
+  // Request time of the final attempt (excludes rate-limiter waits and retry backoff)
+  latency_ms: number;
+  created_at: string;
+}
+
+/**
+ * Quality gate result for a generated background (see lib/background-quality.ts)
+ */
+export interface BackgroundQuality {
+  // Weighted total, 0-100
+  score: number;
+  // Native size of the generated image
+  width: number;
+  height: number;
+  // Per-check scores, 0 (bad) to 1 (good)
+  checks: {
+    aspect_ratio: number;
+    resolution: number;
+    asset_zone_busyness: number;
+    safe_zone_busyness: number;
+    text: number;
+    contrast: number;
+  };
+  issues: string[];
+  checked_at: string;
+  // Set when the score was below the threshold and the background was regenerated
+  regenerations?: number;
+}
+
 /**
  * Tracks errors that occur during asset operations
  */
@@ -53,8 +115,24 @@ export interface AssetMetadata {
   status: Status;
   created_at: string;
   updated_at?: string;
+  /** Incremented on every change; used for optimistic concurrency (ETag / If-Match) */
+  revision?: number;
+  /** SHA-256 of the uploaded file (hex) */
+  content_hash?: string;
+  /** 64-bit perceptual difference hash of the uploaded image (hex) */
+  perceptual_hash?: string;
+  /** Set while the asset is in the trash; files and versions are kept until it is purged */
+  deleted_at?: string;
+  /** Actor who moved the asset to the trash */
+  deleted_by?: string;
   asset_vision_description?: string;
   dominant_colors?: string[];
+  /** Brand kit for prompts, text overlay and logo (the default kit if unset or deleted) */
+  brand_kit_id?: string;
+  /** Layout template for previews and the scheduled story (the centered layout if unset or unknown) */
+  layout_id?: string;
+  /** Every LLM call made for this asset, including discarded candidates and regenerations */
+  llm_usage?: LlmUsage[];
   active_version?: number;
   versions: AssetVersion[];
   blotato_post_id?: string;
@@ -80,14 +158,28 @@ export interface AssetMetadata {
  * Wrapper structure for the history JSON file
  */
 export interface HistoryData {
+  /** history.json schema version (see lib/history-schema.ts) */
+  schema_version?: number;
   assets: AssetMetadata[];
 }
 
+/**
+ * A stored asset record that failed validation and was left out of history
+ */
+export interface HistoryRecordIssue {
+  /** Position in the stored assets array */
+  index: number;
+  id?: string;
+  errors: string[];
+}
+
 /**
  * Request to bulk approve multiple assets
  */
 export interface BulkApproveRequest {
   assetIds: string[];
+  /** Revisions the client last saw, keyed by asset ID; any mismatch fails the whole request with 409 */
+  revisions?: Record<string, number>;
 }
 
 /**
@@ -106,3 +198,259 @@ export interface BulkApproveResponse {
     total_failed: number;
   };
 }
+
+/**
+ * Outcome of importing a single CSV row
+ */
+export interface CsvImportRowResult {
+  row: number;
+  success: boolean;
+  asset_id?: string;
+  asset_url?: string;
+  error?: string;
+  /** Existing assets the row's image duplicates (warnings or the rejection reason) */
+  duplicates?: DuplicateMatch[];
+}
+
+/**
+ * Existing asset matching an upload by content or perceptual hash
+ */
+export interface DuplicateMatch {
+  asset_id: string;
+  /** exact: identical file; near: visually similar (re-export, resize, recompression) */
+  match: 'exact' | 'near';
+  /** Hamming distance between perceptual hashes (0-64 bits) */
+  distance: number;
+  asset_url: string;
+  meta_description: string;
+  date: string;
+  status: Status;
+}
+
+/**
+ * Response from CSV bulk import operation
+ */
+export interface CsvUploadResponse {
+  success: boolean;
+  count: number;
+  results: CsvImportRowResult[];
+  summary: {
+    total_rows: number;
+    total_created: number;
+    total_failed: number;
+  };
+}
+
+/**
+ * History backup stored in S3
+ */
+export interface HistoryBackupInfo {
+  /** Backup identifier (S3 key without the backups/ prefix) */
+  id: string;
+  key: string;
+  size: number;
+  last_modified: string;
+}
+
+/**
+ * Asset entry in a history backup diff
+ */
+export interface HistoryDiffEntry {
+  id: string;
+  meta_description: string;
+  status: Status;
+}
+
+/**
+ * Differences between the current history and a backup
+ */
+export interface HistoryBackupDiff {
+  /** Assets only in the backup (restored) */
+  added: HistoryDiffEntry[];
+  /** Assets only in the current history (lost on restore) */
+  removed: HistoryDiffEntry[];
+  /** Assets in both whose data differs (reverted on restore) */
+  changed: HistoryDiffEntry[];
+  unchanged_count: number;
+}
+
+/**
+ * Preview of a history backup against the current history
+ */
+export interface HistoryBackupPreview {
+  backup: HistoryBackupInfo;
+  asset_count: number;
+  version_count: number;
+  current_asset_count: number;
+  diff: HistoryBackupDiff;
+}
+
+/**
+ * Result of restoring a history backup
+ */
+export interface HistoryRestoreResult {
+  restored_from: string;
+  safety_backup: string;
+  asset_count: number;
+  diff: HistoryBackupDiff;
+}
+
+/**
+ * Kind of mutation recorded in an asset's audit trail
+ */
+export type AuditAction =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'version_created'
+  | 'scheduled'
+  | 'bulk_approved'
+  | 'deleted'
+  | 'restored'
+  | 'trashed'
+  | 'restored_from_trash'
+  | 'purged'
+  | 'candidate_picked';
+
+/**
+ * Before/after values of a changed field (null when absent)
+ */
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Who made a history update and why, attached to the resulting audit events
+ */
+export interface AuditContext {
+  /** Overrides the action inferred from the changes */
+  action?: AuditAction;
+  /** Caller identity (defaults to 'system') */
+  actor?: string;
+  /** Operation that made the change, e.g. 'POST /api/assets/[assetId]/schedule' */
+  source?: string;
+}
+
+/**
+ * Append-only audit trail entry for a single asset mutation
+ */
+export interface AuditEvent {
+  id: string;
+  asset_id: string;
+  action: AuditAction;
+  actor: string;
+  source?: string;
+  at: string;
+  /** Changed fields keyed by field name; versions are keyed as versions[n] */
+  changes: Record<string, AuditFieldChange>;
+}
+
+/**
+ * One saved revision of a prompt template's text
+ */
+export interface PromptTemplateVersion {
+  version: number;
+  /** May contain {{variables}}, see PROMPT_TEMPLATE_VARIABLES */
+  system_prompt: string;
+  user_prompt: string;
+  created_at: string;
+  created_by?: string;
+}
+
+/**
+ * Named prompt template for background generation; versions are kept oldest first
+ * and the last one is current
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  versions: PromptTemplateVersion[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * prompt-templates.json contents
+ */
+export interface PromptTemplatesData {
+  default_template_id: string;
+  templates: PromptTemplate[];
+}
+
+/**
+ * Corner a brand logo is placed in (below the top safe zone)
+ */
+export type LogoPosition = 'top-left' | 'top-right';
+
+/**
+ * Text overlay font of a brand kit
+ */
+export interface BrandKitFont {
+  family: string;
+  /** Font file relative to the project root (.woff2, .woff, .ttf or .otf) */
+  path: string;
+  weight: string;
+  size: number;
+}
+
+/**
+ * A brand's palette, font, logo, CTA and tone, applied to background prompts,
+ * the text overlay and composed stories
+ */
+export interface BrandKit {
+  id: string;
+  name: string;
+  /** Colors backgrounds should use (#RRGGBB); empty to follow the asset */
+  allowed_colors: string[];
+  /** Colors backgrounds must avoid (#RRGGBB) */
+  forbidden_colors: string[];
+  font: BrandKitFont;
+  /** Text overlay fill (#RRGGBB) */
+  text_color: string;
+  /** Stored logo, composited onto stories */
+  logo_url?: string;
+  logo_position: LogoPosition;
+  /** Text overlay content for assets without their own */
+  default_cta: string;
+  /** Style and tone guidelines for background prompts ({{brand_tone}}) */
+  tone: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * brand-kits.json contents
+ */
+export interface BrandKitsData {
+  default_kit_id: string;
+  kits: BrandKit[];
+}
+
+/**
+ * Seasonal campaign applied to assets whose date falls in its range
+ */
+export interface Campaign {
+  id: string;
+  name: string;
+  /** First day (YYYY-MM-DD), inclusive */
+  start_date: string;
+  /** Last day (YYYY-MM-DD), inclusive */
+  end_date: string;
+  /** Appended to rendered background prompts */
+  prompt_additions: string;
+  /** Text overlay for assets without their own (instead of the brand kit CTA) */
+  overlay_text?: string;
+  /** Colors (#RRGGBB) replacing the brand palette */
+  palette?: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * campaigns.json contents
+ */
+export interface CampaignsData {
+  campaigns: Campaign[];
+}
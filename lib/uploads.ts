@@ -0,0 +1,183 @@
+/**
+ * Asset Upload Utilities
+ *
+ * Validation rules and file storage shared by the single-file upload
+ * endpoint and the CSV bulk import endpoint.
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { getStorage } from './storage';
+
+export const MAX_FILE_SIZE = 30 * 1024 * 1024; // 30MB
+export const ALLOWED_TYPES = ['image/png', 'image/jpg', 'image/jpeg'];
+export const UPLOADS_PREFIX = 'uploads';
+
+/**
+ * Maximum length of per-asset text overlay content (matches text-svg route)
+ */
+export const MAX_TEXT_OVERLAY_LENGTH = 500;
+
+/**
+ * Validate an image MIME type
+ * @returns Error message, or null if valid
+ */
+export function validateFileType(type: string): string | null {
+  if (!ALLOWED_TYPES.includes(type)) {
+    return `Invalid file format. Allowed types: PNG, JPG, JPEG. Received: ${type}`;
+  }
+  return null;
+}
+
+/**
+ * Validate an image size in bytes
+ * @returns Error message, or null if valid
+ */
+export function validateFileSize(size: number): string | null {
+  if (size > MAX_FILE_SIZE) {
+    return `File too large. Maximum size: 30MB. Received: ${(size / 1024 / 1024).toFixed(2)}MB`;
+  }
+  return null;
+}
+
+/**
+ * Validate an optional YYYY-MM-DD date, defaulting to today
+ * @returns Normalized date or error message
+ */
+export function resolveAssetDate(date: string | null | undefined): { date?: string; error?: string } {
+  if (date && date.trim()) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date.trim())) {
+      return { error: 'Invalid date format. Use YYYY-MM-DD format.' };
+    }
+    return { date: date.trim() };
+  }
+
+  // Default to current date
+  return { date: new Date().toISOString().split('T')[0] };
+}
+
+/**
+ * Map an image file extension to its MIME type
+ * @returns MIME type, or null for unsupported extensions
+ */
+export function mimeTypeFromExtension(extension: string): string | null {
+  switch (extension.toLowerCase().replace(/^\./, '')) {
+    case 'png':
+      return 'image/png';
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Addresses a remote image URL may not point at: private networks, loopback,
+ * link-local (including cloud metadata at 169.254.169.254), CGNAT, multicast
+ * and reserved ranges. BlockList checks IPv4-mapped IPv6 addresses
+ * (::ffff:127.0.0.1) against the IPv4 ranges.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Host names that reach the local machine or cloud metadata without DNS */
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal'];
+
+/**
+ * Validate a URL to download an image from (CSV imports)
+ *
+ * Only http(s) URLs whose host resolves to public addresses are allowed, so an
+ * import can't reach internal services. Check every redirect hop too.
+ *
+ * @returns Error message, or null if the URL may be fetched
+ */
+export async function validateRemoteImageUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return `Invalid image URL: ${url}`;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return `Image URL must use http or https: ${url}`;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (BLOCKED_HOSTNAMES.includes(hostname) || hostname.endsWith('.localhost')) {
+    return `Image URL host is not allowed: ${url}`;
+  }
+
+  let addresses: Array<{ address: string; family: number }>;
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true });
+    } catch {
+      return `Could not resolve image URL host: ${url}`;
+    }
+  }
+  if (addresses.some(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    return `Image URL host is not allowed: ${url}`;
+  }
+  return null;
+}
+
+/**
+ * Result of storing an uploaded asset file
+ */
+export interface StoredAssetFile {
+  /** Public URL recorded as asset_url (S3 URL if uploaded, otherwise local) */
+  assetUrl: string;
+  /** Storage key of the saved file */
+  key: string;
+}
+
+/**
+ * Save an asset file through the configured storage driver
+ *
+ * @param buffer - File contents
+ * @param assetId - Asset ID used as the file name
+ * @param extension - File extension without dot
+ * @param contentType - MIME type of the file
+ * @returns Public URL and storage key
+ * @throws Error if the file cannot be stored (in hybrid mode only the local write must succeed)
+ */
+export async function storeAssetFile(
+  buffer: Buffer,
+  assetId: string,
+  extension: string,
+  contentType: string
+): Promise<StoredAssetFile> {
+  // Create filename: {uuid}.{ext}
+  const key = `${UPLOADS_PREFIX}/${assetId}.${extension}`;
+
+  try {
+    const assetUrl = await getStorage().put(key, buffer, contentType);
+    return { assetUrl, key };
+  } catch (error) {
+    throw new Error(`Failed to save file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Remove a stored asset file, ignoring errors (used for rollback)
+ */
+export async function removeStoredAssetFile(key: string): Promise<void> {
+  try {
+    await getStorage().delete(key);
+  } catch {
+    // Ignore cleanup errors
+  }
+}
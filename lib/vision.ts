@@ -7,15 +7,23 @@
 
 import { promises as fs } from 'fs';
 import { config } from './config';
+import { callOpenRouter, parseOpenRouterUsage, type OpenRouterCallOptions } from './openrouter';
+
+const VISION_MODEL = 'google/gemini-2.0-flash-exp:free'; // Model with vision capabilities
 
 /**
  * Analyze an asset image using Gemini vision to generate a description
  *
  * @param assetPath - Full filesystem path to the asset image
+ * @param options - onQueued is called if the call waits for the OpenRouter rate limiter;
+ *   onUsage with the call's usage once the response is parsed
  * @returns Promise<string> - 2-3 sentence description of the asset
  * @throws Error if file doesn't exist or API call fails
  */
-export async function analyzeAsset(assetPath: string): Promise<string> {
+export async function analyzeAsset(
+  assetPath: string,
+  options: Pick<OpenRouterCallOptions, 'onQueued' | 'onUsage'> = {}
+): Promise<string> {
   try {
     // Read image file
     const imageBuffer = await fs.readFile(assetPath);
@@ -37,51 +45,43 @@ export async function analyzeAsset(assetPath: string): Promise<string> {
 
 Provide a concise description in 2-3 sentences.`;
 
-    // Call OpenRouter API with Gemini vision model
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), config.openrouter.timeout);
-
+    // Call OpenRouter API with Gemini vision model (rate limited, retried on 429/5xx)
     try {
-      const response = await fetch(config.openrouter.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${config.openrouter.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://iconscout.com',
-          'X-Title': 'IconScout Story Automator - Vision Analysis'
-        },
-        body: JSON.stringify({
-          model: 'google/gemini-2.0-flash-exp:free', // Model with vision capabilities
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: base64DataUrl
-                  }
-                },
-                {
-                  type: 'text',
-                  text: prompt
+      let latencyMs = 0;
+      const response = await callOpenRouter({
+        model: VISION_MODEL,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'image_url',
+                image_url: {
+                  url: base64DataUrl
                 }
-              ]
-            }
-          ],
-          temperature: 0.7
-        }),
-        signal: controller.signal
+              },
+              {
+                type: 'text',
+                text: prompt
+              }
+            ]
+          }
+        ],
+        temperature: 0.7,
+        usage: { include: true }
+      }, {
+        title: 'IconScout Story Automator - Vision Analysis',
+        onQueued: options.onQueued,
+        onLatency: ms => { latencyMs = ms; }
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
         const error = await response.text();
         throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
       }
 
       const data = await response.json();
+      options.onUsage?.(parseOpenRouterUsage(data, 'vision', VISION_MODEL, latencyMs));
 
       // Extract description from response
       if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
@@ -97,8 +97,6 @@ Provide a concise description in 2-3 sentences.`;
       return description.trim();
 
     } catch (error) {
-      clearTimeout(timeoutId);
-
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error(`Vision analysis timeout after ${config.openrouter.timeout}ms`);
       }
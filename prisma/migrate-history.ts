@@ -0,0 +1,133 @@
+/**
+ * history.json → Postgres Migration Command
+ *
+ * Copies assets and versions from history.json into the database and reports
+ * row counts plus field-level diffs. Safe to re-run: identical assets are
+ * skipped and changed ones are upserted.
+ *
+ * Run with: npm run db:migrate-history -- [--dry-run] [--file <path>] [--json]
+ *
+ *   --dry-run     Report what would change without writing
+ *   --file <path> history.json to read (defaults to config.paths.history)
+ *   --json        Print the full report as JSON
+ *
+ * Exits with code 1 if any asset is invalid or verification finds mismatches.
+ */
+
+import { existsSync } from 'fs';
+import { config } from '../lib/config';
+import { createFileHistoryRepository } from '../lib/history-repository';
+import { migrateHistoryToDatabase, type AssetDiff, type HistoryMigrationReport } from '../lib/history-migration';
+import { prisma } from '../lib/prisma';
+
+interface CliOptions {
+  dryRun: boolean;
+  file: string;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { dryRun: false, file: config.paths.history, json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--file') {
+      options.file = argv[++i];
+    } else if (arg.startsWith('--file=')) {
+      options.file = arg.slice('--file='.length);
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!options.file) {
+    throw new Error('--file requires a path');
+  }
+
+  return options;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(absent)' : JSON.stringify(value);
+}
+
+function printDiffs(label: string, assetDiffs: AssetDiff[]): void {
+  for (const { id, diffs } of assetDiffs) {
+    console.log(`  ${label} ${id}`);
+    for (const diff of diffs) {
+      console.log(`    ${diff.path}: ${formatValue(diff.actual)} → ${formatValue(diff.expected)}`);
+    }
+  }
+}
+
+function printReport(report: HistoryMigrationReport): void {
+  console.log(`\nSource (history.json): ${report.source.assets} assets, ${report.source.versions} versions`);
+  console.log(`Database before:       ${report.database.assets} assets, ${report.database.versions} versions\n`);
+
+  console.log(`  - Create:    ${report.created.length}`);
+  console.log(`  - Update:    ${report.updated.length}`);
+  console.log(`  - Unchanged: ${report.unchanged.length}`);
+  console.log(`  - Invalid:   ${report.invalid.length}`);
+  console.log(`  - DB only:   ${report.extra.length} (left in place)\n`);
+
+  if (report.updated.length > 0) {
+    console.log('Field differences (database → history.json):');
+    printDiffs('~', report.updated);
+    console.log('');
+  }
+
+  for (const { id, error } of report.invalid) {
+    console.log(`  ✗ ${id}: ${error}`);
+  }
+
+  if (report.verification) {
+    const { assets, versions, mismatches } = report.verification;
+    console.log(`Database after:        ${assets} assets, ${versions} versions`);
+    if (mismatches.length > 0) {
+      console.log(`\n❌ Verification failed for ${mismatches.length} asset(s):`);
+      printDiffs('!', mismatches);
+    } else {
+      console.log('✅ Verification passed: database matches history.json');
+    }
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!prisma) {
+    throw new Error('DATABASE_URL is not configured');
+  }
+
+  if (!existsSync(options.file)) {
+    throw new Error(`History file not found: ${options.file}`);
+  }
+
+  console.log(`${options.dryRun ? '🔍 Dry run: ' : '🚚 '}Migrating ${options.file} to database...`);
+
+  const history = await createFileHistoryRepository(options.file).read();
+  const report = await migrateHistoryToDatabase(prisma, history, { dryRun: options.dryRun });
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  if (report.invalid.length > 0 || (report.verification?.mismatches.length ?? 0) > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error migrating history:', e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma?.$disconnect();
+  });
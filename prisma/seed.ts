@@ -3,6 +3,8 @@
  *
  * Populates the database with sample assets and versions for testing.
  * Run with: npx prisma db seed
+ *
+ * For real cutovers, import history.json with `npm run db:migrate-history` instead.
  */
 
 import { PrismaClient, Status } from '@prisma/client';
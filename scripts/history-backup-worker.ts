@@ -0,0 +1,44 @@
+/**
+ * Standalone History Backup Worker
+ *
+ * Runs scheduled history backups outside the Next.js server. Use with
+ * S3_HISTORY_BACKUP_RUNNER=worker so the app doesn't also run them.
+ *
+ * Run with: npm run backup:worker [-- --once]
+ *
+ *   --once   Run a single backup + prune and exit (for system cron)
+ *
+ * Point AWS_S3_ENDPOINT at an S3-compatible store (e.g. MinIO) to test locally.
+ */
+
+import { config } from '../lib/config';
+import { runHistoryBackup, startHistoryBackupScheduler } from '../lib/history-backup-runner';
+
+async function main() {
+  if (process.argv.includes('--once')) {
+    const result = await runHistoryBackup();
+    if (!result.success) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (!config.s3.historyBackupEnabled) {
+    console.warn('⚠️  S3_HISTORY_BACKUP_ENABLED is not true; worker not started');
+    return;
+  }
+
+  const scheduler = startHistoryBackupScheduler();
+
+  const shutdown = () => {
+    console.log('Stopping history backup worker...');
+    scheduler.stop();
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((e) => {
+  console.error('❌ History backup worker failed:', e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
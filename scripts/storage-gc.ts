@@ -0,0 +1,59 @@
+/**
+ * Storage Garbage Collection
+ *
+ * Reports stored files that history no longer references and previews past
+ * PREVIEW_RETENTION_DAYS, then optionally deletes them.
+ *
+ * Run with: npm run storage:gc [-- --apply --json]
+ *
+ *   --apply  Delete the reported files (default is a dry run)
+ *   --json   Print the full report as JSON
+ */
+
+import { runStorageGc, type StorageGcItem } from '../lib/storage-gc';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+function printItems(title: string, items: StorageGcItem[]) {
+  console.log(`\n${title} (${items.length}):`);
+  for (const item of items) {
+    const owner = item.asset_id ? ` [${item.asset_id} v${item.version}]` : '';
+    console.log(`  ${item.key}  ${formatBytes(item.size)}${owner}`);
+  }
+}
+
+async function main() {
+  const apply = process.argv.includes('--apply');
+  const report = await runStorageGc({ dryRun: !apply, actor: 'storage:gc' });
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Scanned ${report.scanned_files} file(s), ${formatBytes(report.scanned_bytes)}`);
+    printItems('Orphaned files', report.orphans);
+    printItems(`Previews older than ${report.retention_days} day(s)`, report.expired_previews);
+    console.log(`\nReclaimable: ${formatBytes(report.reclaimable_bytes)}`);
+
+    if (apply) {
+      console.log(`✅ Deleted ${report.deleted.length} file(s), ${formatBytes(report.deleted_bytes)}`);
+      for (const failure of report.errors) {
+        console.error(`❌ ${failure.key}: ${failure.error}`);
+      }
+    } else {
+      console.log('Dry run: nothing deleted. Re-run with --apply to delete.');
+    }
+  }
+
+  if (report.errors.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((e) => {
+  console.error('❌ Storage GC failed:', e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,47 @@
+/**
+ * Trash Purge
+ *
+ * Lists assets that have been in the trash longer than TRASH_RETENTION_DAYS,
+ * then optionally purges them (history record and stored files).
+ *
+ * Run with: npm run trash:purge [-- --apply --json]
+ *
+ *   --apply  Purge the listed assets (default is a dry run)
+ *   --json   Print the full report as JSON
+ */
+
+import { purgeTrash } from '../lib/trash';
+
+async function main() {
+  const apply = process.argv.includes('--apply');
+  const report = await purgeTrash({ dryRun: !apply, actor: 'trash:purge' });
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (report.retention_days <= 0) {
+    console.log('TRASH_RETENTION_DAYS is 0: trashed assets are kept until restored.');
+  } else {
+    console.log(`Assets in the trash for more than ${report.retention_days} day(s) (${report.purged.length}):`);
+    for (const asset of report.purged) {
+      console.log(`  ${asset.asset_id}  deleted ${asset.deleted_at}  ${asset.files.length} file(s)  ${asset.meta_description}`);
+    }
+
+    if (apply) {
+      console.log(`✅ Purged ${report.purged.length} asset(s), deleted ${report.deleted_files.length} file(s)`);
+      for (const failure of report.errors) {
+        console.error(`❌ ${failure.key}: ${failure.error}`);
+      }
+    } else {
+      console.log('Dry run: nothing purged. Re-run with --apply to purge.');
+    }
+  }
+
+  if (report.errors.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((e) => {
+  console.error('❌ Trash purge failed:', e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});